@@ -1,18 +1,33 @@
 
 
 
-import React, { useState, useMemo, useCallback, createContext } from 'react';
+import React, { useState, useEffect, useMemo, useRef, createContext } from 'react';
 import { GoogleGenAI, Type } from "@google/genai";
 import { MainMenu } from './components/MainMenu.tsx';
 import { CreateWorld } from './components/CreateWorld.tsx';
 import { GameScreen } from './components/GameScreen.tsx';
 import { ApiSettingsModal } from './components/ApiSettingsModal.tsx';
 import { ChangelogModal } from './components/ChangelogModal.tsx';
+import { UsageDashboardModal } from './components/UsageDashboardModal.tsx';
 import { InitializationProgress } from './components/InitializationProgress.tsx';
 import type { SaveData, Entity, AIContextType, FormData, CustomRule, KnownEntities } from './components/types.ts';
 import { CHANGELOG_DATA } from './components/data/changelog.ts';
 import { ReferenceIdGenerator } from './components/utils/ReferenceIdGenerator.ts';
-import { parseOpenAiCompatibleResponse } from './components/utils/openAiCompatibleResponse.ts';
+import { createLLMProvider, isAbortError } from './components/utils/llmProvider.ts';
+import type { LLMProvider } from './components/utils/llmProvider.ts';
+import { DEFAULT_FAILOVER_SETTINGS } from './components/utils/llmRetryPolicy.ts';
+import type { LLMAttemptRecord, LLMFailoverSettings } from './components/utils/llmRetryPolicy.ts';
+import { llmAttemptLog } from './components/utils/llmAttemptLog.ts';
+import { usageLedger } from './components/utils/usageLedger.ts';
+import { tokenCounter } from './components/utils/tokenCounter.ts';
+import { parseModelProfiles, resolveTaskModels } from './components/utils/modelProfiles.ts';
+import type { LLMTask, LLMTaskModel, ModelProfiles } from './components/utils/modelProfiles.ts';
+import type { MockLLMFixture } from './components/utils/llmProviders/mockProvider.ts';
+import { DEFAULT_MOCK_LLM_FIXTURE } from './components/data/mockLlmFixture.ts';
+import { isValidSaveData, migrateLoadedSave } from './components/utils/saveDataUtils.ts';
+import { CURRENT_SAVE_SCHEMA_VERSION } from './components/utils/SaveDataMigration.ts';
+import { createStartingWallet } from './components/utils/economy.ts';
+import { SaveSlotModal } from './components/SaveSlotModal.tsx';
 
 // --- Hằng số ---
 export const DEFAULT_SYSTEM_INSTRUCTION = `BẠN LÀ QUẢN TRÒ (GM) AI. Nhiệm vụ: điều khiển trò chơi nhập vai văn bản, tuân thủ NGHIÊM NGẶT:
@@ -65,42 +80,31 @@ test
    - Khi khám phá địa điểm mới: \`[LORE_LOCATION: name="Tên địa điểm", description="Mô tả chi tiết"]\`
 
 **B. CHỦ ĐỘNG TẠO TRẠNG THÁI:**
+Cú pháp các thẻ STATUS_APPLIED_SELF, STATUS_APPLIED_NPC, STATUS_CURED_SELF, STATUS_CURED_NPC nằm trong mục "--- THẺ LỆNH ---".
 
-**I. FORMAT CHÍNH XÁC:**
-• Cho Player: \'[STATUS_APPLIED_SELF: name="Tên", description="Mô tả", type="buff/debuff/neutral/injury", effects="Tác động", source="Nguồn gốc", duration="Thời gian", cureConditions="Điều kiện chữa"]\'
-• Cho NPC: \'[STATUS_APPLIED_NPC: npcName="Tên NPC CHÍNH XÁC", name="Tên", description="Mô tả", type="buff/debuff/neutral/injury", effects="Tác động", source="Nguồn gốc", duration="Thời gian", cureConditions="Điều kiện chữa"]\'
-
-**II. THUỘC TÍNH BẮT BUỘC:**
+**I. THUỘC TÍNH BẮT BUỘC:**
 • name, description, type, source, duration - PHẢI có đầy đủ
 • effects - Mô tả cụ thể tác động lên gameplay
 • cureConditions - Nếu có thể chữa được
+• tickEffect (tùy chọn) - Tác động lặp lại mỗi lượt, VD: "Mất 5 HP mỗi lượt"
+• stacking (tùy chọn) - "refresh" (làm mới thời gian), "stack" (cộng dồn tầng), "extend" (cộng thêm thời gian); maxStacks giới hạn số tầng
 
-***III. CHỦ ĐỘNG TẠO STATUS TRONG CÁC TÌNH HUỐNG:**
-
-1. **Sau Chiến Đấu:**
-   \'[STATUS_APPLIED_SELF: name="Gãy Xương Tay", description="Tay trái đau nhói, không cử động được", type="injury", effects="Không thể dùng tay trái", source="Đòn tấn công", duration="Cho đến khi chữa trị", cureConditions="Cần nẹp và băng bó"]\'
-
-2. **Trạng Thái Tinh Thần:**
-   \'[STATUS_APPLIED_SELF: name="Hưng Phấn Chiến Đấu", description="Adrenaline tuôn trào", type="buff", effects="Tăng sát thương, giảm phòng thủ", source="Trận chiến kịch tính", duration="3 lượt"]\'
-
-3. **Môi Trường:**
-   \'[STATUS_APPLIED_SELF: name="Mưa Tầm Tã", description="Mưa che khuất tầm nhìn", type="neutral", effects="Giảm độ chính xác tầm xa, tăng ẩn nấp", source="Môi trường", duration="Cho đến khi tạnh mưa"]\'
+**II. CHỦ ĐỘNG TẠO STATUS TRONG CÁC TÌNH HUỐNG:**
+1. **Sau Chiến Đấu:** chấn thương như "Gãy Xương Tay" (injury, không thể dùng tay trái, cần nẹp và băng bó)
+2. **Trạng Thái Tinh Thần:** như "Hưng Phấn Chiến Đấu" (buff, tăng sát thương nhưng giảm phòng thủ, 3 lượt)
+3. **Môi Trường:** như "Mưa Tầm Tã" (neutral, giảm độ chính xác tầm xa, kéo dài cho đến khi tạnh mưa)
+4. **Cho NPCs:** như "Hoảng Loạn" khi chứng kiến đồng bọn thất bại (debuff, có thể bỏ chạy, 2 lượt)
 
-4. **Cho NPCs:**
-   \'[STATUS_APPLIED_NPC: npcName="Thục Nhi", name="Hoảng Loạn", description="Mất ý chí chiến đấu", type="debuff", effects="Giảm độ chính xác, có thể bỏ chạy", source="Chứng kiến đồng bọn thất bại", duration="2 lượt"]\'
-
-*IV. TRẠNG THÁI TIẾN TRIỂN:**
+**III. TRẠNG THÁI TIẾN TRIỂN:**
 • Injury không chữa → trở thành vĩnh viễn/tệ hơn
 • Ví dụ: "Gãy Xương" → "Di Tật Vĩnh Viễn" nếu không chữa
 
-**V. XÓA TRẠNG THÁI:**
-• \'[STATUS_CURED_SELF: name="Tên Trạng Thái"]\'
-• \'[STATUS_CURED_NPC: npcName="Tên NPC", name="Tên Trạng Thái"]\'
-
-**V. LƯU Ý QUAN TRỌNG:**
+**IV. LƯU Ý QUAN TRỌNG:**
 • npcName PHẢI trùng CHÍNH XÁC với tên entity
 • KHÔNG dùng STATUS_APPLIED_SELF cho NPC
-• Duration phải specific: "3 lượt", "Vĩnh viễn", "Cho đến khi chữa"
+• Duration phải specific: "3 lượt", "2 giờ", "1 ngày", "Vĩnh viễn", "Cho đến khi chữa"
+• Trạng thái có thời hạn (lượt/phút/giờ/ngày) được hệ thống tự trừ theo lượt và TIME_ELAPSED, tự gỡ khi hết hạn - không cần STATUS_CURED
+• Trạng thái được chữa khỏi trong truyện PHẢI được xóa bằng STATUS_CURED_SELF/STATUS_CURED_NPC
 • Effects phải mô tả tác động gameplay cụ thể
 
 **C. TẠO VÀ CẬP NHẬT THỰC THỂ:**
@@ -133,19 +137,12 @@ test
 - Ví dụ ĐÚNG: \`name="Hoàng Đế Nội Kinh"\`, \`name="Kỹ Vọng và Sợ Hãi"\`
 - Ví dụ SAI: \`name="⭐Hoàng Đế Nội Kinh⭐"\`, \`name="**⭐Kỹ Vọng⭐**"\`
 
-*   **Hệ thống Vật phẩm & Trang bị:**
-        *   \`[ITEM_AQUIRED: name="..." description="..." ...]\`
-        *   \`[ITEM_DAMAGED: name="Tên Item" damage="10"]\`
-        *   \`[ITEM_CONSUMED: name="Tên Item" quantity="1"]\`: Sử dụng/tiêu thụ vật phẩm HOẶC đưa/tặng/ban/cho item cho người khác. Hỗ trợ tham số "quantity" để xử lý nhiều cùng lúc. **BẮT BUỘC** dùng khi PC đưa item cho NPC/người khác để cập nhật inventory.
-        *   \`[ITEM_TRANSFORMED: oldName="Tên item cũ", newName="Tên item mới", description="Mô tả mới", ...]\`
-        *   \`[ITEM_EQUIPPED: name="Tên Item"]\`: Trang bị một vật phẩm cho nhân vật chính. Vật phẩm phải có \`equippable="true"\`.
-        *   \`[ITEM_UNEQUIPPED: name="Tên Item"]\`: Tháo một vật phẩm đã trang bị.
-        *   \`[ITEM_DISCARDED: name="Tên Item"]\`: Vứt bỏ một vật phẩm khỏi túi đồ của nhân vật chính. Vật phẩm sẽ bị xóa hoàn toàn khỏi inventory.
+*   **Hệ thống Vật phẩm & Trang bị:** (cú pháp các thẻ ITEM_* nằm trong mục "--- THẺ LỆNH ---")
+        *   Chỉ trang bị (ITEM_EQUIPPED) vật phẩm có \`equippable=true\`; vứt bỏ (ITEM_DISCARDED) sẽ xóa hoàn toàn vật phẩm khỏi túi đồ.
         
         **📤 QUAN TRỌNG - Quy tắc đưa/tặng item:**
-        *   Khi PC **đưa/tặng/ban/cho** item cho NPC/người khác, **BẮT BUỘC** phải dùng \`[ITEM_CONSUMED: name="..." quantity="số lượng"]\`
-        *   Ví dụ: "Tôi đưa 3 Devil Fruit cho Luffy" → \`[ITEM_CONSUMED: name="Devil Fruit thần bí" quantity="3"]\`
-        *   Ví dụ: "Tặng kiếm cho đồng đội" → \`[ITEM_CONSUMED: name="Tên kiếm"]\`
+        *   Khi PC **đưa/tặng/ban/cho** item cho NPC/người khác, **BẮT BUỘC** phải dùng ITEM_CONSUMED với quantity là số lượng đưa đi
+        *   Ví dụ: "Tôi đưa 3 Devil Fruit cho Luffy" → ITEM_CONSUMED cho "Devil Fruit thần bí" với quantity=3
         *   **KHÔNG được quên** tag này khi viết cảnh đưa item, nếu không inventory sẽ không sync!
 
 *   **Các Thẻ Quan Trọng Khác:**
@@ -158,11 +155,8 @@ test
 
 **D. NHIỆM VỤ VÀ QUEST:**
 **BẮT BUỘC TẠO MỘT NHIỆM VỤ KHI VỪA BẮT ĐẦU GAME VÀ TẠO THÊM NHIỆM VỤ MỚI KHI NHIỆM VỤ ĐÓ HOÀN THÀNH**
-Chủ động tạo quest mới và cập nhật quest hiện tại:
-\`[QUEST_ASSIGNED: title="Tên nhiệm vụ", description="Mô tả", objectives="Mục tiêu 1;Mục tiêu 2", giver="Người giao", reward="Phần thưởng", isMainQuest=false]\`
-\`[QUEST_UPDATED: title="...", status="completed|failed"]\`
-\`[QUEST_OBJECTIVE_COMPLETED: questTitle="...", objectiveDescription="..."]\`
-**TỰ ĐỘNG TRAO THƯỞNG (BẮT BUỘC):** Khi một nhiệm vụ được cập nhật thành \`completed\`, bạn **PHẢI** kiểm tra ngay lập tức thuộc tính \`reward\` của nhiệm vụ đó. Nếu có phần thưởng, bạn **BẮT BUỘC** phải dùng các thẻ \`[ITEM_AQUIRED: ...]\` hoặc \`[SKILL_LEARNED: ...]\` để trao phần thưởng cho người chơi. Phần thưởng này sau đó phải được thêm vào "Tri Thức Thế Giới".
+Chủ động tạo quest mới (QUEST_ASSIGNED) và cập nhật quest hiện tại (QUEST_UPDATED, QUEST_OBJECTIVE_COMPLETED); cú pháp nằm trong mục "--- THẺ LỆNH ---".
+**TỰ ĐỘNG TRAO THƯỞNG (BẮT BUỘC):** Khi một nhiệm vụ được cập nhật thành \`completed\`, bạn **PHẢI** kiểm tra ngay lập tức thuộc tính \`reward\` của nhiệm vụ đó. Nếu có phần thưởng, bạn **BẮT BUỘC** phải dùng các thẻ ITEM_AQUIRED hoặc SKILL_LEARNED để trao phần thưởng cho người chơi. Phần thưởng này sau đó phải được thêm vào "Tri Thức Thế Giới".
 
 --- QUY TẮC TƯƠNG TÁC ---
 
@@ -379,9 +373,15 @@ Trước khi hoàn thành phản hồi, hãy tự kiểm tra theo thứ tự:
 
 **FINAL REMINDER:**
 "Bạn là người kể chuyện CHỦ ĐỘNG và sáng tạo. Thế giới phải SỐNG và PHẢN ỨNG với mọi hành động. Không bao giờ để game trở nên tĩnh lặng hay nhàm chán!"`;
+// Mỗi lần gọi AI vào bảng nhà phát triển và sổ sử dụng/chi phí
+const recordLLMAttempt = (record: LLMAttemptRecord) => {
+    llmAttemptLog.record(record);
+    usageLedger.record(record);
+};
+
 // --- Ngữ cảnh AI cho dependency injection ---
 export const AIContext = createContext<AIContextType>({
-    ai: null,
+    llmProvider: null,
     isAiReady: false,
     apiKeyError: null,
     isUsingDefaultKey: true,
@@ -391,8 +391,12 @@ export const AIContext = createContext<AIContextType>({
     temperature: 0.9,
     topK: 40,
     topP: 0.95,
-    openAiBaseUrl: '',
-    openAiApiKey: '',
+    enableToolCalling: false,
+    taskModels: {
+        story: { provider: null, model: 'gemini-2.5-flash', temperature: 0.9, topK: 40, topP: 0.95 },
+        suggestion: { provider: null, model: 'gemini-2.5-flash', temperature: 0.9, topK: 40, topP: 0.95 },
+        memory: { provider: null, model: 'gemini-2.5-flash', temperature: 0.9, topK: 40, topP: 0.95 }
+    },
 });
 
 export default function App() {
@@ -400,10 +404,16 @@ export default function App() {
   const [gameState, setGameState] = useState<SaveData | null>(null);
   const [isApiSettingsModalOpen, setIsApiSettingsModalOpen] = useState(false);
   const [isChangelogModalOpen, setIsChangelogModalOpen] = useState(false);
+  const [isUsageDashboardOpen, setIsUsageDashboardOpen] = useState(false);
+  const [isSaveSlotModalOpen, setIsSaveSlotModalOpen] = useState(false);
   const [keyRotationNotification, setKeyRotationNotification] = useState<string | null>(null);
+  // Tóm tắt migration của bản lưu vừa tải, hiển thị khi vào màn chơi
+  const [loadNotification, setLoadNotification] = useState<string | null>(null);
   
   // Theo dõi tiến trình khởi tạo game
   const [isInitializing, setIsInitializing] = useState(false);
+  // Các lời gọi AI khi tạo thế giới mới, hủy được bằng nút Hủy trên màn hình khởi tạo
+  const newGameAbortRef = useRef<AbortController | null>(null);
   const [initProgress, setInitProgress] = useState(0);
   const [initCurrentStep, setInitCurrentStep] = useState('');
   const [initSubStep, setInitSubStep] = useState('');
@@ -440,6 +450,24 @@ export default function App() {
   const [openAiApiKey, setOpenAiApiKey] = useState<string>(() => {
       return localStorage.getItem('openai_api_key') || '';
   });
+  const [failoverSettings, setFailoverSettings] = useState<LLMFailoverSettings>(() => {
+      const saved = localStorage.getItem('llm_failover_settings');
+      return saved ? { ...DEFAULT_FAILOVER_SETTINGS, ...JSON.parse(saved) } : DEFAULT_FAILOVER_SETTINGS;
+  });
+  const [modelProfiles, setModelProfiles] = useState<ModelProfiles>(() => {
+      return parseModelProfiles(localStorage.getItem('llm_model_profiles'));
+  });
+  const [isToolCallingEnabled, setIsToolCallingEnabled] = useState<boolean>(() => {
+      return localStorage.getItem('llm_tool_calling') === 'true';
+  });
+  // --- AI giả lập (offline) ---
+  const [isMockAiEnabled, setIsMockAiEnabled] = useState<boolean>(() => {
+      return localStorage.getItem('llm_mock_enabled') === 'true';
+  });
+  const [mockFixture, setMockFixture] = useState<MockLLMFixture>(() => {
+      const saved = localStorage.getItem('llm_mock_fixture');
+      return saved ? JSON.parse(saved) : DEFAULT_MOCK_LLM_FIXTURE;
+  });
 
   // --- Thể hiện AI được memoized ---
   const activeKey = useMemo(() => {
@@ -454,10 +482,24 @@ export default function App() {
   }, [isUsingDefaultKey, userApiKeys, activeUserApiKeyIndex]);
 
   const { ai, isAiReady, apiKeyError } = useMemo(() => {
-      // If OpenAI compatible endpoint is configured, treat AI as ready without needing a Gemini key
+      if (isMockAiEnabled) {
+        return { ai: null, isAiReady: true, apiKeyError: null };
+      }
+      // Gemini được khởi tạo khi có key kể cả lúc endpoint là backend chính, để hồ sơ tác vụ có thể chọn Gemini
+      let genAI: GoogleGenAI | null = null;
+      let initError: string | null = null;
+      if (activeKey) {
+        try {
+          genAI = new GoogleGenAI({ apiKey: activeKey });
+        } catch (e: any) {
+          console.error("Không thể khởi tạo GoogleGenAI:", e);
+          initError = `Lỗi khởi tạo AI: ${e.message}`;
+        }
+      }
+      // Endpoint (chính hoặc dự phòng) vẫn dùng được khi chưa có Gemini key
       if (openAiBaseUrl.trim()) {
         console.debug('[App] OpenAI endpoint configured, AI is ready without Gemini key.');
-        return { ai: null, isAiReady: true, apiKeyError: null };
+        return { ai: genAI, isAiReady: true, apiKeyError: null };
       }
       if (!activeKey) {
         return {
@@ -466,14 +508,8 @@ export default function App() {
           apiKeyError: "API Key chưa được thiết lập. Vui lòng vào phần Thiết Lập API Key."
         };
       }
-      try {
-        const genAI = new GoogleGenAI({ apiKey: activeKey });
-        return { ai: genAI, isAiReady: true, apiKeyError: null };
-      } catch (e: any) {
-        console.error("Không thể khởi tạo GoogleGenAI:", e);
-        return { ai: null, isAiReady: false, apiKeyError: `Lỗi khởi tạo AI: ${e.message}` };
-      }
-  }, [activeKey, openAiBaseUrl]);
+      return { ai: genAI, isAiReady: !!genAI, apiKeyError: initError };
+  }, [activeKey, openAiBaseUrl, isMockAiEnabled]);
   
   // --- Quản lý API Key ---
   const handleSaveApiKeys = (newKeys: string[]) => {
@@ -509,45 +545,64 @@ export default function App() {
       console.debug('[App] OpenAI settings saved. url:', baseUrl, 'hasKey:', !!apiKey);
   };
 
-  const hasOpenAiEndpoint = openAiBaseUrl.trim().length > 0;
+  const handleFailoverSettingsSave = (settings: LLMFailoverSettings) => {
+      setFailoverSettings(settings);
+      localStorage.setItem('llm_failover_settings', JSON.stringify(settings));
+  };
 
-  const callOpenAiCompatibleApi = useCallback(async (
-      messages: { role: string; content: string }[],
-      jsonMode = false
-  ): Promise<string> => {
-      const baseUrl = openAiBaseUrl.trim().replace(/\/$/, '');
-      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
-      if (openAiApiKey.trim()) {
-          headers['Authorization'] = `Bearer ${openAiApiKey.trim()}`;
-      }
+  const handleModelProfilesSave = (profiles: ModelProfiles) => {
+      setModelProfiles(profiles);
+      localStorage.setItem('llm_model_profiles', JSON.stringify(profiles));
+  };
 
-      const body: Record<string, any> = {
-          model: selectedAiModel,
-          messages,
-          temperature: aiTemperature,
-          top_p: aiTopP,
-          stream: true,
-      };
+  const handleToolCallingChange = (enabled: boolean) => {
+      setIsToolCallingEnabled(enabled);
+      localStorage.setItem('llm_tool_calling', String(enabled));
+  };
 
-      if (jsonMode) {
-          body.response_format = { type: 'json_object' };
+  // fixture null = dùng kịch bản mặc định
+  const handleMockSettingsSave = (enabled: boolean, fixture: MockLLMFixture | null) => {
+      setIsMockAiEnabled(enabled);
+      setMockFixture(fixture ?? DEFAULT_MOCK_LLM_FIXTURE);
+      localStorage.setItem('llm_mock_enabled', String(enabled));
+      if (fixture) {
+          localStorage.setItem('llm_mock_fixture', JSON.stringify(fixture));
+      } else {
+          localStorage.removeItem('llm_mock_fixture');
       }
+  };
 
-      console.debug('[App] Calling OpenAI compatible endpoint:', `${baseUrl}/chat/completions`, 'model:', selectedAiModel);
-      const response = await fetch(`${baseUrl}/chat/completions`, {
-          method: 'POST',
-          headers,
-          body: JSON.stringify(body)
-      });
-
-      if (!response.ok) {
-          const errorText = await response.text();
-          throw new Error(`OpenAI API HTTP ${response.status}: ${errorText}`);
-      }
+  // Mọi lời gọi AI đều đi qua provider, không phân nhánh theo backend
+  const llmProvider: LLMProvider | null = useMemo(
+      () => createLLMProvider({
+          ai, model: selectedAiModel, openAiBaseUrl, openAiApiKey,
+          failover: failoverSettings,
+          mockFixture: isMockAiEnabled ? mockFixture : null,
+          onAttempt: recordLLMAttempt
+      }),
+      [ai, selectedAiModel, openAiBaseUrl, openAiApiKey, failoverSettings, isMockAiEnabled, mockFixture]
+  );
 
-      const data = await parseOpenAiCompatibleResponse(response);
-      return data.text;
-  }, [openAiApiKey, openAiBaseUrl, selectedAiModel, aiTemperature, aiTopP]);
+  // Ngân sách prompt và hệ số hiệu chỉnh token theo model của lượt truyện
+  useEffect(() => {
+      tokenCounter.setActiveModel(selectedAiModel);
+  }, [selectedAiModel]);
+
+  // Hồ sơ tác vụ dùng chung key/endpoint nhưng có model, tham số và backend riêng; không kế thừa model dự phòng của lượt truyện
+  const taskModels: Record<LLMTask, LLMTaskModel> = useMemo(
+      () => resolveTaskModels(
+          { provider: llmProvider, model: selectedAiModel, temperature: aiTemperature, topK: aiTopK, topP: aiTopP },
+          modelProfiles,
+          (profile, model) => createLLMProvider({
+              ai, model, openAiBaseUrl, openAiApiKey,
+              backend: profile.backend,
+              failover: { ...failoverSettings, fallbackModels: [] },
+              mockFixture: isMockAiEnabled ? mockFixture : null,
+              onAttempt: recordLLMAttempt
+          })
+      ),
+      [llmProvider, selectedAiModel, aiTemperature, aiTopK, aiTopP, modelProfiles, ai, openAiBaseUrl, openAiApiKey, failoverSettings, isMockAiEnabled, mockFixture]
+  );
 
   const handleRotateKey = () => {
     if (isUsingDefaultKey || userApiKeys.length <= 1) return;
@@ -602,9 +657,9 @@ export default function App() {
 
 
   // Hàm tạo các thực thể LORE_CONCEPT từ quy tắc tùy chỉnh
-  const generateLoreConcepts = async (activeRules: CustomRule[]): Promise<KnownEntities> => {
+  const generateLoreConcepts = async (activeRules: CustomRule[], signal?: AbortSignal): Promise<KnownEntities> => {
       console.log('🧠 GenerateLoreConcepts: Bắt đầu với', activeRules.length, 'quy tắc đang active');
-      if (!isAiReady || (!ai && !hasOpenAiEndpoint)) {
+      if (!isAiReady || !llmProvider) {
           console.log('🧠 GenerateLoreConcepts: AI chưa sẵn sàng, trả về rỗng');
           return {};
       }
@@ -646,24 +701,16 @@ Trả về JSON với format đã chỉ định.`;
 
       try {
           console.log('🧠 GenerateLoreConcepts: Đang gửi yêu cầu AI...');
-          let responseText = '';
-
-          if (hasOpenAiEndpoint) {
-              responseText = await callOpenAiCompatibleApi([
-                  { role: 'system', content: 'Bạn là AI chuyên tạo JSON hợp lệ cho game RPG. Chỉ trả về JSON hợp lệ, không thêm giải thích.' },
-                  { role: 'user', content: conceptPrompt }
-              ], true);
-          } else {
-              const response = await ai!.models.generateContent({
-                  model: selectedAiModel,
-                  contents: [{ role: 'user', parts: [{ text: conceptPrompt }] }],
-                  config: {
-                      responseMimeType: "application/json",
-                      responseSchema: conceptSchema
-                  }
-              });
-              responseText = response.text?.trim() || '';
-          }
+          const response = await llmProvider.generate({
+              contents: conceptPrompt,
+              systemInstruction: 'Bạn là AI chuyên tạo JSON hợp lệ cho game RPG. Chỉ trả về JSON hợp lệ, không thêm giải thích.',
+              jsonMode: true,
+              responseSchema: conceptSchema,
+              temperature: aiTemperature,
+              topP: aiTopP,
+              signal
+          });
+          const responseText = response.text;
 
           console.log('🧠 GenerateLoreConcepts: Nhận được phản hồi AI');
           if (!responseText) {
@@ -693,6 +740,8 @@ Trả về JSON với format đã chỉ định.`;
           console.log('🧠 GenerateLoreConcepts: Đã tạo các thực thể LORE_CONCEPT:', Object.keys(conceptEntities));
           return conceptEntities;
       } catch (error) {
+          // Người chơi hủy tạo thế giới: để startNewGame dừng hẳn thay vì tiếp tục không có concept
+          if (isAbortError(error)) throw error;
           console.error('🧠 GenerateLoreConcepts: Lỗi tạo LORE_CONCEPT:', error);
           return {};
       }
@@ -700,8 +749,18 @@ Trả về JSON với format đã chỉ định.`;
   
   const startNewGame = async (data: FormData) => {
       console.log('🎮 StartNewGame: Bắt đầu tạo game...');
-      console.log('🎮 StartNewGame: AI Sẵn sàng:', isAiReady, 'AI tồn tại:', !!ai);
+      console.log('🎮 StartNewGame: AI Sẵn sàng:', isAiReady, 'Provider:', llmProvider?.id || 'không có');
       
+      newGameAbortRef.current?.abort();
+      const controller = new AbortController();
+      newGameAbortRef.current = controller;
+      // Hủy giữa chừng thì không tạo game; người chơi ở lại màn hình tạo thế giới với dữ liệu đã nhập
+      const cancelNewGame = () => {
+          console.log('🎮 StartNewGame: Người chơi đã hủy tạo thế giới');
+          if (newGameAbortRef.current === controller) newGameAbortRef.current = null;
+          setIsInitializing(false);
+      };
+
       setIsInitializing(true);
       setInitProgress(10);
       setInitCurrentStep('Đang lưu cấu hình thế giới...');
@@ -730,6 +789,7 @@ Trả về JSON với format đã chỉ định.`;
           learnedSkills: [],
           realm: data.realmTiers && data.realmTiers.length > 0 ? data.realmTiers[0].name : 'Luyện Khí',
           currentExp: 0,
+          wallet: createStartingWallet(data.currencies),
           referenceId: ReferenceIdGenerator.generateReferenceId(data.characterName || 'Vô Danh', 'pc'),
       };
       console.log('🎮 StartNewGame: Thực thể PC đã tạo:', pcEntity.name);
@@ -737,7 +797,7 @@ Trả về JSON với format đã chỉ định.`;
       console.log('🎮 StartNewGame: Động lực PC được đặt thành:', pcEntity.motivation);
 
       // Tạo ngoại hình cho PC nếu AI có sẵn và người dùng chưa cung cấp
-      if (isAiReady && (ai || hasOpenAiEndpoint) && !data.characterAppearance) {
+      if (isAiReady && llmProvider && !data.characterAppearance) {
           setInitProgress(30);
           setInitCurrentStep('Đang tạo ngoại hình nhân vật...');
           setInitSubStep('Sử dụng AI để tạo mô tả ngoại hình');
@@ -752,21 +812,13 @@ Tính cách: ${pcEntity.personality}
 
 Mô tả ngoại hình phải phù hợp với bối cảnh và tính cách, tập trung vào đặc điểm nổi bật.`;
 
-              let appearance = '';
-              if (hasOpenAiEndpoint) {
-                  appearance = await callOpenAiCompatibleApi([
-                      { role: 'user', content: appearancePrompt }
-                  ]);
-              } else {
-                  const appearanceResponse = await ai!.models.generateContent({
-                      model: selectedAiModel,
-                      contents: [{ 
-                          role: 'user', 
-                          parts: [{ text: appearancePrompt }]
-                      }]
-                  });
-                  appearance = appearanceResponse.text?.trim() || '';
-              }
+              const appearanceResponse = await llmProvider.generate({
+                  contents: appearancePrompt,
+                  temperature: aiTemperature,
+                  topP: aiTopP,
+                  signal: controller.signal
+              });
+              const appearance = appearanceResponse.text;
 
               if (appearance) {
                   pcEntity.appearance = appearance;
@@ -775,6 +827,10 @@ Mô tả ngoại hình phải phù hợp với bối cảnh và tính cách, t
                   console.log('🎮 StartNewGame: Tạo ngoại hình PC trả về rỗng');
               }
           } catch (error) {
+              if (isAbortError(error)) {
+                  cancelNewGame();
+                  return;
+              }
               console.error('🎮 StartNewGame: Không thể tạo ngoại hình PC:', error);
           }
           
@@ -843,7 +899,7 @@ Mô tả ngoại hình phải phù hợp với bối cảnh và tính cách, t
           setInitSubStep(`Xử lý ${activeCustomRules.length} quy tắc tùy chỉnh`);
           
           try {
-              const loreConcepts = await generateLoreConcepts(activeCustomRules);
+              const loreConcepts = await generateLoreConcepts(activeCustomRules, controller.signal);
               // Thêm lore concepts vào initialEntities
               Object.keys(loreConcepts).forEach(conceptName => {
                   initialEntities[conceptName] = loreConcepts[conceptName];
@@ -851,12 +907,19 @@ Mô tả ngoại hình phải phù hợp với bối cảnh và tính cách, t
               });
               console.log('🎮 StartNewGame: Tạo LORE_CONCEPT thành công, tổng số concepts:', Object.keys(loreConcepts).length);
           } catch (error) {
+              if (isAbortError(error)) {
+                  cancelNewGame();
+                  return;
+              }
               console.error('🎮 StartNewGame: Lỗi khi tạo LORE_CONCEPT:', error);
           }
       } else {
           console.log('🎮 StartNewGame: Không có quy tắc active, bỏ qua tạo LORE_CONCEPT');
       }
 
+      // Sau bước này không còn lời gọi AI nào để hủy
+      if (newGameAbortRef.current === controller) newGameAbortRef.current = null;
+
       setInitProgress(80);
       setInitCurrentStep('Đang thiết lập trạng thái game...');
       setInitSubStep('Chuẩn bị dữ liệu game');
@@ -867,6 +930,7 @@ Mô tả ngoại hình phải phù hợp với bối cảnh và tính cách, t
       console.log('🎮 StartNewGame: PC trong initialEntities:', initialEntities[pcEntity.name]);
       
       const gameStateData = {
+        schemaVersion: CURRENT_SAVE_SCHEMA_VERSION,
         worldData: worldData,
         knownEntities: initialEntities,
         statuses: [],
@@ -929,59 +993,11 @@ Mô tả ngoại hình phải phù hợp với bối cảnh và tính cách, t
             if (typeof text === 'string') {
                 const loadedJson = JSON.parse(text);
                 // Xác thực cơ bản
-                if (loadedJson.worldData && loadedJson.knownEntities && loadedJson.gameHistory) {
-                    const pc = Object.values(loadedJson.knownEntities).find((e: any) => e.type === 'pc');
-                    // Đảm bảo các trường mới có giá trị mặc định khi tải save cũ
-                    const validatedData: SaveData = {
-                        worldData: {
-                            ...loadedJson.worldData,
-                            startLocation: loadedJson.worldData.startLocation || '', // Tương thích ngược
-                            customStartLocation: loadedJson.worldData.customStartLocation || '', // Tương thích ngược
-                            expName: loadedJson.worldData.expName || 'Kinh Nghiệm', // Tương thích ngược
-                            realmTiers: loadedJson.worldData.realmTiers || [
-                                { id: '1', name: 'Luyện Khí', requiredExp: 0 },
-                                { id: '2', name: 'Trúc Cơ', requiredExp: 100 }
-                            ], // Tương thích ngược
-                        },
-                        knownEntities: loadedJson.knownEntities,
-                        statuses: loadedJson.statuses || [],
-                        quests: loadedJson.quests || [],
-                        gameHistory: loadedJson.gameHistory,
-                        memories: loadedJson.memories || [],
-                        party: loadedJson.party || (pc ? [pc] : []),
-                        customRules: loadedJson.customRules || (loadedJson.userKnowledge ? [{ id: 'imported_knowledge', content: loadedJson.userKnowledge, isActive: true }] : []),
-                        systemInstruction: loadedJson.systemInstruction || DEFAULT_SYSTEM_INSTRUCTION,
-                        turnCount: loadedJson.turnCount || 0,
-                        totalTokens: loadedJson.totalTokens || 0,
-                        gameTime: { 
-                            year: loadedJson.gameTime?.year || 1, 
-                            month: loadedJson.gameTime?.month || 1, 
-                            day: loadedJson.gameTime?.day || 1, 
-                            hour: loadedJson.gameTime?.hour || 8, 
-                            minute: loadedJson.gameTime?.minute || 0 
-                        },
-                        chronicle: loadedJson.chronicle || { memoir: [], chapter: [], turn: [] },
-                        storyLog: loadedJson.storyLog,
-                        choices: loadedJson.choices,
-                        locationDiscoveryOrder: loadedJson.locationDiscoveryOrder,
-                        // Hỗ trợ cho lịch sử nén
-                        compressedHistory: loadedJson.compressedHistory || [],
-                        lastCompressionTurn: loadedJson.lastCompressionTurn || 0,
-                        historyStats: loadedJson.historyStats || {
-                            totalEntriesProcessed: 0,
-                            totalTokensSaved: 0,
-                            compressionCount: 0
-                        },
-                        cleanupStats: loadedJson.cleanupStats || {
-                            totalCleanupsPerformed: 0,
-                            totalTokensSavedFromCleanup: 0,
-                            lastCleanupTurn: 0,
-                            cleanupHistory: []
-                        },
-                    };
-                    delete (validatedData as any).userKnowledge;
+                if (isValidSaveData(loadedJson)) {
+                    const { data: validatedData, notice } = migrateLoadedSave(loadedJson, DEFAULT_SYSTEM_INSTRUCTION);
 
                     setGameState(validatedData);
+                    setLoadNotification(notice);
                     setView('game');
                 } else {
                     alert('Tệp lưu không hợp lệ.');
@@ -995,8 +1011,20 @@ Mô tả ngoại hình phải phù hợp với bối cảnh và tính cách, t
     reader.readAsText(file);
     };
 
+  const handleLoadGameFromSlot = (data: SaveData) => {
+    if (!isValidSaveData(data)) {
+        alert('Slot lưu không hợp lệ.');
+        return;
+    }
+    const { data: migratedData, notice } = migrateLoadedSave(data, DEFAULT_SYSTEM_INSTRUCTION);
+    setGameState(migratedData);
+    setLoadNotification(notice);
+    setView('game');
+  };
+
   const openApiSettings = () => setIsApiSettingsModalOpen(true);
   const openChangelog = () => setIsChangelogModalOpen(true);
+  const openSaveSlots = () => setIsSaveSlotModalOpen(true);
 
   const renderContent = () => {
       switch(view) {
@@ -1015,15 +1043,17 @@ Mô tả ngoại hình phải phù hợp với bối cảnh và tính cách, t
                 onBackToMenu={navigateToMenu} 
                 keyRotationNotification={keyRotationNotification}
                 onClearNotification={() => setKeyRotationNotification(null)}
-              /> : <MainMenu onStartNewAdventure={navigateToCreateWorld} onQuickPlay={quickPlay} hasLastWorldSetup={!!getLastWorldSetup()} onOpenApiSettings={openApiSettings} onLoadGameFromFile={handleLoadGameFromFile} isUsingDefaultKey={isUsingDefaultKey} onOpenChangelog={openChangelog} selectedAiModel={selectedAiModel}/>;
+                loadNotification={loadNotification}
+                onClearLoadNotification={() => setLoadNotification(null)}
+              /> : <MainMenu onStartNewAdventure={navigateToCreateWorld} onQuickPlay={quickPlay} hasLastWorldSetup={!!getLastWorldSetup()} onOpenApiSettings={openApiSettings} onLoadGameFromFile={handleLoadGameFromFile} onOpenSaveSlots={openSaveSlots} isUsingDefaultKey={isUsingDefaultKey} onOpenChangelog={openChangelog} selectedAiModel={selectedAiModel}/>;
           case 'menu':
           default:
-              return <MainMenu onStartNewAdventure={navigateToCreateWorld} onQuickPlay={quickPlay} hasLastWorldSetup={!!getLastWorldSetup()} onOpenApiSettings={openApiSettings} onLoadGameFromFile={handleLoadGameFromFile} isUsingDefaultKey={isUsingDefaultKey} onOpenChangelog={openChangelog} selectedAiModel={selectedAiModel}/>;
+              return <MainMenu onStartNewAdventure={navigateToCreateWorld} onQuickPlay={quickPlay} hasLastWorldSetup={!!getLastWorldSetup()} onOpenApiSettings={openApiSettings} onLoadGameFromFile={handleLoadGameFromFile} onOpenSaveSlots={openSaveSlots} isUsingDefaultKey={isUsingDefaultKey} onOpenChangelog={openChangelog} selectedAiModel={selectedAiModel}/>;
       }
   }
 
   return (
-    <AIContext.Provider value={{ ai, isAiReady, apiKeyError, isUsingDefaultKey, userApiKeyCount: userApiKeys.length, rotateKey: handleRotateKey, selectedModel: selectedAiModel, temperature: aiTemperature, topK: aiTopK, topP: aiTopP, openAiBaseUrl, openAiApiKey }}>
+    <AIContext.Provider value={{ llmProvider, isAiReady, apiKeyError, isUsingDefaultKey, userApiKeyCount: userApiKeys.length, rotateKey: handleRotateKey, selectedModel: selectedAiModel, temperature: aiTemperature, topK: aiTopK, topP: aiTopP, enableToolCalling: isToolCallingEnabled, taskModels }}>
       <style>{`
         .am-kim {
             background: linear-gradient(135deg, #ca8a04, #eab308, #fde047);
@@ -1068,6 +1098,7 @@ Mô tả ngoại hình phải phù hợp với bối cảnh và tính cách, t
           currentStep={initCurrentStep}
           progress={initProgress}
           subStep={initSubStep}
+          onCancel={() => newGameAbortRef.current?.abort()}
         />
         
         <ApiSettingsModal 
@@ -1085,12 +1116,32 @@ Mô tả ngoại hình phải phù hợp với bối cảnh và tính cách, t
           openAiBaseUrl={openAiBaseUrl}
           openAiApiKey={openAiApiKey}
           onOpenAiSettingsSave={handleOpenAiSettingsSave}
+          failoverSettings={failoverSettings}
+          onFailoverSettingsSave={handleFailoverSettingsSave}
+          isMockAiEnabled={isMockAiEnabled}
+          mockFixture={mockFixture}
+          onMockSettingsSave={handleMockSettingsSave}
+          isToolCallingEnabled={isToolCallingEnabled}
+          onToolCallingChange={handleToolCallingChange}
+          modelProfiles={modelProfiles}
+          onModelProfilesSave={handleModelProfilesSave}
+          onOpenUsageDashboard={() => setIsUsageDashboardOpen(true)}
+        />
+        <UsageDashboardModal
+            isOpen={isUsageDashboardOpen}
+            onClose={() => setIsUsageDashboardOpen(false)}
         />
         <ChangelogModal
             isOpen={isChangelogModalOpen}
             onClose={() => setIsChangelogModalOpen(false)}
             changelogData={CHANGELOG_DATA}
         />
+        <SaveSlotModal
+            isOpen={isSaveSlotModalOpen}
+            onClose={() => setIsSaveSlotModalOpen(false)}
+            mode="load"
+            onLoadSlot={handleLoadGameFromSlot}
+        />
       </div>
     </AIContext.Provider>
   );
@@ -1,5 +1,48 @@
-import React, { useState } from 'react';
+import React, { useState, useSyncExternalStore } from 'react';
 import type { Entity } from './types';
+import { commandTagDiagnostics } from './utils/commandTagDiagnostics';
+import type { CommandTagDiagnosticEntry } from './utils/commandTagDiagnostics';
+import { llmAttemptLog } from './utils/llmAttemptLog';
+import type { LLMAttemptLogEntry } from './utils/llmAttemptLog';
+import { jsonRepairLog } from './utils/jsonRepairLog';
+import type { JsonRepairLogSnapshot } from './utils/jsonRepairLog';
+import { promptInspector, PROMPT_SECTION_LABELS } from './utils/promptInspector';
+import type { PromptInspection, PromptSection } from './utils/promptInspector';
+
+const TAG_DIAGNOSTIC_SOURCE_LABELS = {
+    parser: 'Cú pháp',
+    unprocessed: 'Chưa xử lý',
+    reducer: 'Lỗi áp dụng'
+};
+
+const ATTEMPT_OUTCOME_LABELS = {
+    success: 'Thành công',
+    transient: 'Lỗi tạm thời',
+    auth: 'Lỗi xác thực',
+    quota: 'Hết hạn mức',
+    content_blocked: 'Nội dung bị chặn',
+    aborted: 'Đã hủy',
+    unknown: 'Lỗi khác'
+};
+
+const JSON_REPAIR_LABELS = {
+    repaired: 'Tự sửa',
+    reasked: 'Hỏi lại',
+    failed: 'Thất bại',
+    code_fence: 'Khối markdown',
+    surrounding_prose: 'Văn bản thừa',
+    trailing_comma: 'Dấu phẩy thừa',
+    invalid_escape: 'Escape sai',
+    unescaped_quote: 'Dấu " chưa escape',
+    control_character: 'Ký tự điều khiển',
+    truncated: 'Bị cắt cụt'
+};
+
+const ATTEMPT_NEXT_STEP_LABELS = {
+    retry: 'thử lại',
+    failover: 'chuyển dự phòng',
+    stop: 'dừng'
+};
 
 // Utility function to format numbers properly, removing trailing commas
 const formatNumber = (value: number): string => {
@@ -24,7 +67,7 @@ export const AdminModal: React.FC<AdminModalProps> = ({
     onAddSkill,
     currentPlayerExp = 0
 }) => {
-    const [activeTab, setActiveTab] = useState<'EXP' | 'ITEM' | 'SKILL'>('EXP');
+    const [activeTab, setActiveTab] = useState<'EXP' | 'ITEM' | 'SKILL' | 'TAGS' | 'AI' | 'JSON' | 'PROMPT'>('EXP');
     
     // Experience form state
     const [expAmount, setExpAmount] = useState<string>('');
@@ -45,6 +88,21 @@ export const AdminModal: React.FC<AdminModalProps> = ({
     const [skillCooldown, setSkillCooldown] = useState<string>('');
     const [skillManaCost, setSkillManaCost] = useState<string>('');
 
+    // Thẻ lệnh lỗi/chưa xử lý
+    const tagDiagnostics: CommandTagDiagnosticEntry[] = useSyncExternalStore(commandTagDiagnostics.subscribe, commandTagDiagnostics.getEntries);
+    // Các lần gọi AI, kể cả thử lại và chuyển dự phòng
+    const attemptLog: LLMAttemptLogEntry[] = useSyncExternalStore(llmAttemptLog.subscribe, llmAttemptLog.getEntries);
+    const failedAttemptCount = attemptLog.filter(entry => entry.outcome !== 'success').length;
+    // Các lần phản hồi lượt phải sửa JSON
+    const jsonRepairs: JsonRepairLogSnapshot = useSyncExternalStore(jsonRepairLog.subscribe, jsonRepairLog.getSnapshot);
+    // Prompt các lượt gần đây; mặc định xem lượt mới nhất
+    const promptInspections: PromptInspection[] = useSyncExternalStore(promptInspector.subscribe, promptInspector.getEntries);
+    const [selectedInspectionId, setSelectedInspectionId] = useState<number | null>(null);
+    const [expandedSection, setExpandedSection] = useState<string | null>(null);
+    const [showFullPrompt, setShowFullPrompt] = useState<boolean>(false);
+    const inspection: PromptInspection | undefined =
+        promptInspections.find(entry => entry.id === selectedInspectionId) ?? promptInspections[promptInspections.length - 1];
+
     if (!isOpen) return null;
 
     const handleAddExp = () => {
@@ -182,6 +240,46 @@ export const AdminModal: React.FC<AdminModalProps> = ({
                             >
                                 SKILL
                             </button>
+                            <button
+                                onClick={() => setActiveTab('TAGS')}
+                                className={`px-2 md:px-3 py-2 rounded-md font-semibold transition-colors text-xs md:text-sm ${
+                                    activeTab === 'TAGS' 
+                                        ? 'bg-red-600 text-white' 
+                                        : 'bg-slate-700 text-gray-300 hover:bg-slate-600'
+                                }`}
+                            >
+                                TAGS{tagDiagnostics.length > 0 ? ` (${tagDiagnostics.length})` : ''}
+                            </button>
+                            <button
+                                onClick={() => setActiveTab('AI')}
+                                className={`px-2 md:px-3 py-2 rounded-md font-semibold transition-colors text-xs md:text-sm ${
+                                    activeTab === 'AI' 
+                                        ? 'bg-red-600 text-white' 
+                                        : 'bg-slate-700 text-gray-300 hover:bg-slate-600'
+                                }`}
+                            >
+                                AI{failedAttemptCount > 0 ? ` (${failedAttemptCount})` : ''}
+                            </button>
+                            <button
+                                onClick={() => setActiveTab('JSON')}
+                                className={`px-2 md:px-3 py-2 rounded-md font-semibold transition-colors text-xs md:text-sm ${
+                                    activeTab === 'JSON' 
+                                        ? 'bg-red-600 text-white' 
+                                        : 'bg-slate-700 text-gray-300 hover:bg-slate-600'
+                                }`}
+                            >
+                                JSON{jsonRepairs.entries.length > 0 ? ` (${jsonRepairs.entries.length})` : ''}
+                            </button>
+                            <button
+                                onClick={() => setActiveTab('PROMPT')}
+                                className={`px-2 md:px-3 py-2 rounded-md font-semibold transition-colors text-xs md:text-sm ${
+                                    activeTab === 'PROMPT' 
+                                        ? 'bg-red-600 text-white' 
+                                        : 'bg-slate-700 text-gray-300 hover:bg-slate-600'
+                                }`}
+                            >
+                                PROMPT
+                            </button>
                         </div>
                     </div>
                     
@@ -438,6 +536,219 @@ export const AdminModal: React.FC<AdminModalProps> = ({
                             </div>
                         </div>
                     )}
+
+                    {activeTab === 'TAGS' && (
+                        <div className="space-y-3">
+                            <h4 className="text-lg font-semibold text-white">Thẻ lệnh lỗi hoặc chưa xử lý</h4>
+                            {tagDiagnostics.length === 0 ? (
+                                <p className="text-gray-400 text-center py-8">Chưa có thẻ lệnh nào bị lỗi.</p>
+                            ) : (
+                                [...tagDiagnostics].reverse().map(entry => (
+                                    <div key={entry.id} className="bg-slate-800/50 rounded-lg p-4 border border-slate-600">
+                                        <div className="flex flex-wrap items-center gap-2 text-xs mb-1">
+                                            <span className={`px-2 py-0.5 rounded font-semibold ${
+                                                entry.severity === 'error' ? 'bg-red-600/80 text-white' : 'bg-yellow-600/80 text-white'
+                                            }`}>
+                                                {TAG_DIAGNOSTIC_SOURCE_LABELS[entry.source]}
+                                            </span>
+                                            {entry.turnCount !== undefined && <span className="text-gray-400">Lượt {entry.turnCount}</span>}
+                                            {entry.line !== undefined && (
+                                                <span className="text-gray-400">Dòng {entry.line}, cột {entry.column}</span>
+                                            )}
+                                        </div>
+                                        <p className="text-sm text-gray-200">{entry.message}</p>
+                                        {entry.raw && (
+                                            <pre className="mt-2 text-xs text-gray-400 bg-slate-900/80 rounded p-2 whitespace-pre-wrap break-all">{entry.raw}</pre>
+                                        )}
+                                    </div>
+                                ))
+                            )}
+                        </div>
+                    )}
+
+                    {activeTab === 'AI' && (
+                        <div className="space-y-3">
+                            <h4 className="text-lg font-semibold text-white">Nhật ký gọi AI</h4>
+                            {attemptLog.length === 0 ? (
+                                <p className="text-gray-400 text-center py-8">Chưa có lần gọi AI nào.</p>
+                            ) : (
+                                [...attemptLog].reverse().map(entry => (
+                                    <div key={entry.id} className="bg-slate-800/50 rounded-lg p-4 border border-slate-600">
+                                        <div className="flex flex-wrap items-center gap-2 text-xs mb-1">
+                                            <span className={`px-2 py-0.5 rounded font-semibold ${
+                                                entry.outcome === 'success' ? 'bg-green-600/80 text-white'
+                                                    : entry.outcome === 'aborted' ? 'bg-slate-600/80 text-white' : 'bg-red-600/80 text-white'
+                                            }`}>
+                                                {ATTEMPT_OUTCOME_LABELS[entry.outcome]}
+                                            </span>
+                                            <span className="text-gray-400">Yêu cầu #{entry.requestId} · lần {entry.attempt}</span>
+                                            <span className="text-gray-400">{entry.providerId} / {entry.model}</span>
+                                            <span className="text-gray-400">{formatNumber(entry.durationMs)} ms</span>
+                                            {entry.nextStep && (
+                                                <span className="text-yellow-400">
+                                                    → {ATTEMPT_NEXT_STEP_LABELS[entry.nextStep]}{entry.delayMs !== undefined ? ` sau ${formatNumber(entry.delayMs)} ms` : ''}
+                                                </span>
+                                            )}
+                                        </div>
+                                        {entry.error && (
+                                            <pre className="mt-2 text-xs text-gray-400 bg-slate-900/80 rounded p-2 whitespace-pre-wrap break-all">{entry.error}</pre>
+                                        )}
+                                    </div>
+                                ))
+                            )}
+                        </div>
+                    )}
+
+                    {activeTab === 'JSON' && (
+                        <div className="space-y-3">
+                            <h4 className="text-lg font-semibold text-white">Sửa JSON phản hồi</h4>
+                            {Object.keys(jsonRepairs.counts).length > 0 && (
+                                <div className="flex flex-wrap gap-2 text-xs">
+                                    {(Object.keys(jsonRepairs.counts) as (keyof typeof JSON_REPAIR_LABELS)[]).map(key => (
+                                        <span key={key} className="px-2 py-0.5 rounded bg-slate-700 text-gray-200">
+                                            {JSON_REPAIR_LABELS[key]}: {jsonRepairs.counts[key]}
+                                        </span>
+                                    ))}
+                                </div>
+                            )}
+                            {jsonRepairs.entries.length === 0 ? (
+                                <p className="text-gray-400 text-center py-8">Chưa có phản hồi nào phải sửa.</p>
+                            ) : (
+                                [...jsonRepairs.entries].reverse().map(entry => (
+                                    <div key={entry.id} className="bg-slate-800/50 rounded-lg p-4 border border-slate-600">
+                                        <div className="flex flex-wrap items-center gap-2 text-xs mb-1">
+                                            <span className={`px-2 py-0.5 rounded font-semibold ${
+                                                entry.outcome === 'failed' ? 'bg-red-600/80 text-white' : 'bg-yellow-600/80 text-white'
+                                            }`}>
+                                                {JSON_REPAIR_LABELS[entry.outcome]}
+                                            </span>
+                                            {entry.turnCount !== undefined && <span className="text-gray-400">Lượt {entry.turnCount}</span>}
+                                            {entry.repairs.map(repair => (
+                                                <span key={repair} className="text-gray-400">{JSON_REPAIR_LABELS[repair]}</span>
+                                            ))}
+                                        </div>
+                                        {entry.errors.length > 0 && (
+                                            <pre className="mt-2 text-xs text-gray-400 bg-slate-900/80 rounded p-2 whitespace-pre-wrap break-all">{entry.errors.join('\n')}</pre>
+                                        )}
+                                    </div>
+                                ))
+                            )}
+                        </div>
+                    )}
+
+                    {activeTab === 'PROMPT' && (
+                        <div className="space-y-3">
+                            <h4 className="text-lg font-semibold text-white">Kiểm tra prompt</h4>
+                            {!inspection ? (
+                                <p className="text-gray-400 text-center py-8">Chưa có lượt nào được gửi trong phiên này.</p>
+                            ) : (
+                                <>
+                                    <div className="flex flex-wrap items-center gap-2 text-xs">
+                                        <select
+                                            value={inspection.id}
+                                            onChange={(e) => {
+                                                setSelectedInspectionId(parseInt(e.target.value));
+                                                setExpandedSection(null);
+                                            }}
+                                            className="px-2 py-1 bg-slate-700 border border-slate-600 rounded-md text-white"
+                                        >
+                                            {[...promptInspections].reverse().map(entry => (
+                                                <option key={entry.id} value={entry.id}>
+                                                    Lượt {entry.turnCount} — {new Date(entry.timestamp).toLocaleTimeString()}
+                                                </option>
+                                            ))}
+                                        </select>
+                                        <span className={`px-2 py-0.5 rounded font-semibold ${
+                                            inspection.totalTokens > inspection.budget ? 'bg-red-600/80' : 'bg-slate-700'
+                                        } text-white`}>
+                                            {formatNumber(inspection.totalTokens)} / {formatNumber(inspection.budget)} token
+                                        </span>
+                                        {inspection.truncated && (
+                                            <span className="px-2 py-0.5 rounded bg-yellow-600/80 text-white font-semibold">Đã cắt khẩn cấp</span>
+                                        )}
+                                    </div>
+                                    <p className="text-sm text-gray-300 break-words">Hành động: "{inspection.action}"</p>
+
+                                    <div className="space-y-1">
+                                        {inspection.sections.map((section: PromptSection, index: number) => {
+                                            const key = `${section.id}-${index}`;
+                                            const share = inspection.totalTokens > 0 ? Math.round(section.tokens / inspection.totalTokens * 100) : 0;
+                                            return (
+                                                <div key={key} className="bg-slate-800/50 rounded border border-slate-600">
+                                                    <button
+                                                        onClick={() => setExpandedSection(expandedSection === key ? null : key)}
+                                                        className="w-full flex items-center justify-between gap-2 px-3 py-2 text-sm hover:bg-slate-700/50"
+                                                    >
+                                                        <span className="font-semibold text-white">{PROMPT_SECTION_LABELS[section.id]}</span>
+                                                        <span className="text-xs text-gray-400">{formatNumber(section.tokens)} token · {share}%</span>
+                                                    </button>
+                                                    {section.children.length > 0 && (
+                                                        <div className="flex flex-wrap gap-2 px-3 pb-2 text-xs">
+                                                            {section.children.map(child => (
+                                                                <span key={child.id} className="px-2 py-0.5 rounded bg-slate-700 text-gray-200">
+                                                                    {PROMPT_SECTION_LABELS[child.id]}: {formatNumber(child.tokens)}
+                                                                </span>
+                                                            ))}
+                                                        </div>
+                                                    )}
+                                                    {expandedSection === key && (
+                                                        <pre className="mx-3 mb-3 text-xs text-gray-300 bg-slate-900/80 rounded p-2 whitespace-pre-wrap break-words max-h-64 overflow-y-auto">{section.text}</pre>
+                                                    )}
+                                                </div>
+                                            );
+                                        })}
+                                    </div>
+
+                                    <div className="bg-slate-800/50 rounded-lg p-3 border border-slate-600">
+                                        <h5 className="text-sm font-semibold text-blue-400 mb-2">Thực thể được truy xuất ({inspection.entities.length})</h5>
+                                        {inspection.entities.length === 0 ? (
+                                            <p className="text-xs text-gray-400">Không có thực thể nào.</p>
+                                        ) : (
+                                            <table className="w-full text-xs">
+                                                <tbody>
+                                                    {[...inspection.entities].sort((a, b) => b.score - a.score).map((entity, index) => (
+                                                        <tr key={`${entity.name}-${index}`} className="border-t border-slate-700 align-top">
+                                                            <td className="py-1 pr-2 text-white">{entity.name}</td>
+                                                            <td className="py-1 pr-2 text-gray-400">{entity.type}</td>
+                                                            <td className="py-1 pr-2 text-gray-300 text-right">{Math.round(entity.score)}</td>
+                                                            <td className="py-1 text-gray-400">{entity.reasons.join(', ')}</td>
+                                                        </tr>
+                                                    ))}
+                                                </tbody>
+                                            </table>
+                                        )}
+                                    </div>
+
+                                    <div className="bg-slate-800/50 rounded-lg p-3 border border-slate-600">
+                                        <h5 className="text-sm font-semibold text-blue-400 mb-2">Luật được kích hoạt ({inspection.rules.length})</h5>
+                                        {inspection.rules.length === 0 ? (
+                                            <p className="text-xs text-gray-400">Không có luật nào được kích hoạt.</p>
+                                        ) : (
+                                            inspection.rules.map((rule, index) => (
+                                                <div key={`${rule.title}-${index}`} className="text-xs py-1 border-t border-slate-700 first:border-t-0">
+                                                    <span className="text-white">{rule.title}</span>
+                                                    <span className="text-gray-400"> — {rule.reason}</span>
+                                                    {rule.keywords.length > 0 && (
+                                                        <span className="text-gray-500"> ({rule.keywords.join(', ')})</span>
+                                                    )}
+                                                </div>
+                                            ))
+                                        )}
+                                    </div>
+
+                                    <button
+                                        onClick={() => setShowFullPrompt(!showFullPrompt)}
+                                        className="text-sm text-blue-400 hover:text-blue-300"
+                                    >
+                                        {showFullPrompt ? 'Ẩn prompt đầy đủ' : 'Xem prompt đầy đủ'}
+                                    </button>
+                                    {showFullPrompt && (
+                                        <pre className="text-xs text-gray-300 bg-slate-900/80 rounded p-2 whitespace-pre-wrap break-words max-h-96 overflow-y-auto">{inspection.prompt}</pre>
+                                    )}
+                                </>
+                            )}
+                        </div>
+                    )}
                 </div>
 
                 {/* Footer */}
@@ -466,6 +777,49 @@ export const AdminModal: React.FC<AdminModalProps> = ({
                             TẠO KỸ NĂNG
                         </button>
                     )}
+
+                    {activeTab === 'TAGS' && (
+                        <button
+                            onClick={() => commandTagDiagnostics.clear()}
+                            disabled={tagDiagnostics.length === 0}
+                            className="px-6 py-2 bg-red-600 hover:bg-red-500 text-white rounded-md font-semibold transition-colors disabled:opacity-50"
+                        >
+                            XÓA NHẬT KÝ
+                        </button>
+                    )}
+
+                    {activeTab === 'AI' && (
+                        <button
+                            onClick={() => llmAttemptLog.clear()}
+                            disabled={attemptLog.length === 0}
+                            className="px-6 py-2 bg-red-600 hover:bg-red-500 text-white rounded-md font-semibold transition-colors disabled:opacity-50"
+                        >
+                            XÓA NHẬT KÝ
+                        </button>
+                    )}
+
+                    {activeTab === 'JSON' && (
+                        <button
+                            onClick={() => jsonRepairLog.clear()}
+                            disabled={jsonRepairs.entries.length === 0}
+                            className="px-6 py-2 bg-red-600 hover:bg-red-500 text-white rounded-md font-semibold transition-colors disabled:opacity-50"
+                        >
+                            XÓA NHẬT KÝ
+                        </button>
+                    )}
+
+                    {activeTab === 'PROMPT' && (
+                        <button
+                            onClick={() => {
+                                promptInspector.clear();
+                                setSelectedInspectionId(null);
+                            }}
+                            disabled={promptInspections.length === 0}
+                            className="px-6 py-2 bg-red-600 hover:bg-red-500 text-white rounded-md font-semibold transition-colors disabled:opacity-50"
+                        >
+                            XÓA NHẬT KÝ
+                        </button>
+                    )}
                 </div>
             </div>
         </div>
@@ -1,6 +1,20 @@
 
 import React, { useState } from 'react';
-import { SparklesIcon, PlusIcon, CrossIcon, SaveIcon } from './Icons.tsx';
+import { SparklesIcon, PlusIcon, CrossIcon, SaveIcon, ChartIcon } from './Icons.tsx';
+import type { LLMFailoverSettings } from './utils/llmRetryPolicy.ts';
+import { parseMockFixture } from './utils/llmProviders/mockProvider.ts';
+import type { MockLLMFixture } from './utils/llmProviders/mockProvider.ts';
+import { DEFAULT_MOCK_LLM_FIXTURE } from './data/mockLlmFixture.ts';
+import { LLM_TASK_LABELS } from './utils/modelProfiles.ts';
+import type { LLMBackendChoice, LLMProfileTask, ModelProfile, ModelProfiles } from './utils/modelProfiles.ts';
+
+const PROFILE_TASKS: LLMProfileTask[] = ['suggestion', 'memory'];
+
+const BACKEND_LABELS: Record<LLMBackendChoice, string> = {
+    auto: 'Như cấu hình chính',
+    gemini: 'Gemini',
+    'openai-compatible': 'OpenAI Compatible Endpoint'
+};
 
 export const ApiSettingsModal: React.FC<{
     isOpen: boolean;
@@ -17,7 +31,17 @@ export const ApiSettingsModal: React.FC<{
     openAiBaseUrl: string;
     openAiApiKey: string;
     onOpenAiSettingsSave: (baseUrl: string, apiKey: string) => void;
-}> = ({ isOpen, onClose, userApiKeys, isUsingDefault, onSave, selectedModel, onModelChange, temperature, topK, topP, onAiSettingsChange, openAiBaseUrl, openAiApiKey, onOpenAiSettingsSave }) => {
+    failoverSettings: LLMFailoverSettings;
+    onFailoverSettingsSave: (settings: LLMFailoverSettings) => void;
+    isMockAiEnabled: boolean;
+    mockFixture: MockLLMFixture;
+    onMockSettingsSave: (enabled: boolean, fixture: MockLLMFixture | null) => void;
+    isToolCallingEnabled: boolean;
+    onToolCallingChange: (enabled: boolean) => void;
+    modelProfiles: ModelProfiles;
+    onModelProfilesSave: (profiles: ModelProfiles) => void;
+    onOpenUsageDashboard: () => void;
+}> = ({ isOpen, onClose, userApiKeys, isUsingDefault, onSave, selectedModel, onModelChange, temperature, topK, topP, onAiSettingsChange, openAiBaseUrl, openAiApiKey, onOpenAiSettingsSave, failoverSettings, onFailoverSettingsSave, isMockAiEnabled, mockFixture, onMockSettingsSave, isToolCallingEnabled, onToolCallingChange, modelProfiles, onModelProfilesSave, onOpenUsageDashboard }) => {
     if (!isOpen) return null;
     
     const [keys, setKeys] = useState<string[]>(userApiKeys);
@@ -30,6 +54,20 @@ export const ApiSettingsModal: React.FC<{
     const [fetchedModels, setFetchedModels] = useState<string[]>([]);
     const [isFetchingModels, setIsFetchingModels] = useState<boolean>(false);
     const [fetchModelError, setFetchModelError] = useState<string | null>(null);
+    const [fallbackModelsText, setFallbackModelsText] = useState<string>(failoverSettings.fallbackModels.join(', '));
+    const [openAiAsFallback, setOpenAiAsFallback] = useState<boolean>(failoverSettings.openAiAsFallback);
+    const [openAiFallbackModel, setOpenAiFallbackModel] = useState<string>(failoverSettings.openAiFallbackModel);
+    const [maxAttempts, setMaxAttempts] = useState<number>(failoverSettings.maxAttempts);
+    const [mockEnabled, setMockEnabled] = useState<boolean>(isMockAiEnabled);
+    // null = kịch bản mặc định
+    const [customMockFixture, setCustomMockFixture] = useState<MockLLMFixture | null>(mockFixture === DEFAULT_MOCK_LLM_FIXTURE ? null : mockFixture);
+    const [mockFixtureError, setMockFixtureError] = useState<string | null>(null);
+    const [toolCallingEnabled, setToolCallingEnabled] = useState<boolean>(isToolCallingEnabled);
+    const [profiles, setProfiles] = useState<ModelProfiles>(modelProfiles);
+
+    const updateProfile = (task: LLMProfileTask, changes: Partial<ModelProfile>) => {
+        setProfiles(prev => ({ ...prev, [task]: { ...prev[task], ...changes } }));
+    };
 
     const handleKeyChange = (index: number, value: string) => {
         const newKeys = [...keys];
@@ -83,6 +121,22 @@ export const ApiSettingsModal: React.FC<{
         }
     };
 
+    const handleMockFixtureFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        const reader = new FileReader();
+        reader.onload = () => {
+            try {
+                setCustomMockFixture(parseMockFixture(String(reader.result)));
+                setMockFixtureError(null);
+            } catch (err: unknown) {
+                setMockFixtureError(`Không đọc được kịch bản: ${err instanceof Error ? err.message : String(err)}`);
+            }
+        };
+        reader.readAsText(file);
+    };
+
     const handleSaveClick = () => {
         onSave(keys);
         onModelChange(currentModel);
@@ -92,6 +146,15 @@ export const ApiSettingsModal: React.FC<{
             topP: currentTopP
         });
         onOpenAiSettingsSave(currentOpenAiBaseUrl.trim(), currentOpenAiApiKey.trim());
+        onFailoverSettingsSave({
+            fallbackModels: fallbackModelsText.split(',').map(m => m.trim()).filter(Boolean),
+            openAiAsFallback,
+            openAiFallbackModel: openAiFallbackModel.trim(),
+            maxAttempts
+        });
+        onMockSettingsSave(mockEnabled, customMockFixture);
+        onToolCallingChange(toolCallingEnabled);
+        onModelProfilesSave(profiles);
         console.debug('[ApiSettingsModal] Saved. OpenAI baseUrl:', currentOpenAiBaseUrl.trim(), 'hasKey:', !!currentOpenAiApiKey.trim());
         onClose();
     };
@@ -117,6 +180,67 @@ export const ApiSettingsModal: React.FC<{
                         </select>
                     </div>
 
+                    <button
+                        onClick={onOpenUsageDashboard}
+                        className="w-full flex items-center justify-center gap-2 px-4 py-2 border border-cyan-500/50 rounded-lg text-sm font-semibold text-cyan-700 dark:text-cyan-300 hover:bg-cyan-500/10 transition-colors"
+                    >
+                        <ChartIcon className="w-5 h-5" />
+                        Thống Kê Sử Dụng & Chi Phí
+                    </button>
+
+                    {/* Mock AI Section */}
+                    <div className="border border-slate-200 dark:border-slate-600 rounded-lg p-4 space-y-3">
+                        <label className="flex items-center gap-2 font-semibold text-sm text-slate-800 dark:text-gray-300 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={mockEnabled}
+                                onChange={(e) => setMockEnabled(e.target.checked)}
+                            />
+                            AI Giả Lập (Offline)
+                        </label>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                            Không gọi mạng: phát lại phản hồi từ file kịch bản JSON, hết kịch bản thì tạo câu chuyện và thẻ lệnh từ mẫu. Dùng để thử nghiệm và trình diễn.
+                        </p>
+                        {mockEnabled && (
+                            <div className="space-y-2">
+                                <p className="text-xs text-slate-700 dark:text-gray-300">
+                                    Kịch bản: {customMockFixture ? `tải lên (${customMockFixture.responses.length} phản hồi)` : 'mặc định'}
+                                </p>
+                                <div className="flex gap-2">
+                                    <label className="flex-1 text-center px-4 py-2 bg-cyan-600 hover:bg-cyan-500 rounded-md text-white text-sm font-semibold transition-colors cursor-pointer">
+                                        Tải file kịch bản
+                                        <input type="file" accept=".json,application/json" onChange={handleMockFixtureFile} className="hidden" />
+                                    </label>
+                                    <button
+                                        onClick={() => { setCustomMockFixture(null); setMockFixtureError(null); }}
+                                        disabled={!customMockFixture}
+                                        className="flex-1 px-4 py-2 bg-slate-600 hover:bg-slate-500 disabled:opacity-50 rounded-md text-white text-sm font-semibold transition-colors"
+                                    >
+                                        Dùng mặc định
+                                    </button>
+                                </div>
+                                {mockFixtureError && (
+                                    <p className="text-xs text-red-500 dark:text-red-400 px-1">{mockFixtureError}</p>
+                                )}
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Function Calling Section */}
+                    <div className="border border-slate-200 dark:border-slate-600 rounded-lg p-4 space-y-2">
+                        <label className="flex items-center gap-2 font-semibold text-sm text-slate-800 dark:text-gray-300 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={toolCallingEnabled}
+                                onChange={(e) => setToolCallingEnabled(e.target.checked)}
+                            />
+                            Gọi Hàm (Function Calling)
+                        </label>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                            Vật phẩm, trạng thái, nhiệm vụ và thời gian được gửi cho model dưới dạng hàm thay vì thẻ lệnh trong câu chuyện. Phù hợp với model gọi hàm tốt; endpoint OpenAI-compatible phải hỗ trợ tools.
+                        </p>
+                    </div>
+
                     {/* AI Model Parameters */}
                     <div className="border border-slate-200 dark:border-slate-600 rounded-lg p-4 space-y-4">
                         <p className="font-semibold text-sm text-slate-800 dark:text-gray-300">Cài đặt Model AI:</p>
@@ -290,9 +414,14 @@ export const ApiSettingsModal: React.FC<{
                             <div className="space-y-1">
                                 <label className="text-xs font-medium text-slate-700 dark:text-gray-300">Chọn Model từ Endpoint:</label>
                                 <select
-                                    value={currentModel}
+                                    value={openAiAsFallback ? openAiFallbackModel : currentModel}
                                     onChange={(e) => {
-                                        setCurrentModel(e.target.value);
+                                        // Endpoint dự phòng có model riêng, không thay model chính
+                                        if (openAiAsFallback) {
+                                            setOpenAiFallbackModel(e.target.value);
+                                        } else {
+                                            setCurrentModel(e.target.value);
+                                        }
                                         console.debug('[OpenAI Fetch] Model selected from fetched list:', e.target.value);
                                     }}
                                     className="w-full px-4 py-2.5 bg-white dark:bg-[#373c5a] border border-slate-300 dark:border-slate-600 rounded-md text-slate-800 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-cyan-400 focus:ring-opacity-75"
@@ -313,6 +442,129 @@ export const ApiSettingsModal: React.FC<{
                             </p>
                         )}
                     </div>
+
+                    {/* Per-task Model Profiles */}
+                    <div className="border border-slate-200 dark:border-slate-600 rounded-lg p-4 space-y-3">
+                        <p className="font-semibold text-sm text-slate-800 dark:text-gray-300">Hồ Sơ Model Theo Tác Vụ</p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                            Lượt truyện dùng model và tham số ở trên. Các tác vụ phụ có thể dùng model rẻ và nhanh hơn, với backend riêng.
+                        </p>
+                        {PROFILE_TASKS.map(task => {
+                            const profile = profiles[task];
+                            return (
+                                <div key={task} className="space-y-2 border-t border-slate-200 dark:border-slate-600 pt-3">
+                                    <div className="flex justify-between items-center">
+                                        <span className="text-sm font-medium text-slate-700 dark:text-gray-300">{LLM_TASK_LABELS[task]}</span>
+                                        <label className="flex items-center gap-2 text-xs text-slate-700 dark:text-gray-300 cursor-pointer">
+                                            <input
+                                                type="checkbox"
+                                                checked={profile.useDefault}
+                                                onChange={(e) => updateProfile(task, { useDefault: e.target.checked })}
+                                            />
+                                            Dùng cấu hình chính
+                                        </label>
+                                    </div>
+                                    {!profile.useDefault && (
+                                        <div className="grid grid-cols-2 gap-2">
+                                            <select
+                                                value={profile.backend}
+                                                onChange={(e) => updateProfile(task, { backend: e.target.value as LLMBackendChoice })}
+                                                className="col-span-2 w-full bg-slate-100 dark:bg-[#373c5a] border border-slate-300 dark:border-slate-600 rounded-md py-2 px-3 text-sm text-slate-800 dark:text-gray-200 placeholder-gray-500 dark:placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                                            >
+                                                {(Object.keys(BACKEND_LABELS) as LLMBackendChoice[]).map(backend => (
+                                                    <option key={backend} value={backend}>{BACKEND_LABELS[backend]}</option>
+                                                ))}
+                                            </select>
+                                            <input
+                                                type="text"
+                                                placeholder="Model (để trống để dùng model chính)"
+                                                value={profile.model}
+                                                onChange={(e) => updateProfile(task, { model: e.target.value })}
+                                                className="col-span-2 w-full bg-slate-100 dark:bg-[#373c5a] border border-slate-300 dark:border-slate-600 rounded-md py-2 px-3 text-sm text-slate-800 dark:text-gray-200 placeholder-gray-500 dark:placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                                            />
+                                            <label className="text-xs text-slate-700 dark:text-gray-300">
+                                                Temperature
+                                                <input type="number" min="0" max="2" step="0.05" value={profile.temperature}
+                                                    onChange={(e) => updateProfile(task, { temperature: parseFloat(e.target.value) || 0 })}
+                                                    className="w-full bg-slate-100 dark:bg-[#373c5a] border border-slate-300 dark:border-slate-600 rounded-md py-2 px-3 text-sm text-slate-800 dark:text-gray-200 placeholder-gray-500 dark:placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-purple-500" />
+                                            </label>
+                                            <label className="text-xs text-slate-700 dark:text-gray-300">
+                                                Top P
+                                                <input type="number" min="0" max="1" step="0.05" value={profile.topP}
+                                                    onChange={(e) => updateProfile(task, { topP: parseFloat(e.target.value) || 0 })}
+                                                    className="w-full bg-slate-100 dark:bg-[#373c5a] border border-slate-300 dark:border-slate-600 rounded-md py-2 px-3 text-sm text-slate-800 dark:text-gray-200 placeholder-gray-500 dark:placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-purple-500" />
+                                            </label>
+                                            <label className="text-xs text-slate-700 dark:text-gray-300">
+                                                Top K
+                                                <input type="number" min="1" max="100" step="1" value={profile.topK}
+                                                    onChange={(e) => updateProfile(task, { topK: parseInt(e.target.value) || 1 })}
+                                                    className="w-full bg-slate-100 dark:bg-[#373c5a] border border-slate-300 dark:border-slate-600 rounded-md py-2 px-3 text-sm text-slate-800 dark:text-gray-200 placeholder-gray-500 dark:placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-purple-500" />
+                                            </label>
+                                        </div>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+
+                    {/* Retry & Failover Section */}
+                    <div className="border border-slate-200 dark:border-slate-600 rounded-lg p-4 space-y-3">
+                        <p className="font-semibold text-sm text-slate-800 dark:text-gray-300">Thử Lại & Dự Phòng</p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                            Lỗi mạng/máy chủ quá tải được thử lại sau một khoảng chờ tăng dần. Lỗi hết hạn mức hoặc sai key sẽ chuyển sang model dự phòng kế tiếp.
+                        </p>
+
+                        <div className="space-y-1">
+                            <label className="text-xs font-medium text-slate-700 dark:text-gray-300">Model dự phòng (cách nhau bởi dấu phẩy)</label>
+                            <input
+                                type="text"
+                                placeholder="gemini-2.5-flash"
+                                value={fallbackModelsText}
+                                onChange={(e) => setFallbackModelsText(e.target.value)}
+                                className="w-full bg-slate-100 dark:bg-[#373c5a] border border-slate-300 dark:border-slate-600 rounded-md py-2 px-3 text-sm text-slate-800 dark:text-gray-200 placeholder-gray-500 dark:placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                            />
+                        </div>
+
+                        <label className="flex items-center gap-2 text-xs text-slate-700 dark:text-gray-300 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={openAiAsFallback}
+                                onChange={(e) => setOpenAiAsFallback(e.target.checked)}
+                            />
+                            Dùng OpenAI Compatible Endpoint làm dự phòng cuối cùng thay vì nguồn chính
+                        </label>
+
+                        {openAiAsFallback && (
+                            <div className="space-y-1">
+                                <label className="text-xs font-medium text-slate-700 dark:text-gray-300">Model của endpoint dự phòng</label>
+                                <input
+                                    type="text"
+                                    placeholder="Để trống để dùng model chính"
+                                    value={openAiFallbackModel}
+                                    onChange={(e) => setOpenAiFallbackModel(e.target.value)}
+                                    className="w-full bg-slate-100 dark:bg-[#373c5a] border border-slate-300 dark:border-slate-600 rounded-md py-2 px-3 text-sm text-slate-800 dark:text-gray-200 placeholder-gray-500 dark:placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                                />
+                            </div>
+                        )}
+
+                        <div className="space-y-2">
+                            <div className="flex justify-between items-center">
+                                <label className="text-sm text-slate-700 dark:text-gray-300">Số lần gọi tối đa mỗi yêu cầu</label>
+                                <span className="text-sm font-mono bg-slate-100 dark:bg-slate-700 px-2 py-1 rounded text-slate-800 dark:text-gray-200">
+                                    {maxAttempts}
+                                </span>
+                            </div>
+                            <input
+                                type="range"
+                                min="1"
+                                max="8"
+                                step="1"
+                                value={maxAttempts}
+                                onChange={(e) => setMaxAttempts(parseInt(e.target.value))}
+                                className="w-full h-2 bg-slate-200 dark:bg-slate-700 rounded-lg appearance-none cursor-pointer"
+                            />
+                        </div>
+                    </div>
                     
                     </div>
                     
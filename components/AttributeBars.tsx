@@ -0,0 +1,58 @@
+import React from 'react';
+import type { ComputedAttribute } from './utils/characterAttributes';
+
+const RESOURCE_COLORS: { [id: string]: string } = {
+    hp: 'bg-red-500',
+    mp: 'bg-blue-500',
+    stamina: 'bg-amber-500'
+};
+const FALLBACK_COLORS = ['bg-emerald-500', 'bg-purple-500', 'bg-cyan-500', 'bg-pink-500'];
+
+/**
+ * Thanh tài nguyên (HP, MP...) và danh sách thuộc tính; màu chữ kế thừa từ khung chứa
+ */
+export const AttributeBars: React.FC<{ attributes: ComputedAttribute[]; compact?: boolean }> = ({ attributes, compact = false }) => {
+    const resources = attributes.filter(attribute => attribute.kind === 'resource');
+    const stats = attributes.filter(attribute => attribute.kind === 'stat');
+    if (attributes.length === 0) return null;
+
+    return (
+        <div className={compact ? 'space-y-1' : 'space-y-2'}>
+            {resources.map((attribute, index) => {
+                const percent = attribute.value > 0 ? Math.round(((attribute.current ?? 0) / attribute.value) * 100) : 0;
+                return (
+                    <div key={attribute.id} title={attribute.sources.join(', ') || undefined}>
+                        <div className="flex justify-between text-xs opacity-80">
+                            <span>{attribute.name}</span>
+                            <span className="font-mono">{attribute.current}/{attribute.value}</span>
+                        </div>
+                        <div className={`w-full ${compact ? 'h-1' : 'h-1.5'} bg-black/20 dark:bg-white/10 rounded-full overflow-hidden`}>
+                            <div
+                                className={`h-full ${RESOURCE_COLORS[attribute.id] || FALLBACK_COLORS[index % FALLBACK_COLORS.length]} transition-all duration-300`}
+                                style={{ width: `${percent}%` }}
+                            />
+                        </div>
+                    </div>
+                );
+            })}
+            {stats.length > 0 && (
+                <div className="flex flex-wrap gap-1.5 pt-1">
+                    {stats.map(attribute => (
+                        <span
+                            key={attribute.id}
+                            title={attribute.sources.join(', ') || undefined}
+                            className="text-xs px-2 py-0.5 rounded bg-black/10 dark:bg-white/10"
+                        >
+                            {attribute.name} <strong>{attribute.value}</strong>
+                            {attribute.bonus !== 0 && (
+                                <span className={attribute.bonus > 0 ? 'text-green-500' : 'text-red-500'}>
+                                    {' '}({attribute.bonus > 0 ? '+' : ''}{attribute.bonus})
+                                </span>
+                            )}
+                        </span>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
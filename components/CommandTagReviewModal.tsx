@@ -0,0 +1,168 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { CrossIcon } from './Icons.tsx';
+import type { ParsedCommandTag } from './utils/commandTagParser.ts';
+import type { CommandTagPreviewCategory, CommandTagPreviewItem } from './utils/commandTagPreview.ts';
+import { extractCommandTags } from './utils/commandTagProcessor.ts';
+
+interface CommandTagReviewModalProps {
+    isOpen: boolean;
+    tags: ParsedCommandTag[];
+    onPreview: (tags: ParsedCommandTag[]) => CommandTagPreviewItem[];
+    onApply: (tags: ParsedCommandTag[]) => void;
+    onRejectAll: () => void;
+}
+
+interface ReviewEntry {
+    tag: ParsedCommandTag;
+    accepted: boolean;
+    editing: boolean;
+    draft: string;
+    editError?: string;
+}
+
+const CATEGORY_LABELS: { [K in CommandTagPreviewCategory]: string } = {
+    time: '⏱️ Thời gian',
+    item: '🎒 Vật phẩm',
+    entity: '👤 Thực thể',
+    status: '✨ Trạng thái',
+    quest: '📜 Nhiệm vụ',
+    other: '🏷️ Khác'
+};
+
+// Thẻ đã sửa phải phân tích được thành đúng một thẻ hợp lệ
+const parseEditedTag = (draft: string, original: ParsedCommandTag): ParsedCommandTag | string => {
+    const { tags, diagnostics } = extractCommandTags(draft.trim());
+    const error = diagnostics.find(d => d.severity === 'error');
+    if (error) return `Dòng ${error.line}, cột ${error.column}: ${error.message}`;
+    if (tags.length !== 1) return 'Cần đúng một thẻ lệnh dạng [TÊN_THẺ: thuộc_tính="giá trị"]';
+    return { ...tags[0], index: original.index };
+};
+
+export const CommandTagReviewModal: React.FC<CommandTagReviewModalProps> = ({
+    isOpen, tags, onPreview, onApply, onRejectAll
+}) => {
+    const [entries, setEntries] = useState<ReviewEntry[]>([]);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setEntries(tags.map(tag => ({ tag, accepted: true, editing: false, draft: tag.raw })));
+    }, [isOpen, tags]);
+
+    const acceptedTags = useMemo(() => entries.filter(e => e.accepted).map(e => e.tag), [entries]);
+    const previewByTag: Map<ParsedCommandTag, CommandTagPreviewItem> = useMemo(() => {
+        const previews = new Map<ParsedCommandTag, CommandTagPreviewItem>();
+        if (isOpen) onPreview(acceptedTags).forEach(item => previews.set(item.tag, item));
+        return previews;
+    }, [isOpen, acceptedTags, onPreview]);
+
+    if (!isOpen) return null;
+
+    const updateEntry = (index: number, update: Partial<ReviewEntry>) => {
+        setEntries(prev => prev.map((entry, i) => i === index ? { ...entry, ...update } : entry));
+    };
+
+    const saveEdit = (index: number) => {
+        const entry = entries[index];
+        const parsed = parseEditedTag(entry.draft, entry.tag);
+        if (typeof parsed === 'string') {
+            updateEntry(index, { editError: parsed });
+            return;
+        }
+        updateEntry(index, { tag: parsed, draft: parsed.raw, editing: false, editError: undefined, accepted: true });
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-[70] p-4">
+            <div className="bg-white/90 dark:bg-[#252945]/90 backdrop-blur-sm border border-slate-300 dark:border-slate-700 rounded-lg shadow-xl w-full max-w-2xl max-h-[85vh] flex flex-col text-slate-900 dark:text-white">
+                <div className="p-4 border-b border-slate-200 dark:border-slate-600 flex justify-between items-center flex-shrink-0">
+                    <h3 className="text-lg font-semibold flex items-center gap-2">
+                        🔍 Duyệt thay đổi của lượt
+                    </h3>
+                    <button onClick={onRejectAll} className="text-gray-500 dark:text-gray-400 hover:text-slate-900 dark:hover:text-white" title="Bỏ qua tất cả">
+                        <CrossIcon className="w-6 h-6"/>
+                    </button>
+                </div>
+
+                <p className="px-4 pt-3 text-sm text-slate-600 dark:text-slate-400 flex-shrink-0">
+                    AI đề xuất {entries.length} thay đổi. Bỏ chọn để từ chối, hoặc sửa thẻ trước khi áp dụng.
+                </p>
+
+                <div className="p-4 flex-grow overflow-y-auto space-y-3">
+                    {entries.map((entry, index) => {
+                        const preview = entry.accepted ? previewByTag.get(entry.tag) : undefined;
+                        return (
+                            <div
+                                key={index}
+                                className={`p-3 rounded-lg border ${entry.accepted
+                                    ? 'bg-slate-100 dark:bg-slate-800/60 border-slate-200 dark:border-slate-600'
+                                    : 'bg-slate-100/40 dark:bg-slate-800/20 border-dashed border-slate-300 dark:border-slate-700 opacity-60'}`}
+                            >
+                                <div className="flex items-center justify-between gap-3">
+                                    <label className="flex items-center gap-2 font-semibold text-sm cursor-pointer">
+                                        <input
+                                            type="checkbox"
+                                            checked={entry.accepted}
+                                            onChange={e => updateEntry(index, { accepted: e.target.checked })}
+                                        />
+                                        {preview ? CATEGORY_LABELS[preview.category] : CATEGORY_LABELS.other} · {entry.tag.type}
+                                    </label>
+                                    <button
+                                        onClick={() => updateEntry(index, { editing: !entry.editing, draft: entry.tag.raw, editError: undefined })}
+                                        className="px-3 py-1 bg-slate-600 hover:bg-slate-500 rounded-md text-white text-xs font-semibold"
+                                    >
+                                        {entry.editing ? 'Hủy sửa' : 'Sửa'}
+                                    </button>
+                                </div>
+
+                                {entry.editing ? (
+                                    <div className="mt-2 space-y-2">
+                                        <textarea
+                                            value={entry.draft}
+                                            onChange={e => updateEntry(index, { draft: e.target.value })}
+                                            rows={3}
+                                            className="w-full p-2 text-xs font-mono rounded bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-600"
+                                        />
+                                        {entry.editError && <p className="text-xs text-red-500">{entry.editError}</p>}
+                                        <button
+                                            onClick={() => saveEdit(index)}
+                                            className="px-3 py-1 bg-blue-600 hover:bg-blue-500 rounded-md text-white text-xs font-semibold"
+                                        >
+                                            Lưu thẻ
+                                        </button>
+                                    </div>
+                                ) : (
+                                    <div className="mt-2 text-sm space-y-0.5">
+                                        {!entry.accepted && <p className="text-slate-500">Sẽ bị bỏ qua</p>}
+                                        {preview?.error && <p className="text-red-500">❌ Lỗi khi áp dụng: {preview.error}</p>}
+                                        {preview?.unprocessed && <p className="text-amber-500">⚠️ Thẻ không được hỗ trợ hoặc thiếu thuộc tính</p>}
+                                        {preview && !preview.error && !preview.unprocessed && preview.lines.length === 0 && (
+                                            <p className="text-slate-500">Không thay đổi trạng thái</p>
+                                        )}
+                                        {preview?.lines.map((line, i) => <p key={i}>{line}</p>)}
+                                        <p className="text-xs font-mono text-slate-500 dark:text-slate-400 break-all">{entry.tag.raw}</p>
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+
+                <div className="p-4 border-t border-slate-200 dark:border-slate-600 flex justify-end gap-3 flex-shrink-0">
+                    <button
+                        onClick={onRejectAll}
+                        className="px-4 py-2 bg-slate-600 hover:bg-slate-500 rounded-md text-white text-sm font-semibold transition-colors duration-200"
+                    >
+                        Từ chối tất cả
+                    </button>
+                    <button
+                        onClick={() => onApply(acceptedTags)}
+                        disabled={entries.some(e => e.editing)}
+                        className="px-4 py-2 bg-green-600 hover:bg-green-500 disabled:opacity-50 rounded-md text-white text-sm font-semibold transition-colors duration-200"
+                    >
+                        Áp dụng {acceptedTags.length} thay đổi
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -1,4 +1,4 @@
-import React, { useState, useRef, useContext } from 'react';
+import React, { useState, useRef, useContext, useEffect } from 'react';
 import { GoogleGenAI, Type } from "@google/genai";
 import { AIContext } from '../App.tsx';
 import type { FormData, CustomRule } from './types.ts';
@@ -12,7 +12,14 @@ import {
 } from './Icons.tsx';
 import { useGameSettings } from './hooks/useGameSettings';
 import { getThemeColors } from './utils/themeUtils';
-import { parseOpenAiCompatibleResponse } from './utils/openAiCompatibleResponse.ts';
+import { isAbortError } from './utils/llmProvider';
+import { classifyLLMError } from './utils/llmRetryPolicy';
+import { DEFAULT_CALENDAR, getDaysInMonth, normalizeCalendar } from './utils/worldCalendar';
+import { WorldCalendarEditor } from './WorldCalendarEditor.tsx';
+import { DEFAULT_ATTRIBUTES, normalizeAttributes } from './utils/characterAttributes';
+import { WorldAttributesEditor } from './WorldAttributesEditor.tsx';
+import { DEFAULT_CURRENCIES, normalizeCurrencies } from './utils/economy';
+import { WorldCurrenciesEditor } from './WorldCurrenciesEditor.tsx';
 
 export const CreateWorld: React.FC<{ 
     onBack: () => void; 
@@ -22,7 +29,10 @@ export const CreateWorld: React.FC<{
     initCurrentStep: string;
     initSubStep: string;
 }> = ({ onBack, onStartGame, isInitializing, initProgress, initCurrentStep, initSubStep }) => {
-    const { ai, isAiReady, apiKeyError, selectedModel, openAiBaseUrl, openAiApiKey } = useContext(AIContext);
+    const { isAiReady, apiKeyError, taskModels } = useContext(AIContext);
+    // Gợi ý khi tạo thế giới dùng hồ sơ model "gợi ý"
+    const suggestionModel = taskModels.suggestion;
+    const llmProvider = suggestionModel.provider;
     const [gameSettingsState] = useGameSettings();
     const { gameSettings } = gameSettingsState;
     const [formData, setFormData] = useState<FormData>({
@@ -30,6 +40,9 @@ export const CreateWorld: React.FC<{
         genre: '',
         worldDetail: '',
         worldTime: { day: 1, month: 1, year: 1000 },
+        calendar: DEFAULT_CALENDAR,
+        attributes: DEFAULT_ATTRIBUTES,
+        currencies: DEFAULT_CURRENCIES,
         startLocation: '',
         customStartLocation: '',
         expName: 'Kinh Nghiệm',
@@ -62,6 +75,10 @@ export const CreateWorld: React.FC<{
     const [isAnySuggestionLoading, setIsAnySuggestionLoading] = useState(false);
     const [suggestionError, setSuggestionError] = useState<string | null>(null);
     const suggestionLock = useRef(false);
+    // Yêu cầu gợi ý đang chạy, hủy được bằng nút Hủy hoặc khi rời màn hình
+    const suggestionAbortRef = useRef<AbortController | null>(null);
+
+    useEffect(() => () => suggestionAbortRef.current?.abort(), []);
 
     const [genreSuggestions, setGenreSuggestions] = useState<string[]>([]);
     const [isGenreModalOpen, setIsGenreModalOpen] = useState(false);
@@ -69,7 +86,6 @@ export const CreateWorld: React.FC<{
     const rulesFileInputRef = useRef<HTMLInputElement>(null);
     const worldSetupFileInputRef = useRef<HTMLInputElement>(null);
     const worldInfoFileInputRef = useRef<HTMLInputElement>(null);
-    const hasOpenAiEndpoint = openAiBaseUrl.trim().length > 0;
 
     const extractJsonObject = (rawText: string) => {
         let cleanText = rawText.trim();
@@ -86,61 +102,33 @@ export const CreateWorld: React.FC<{
     };
 
     const callConfiguredAi = async (prompt: string, options?: { jsonMode?: boolean; schema?: any }) => {
-        if (hasOpenAiEndpoint) {
-            const baseUrl = openAiBaseUrl.trim().replace(/\/$/, '');
-            const headers: Record<string, string> = { 'Content-Type': 'application/json' };
-            if (openAiApiKey.trim()) {
-                headers['Authorization'] = `Bearer ${openAiApiKey.trim()}`;
-            }
-
-            const body: Record<string, any> = {
-                model: selectedModel,
-                messages: [{ role: 'user', content: prompt }],
-                stream: true,
-            };
-
-            if (options?.jsonMode) {
-                body.response_format = { type: 'json_object' };
-            }
-
-            const response = await fetch(`${baseUrl}/chat/completions`, {
-                method: 'POST',
-                headers,
-                body: JSON.stringify(body)
-            });
-
-            if (!response.ok) {
-                const errorText = await response.text();
-                throw new Error(`OpenAI API HTTP ${response.status}: ${errorText}`);
-            }
-
-            const data = await parseOpenAiCompatibleResponse(response);
-            return data.text;
-        }
-
-        if (!ai) {
+        if (!llmProvider) {
             throw new Error('AI chưa sẵn sàng');
         }
 
-        if (options?.jsonMode) {
-            const response = await ai.models.generateContent({
-                model: selectedModel,
+        const controller = new AbortController();
+        suggestionAbortRef.current = controller;
+        try {
+            const response = await llmProvider.generate({
                 contents: prompt,
-                config: {
-                    responseMimeType: 'application/json',
-                    responseSchema: options.schema,
-                }
+                jsonMode: options?.jsonMode,
+                responseSchema: options?.schema,
+                temperature: suggestionModel.temperature,
+                topP: suggestionModel.topP,
+                topK: suggestionModel.topK,
+                signal: controller.signal,
+                task: 'suggestion'
             });
-
-            return response.text?.trim() || '';
+            return response.text;
+        } finally {
+            if (suggestionAbortRef.current === controller) {
+                suggestionAbortRef.current = null;
+            }
         }
+    };
 
-        const response = await ai.models.generateContent({
-            model: selectedModel,
-            contents: prompt,
-        });
-
-        return response.text?.trim() || '';
+    const handleCancelSuggestion = () => {
+        suggestionAbortRef.current?.abort();
     };
 
     const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
@@ -400,7 +388,7 @@ export const CreateWorld: React.FC<{
 
     // --- Suggestion Functions ---
     const handleGenreSuggestion = async () => {
-        if (!isAiReady || (!ai && !hasOpenAiEndpoint)) {
+        if (!isAiReady || !llmProvider) {
             setSuggestionError(apiKeyError || "AI chưa sẵn sàng. Vui lòng kiểm tra thiết lập API Key.");
             return;
         }
@@ -417,6 +405,7 @@ export const CreateWorld: React.FC<{
             setGenreSuggestions(suggestions);
             setIsGenreModalOpen(true);
         } catch (error) {
+            if (isAbortError(error)) return;
             console.error('Error generating genre suggestions:', error);
             setSuggestionError("Gặp lỗi khi tạo gợi ý. Vui lòng kiểm tra API Key và thử lại.");
             setGenreSuggestions([]);
@@ -428,7 +417,7 @@ export const CreateWorld: React.FC<{
     };
 
     const handleWorldDetailSuggestion = async () => {
-        if (!isAiReady || (!ai && !hasOpenAiEndpoint)) {
+        if (!isAiReady || !llmProvider) {
             setSuggestionError(apiKeyError || "AI chưa sẵn sàng. Vui lòng kiểm tra thiết lập API Key.");
             return;
         }
@@ -448,8 +437,9 @@ Ví dụ: "Giang Hồ hiểm ác đầy rẫy anh hùng hảo hán và ma đầu
             const text = await callConfiguredAi(prompt);
             setFormData(prev => ({ ...prev, worldDetail: text }));
         } catch (error: any) {
+            if (isAbortError(error)) return;
             console.error(`Error generating suggestion for world detail:`, error);
-            if (error.toString().includes('429')) {
+            if (classifyLLMError(error) === 'quota') {
                 setSuggestionError("Bạn đã gửi yêu cầu quá nhanh. Vui lòng chờ một lát rồi thử lại.");
             } else {
                 setSuggestionError("Gặp lỗi khi tạo gợi ý. Vui lòng kiểm tra API Key và thử lại.");
@@ -462,7 +452,7 @@ Ví dụ: "Giang Hồ hiểm ác đầy rẫy anh hùng hảo hán và ma đầu
     };
 
     const handleCharacterSuggestion = async () => {
-        if (!isAiReady || (!ai && !hasOpenAiEndpoint)) {
+        if (!isAiReady || !llmProvider) {
             setSuggestionError(apiKeyError || "AI chưa sẵn sàng. Vui lòng kiểm tra thiết lập API Key.");
             return;
         }
@@ -508,8 +498,9 @@ QUAN TRỌNG: BẮT BUỘC sử dụng 100% tiếng Việt. TUYỆT ĐỐI KHÔN
                 startSkills: suggestions.skill ? [{ name: suggestions.skill, description: '', mastery: '' }] : [{ name: '', description: '', mastery: '' }]
             }));
         } catch (error: any) {
+            if (isAbortError(error)) return;
             console.error('Error generating character suggestions:', error);
-            if (error.toString().includes('429')) {
+            if (classifyLLMError(error) === 'quota') {
                  setSuggestionError("Bạn đã gửi yêu cầu quá nhanh. Vui lòng chờ một lát rồi thử lại.");
             } else {
                 setSuggestionError("Gặp lỗi khi tạo gợi ý nhân vật. Vui lòng kiểm tra API Key và thử lại.");
@@ -558,6 +549,9 @@ QUAN TRỌNG: BẮT BUỘC sử dụng 100% tiếng Việt. TUYỆT ĐỐI KHÔN
                             startLocation: loadedData.startLocation || '', // Backward compatibility
                             customStartLocation: loadedData.customStartLocation || '', // Backward compatibility
                             expName: loadedData.expName || 'Kinh Nghiệm', // Backward compatibility
+                            calendar: normalizeCalendar(loadedData.calendar), // Backward compatibility
+                            attributes: normalizeAttributes(loadedData.attributes), // Backward compatibility
+                            currencies: normalizeCurrencies(loadedData.currencies), // Backward compatibility
                             realmTiers: loadedData.realmTiers || [
                                 { id: '1', name: 'Luyện Khí', requiredExp: 0 },
                                 { id: '2', name: 'Trúc Cơ', requiredExp: 100 }
@@ -756,6 +750,9 @@ QUAN TRỌNG: BẮT BUỘC sử dụng 100% tiếng Việt. TUYỆT ĐỐI KHÔN
                             worldDescription: worldData.worldDescription || formData.worldDescription,
                             worldDetail: worldData.worldDetail || formData.worldDetail,
                             worldTime: worldData.worldTime || formData.worldTime,
+                            calendar: worldData.calendar ? normalizeCalendar(worldData.calendar) : formData.calendar,
+                            attributes: worldData.attributes ? normalizeAttributes(worldData.attributes) : formData.attributes,
+                            currencies: worldData.currencies ? normalizeCurrencies(worldData.currencies) : formData.currencies,
                             startLocation: worldData.startLocation || formData.startLocation,
                             customStartLocation: worldData.customStartLocation || formData.customStartLocation,
                             expName: worldData.expName || formData.expName,
@@ -798,7 +795,13 @@ QUAN TRỌNG: BẮT BUỘC sử dụng 100% tiếng Việt. TUYỆT ĐỐI KHÔN
     // Wrapper function to handle start game with progress
     const handleStartGameWithProgress = async () => {
         try {
-            await onStartGame(formData);
+            // Bỏ tháng/thứ/kỷ nguyên, chỉ số và tiền tệ để trống trước khi bắt đầu
+            await onStartGame({
+                ...formData,
+                calendar: normalizeCalendar(formData.calendar),
+                attributes: normalizeAttributes(formData.attributes),
+                currencies: normalizeCurrencies(formData.currencies)
+            });
         } catch (error) {
             console.error('Error starting game:', error);
         }
@@ -1141,7 +1144,7 @@ QUAN TRỌNG: BẮT BUỘC sử dụng 100% tiếng Việt. TUYỆT ĐỐI KHÔN
                                 <input 
                                     type="number" 
                                     min="1" 
-                                    max="30" 
+                                    max={getDaysInMonth(normalizeCalendar(formData.calendar), formData.worldTime.month)} 
                                     value={formData.worldTime.day} 
                                     onChange={(e) => setFormData(prev => ({ 
                                         ...prev, 
@@ -1155,7 +1158,7 @@ QUAN TRỌNG: BẮT BUỘC sử dụng 100% tiếng Việt. TUYỆT ĐỐI KHÔN
                                 <input 
                                     type="number" 
                                     min="1" 
-                                    max="12" 
+                                    max={formData.calendar.months.length} 
                                     value={formData.worldTime.month} 
                                     onChange={(e) => setFormData(prev => ({ 
                                         ...prev, 
@@ -1179,6 +1182,10 @@ QUAN TRỌNG: BẮT BUỘC sử dụng 100% tiếng Việt. TUYỆT ĐỐI KHÔN
                             </div>
                         </div>
                     </div>
+                    <WorldCalendarEditor
+                        calendar={formData.calendar}
+                        onChange={(calendar) => setFormData(prev => ({ ...prev, calendar }))}
+                    />
                     <div className="space-y-2">
                         <label className="block text-sm font-medium text-white/90">
                             Địa điểm bắt đầu
@@ -1282,6 +1289,18 @@ QUAN TRỌNG: BẮT BUỘC sử dụng 100% tiếng Việt. TUYỆT ĐỐI KHÔN
                                 </div>
                             ))}
                         </div>
+
+                        {/* Attributes */}
+                        <WorldAttributesEditor
+                            attributes={formData.attributes}
+                            onChange={(attributes) => setFormData(prev => ({ ...prev, attributes }))}
+                        />
+
+                        {/* Currencies */}
+                        <WorldCurrenciesEditor
+                            currencies={formData.currencies}
+                            onChange={(currencies) => setFormData(prev => ({ ...prev, currencies }))}
+                        />
                     </div>
                 </div>
 
@@ -1719,6 +1738,16 @@ QUAN TRỌNG: BẮT BUỘC sử dụng 100% tiếng Việt. TUYỆT ĐỐI KHÔN
                                     <p className="text-red-300 text-sm text-center font-medium">{suggestionError}</p>
                                 </div>
                             )}
+
+                            {isAnySuggestionLoading && (
+                                <button
+                                    onClick={handleCancelSuggestion}
+                                    className="flex items-center gap-2 bg-red-500/20 hover:bg-red-500/30 border border-red-400/30 text-red-200 text-sm font-medium py-2 px-4 rounded-xl transition-all duration-300"
+                                >
+                                    <SpinnerIcon className="w-4 h-4" />
+                                    Đang tạo gợi ý... Hủy
+                                </button>
+                            )}
                             
                             <button 
                                 onClick={handleStartGameWithProgress}
@@ -34,7 +34,8 @@ export const EntityInfoModal: React.FC<{
     onEditPC?: (pc: Entity) => void;
     onEditLocation?: (location: Entity) => void;
     onDeleteStatus?: (statusName: string, entityName: string) => void;
-}> = ({ entity, onClose, onUseItem, onLearnItem, onEquipItem, onUnequipItem, statuses, onStatusClick, onLocationAction, worldData, onEditSkill, onEditNPC, onEditPC, onEditLocation, onDeleteStatus }) => {
+    onTrade?: (merchant: Entity) => void;
+}> = ({ entity, onClose, onUseItem, onLearnItem, onEquipItem, onUnequipItem, statuses, onStatusClick, onLocationAction, worldData, onEditSkill, onEditNPC, onEditPC, onEditLocation, onDeleteStatus, onTrade }) => {
     if (!entity) return null;
 
     const typeColors: { [key in EntityType | string]: string } = {
@@ -188,6 +189,15 @@ export const EntityInfoModal: React.FC<{
                                 ✏️
                             </button>
                         )}
+                        {(entity.type === 'npc' || entity.type === 'companion') && entity.merchantStock && onTrade && (
+                            <button 
+                                onClick={() => onTrade(entity)} 
+                                className="px-2 py-1 text-sm bg-amber-600 hover:bg-amber-500 text-white rounded-md transition-colors"
+                                title="Mở cửa hàng"
+                            >
+                                🛒 Giao dịch
+                            </button>
+                        )}
                         {(entity.type === 'npc' || entity.type === 'companion') && onEditNPC && (
                             <button 
                                 onClick={() => onEditNPC(entity)} 
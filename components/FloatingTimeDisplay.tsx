@@ -1,4 +1,6 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
+import type { WorldCalendar } from './types';
+import { describeGameTime, getTimeOfDay, normalizeCalendar } from './utils/worldCalendar';
 
 interface GameTime {
   year: number;
@@ -10,10 +12,11 @@ interface GameTime {
 
 interface FloatingTimeDisplayProps {
   gameTime: GameTime;
+  calendar?: WorldCalendar;
   className?: string;
 }
 
-export const FloatingTimeDisplay: React.FC<FloatingTimeDisplayProps> = ({ gameTime, className = '' }) => {
+export const FloatingTimeDisplay: React.FC<FloatingTimeDisplayProps> = ({ gameTime, calendar, className = '' }) => {
   const [position, setPosition] = useState(() => {
     // Load saved position from localStorage or use default
     const saved = localStorage.getItem('floatingTimePosition');
@@ -30,11 +33,6 @@ export const FloatingTimeDisplay: React.FC<FloatingTimeDisplayProps> = ({ gameTi
 
   // Format time display
   const formatTime = useCallback(() => {
-    const monthNames = [
-      'Tháng 1', 'Tháng 2', 'Tháng 3', 'Tháng 4', 'Tháng 5', 'Tháng 6',
-      'Tháng 7', 'Tháng 8', 'Tháng 9', 'Tháng 10', 'Tháng 11', 'Tháng 12'
-    ];
-    
     // Safe fallbacks for undefined values
     const safeHour = Number.isFinite(gameTime?.hour) ? gameTime.hour : 0;
     const safeMinute = Number.isFinite(gameTime?.minute) ? gameTime.minute : 0;
@@ -42,16 +40,16 @@ export const FloatingTimeDisplay: React.FC<FloatingTimeDisplayProps> = ({ gameTi
     const safeMonth = Number.isFinite(gameTime?.month) ? gameTime.month : 1;
     const safeYear = Number.isFinite(gameTime?.year) ? gameTime.year : 1;
     
-    const timeOfDay = 
-      safeHour >= 6 && safeHour < 12 ? 'Sáng' :
-      safeHour >= 12 && safeHour < 18 ? 'Chiều' :
-      safeHour >= 18 && safeHour < 22 ? 'Tối' : 'Đêm';
+    // Tên tháng, thứ, mùa và kỷ nguyên theo lịch của thế giới
+    const info = describeGameTime({ year: safeYear, month: safeMonth, day: safeDay, hour: safeHour }, normalizeCalendar(calendar));
+    const details = [info.weekday, info.season && `Mùa ${info.season}`].filter(Boolean).join(' · ');
     
     return {
-      date: `${monthNames[safeMonth - 1] || monthNames[0]} ${safeDay}, Năm ${safeYear}`,
-      time: `${safeHour}:${safeMinute.toString().padStart(2, '0')} ${timeOfDay}`
+      date: `Ngày ${safeDay} ${info.monthName}, ${info.era ? `Năm ${info.era.year} ${info.era.name}` : `Năm ${safeYear}`}`,
+      details,
+      time: `${safeHour}:${safeMinute.toString().padStart(2, '0')} ${getTimeOfDay(safeHour)}`
     };
-  }, [gameTime]);
+  }, [gameTime, calendar]);
 
   // Touch event handlers for mobile
   const handleTouchStart = useCallback((e: React.TouchEvent) => {
@@ -133,7 +131,7 @@ export const FloatingTimeDisplay: React.FC<FloatingTimeDisplayProps> = ({ gameTi
   }, [isDragging, handleMouseMove, handleMouseUp]);
 
 
-  const { date, time } = formatTime();
+  const { date, details, time } = formatTime();
 
   return (
     <div
@@ -170,6 +168,11 @@ export const FloatingTimeDisplay: React.FC<FloatingTimeDisplayProps> = ({ gameTi
           <div className="text-xs font-medium opacity-90 leading-tight">
             {date}
           </div>
+          {details && (
+            <div className="text-[10px] opacity-70 leading-tight mt-0.5">
+              {details}
+            </div>
+          )}
           <div className="text-sm font-bold mt-1 text-yellow-300">
             {time}
           </div>
@@ -5,7 +5,7 @@
 import React, { useState, useEffect, useRef, useMemo, useContext, useCallback } from 'react';
 import { GoogleGenAI, Type } from "@google/genai";
 import { AIContext } from '../App.tsx';
-import type { SaveData, FormData, KnownEntities, Status, GameHistoryEntry, Memory, Entity, CustomRule, RegexRule, Chronicle, CompressedHistorySegment } from './types.ts';
+import type { SaveData, FormData, KnownEntities, Status, GameHistoryEntry, Memory, Entity, CustomRule, RegexRule, Chronicle, CompressedHistorySegment, TurnSnapshotState } from './types.ts';
 import { buildEnhancedRagPrompt } from './promptBuilder.ts';
 
 // Extracted Handlers
@@ -13,7 +13,8 @@ import { createGameActionHandlers } from './handlers/gameActionHandlers';
 import { createEntityHandlers } from './handlers/entityHandlers';
 import { createGameStateHandlers } from './handlers/gameStateHandlers';
 import { createAutoTrimmedStoryLog } from './utils/storyLogUtils';
-import { createCommandTagProcessor } from './utils/commandTagProcessor';
+import { createCommandTagProcessor, CommandTagState, extractCommandTags } from './utils/commandTagProcessor';
+import { formatToolCallAsTag } from './utils/commandTagTools';
 import { partyDebugger } from './utils/partyDebugger';
 
 // Custom Hooks
@@ -25,6 +26,9 @@ import { useHistoryCompression } from './hooks/useHistoryCompression';
 // Modal Imports
 import { MemoizedModals } from './MemoizedModals.tsx';
 import { GameSettingsModal, GameSettings } from './GameSettingsModal.tsx';
+import { SaveSlotModal } from './SaveSlotModal.tsx';
+import { TurnRewindModal } from './TurnRewindModal.tsx';
+import { CommandTagReviewModal } from './CommandTagReviewModal.tsx';
 
 // UI Components
 import { DesktopHeader } from './game/DesktopHeader.tsx';
@@ -32,6 +36,7 @@ import { MobileHeader } from './game/MobileHeader.tsx';
 import { StoryPanel } from './game/StoryPanel.tsx';
 import { ActionPanel } from './game/ActionPanel.tsx';
 import { CombinedStoryPanel } from './game/CombinedStoryPanel.tsx';
+import { ResponseAlternativesBar } from './game/ResponseAlternativesBar.tsx';
 import { StatusPanel } from './game/StatusPanel.tsx';
 import { FloatingChoicePanel } from './game/FloatingChoicePanel.tsx';
 import { SidebarNav } from './game/SidebarNav.tsx';
@@ -42,7 +47,22 @@ import { FloatingTimeDisplay } from './FloatingTimeDisplay.tsx';
 // Optimization and Management
 import { GameStateOptimizer, CleanupStats } from './GameStateOptimizer';
 import { UnifiedMemoryManager } from './utils/UnifiedMemoryManager';
+import { SaveSlotManager } from './utils/SaveSlotManager';
+import { TurnSnapshotManager } from './utils/TurnSnapshotManager';
+import { StoryBranchManager, StoryBranchTransition } from './utils/StoryBranchManager';
+import { ResponseAlternativeManager } from './utils/ResponseAlternativeManager';
+import { previewCommandTags } from './utils/commandTagPreview';
+import type { ParsedCommandTag } from './utils/commandTagParser';
+import type { StatusTickEvent } from './utils/statusDurations';
+import { computeAttributes, normalizeAttributes } from './utils/characterAttributes';
+import type { ComputedAttribute } from './utils/characterAttributes';
+import { formatCheckForLog, performCheck } from './utils/skillChecks';
+import type { CheckContext, CheckRequest, CheckResult } from './utils/skillChecks';
+import { summarizeHistorySegment } from './utils/historySummarizer';
+import { buyItem, formatMoney, normalizeCurrencies, sellItem } from './utils/economy';
+import { regexEngine } from './utils/RegexEngine';
 import { MemoryAnalytics } from './utils/MemoryAnalytics';
+import { usageLedger } from './utils/usageLedger';
 import { useDebouncedCallback } from './hooks/useDebounce.ts';
 import { OptimizedInteractiveText } from './OptimizedInteractiveText.tsx';
 import { getThemeColors } from './utils/themeUtils';
@@ -54,8 +74,10 @@ export const GameScreen: React.FC<{
     onBackToMenu: () => void,
     keyRotationNotification: string | null;
     onClearNotification: () => void;
-}> = ({ initialGameState, onBackToMenu, keyRotationNotification, onClearNotification }) => {
-    const { ai, isAiReady, apiKeyError, rotateKey, isUsingDefaultKey, userApiKeyCount, selectedModel, temperature, topK, topP, openAiBaseUrl, openAiApiKey } = useContext(AIContext);
+    loadNotification?: string | null;
+    onClearLoadNotification?: () => void;
+}> = ({ initialGameState, onBackToMenu, keyRotationNotification, onClearNotification, loadNotification = null, onClearLoadNotification }) => {
+    const { llmProvider, isAiReady, apiKeyError, rotateKey, isUsingDefaultKey, userApiKeyCount, selectedModel, temperature, topK, topP, enableToolCalling, taskModels } = useContext(AIContext);
     
     // Refs
     const isGeneratingRef = useRef<boolean>(false);
@@ -117,7 +139,7 @@ export const GameScreen: React.FC<{
     const {
         worldData, knownEntities, statuses, quests, gameHistory, memories, party,
         customRules, regexRules, systemInstruction, chronicle, gameTime, turnCount, currentTurnTokens,
-        totalTokens, storyLog, choices, npcsPresent, locationDiscoveryOrder, choiceHistory, cotResearchLog, isLoading,
+        totalTokens, storyLog, choices, npcsPresent, locationDiscoveryOrder, choiceHistory, cotResearchLog, turnSnapshots, storyBranches, responseAlternatives, diceState, isLoading,
         hasGeneratedInitialStory, customAction
     } = gameState;
 
@@ -125,7 +147,7 @@ export const GameScreen: React.FC<{
         setWorldData, setKnownEntities, setStatuses, setQuests, setGameHistory, setMemories,
         setParty, setCustomRules, setRegexRules, setSystemInstruction, setChronicle, setGameTime,
         setTurnCount, setCurrentTurnTokens, setTotalTokens, setStoryLog, setChoices, setNPCsPresent,
-        setLocationDiscoveryOrder, updateChoiceHistory, setCotResearchLog, setIsLoading, setHasGeneratedInitialStory, setCustomAction
+        setLocationDiscoveryOrder, updateChoiceHistory, setCotResearchLog, setTurnSnapshots, setStoryBranches, setResponseAlternatives, setDiceState, setIsLoading, setHasGeneratedInitialStory, setCustomAction
     } = gameStateActions;
 
     // Create auto-trimmed story log for main story updates
@@ -135,7 +157,7 @@ export const GameScreen: React.FC<{
         isHomeModalOpen, isRestartModalOpen, isMemoryModalOpen, isKnowledgeModalOpen,
         isCustomRulesModalOpen, isMapModalOpen, isPcInfoModalOpen, isPartyModalOpen,
         isQuestLogModalOpen, isSidebarOpen, isChoicesModalOpen, isGameSettingsModalOpen,
-        isInventoryModalOpen, isNPCPresenceModalOpen, isAdminModalOpen, isEditItemModalOpen, isEditSkillModalOpen, isEditNPCModalOpen, isEditPCModalOpen, isEditLocationModalOpen, isRegexManagerModalOpen, activeEntity, activeStatus, activeQuest, activeEditItem, activeEditSkill, activeEditNPC, activeEditPC, activeEditLocation, showSaveSuccess, showRulesSavedSuccess,
+        isInventoryModalOpen, isNPCPresenceModalOpen, isAdminModalOpen, isEditItemModalOpen, isEditSkillModalOpen, isEditNPCModalOpen, isEditPCModalOpen, isEditLocationModalOpen, isRegexManagerModalOpen, isSaveSlotModalOpen, isTurnRewindModalOpen, activeEntity, activeStatus, activeQuest, activeEditItem, activeEditSkill, activeEditNPC, activeEditPC, activeEditLocation, showSaveSuccess, showRulesSavedSuccess,
         notification
     } = modalState;
 
@@ -143,7 +165,7 @@ export const GameScreen: React.FC<{
         setIsHomeModalOpen, setIsRestartModalOpen, setIsMemoryModalOpen, setIsKnowledgeModalOpen,
         setIsCustomRulesModalOpen, setIsMapModalOpen, setIsPcInfoModalOpen, setIsPartyModalOpen,
         setIsQuestLogModalOpen, setIsSidebarOpen, setIsChoicesModalOpen, setIsGameSettingsModalOpen,
-        setIsInventoryModalOpen, setIsNPCPresenceModalOpen, setIsAdminModalOpen, setIsEditItemModalOpen, setIsEditSkillModalOpen, setIsEditNPCModalOpen, setIsEditPCModalOpen, setIsEditLocationModalOpen, setIsRegexManagerModalOpen, setActiveEntity, setActiveStatus, setActiveQuest, setActiveEditItem, setActiveEditSkill, setActiveEditNPC, setActiveEditPC, setActiveEditLocation, setShowSaveSuccess, setShowRulesSavedSuccess,
+        setIsInventoryModalOpen, setIsNPCPresenceModalOpen, setIsAdminModalOpen, setIsEditItemModalOpen, setIsEditSkillModalOpen, setIsEditNPCModalOpen, setIsEditPCModalOpen, setIsEditLocationModalOpen, setIsRegexManagerModalOpen, setIsSaveSlotModalOpen, setIsTurnRewindModalOpen, setActiveEntity, setActiveStatus, setActiveQuest, setActiveEditItem, setActiveEditSkill, setActiveEditNPC, setActiveEditPC, setActiveEditLocation, setShowSaveSuccess, setShowRulesSavedSuccess,
         setNotification, modalCloseHandlers
     } = modalStateActions;
 
@@ -166,11 +188,91 @@ export const GameScreen: React.FC<{
     const pcName = pcEntity?.name;
     
     // Initialize handlers with current state
+    // Trạng thái mới nhất cho command tag; cập nhật ngay khi commit để các lần xử lý liên tiếp không đọc dữ liệu cũ
+    const commandTagStateRef = useRef<CommandTagState>();
+    // Thẻ lệnh đang chờ người chơi duyệt (chế độ duyệt thay đổi)
+    const [pendingTagReview, setPendingTagReview] = useState<ParsedCommandTag[] | null>(null);
+    // Phần story của phản hồi đang stream, hiển thị tạm cho tới khi lượt hoàn tất
+    const [streamingStory, setStreamingStory] = useState<string | null>(null);
+    // Yêu cầu AI đang chạy, để nút Dừng có thể hủy
+    const activeRequestRef = useRef<AbortController | null>(null);
+    // Trạng thái hết hạn/tác động mỗi lượt, báo cho AI ở lượt kế tiếp
+    const [statusEvents, setStatusEvents] = useState<StatusTickEvent[]>([]);
+    // Kết quả kiểm tra do thẻ CHECK yêu cầu, báo cho AI ở lượt kế tiếp
+    const [pendingChecks, setPendingChecks] = useState<CheckResult[]>([]);
+    // Nhiều lần tung trong cùng một lượt phải đọc vị trí mới nhất của bộ sinh số
+    const diceStateRef = useRef(diceState);
+    commandTagStateRef.current = { gameTime, chronicle, memories, statuses, knownEntities, quests, party, locationDiscoveryOrder };
+
+    const getCheckContext = useCallback((): CheckContext => {
+        const state = commandTagStateRef.current!;
+        return {
+            knownEntities: state.knownEntities,
+            statuses: state.statuses,
+            attributes: normalizeAttributes(worldData.attributes),
+            realmTiers: worldData.realmTiers,
+            difficulty: worldData.difficulty
+        };
+    }, [worldData]);
+
+    const rollCheck = useCallback((request: CheckRequest): CheckResult => {
+        const { result, diceState: nextDiceState } = performCheck(request, getCheckContext(), diceStateRef.current);
+        diceStateRef.current = nextDiceState;
+        setDiceState(nextDiceState);
+        console.log(`🎲 ${formatCheckForLog(result)}`);
+        return result;
+    }, [getCheckContext, setDiceState]);
+
+    // Đoạn lịch sử vừa nén được model "Tóm tắt ký ức" viết lại; lỗi thì giữ bản tóm tắt tự động
+    const summarizeCompressedSegment = useCallback((segment: CompressedHistorySegment, entries: GameHistoryEntry[]) => {
+        summarizeHistorySegment(taskModels.memory, entries, segment.turnRange)
+            .then(summary => {
+                if (!summary) return;
+                setCompressedHistory(prev => prev.map(existing =>
+                    existing.turnRange === segment.turnRange && existing.compressedAt === segment.compressedAt ? { ...existing, summary } : existing
+                ));
+            })
+            .catch(error => console.warn('⚠️ Không thể tóm tắt lịch sử đã nén:', error));
+    }, [taskModels.memory, setCompressedHistory]);
+
     const commandTagProcessor = useMemo(() => createCommandTagProcessor({
         setGameTime, setChronicle, setMemories, setStatuses, setKnownEntities, setQuests,
         setParty, setLocationDiscoveryOrder,
-        knownEntities, statuses, party, regexRules, turnCount, worldData
-    }), [knownEntities, statuses, party, regexRules, turnCount, worldData]);
+        getCurrentState: () => commandTagStateRef.current!,
+        onStateCommitted: (state) => { commandTagStateRef.current = state; },
+        onTagsRejected: (errors) => {
+            setNotification(`⚠️ ${errors.length} thẻ lệnh bị lỗi - thay đổi trạng thái của lượt này đã bị hủy.`);
+            setTimeout(() => setNotification(null), 5000);
+        },
+        onStatusEvents: (events) => {
+            setStatusEvents(prev => [...prev, ...events]);
+            const expired = events.filter(event => event.kind === 'expired').map(event => event.name);
+            if (expired.length > 0) {
+                setNotification(`⏳ Hết hiệu lực: ${expired.join(', ')}`);
+                setTimeout(() => setNotification(null), 4000);
+            }
+        },
+        rollCheck,
+        onChecksResolved: (results, loggedInStory) => {
+            setPendingChecks(prev => [...prev, ...results]);
+            // Thẻ được duyệt sau khi truyện đã hiển thị nên kết quả được ghi thành dòng riêng
+            if (!loggedInStory) {
+                storyLogManager.update(prev => [...prev, ...results.map(formatCheckForLog)]);
+            }
+        },
+        reviewChanges: gameSettings.reviewTagChanges,
+        onReviewRequested: setPendingTagReview,
+        regexRules, turnCount, worldData
+    }), [regexRules, turnCount, worldData, gameSettings.reviewTagChanges, rollCheck, storyLogManager]);
+
+    const previewReviewedTags = useCallback((tags: ParsedCommandTag[]) =>
+        previewCommandTags(commandTagStateRef.current!, tags, { regexRules, turnCount, worldData }),
+    [regexRules, turnCount, worldData]);
+
+    const handleApplyTagReview = useCallback((tags: ParsedCommandTag[]) => {
+        commandTagProcessor.commitTags(tags);
+        setPendingTagReview(null);
+    }, [commandTagProcessor]);
     
     const parseStoryAndTags = useCallback((storyText: string, applySideEffects = true): string => {
         return commandTagProcessor.parseStoryAndTags(storyText, applySideEffects);
@@ -243,17 +345,22 @@ export const GameScreen: React.FC<{
         ].slice(-100)); // Keep last 100 entries to prevent save file bloat
     }, [setCotResearchLog]);
 
+    // Ghi nhận phản hồi AI vừa áp dụng làm phương án của lượt gần nhất
+    const handleResponseAccepted = useCallback((action: string, responseText: string, turn: number, isRegeneration: boolean) => {
+        setResponseAlternatives(prev => ResponseAlternativeManager.accept(prev, turn, action, responseText, isRegeneration));
+    }, []);
+
     // Initialize game action handlers
     const gameActionHandlers = useMemo(() => createGameActionHandlers({
-        ai, selectedModel, systemInstruction, responseSchema,
+        llmProvider, selectedModel, systemInstruction, responseSchema,
         isUsingDefaultKey, userApiKeyCount, rotateKey, rehydratedChoices,
-        temperature, topK, topP, enableCOT: gameSettings.enableCOT,
-        openAiBaseUrl, openAiApiKey,
+        temperature, topK, topP, enableCOT: gameSettings.enableCOT, enableToolCalling, suggestionModel: taskModels.suggestion,
         setIsLoading, setChoices, setCustomAction, setStoryLog, setGameHistory,
-        setTurnCount, setCurrentTurnTokens, setTotalTokens, setNPCsPresent,
-        gameHistory, customRules, regexRules, ruleChanges, setRuleChanges, parseStoryAndTags,
-        updateChoiceHistory, updateCOTResearchLog, triggerHighTokenCooldown
-    }), [ai, selectedModel, systemInstruction, responseSchema, isUsingDefaultKey, userApiKeyCount, rotateKey, rehydratedChoices, temperature, topK, topP, gameSettings.enableCOT, openAiBaseUrl, openAiApiKey, gameHistory, customRules, regexRules, ruleChanges, parseStoryAndTags, updateChoiceHistory, updateCOTResearchLog, triggerHighTokenCooldown, setNPCsPresent]);
+        setTurnCount, setCurrentTurnTokens, setTotalTokens, setNPCsPresent, setStreamingStory, activeRequestRef,
+        gameHistory, choices, customRules, regexRules, ruleChanges, setRuleChanges, statusEvents, setStatusEvents,
+        pendingChecks, setPendingChecks, rollCheck, getCheckContext, parseStoryAndTags,
+        updateChoiceHistory, updateCOTResearchLog, triggerHighTokenCooldown, onResponseAccepted: handleResponseAccepted
+    }), [llmProvider, selectedModel, systemInstruction, responseSchema, isUsingDefaultKey, userApiKeyCount, rotateKey, rehydratedChoices, temperature, topK, topP, gameSettings.enableCOT, enableToolCalling, taskModels.suggestion, gameHistory, choices, customRules, regexRules, ruleChanges, statusEvents, pendingChecks, rollCheck, getCheckContext, parseStoryAndTags, updateChoiceHistory, updateCOTResearchLog, triggerHighTokenCooldown, setNPCsPresent, handleResponseAccepted]);
 
     // Function to get current game state
     const getCurrentGameState = useCallback((): SaveData => {
@@ -296,12 +403,12 @@ export const GameScreen: React.FC<{
         worldData, knownEntities, statuses, quests, gameHistory, memories, party,
         customRules, systemInstruction, turnCount, totalTokens, gameTime, chronicle,
         compressedHistory, historyStats, cleanupStats, archivedMemories, memoryStats,
-        storyLog, choices, locationDiscoveryOrder, choiceHistory,
+        storyLog, choices, locationDiscoveryOrder, choiceHistory, turnSnapshots, storyBranches, responseAlternatives, diceState,
         setShowSaveSuccess, setStoryLog, setChoices, setStatuses, setQuests, setMemories,
         setKnownEntities, setParty, setCustomRules, setTurnCount, setTotalTokens, setGameTime, setChronicle,
         setRuleChanges, setGameHistory, setHasGeneratedInitialStory, setIsLoading,
         isGeneratingRef, initialGameState, previousRulesRef
-    }), [worldData, knownEntities, statuses, quests, gameHistory, memories, party, customRules, systemInstruction, turnCount, totalTokens, gameTime, chronicle, compressedHistory, historyStats, cleanupStats, archivedMemories, memoryStats, storyLog, choices, locationDiscoveryOrder, choiceHistory]);
+    }), [worldData, knownEntities, statuses, quests, gameHistory, memories, party, customRules, systemInstruction, turnCount, totalTokens, gameTime, chronicle, compressedHistory, historyStats, cleanupStats, archivedMemories, memoryStats, storyLog, choices, locationDiscoveryOrder, choiceHistory, turnSnapshots, storyBranches, responseAlternatives, diceState]);
 
     // --- Handle Key Rotation Notification ---
     useEffect(() => {
@@ -315,11 +422,135 @@ export const GameScreen: React.FC<{
         }
     }, [keyRotationNotification, onClearNotification]);
 
+    // --- Báo cho người chơi những gì migration đã thay đổi trong bản lưu vừa tải ---
+    useEffect(() => {
+        if (loadNotification) {
+            setNotification(loadNotification);
+            const timer = setTimeout(() => {
+                setNotification(null);
+                onClearLoadNotification?.();
+            }, 8000);
+            return () => clearTimeout(timer);
+        }
+    }, [loadNotification, onClearLoadNotification]);
+
+    // Gắn các yêu cầu AI trong màn chơi với lượt chơi này trong sổ sử dụng (cùng tên như slot lưu)
+    useEffect(() => {
+        usageLedger.setActiveSave(`${worldData.storyName || 'Phiêu Lưu Ký'} — ${worldData.characterName || 'Vô Danh'}`);
+        return () => usageLedger.setActiveSave(null);
+    }, [worldData.storyName, worldData.characterName]);
+
     // Monitor party changes for debugging
     useEffect(() => {
         partyDebugger.monitorPartyChanges(party, statuses, turnCount);
     }, [party, statuses, turnCount]);
 
+    const captureTurnSnapshotState = (): TurnSnapshotState => ({
+        knownEntities, statuses, quests, memories, chronicle, gameTime, gameHistory,
+        party, turnCount, storyLog, choices, locationDiscoveryOrder
+    });
+
+    // Ghi snapshot sau khi mỗi lượt hoàn tất (dùng cho hoàn tác / tua lại)
+    useEffect(() => {
+        if (isLoading || pendingTagReview) return;
+        setTurnSnapshots(prev => TurnSnapshotManager.record(prev, turnCount, captureTurnSnapshotState()));
+    }, [turnCount, isLoading, pendingTagReview]);
+
+    const branchTree = useMemo(() => StoryBranchManager.ensureTree(storyBranches), [storyBranches]);
+    const activeBranchName = StoryBranchManager.getActiveBranch(branchTree).name;
+
+    const applyTurnSnapshotState = useCallback((state: TurnSnapshotState) => {
+        setKnownEntities(state.knownEntities);
+        setStatuses(state.statuses);
+        setQuests(state.quests);
+        setMemories(state.memories);
+        setChronicle(state.chronicle);
+        setGameTime(state.gameTime);
+        setGameHistory(state.gameHistory);
+        setParty(state.party);
+        storyLogManager.set(state.storyLog);
+        setChoices(state.choices);
+        setLocationDiscoveryOrder(state.locationDiscoveryOrder);
+        setTurnCount(state.turnCount);
+        setCustomAction('');
+    }, [storyLogManager]);
+
+    // Áp dụng kết quả tua lại / tách nhánh / chuyển nhánh lên toàn bộ trạng thái game
+    const applyBranchTransition = useCallback((transition: StoryBranchTransition) => {
+        applyTurnSnapshotState(transition.state);
+        setTurnSnapshots(transition.log);
+        setStoryBranches(transition.tree);
+        setResponseAlternatives(undefined);
+        setIsTurnRewindModalOpen(false);
+    }, [applyTurnSnapshotState]);
+
+    const showTimelineNotification = useCallback((message: string) => {
+        setNotification(message);
+        setTimeout(() => setNotification(null), 3000);
+    }, []);
+
+    const handleRewindToTurn = useCallback((turn: number) => {
+        if (isLoading) return;
+        const transition = StoryBranchManager.rewind(branchTree, turnSnapshots, turn);
+        if (!transition) return;
+
+        applyBranchTransition(transition);
+        showTimelineNotification(`⏪ Đã quay lại lượt ${turn}`);
+    }, [branchTree, turnSnapshots, isLoading, applyBranchTransition, showTimelineNotification]);
+
+    const handleUndoLastTurn = useCallback(() => {
+        const previousTurn = StoryBranchManager.findPreviousTurn(branchTree, turnSnapshots, turnCount);
+        if (previousTurn === null) {
+            showTimelineNotification('Không có lượt nào để hoàn tác.');
+            return;
+        }
+        handleRewindToTurn(previousTurn);
+    }, [branchTree, turnSnapshots, turnCount, handleRewindToTurn, showTimelineNotification]);
+
+    const handleForkAtTurn = useCallback((turn: number) => {
+        if (isLoading) return;
+        const name = window.prompt(`Tên nhánh mới (tách từ lượt ${turn}):`, `Nhánh ${branchTree.branches.length}`);
+        if (name === null) return;
+
+        const transition = StoryBranchManager.fork(branchTree, turnSnapshots, turn, name);
+        if (!transition) return;
+
+        applyBranchTransition(transition);
+        showTimelineNotification(`🌿 Đã tách nhánh "${StoryBranchManager.getActiveBranch(transition.tree).name}" từ lượt ${turn}`);
+    }, [branchTree, turnSnapshots, isLoading, applyBranchTransition, showTimelineNotification]);
+
+    const handleSwitchBranch = useCallback((branchId: string) => {
+        if (isLoading) return;
+        const transition = StoryBranchManager.switchTo(branchTree, turnSnapshots, branchId);
+        if (!transition) return;
+
+        applyBranchTransition(transition);
+        showTimelineNotification(`🌿 Đã chuyển sang nhánh "${StoryBranchManager.getActiveBranch(transition.tree).name}"`);
+    }, [branchTree, turnSnapshots, isLoading, applyBranchTransition, showTimelineNotification]);
+
+    const turnSnapshotSummaries = useMemo(
+        () => isTurnRewindModalOpen ? StoryBranchManager.summarizeTimeline(branchTree, turnSnapshots) : [],
+        [isTurnRewindModalOpen, branchTree, turnSnapshots]
+    );
+
+    const storyBranchSummaries = useMemo(
+        () => isTurnRewindModalOpen ? StoryBranchManager.summarizeBranches(branchTree, turnSnapshots) : [],
+        [isTurnRewindModalOpen, branchTree, turnSnapshots]
+    );
+
+    // Autosave vào IndexedDB sau mỗi N lượt
+    const lastAutosaveTurnRef = useRef(initialGameState.turnCount || 0);
+    useEffect(() => {
+        if (!gameSettings.autosaveEnabled || isLoading || !SaveSlotManager.isSupported()) return;
+        const interval = Math.max(1, gameSettings.autosaveInterval || 5);
+        if (turnCount <= 0 || turnCount === lastAutosaveTurnRef.current || turnCount % interval !== 0) return;
+
+        lastAutosaveTurnRef.current = turnCount;
+        SaveSlotManager.autosave(gameStateHandlers.buildSaveData())
+            .then(meta => console.log(`💾 Autosaved turn ${meta.turnCount} to ${meta.id}`))
+            .catch(error => console.error('Autosave failed:', error));
+    }, [turnCount, isLoading, gameSettings.autosaveEnabled, gameSettings.autosaveInterval, gameStateHandlers]);
+
     
     // Define generateInitialStory callback before using it
     const generateInitialStory = useCallback(async () => {
@@ -417,6 +648,7 @@ export const GameScreen: React.FC<{
                 // Add compressed segment if created
                 if (unifiedCleanupResult.historyProcessed.compressed) {
                     setCompressedHistory(prev => [...prev, unifiedCleanupResult.historyProcessed.compressed!]);
+                    summarizeCompressedSegment(unifiedCleanupResult.historyProcessed.compressed, gameHistory.slice(0, -unifiedCleanupResult.historyProcessed.activeEntries.length));
                     setHistoryStats(prev => ({
                         ...prev,
                         compressionCount: prev.compressionCount + 1,
@@ -500,7 +732,8 @@ export const GameScreen: React.FC<{
         compressedHistory,
         historyStats,
         archivedMemories,
-        memoryStats
+        memoryStats,
+        summarizeCompressedSegment
     ]);
     
     const parseApiResponse = useCallback((text: string) => {
@@ -562,17 +795,74 @@ export const GameScreen: React.FC<{
             setChoices([]);
         }
     }, [parseStoryAndTags]);
-    const handleAction = useCallback(async (action: string) => {
-        if (isLoading || (!ai && !openAiBaseUrl.trim())) return;
+    const handleAction = useCallback(async (action: string, options?: { isRegeneration?: boolean }) => {
+        if (isLoading || !llmProvider) return;
         const currentGameState: SaveData = {
             worldData, knownEntities, statuses, quests, gameHistory, memories, party, customRules, systemInstruction, turnCount, totalTokens, gameTime, chronicle, compressedHistory
         };
-        await gameActionHandlers.handleAction(action, currentGameState);
-    }, [gameActionHandlers, isLoading, ai, openAiBaseUrl, worldData, knownEntities, statuses, quests, gameHistory, memories, party, customRules, systemInstruction, turnCount, totalTokens, gameTime, chronicle, compressedHistory]);
+        await gameActionHandlers.handleAction(action, currentGameState, options);
+    }, [gameActionHandlers, isLoading, llmProvider, worldData, knownEntities, statuses, quests, gameHistory, memories, party, customRules, systemInstruction, turnCount, totalTokens, gameTime, chronicle, compressedHistory]);
 
     const debouncedHandleAction = useDebouncedCallback((action: string) => {
         handleAction(action);
     }, 300);
+
+    // --- Tạo lại / chọn phương án phản hồi của lượt gần nhất ---
+    const [pendingRegeneration, setPendingRegeneration] = useState<string | null>(null);
+    // Lượt ngay sau hành động, hoặc lượt trước hành động khi lần tạo lại bị lỗi
+    const isLatestResponseTurn = !!responseAlternatives &&
+        (turnCount === responseAlternatives.turn + 1 || turnCount === responseAlternatives.turn);
+
+    const handleRegenerateResponse = useCallback(() => {
+        if (isLoading || !responseAlternatives) return;
+        const baseState = TurnSnapshotManager.restore(turnSnapshots, responseAlternatives.turn);
+        if (!baseState || !isLatestResponseTurn) {
+            showTimelineNotification('Chỉ có thể tạo lại phản hồi của lượt gần nhất.');
+            return;
+        }
+
+        // Lưu kết quả phương án hiện tại rồi khôi phục trạng thái trước hành động
+        if (turnCount === responseAlternatives.turn + 1) {
+            setResponseAlternatives(ResponseAlternativeManager.captureSelected(responseAlternatives, baseState, captureTurnSnapshotState()));
+        }
+        applyTurnSnapshotState(baseState);
+        setTurnSnapshots(prev => prev && TurnSnapshotManager.truncateFrom(prev, responseAlternatives.turn + 1));
+        setPendingRegeneration(responseAlternatives.action);
+    }, [isLoading, responseAlternatives, isLatestResponseTurn, turnSnapshots, turnCount, captureTurnSnapshotState, applyTurnSnapshotState, showTimelineNotification]);
+
+    // Gửi lại hành động sau khi trạng thái trước hành động đã được áp dụng
+    useEffect(() => {
+        if (pendingRegeneration === null || isLoading) return;
+        setPendingRegeneration(null);
+        handleAction(pendingRegeneration, { isRegeneration: true });
+    }, [pendingRegeneration, isLoading, handleAction]);
+
+    const handleSelectResponseAlternative = useCallback((index: number) => {
+        if (isLoading || !responseAlternatives || index === responseAlternatives.selectedIndex) return;
+        const baseState = TurnSnapshotManager.restore(turnSnapshots, responseAlternatives.turn);
+        if (!baseState) return;
+
+        // Phương án đang hiển thị chỉ được ghi nhận khi người chơi còn ở lượt ngay sau hành động
+        const alternatives = turnCount === responseAlternatives.turn + 1
+            ? ResponseAlternativeManager.captureSelected(responseAlternatives, baseState, captureTurnSnapshotState())
+            : responseAlternatives;
+        const state = ResponseAlternativeManager.resolveState(alternatives, index, baseState);
+        if (!state) return;
+
+        applyTurnSnapshotState(state);
+        setTurnSnapshots(prev => TurnSnapshotManager.record(prev, state.turnCount, state));
+        setResponseAlternatives(ResponseAlternativeManager.select(alternatives, index));
+    }, [isLoading, responseAlternatives, turnSnapshots, turnCount, captureTurnSnapshotState, applyTurnSnapshotState]);
+
+    const responseAlternativesBar = responseAlternatives && isLatestResponseTurn && !isLoading ? (
+        <ResponseAlternativesBar
+            selectedIndex={responseAlternatives.selectedIndex}
+            total={responseAlternatives.alternatives.length}
+            isLoading={isLoading}
+            onSelect={handleSelectResponseAlternative}
+            onRegenerate={handleRegenerateResponse}
+        />
+    ) : null;
     
     const handleEntityClick = useCallback((entityName: string) => entityHandlers.handleEntityClick(entityName), [entityHandlers]);
     const handleUseItem = useCallback((itemName: string) => entityHandlers.handleUseItem(itemName), [entityHandlers]);
@@ -600,6 +890,32 @@ export const GameScreen: React.FC<{
         setStoryLog(prev => [...prev, `> Vứt bỏ ${item.name}`, `Bạn đã vứt bỏ **${item.name}** khỏi túi đồ.`]);
     }, [setKnownEntities, setStoryLog]);
 
+    // Cửa hàng của thương nhân
+    const [activeMerchant, setActiveMerchant] = useState<Entity | null>(null);
+
+    // Giao dịch trong cửa hàng đi qua thẻ ITEM_BOUGHT/ITEM_SOLD như khi AI ghi thẻ, kiểm tra trước để báo lỗi cho người chơi
+    const handleTrade = useCallback((kind: 'buy' | 'sell', merchant: Entity, item: Entity) => {
+        const request = { item: item.name, merchant: merchant.name, quantity: 1 };
+        const trade = kind === 'buy' ? buyItem : sellItem;
+        const outcome = trade(commandTagStateRef.current!.knownEntities, request, normalizeCurrencies(worldData.currencies));
+        if (!outcome.ok) {
+            setNotification(`⚠️ ${outcome.error}`);
+            setTimeout(() => setNotification(null), 3000);
+            return;
+        }
+
+        const tag = formatToolCallAsTag({ name: kind === 'buy' ? 'ITEM_BOUGHT' : 'ITEM_SOLD', args: { name: item.name, merchant: merchant.name, quantity: 1 } });
+        if (!tag || !commandTagProcessor.commitTags(extractCommandTags(tag).tags)) return;
+
+        const price = formatMoney(outcome.total, outcome.currency);
+        setStoryLog(prev => [...prev, ...(kind === 'buy'
+            ? [`> Mua ${item.name}`, `Bạn đã mua **${item.name}** từ ${merchant.name} với giá ${price}.`]
+            : [`> Bán ${item.name}`, `Bạn đã bán **${item.name}** cho ${merchant.name} với giá ${price}.`])]);
+    }, [worldData, commandTagProcessor, setNotification, setStoryLog]);
+
+    const handleBuyItem = useCallback((merchant: Entity, item: Entity) => handleTrade('buy', merchant, item), [handleTrade]);
+    const handleSellItem = useCallback((merchant: Entity, item: Entity) => handleTrade('sell', merchant, item), [handleTrade]);
+
     const handleSaveEditedItem = useCallback((originalItem: Entity, editedItem: Entity) => {
         setKnownEntities(prev => {
             const newEntities = { ...prev };
@@ -776,6 +1092,11 @@ export const GameScreen: React.FC<{
         await gameActionHandlers.handleSuggestAction(storyLog, currentGameState);
     }, [gameActionHandlers, storyLog, worldData, knownEntities, statuses, quests, gameHistory, memories, party, customRules, systemInstruction, turnCount, totalTokens, gameTime, chronicle, compressedHistory]);
 
+    const handleStopRequest = useCallback(() => gameActionHandlers.cancelActiveRequest(), [gameActionHandlers]);
+
+    // Hủy yêu cầu còn dang dở khi rời màn chơi
+    useEffect(() => () => activeRequestRef.current?.abort(), []);
+
     const handleSaveGame = useCallback(() => {
         gameStateHandlers.handleSaveGame();
     }, [gameStateHandlers]);
@@ -875,6 +1196,7 @@ export const GameScreen: React.FC<{
             // Add compressed segment if created
             if (unifiedResult.historyProcessed.compressed) {
                 setCompressedHistory(prev => [...prev, unifiedResult.historyProcessed.compressed!]);
+                summarizeCompressedSegment(unifiedResult.historyProcessed.compressed, gameHistory.slice(0, -unifiedResult.historyProcessed.activeEntries.length));
                 setHistoryStats(prev => ({
                     ...prev,
                     compressionCount: prev.compressionCount + 1,
@@ -926,7 +1248,7 @@ export const GameScreen: React.FC<{
         }
         
         setTimeout(() => setNotification(null), 4000);
-    }, [worldData, knownEntities, statuses, gameHistory, memories, party, customRules, systemInstruction, turnCount, totalTokens, gameTime, chronicle, compressedHistory, historyStats, cleanupStats, archivedMemories, memoryStats]);
+    }, [worldData, knownEntities, statuses, gameHistory, memories, party, customRules, systemInstruction, turnCount, totalTokens, gameTime, chronicle, compressedHistory, historyStats, cleanupStats, archivedMemories, memoryStats, summarizeCompressedSegment]);
 
     // Debug function to show current system status
     const debugSystemStatus = useCallback(() => {
@@ -1114,6 +1436,19 @@ export const GameScreen: React.FC<{
         displayParty,
         playerInventory
     }), [pcEntity, pcStatuses, displayParty, playerInventory]);
+
+    // Chỉ số của PC sau khi cộng cảnh giới, trang bị và trạng thái
+    const pcAttributes = useMemo<ComputedAttribute[]>(() => pcEntity
+        ? computeAttributes(pcEntity, normalizeAttributes(worldData.attributes), { realmTiers: worldData.realmTiers, statuses, knownEntities })
+        : [], [pcEntity, worldData.attributes, worldData.realmTiers, statuses, knownEntities]);
+
+    // Macro {{hp}} và {{mana}} của regex lấy từ tài nguyên của PC
+    useEffect(() => {
+        regexEngine.updateMacroContext({
+            currentHp: pcAttributes.find(attribute => attribute.id === 'hp')?.current,
+            currentMana: pcAttributes.find(attribute => attribute.id === 'mp')?.current
+        });
+    }, [pcAttributes]);
     
     const themeColors = getThemeColors(gameSettings.themeColor);
     
@@ -1153,6 +1488,9 @@ export const GameScreen: React.FC<{
                 onSettings={() => setIsGameSettingsModalOpen(true)}
                 onImport={() => {}}
                 onSave={handleSaveGame}
+                onSaveToSlot={() => setIsSaveSlotModalOpen(true)}
+                onRewind={() => setIsTurnRewindModalOpen(true)}
+                onUndoLastTurn={handleUndoLastTurn}
                 onExportWorldSetup={handleExportWorldSetup}
                 onMap={() => setIsMapModalOpen(true)}
                 onRules={() => setIsCustomRulesModalOpen(true)}
@@ -1180,6 +1518,9 @@ export const GameScreen: React.FC<{
                 onSettings={() => setIsGameSettingsModalOpen(true)}
                 onImport={() => {}}
                 onSave={handleSaveGame} 
+                onSaveToSlot={() => setIsSaveSlotModalOpen(true)}
+                onRewind={() => setIsTurnRewindModalOpen(true)}
+                onUndoLastTurn={handleUndoLastTurn}
                 onExportWorldSetup={handleExportWorldSetup}
                 onMap={() => setIsMapModalOpen(true)}
                 onRules={() => setIsCustomRulesModalOpen(true)}
@@ -1202,6 +1543,9 @@ export const GameScreen: React.FC<{
             <div className="flex-grow grid grid-cols-1 md:grid-cols-2 gap-4 mt-4 overflow-hidden p-4 md:p-0 md:hidden">
                 <StoryPanel
                     storyLog={storyLog}
+                    streamingText={streamingStory}
+                    branchName={activeBranchName}
+                    footer={responseAlternativesBar}
                     isLoading={isLoading}
                     isAiReady={isAiReady}
                     knownEntities={knownEntities}
@@ -1217,6 +1561,7 @@ export const GameScreen: React.FC<{
                     customAction={customAction}
                     setCustomAction={setCustomAction}
                     handleSuggestAction={handleSuggestAction}
+                    onStop={handleStopRequest}
                     isCustomActionLocked={isCustomActionLocked}
                     isHighTokenCooldown={false}
                     cooldownTimeLeft={0}
@@ -1228,6 +1573,9 @@ export const GameScreen: React.FC<{
                 <div className="flex-grow min-h-0" style={{ flexBasis: '60%' }}>
                     <CombinedStoryPanel
                         storyLog={storyLog}
+                        streamingText={streamingStory}
+                        branchName={activeBranchName}
+                        footer={responseAlternativesBar}
                         isLoading={isLoading}
                         isAiReady={isAiReady}
                         knownEntities={knownEntities}
@@ -1239,6 +1587,7 @@ export const GameScreen: React.FC<{
                     <StatusPanel
                         pcEntity={entityComputations.pcEntity}
                         pcStatuses={entityComputations.pcStatuses}
+                        pcAttributes={pcAttributes}
                         displayParty={entityComputations.displayParty}
                         playerInventory={entityComputations.playerInventory}
                         quests={quests}
@@ -1261,6 +1610,7 @@ export const GameScreen: React.FC<{
                     customAction={customAction}
                     setCustomAction={setCustomAction}
                     handleSuggestAction={handleSuggestAction}
+                    onStop={handleStopRequest}
                     isCustomActionLocked={isCustomActionLocked}
                     isHighTokenCooldown={false}
                     cooldownTimeLeft={0}
@@ -1277,6 +1627,7 @@ export const GameScreen: React.FC<{
                 handleAction={handleAction}
                 debouncedHandleAction={debouncedHandleAction}
                 handleSuggestAction={handleSuggestAction}
+                onStop={handleStopRequest}
                 isLoading={isLoading}
                 isAiReady={isAiReady}
                 isCustomActionLocked={isCustomActionLocked}
@@ -1316,6 +1667,7 @@ export const GameScreen: React.FC<{
                             activeEditNPC={activeEditNPC || null}
                             activeEditPC={activeEditPC || null}
                             activeEditLocation={activeEditLocation || null}
+                            activeMerchant={activeMerchant}
                             onBackToMenu={onBackToMenu}
                             handleRestartGame={handleRestartGame}
                             setActiveEntity={setActiveEntity}
@@ -1349,6 +1701,9 @@ export const GameScreen: React.FC<{
                             setActiveEditLocation={setActiveEditLocation}
                             handleSaveEditedLocation={handleSaveEditedLocation}
                             setIsEditLocationModalOpen={setIsEditLocationModalOpen}
+                            setActiveMerchant={setActiveMerchant}
+                            handleBuyItem={handleBuyItem}
+                            handleSellItem={handleSellItem}
                             modalCloseHandlers={modalCloseHandlers || {}}
                             memories={memories || []}
                             knownEntities={knownEntities || {}}
@@ -1378,10 +1733,39 @@ export const GameScreen: React.FC<{
                 onSettingsChange={handleSettingsChange}
             />
 
+            <SaveSlotModal
+                isOpen={isSaveSlotModalOpen}
+                onClose={() => setIsSaveSlotModalOpen(false)}
+                mode="save"
+                getSaveData={gameStateHandlers.buildSaveData}
+                defaultSlotName={`${worldData.characterName || 'Nhân vật'} - Lượt ${turnCount}`}
+            />
+
+            <CommandTagReviewModal
+                isOpen={!!pendingTagReview}
+                tags={pendingTagReview || []}
+                onPreview={previewReviewedTags}
+                onApply={handleApplyTagReview}
+                onRejectAll={() => setPendingTagReview(null)}
+            />
+
+            <TurnRewindModal
+                isOpen={isTurnRewindModalOpen}
+                onClose={() => setIsTurnRewindModalOpen(false)}
+                snapshots={turnSnapshotSummaries}
+                currentTurn={turnCount}
+                isLoading={isLoading}
+                onRewindToTurn={handleRewindToTurn}
+                onUndoLastTurn={handleUndoLastTurn}
+                branches={storyBranchSummaries}
+                onForkAtTurn={handleForkAtTurn}
+                onSwitchBranch={handleSwitchBranch}
+            />
+
 
             {/* Floating Time Display - Only show on mobile */}
             <div className="md:hidden">
-                <FloatingTimeDisplay gameTime={gameTime} />
+                <FloatingTimeDisplay gameTime={gameTime} calendar={worldData.calendar} />
             </div>
             </div>
         </div>
@@ -10,6 +10,9 @@ export interface GameSettings {
     historyCompressionThreshold: number;
     themeColor: string;
     enableCOT: boolean;
+    reviewTagChanges: boolean;
+    autosaveEnabled: boolean;
+    autosaveInterval: number;
 }
 
 const DEFAULT_SETTINGS: GameSettings = {
@@ -21,6 +24,9 @@ const DEFAULT_SETTINGS: GameSettings = {
     historyCompressionThreshold: 72,
     themeColor: 'purple',
     enableCOT: false,
+    reviewTagChanges: false,
+    autosaveEnabled: true,
+    autosaveInterval: 5,
 };
 
 const FONT_FAMILIES = [
@@ -345,6 +351,82 @@ export const GameSettingsModal: React.FC<{
                                 <div className="w-11 h-6 bg-slate-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 dark:peer-focus:ring-blue-800 rounded-full peer dark:bg-slate-700 peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-slate-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all dark:border-slate-600 peer-checked:bg-blue-600"></div>
                             </label>
                         </div>
+
+                        {/* Review Mode Toggle */}
+                        <div className="flex items-center justify-between p-4 bg-slate-50 dark:bg-slate-800/50 rounded-lg border border-slate-200 dark:border-slate-700">
+                            <div className="flex-1">
+                                <div className="flex items-center gap-2">
+                                    <span className="text-lg">🔍</span>
+                                    <span className="font-semibold text-slate-800 dark:text-gray-100">
+                                        Duyệt thay đổi trước khi áp dụng
+                                    </span>
+                                </div>
+                                <p className="text-sm text-slate-600 dark:text-slate-400 mt-1">
+                                    Sau mỗi phản hồi của AI, hiển thị các thay đổi (vật phẩm, trạng thái, nhiệm vụ, thời gian...) để chấp nhận, từ chối hoặc sửa từng thẻ lệnh
+                                </p>
+                            </div>
+                            <label className="relative inline-flex items-center cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={localSettings.reviewTagChanges ?? false}
+                                    onChange={(e) => setLocalSettings(prev => ({ ...prev, reviewTagChanges: e.target.checked }))}
+                                    className="sr-only peer"
+                                />
+                                <div className="w-11 h-6 bg-slate-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 dark:peer-focus:ring-blue-800 rounded-full peer dark:bg-slate-700 peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-slate-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all dark:border-slate-600 peer-checked:bg-blue-600"></div>
+                            </label>
+                        </div>
+                    </div>
+
+                    {/* Autosave Settings */}
+                    <div className="space-y-3 p-4 bg-gray-50 dark:bg-slate-800 rounded-lg border border-gray-200 dark:border-slate-700">
+                        <div className="flex items-center justify-between">
+                            <div className="flex-1">
+                                <div className="flex items-center gap-2">
+                                    <span className="text-lg">💾</span>
+                                    <span className="font-semibold text-slate-800 dark:text-gray-100">
+                                        Tự động lưu
+                                    </span>
+                                </div>
+                                <p className="text-sm text-slate-600 dark:text-slate-400 mt-1">
+                                    Tự động lưu vào slot trong trình duyệt sau mỗi N lượt để không mất tiến trình khi tab bị đóng
+                                </p>
+                            </div>
+                            <label className="relative inline-flex items-center cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={localSettings.autosaveEnabled ?? true}
+                                    onChange={(e) => setLocalSettings(prev => ({ ...prev, autosaveEnabled: e.target.checked }))}
+                                    className="sr-only peer"
+                                />
+                                <div className="w-11 h-6 bg-slate-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 dark:peer-focus:ring-blue-800 rounded-full peer dark:bg-slate-700 peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-slate-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all dark:border-slate-600 peer-checked:bg-blue-600"></div>
+                            </label>
+                        </div>
+                        <div className="space-y-2">
+                            <div className="flex items-center justify-between">
+                                <span className="text-sm font-medium text-slate-700 dark:text-slate-300">
+                                    Mỗi {localSettings.autosaveInterval ?? 5} lượt
+                                </span>
+                                <div className="text-xs text-slate-500 dark:text-slate-400">
+                                    1 - 20
+                                </div>
+                            </div>
+                            <input
+                                type="range"
+                                min="1"
+                                max="20"
+                                step="1"
+                                disabled={!(localSettings.autosaveEnabled ?? true)}
+                                value={localSettings.autosaveInterval ?? 5}
+                                onChange={(e) => setLocalSettings(prev => ({ ...prev, autosaveInterval: parseInt(e.target.value) }))}
+                                className="w-full h-2 bg-slate-200 dark:bg-slate-700 rounded-lg appearance-none cursor-pointer disabled:opacity-50
+                                         focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50
+                                         [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-5 [&::-webkit-slider-thumb]:h-5 
+                                         [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-blue-500 
+                                         [&::-webkit-slider-thumb]:shadow-lg [&::-webkit-slider-thumb]:border-2 [&::-webkit-slider-thumb]:border-white
+                                         [&::-moz-range-thumb]:w-5 [&::-moz-range-thumb]:h-5 [&::-moz-range-thumb]:rounded-full 
+                                         [&::-moz-range-thumb]:bg-blue-500 [&::-moz-range-thumb]:border-none [&::-moz-range-thumb]:shadow-lg"
+                            />
+                        </div>
                     </div>
 
                     {/* Max Active History Entries Slider */}
@@ -441,10 +523,12 @@ export const GameSettingsModal: React.FC<{
                             <div>Font: {localSettings.fontFamily} - {localSettings.fontSize}px</div>
                             <div>Màu chủ đề: {THEME_COLORS.find(t => t.id === localSettings.themeColor)?.name || 'Tím Hoàng Gia'}</div>
                             <div>Chain of Thought: {localSettings.enableCOT ? '✅ Bật' : '❌ Tắt'}</div>
+                            <div>Duyệt thay đổi: {localSettings.reviewTagChanges ? '✅ Bật' : '❌ Tắt'}</div>
                             <div>Dọn dẹp bộ nhớ: {localSettings.memoryAutoClean ? '✅ Bật' : '❌ Tắt'}</div>
                             <div>Nén lịch sử: {localSettings.historyAutoCompress ? '✅ Bật' : '❌ Tắt'}</div>
                             <div>Lịch sử tối đa: {localSettings.maxActiveHistoryEntries ?? 100} mục</div>
                             <div>Ngưỡng nén lịch sử: {localSettings.historyCompressionThreshold ?? 72} mục</div>
+                            <div>Tự động lưu: {(localSettings.autosaveEnabled ?? true) ? `✅ Mỗi ${localSettings.autosaveInterval ?? 5} lượt` : '❌ Tắt'}</div>
                         </div>
                     </div>
                 </div>
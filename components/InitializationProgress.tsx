@@ -6,6 +6,7 @@ interface InitializationProgressProps {
     progress: number; // 0-100
     subStep?: string;
     loreConcepts?: { name: string; description: string }[]; // Generated lore concepts
+    onCancel?: () => void;  // Hủy các lời gọi AI đang chạy khi tạo thế giới
 }
 
 export const InitializationProgress: React.FC<InitializationProgressProps> = ({ 
@@ -13,7 +14,8 @@ export const InitializationProgress: React.FC<InitializationProgressProps> = ({
     currentStep, 
     progress, 
     subStep,
-    loreConcepts 
+    loreConcepts,
+    onCancel
 }) => {
     if (!isVisible) return null;
 
@@ -83,6 +85,15 @@ export const InitializationProgress: React.FC<InitializationProgressProps> = ({
                     <div className="w-2 h-2 bg-blue-400 rounded-full animate-bounce" style={{ animationDelay: '150ms' }}></div>
                     <div className="w-2 h-2 bg-blue-400 rounded-full animate-bounce" style={{ animationDelay: '300ms' }}></div>
                 </div>
+
+                {onCancel && (
+                    <button
+                        onClick={onCancel}
+                        className="mt-6 px-4 py-2 text-sm font-semibold rounded-lg border border-red-400/60 text-red-600 dark:text-red-300 hover:bg-red-500/10 transition-colors"
+                    >
+                        Hủy
+                    </button>
+                )}
             </div>
         </div>
     );
@@ -10,6 +10,12 @@ export interface InventoryModalProps {
     onUnequipItem?: (item: Entity) => void;
     onDiscardItem?: (item: Entity) => void;
     onEditItem?: (item: Entity) => void;
+    // Dùng lại cho cửa hàng: tiêu đề, phần đầu (ví, tab), giá và nút giao dịch
+    title?: string;
+    headerExtra?: React.ReactNode;
+    getPriceLabel?: (item: Entity) => string | null;
+    tradeLabel?: string;
+    onTradeItem?: (item: Entity) => void;
 }
 
 export const InventoryModal: React.FC<InventoryModalProps> = ({
@@ -20,7 +26,12 @@ export const InventoryModal: React.FC<InventoryModalProps> = ({
     onEquipItem,
     onUnequipItem,
     onDiscardItem,
-    onEditItem
+    onEditItem,
+    title = 'TÚI ĐỒ',
+    headerExtra,
+    getPriceLabel,
+    tradeLabel,
+    onTradeItem
 }) => {
     const [selectedItem, setSelectedItem] = useState<Entity | null>(null);
 
@@ -85,12 +96,13 @@ export const InventoryModal: React.FC<InventoryModalProps> = ({
                     <div className="flex items-center gap-2 sm:gap-4">
                         <h3 className="text-lg sm:text-xl font-bold text-white flex items-center gap-2">
                             <span className="w-5 h-5 sm:w-6 sm:h-6">🎒</span>
-                            TÚI ĐỒ
+                            {title}
                         </h3>
                         <div className="text-xs sm:text-sm text-gray-400">
                             {allItems.length} vật phẩm
                         </div>
                     </div>
+                    {headerExtra}
                     
                     <button 
                         onClick={onClose} 
@@ -153,6 +165,9 @@ export const InventoryModal: React.FC<InventoryModalProps> = ({
                                         {item.durability && (
                                             <div className="mt-1 text-blue-300">Độ bền: {item.durability}</div>
                                         )}
+                                        {getPriceLabel?.(item) && (
+                                            <div className="mt-1 text-amber-300">Giá: {getPriceLabel(item)}</div>
+                                        )}
                                     </div>
                                 </div>
                             );
@@ -173,12 +188,27 @@ export const InventoryModal: React.FC<InventoryModalProps> = ({
                                         {selectedItem.description && (
                                             <p className="text-sm text-gray-400">{selectedItem.description}</p>
                                         )}
+                                        {getPriceLabel?.(selectedItem) && (
+                                            <p className="text-sm text-amber-300">Giá: {getPriceLabel(selectedItem)}</p>
+                                        )}
                                     </div>
                                 </div>
                             </div>
                             
                             {/* Action buttons for selected item */}
                             <div className="flex flex-wrap justify-center gap-2 sm:gap-3">
+                                {onTradeItem && (
+                                    <button
+                                        className="px-3 py-2 sm:px-4 bg-amber-600 hover:bg-amber-500 text-white rounded-md font-semibold transition-colors text-sm sm:text-base"
+                                        onClick={() => {
+                                            onTradeItem(selectedItem);
+                                            setSelectedItem(null);
+                                        }}
+                                    >
+                                        {tradeLabel || 'GIAO DỊCH'}
+                                    </button>
+                                )}
+
                                 {selectedItem.usable && onUseItem && ((selectedItem.quantities === undefined || selectedItem.quantities > 0) || (selectedItem.uses === undefined || selectedItem.uses > 0)) && (
                                     <button
                                         className="px-3 py-2 sm:px-4 bg-green-600 hover:bg-green-500 text-white rounded-md font-semibold transition-colors text-sm sm:text-base"
@@ -65,6 +65,21 @@ describe('MainMenu', () => {
     expect(mockProps.onQuickPlay).toHaveBeenCalledTimes(1);
   });
 
+  it('should not render save slots button without a handler', () => {
+    render(<MainMenu {...mockProps} />);
+    
+    expect(screen.queryByText(/Slot Lưu Game/i)).not.toBeInTheDocument();
+  });
+
+  it('should call onOpenSaveSlots when save slots button is clicked', () => {
+    const onOpenSaveSlots = vi.fn();
+    render(<MainMenu {...mockProps} onOpenSaveSlots={onOpenSaveSlots} />);
+    
+    fireEvent.click(screen.getByText(/Slot Lưu Game/i));
+    
+    expect(onOpenSaveSlots).toHaveBeenCalledTimes(1);
+  });
+
   it('should render load game button', () => {
     render(<MainMenu {...mockProps} />);
     
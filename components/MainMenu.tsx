@@ -1,7 +1,7 @@
 
 import React, { useRef } from 'react';
 import MenuButton from './MenuButton.tsx';
-import { PlayIcon, FileIcon, ChartIcon, SettingsIcon } from './Icons.tsx';
+import { PlayIcon, FileIcon, ChartIcon, SettingsIcon, ArchiveIcon } from './Icons.tsx';
 
 export const MainMenu: React.FC<{ 
     onStartNewAdventure: () => void; 
@@ -9,10 +9,11 @@ export const MainMenu: React.FC<{
     hasLastWorldSetup?: boolean;
     onOpenApiSettings: () => void; 
     onLoadGameFromFile: (file: File) => void;
+    onOpenSaveSlots?: () => void;
     isUsingDefaultKey: boolean;
     onOpenChangelog: () => void;
     selectedAiModel: string;
-}> = ({ onStartNewAdventure, onQuickPlay, hasLastWorldSetup, onOpenApiSettings, onLoadGameFromFile, isUsingDefaultKey, onOpenChangelog, selectedAiModel }) => {
+}> = ({ onStartNewAdventure, onQuickPlay, hasLastWorldSetup, onOpenApiSettings, onLoadGameFromFile, onOpenSaveSlots, isUsingDefaultKey, onOpenChangelog, selectedAiModel }) => {
     const fileInputRef = useRef<HTMLInputElement>(null);
 
     const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -61,6 +62,16 @@ export const MainMenu: React.FC<{
               focusClass="focus:ring-emerald-500"
             />
           )}
+          {onOpenSaveSlots && (
+            <MenuButton 
+              text="Slot Lưu Game" 
+              icon={<ArchiveIcon />}
+              onClick={onOpenSaveSlots}
+              colorClass="bg-indigo-500"
+              hoverClass="hover:bg-indigo-600"
+              focusClass="focus:ring-indigo-400"
+            />
+          )}
           <MenuButton 
             text="Tải Game Từ Tệp (.json)" 
             icon={<FileIcon />}
@@ -13,6 +13,7 @@ import { MobileNPCPresenceModal } from './game/MobileNPCPresenceModal.tsx';
 import { PartyMemberTab } from './PartyMemberTab.tsx';
 import { QuestLog } from './QuestLog.tsx';
 import { InventoryModal } from './InventoryModal.tsx';
+import { MerchantModal } from './MerchantModal.tsx';
 import { AdminModal } from './AdminModal.tsx';
 import { EditItemModal } from './EditItemModal.tsx';
 import { EditSkillModal } from './EditSkillModal.tsx';
@@ -25,6 +26,7 @@ import type { Entity, Status, Quest, KnownEntities, Memory, CustomRule, RegexRul
 import { MBTI_PERSONALITIES } from './data/mbti.ts';
 import { CrossIcon, UserIcon } from './Icons.tsx';
 import * as GameIcons from './GameIcons.tsx';
+import { getItemPrice, formatMoney, formatWallet, normalizeCurrencies } from './utils/economy.ts';
 import { getIconForEntity, getIconForStatus, getStatusBorderColor, getStatusTextColor, getStatusFontWeight } from './utils.ts';
 
 // Utility function to format numbers properly, removing trailing commas
@@ -66,6 +68,7 @@ interface MemoizedModalsProps {
     activeEditNPC: Entity | null;
     activeEditPC: Entity | null;
     activeEditLocation: Entity | null;
+    activeMerchant?: Entity | null;
 
     // Handlers
     onBackToMenu: () => void;
@@ -101,6 +104,9 @@ interface MemoizedModalsProps {
     setActiveEditLocation: (location: Entity | null) => void;
     handleSaveEditedLocation: (originalLocation: Entity, editedLocation: Entity) => void;
     setIsEditLocationModalOpen: (open: boolean) => void;
+    setActiveMerchant?: (merchant: Entity | null) => void;
+    handleBuyItem?: (merchant: Entity, item: Entity) => void;
+    handleSellItem?: (merchant: Entity, item: Entity) => void;
     
     // onClose handlers for modals
     modalCloseHandlers: {
@@ -504,6 +510,7 @@ const MemoizedModalsComponent = ({
     activeEditNPC,
     activeEditPC,
     activeEditLocation,
+    activeMerchant = null,
     onBackToMenu,
     handleRestartGame,
     setActiveEntity,
@@ -537,6 +544,9 @@ const MemoizedModalsComponent = ({
     setActiveEditLocation,
     handleSaveEditedLocation,
     setIsEditLocationModalOpen,
+    setActiveMerchant,
+    handleBuyItem,
+    handleSellItem,
     modalCloseHandlers,
     memories,
     knownEntities,
@@ -552,6 +562,11 @@ const MemoizedModalsComponent = ({
     entityComputations,
     isHighTokenCooldown = false
 }: MemoizedModalsProps) => {
+    const currencies = useMemo(() => normalizeCurrencies(worldData?.currencies), [worldData?.currencies]);
+    const getPriceLabel = useCallback((item: Entity) => {
+        const price = getItemPrice(item, currencies);
+        return price ? formatMoney(price.amount, price.currency) : null;
+    }, [currencies]);
 
     return (
         <>
@@ -601,6 +616,10 @@ const MemoizedModalsComponent = ({
                     setIsEditLocationModalOpen(true);
                 }}
                 onDeleteStatus={handleDeleteStatus}
+                onTrade={setActiveMerchant ? (merchant) => {
+                    setActiveEntity(null);
+                    setActiveMerchant(merchant);
+                } : undefined}
             />
             
             <StatusDetailModal 
@@ -689,6 +708,8 @@ const MemoizedModalsComponent = ({
                     party={entityComputations.displayParty} 
                     statuses={statuses}
                     onMemberClick={handleEntityClick}
+                    knownEntities={knownEntities}
+                    worldData={worldData}
                 />
             </MemoizedInfoPanelModal>
 
@@ -735,8 +756,25 @@ const MemoizedModalsComponent = ({
                     setActiveEditItem(item);
                     setIsEditItemModalOpen(true);
                 }}
+                getPriceLabel={getPriceLabel}
+                headerExtra={currencies.length > 0 ? (
+                    <span className="text-xs sm:text-sm text-amber-300">{formatWallet(entityComputations.pcEntity, currencies)}</span>
+                ) : undefined}
             />
 
+            {/* Merchant Modal */}
+            {setActiveMerchant && handleBuyItem && handleSellItem && (
+                <MerchantModal
+                    merchant={activeMerchant ? (knownEntities[activeMerchant.name] || activeMerchant) : null}
+                    pc={entityComputations.pcEntity}
+                    playerInventory={entityComputations.playerInventory}
+                    currencies={currencies}
+                    onClose={() => setActiveMerchant(null)}
+                    onBuyItem={handleBuyItem}
+                    onSellItem={handleSellItem}
+                />
+            )}
+
             {/* Admin Modal */}
             <AdminModal
                 isOpen={isAdminModalOpen}
@@ -0,0 +1,56 @@
+import React, { useState } from 'react';
+import type { CurrencyDefinition, Entity } from './types';
+import { InventoryModal } from './InventoryModal.tsx';
+import { formatMoney, getBalance, getItemPrice, SELL_PRICE_RATIO } from './utils/economy';
+
+interface MerchantModalProps {
+    merchant: Entity | null;
+    pc?: Entity;
+    playerInventory: Entity[];
+    currencies: CurrencyDefinition[];
+    onClose: () => void;
+    onBuyItem: (merchant: Entity, item: Entity) => void;
+    onSellItem: (merchant: Entity, item: Entity) => void;
+}
+
+const tabClass = (active: boolean) =>
+    `px-3 py-1 rounded-md text-xs sm:text-sm font-semibold transition-colors ${active ? 'bg-amber-600 text-white' : 'bg-slate-700 text-gray-300 hover:bg-slate-600'}`;
+
+/**
+ * Cửa hàng của NPC thương nhân, dùng lại lưới vật phẩm của túi đồ.
+ * Tab "Mua" hiển thị hàng của thương nhân, tab "Bán" hiển thị túi đồ (trừ đồ đang trang bị).
+ */
+export const MerchantModal: React.FC<MerchantModalProps> = ({ merchant, pc, playerInventory, currencies, onClose, onBuyItem, onSellItem }) => {
+    const [mode, setMode] = useState<'buy' | 'sell'>('buy');
+    if (!merchant) return null;
+
+    const priceLabel = (item: Entity, ratio: number) => {
+        const price = getItemPrice(item, currencies);
+        return price ? formatMoney(Math.floor(price.amount * ratio), price.currency) : null;
+    };
+
+    const wallet = currencies.map(currency => (
+        <span key={currency.id} className="text-xs sm:text-sm text-amber-300 whitespace-nowrap">
+            {currency.symbol || currency.name} {getBalance(pc, currency.id)}
+        </span>
+    ));
+
+    return (
+        <InventoryModal
+            isOpen={true}
+            onClose={onClose}
+            title={`CỬA HÀNG · ${merchant.name}`}
+            playerInventory={mode === 'buy' ? merchant.merchantStock || [] : playerInventory.filter(item => !item.equipped)}
+            getPriceLabel={(item) => priceLabel(item, mode === 'buy' ? 1 : SELL_PRICE_RATIO)}
+            tradeLabel={mode === 'buy' ? 'MUA' : 'BÁN'}
+            onTradeItem={(item) => mode === 'buy' ? onBuyItem(merchant, item) : onSellItem(merchant, item)}
+            headerExtra={
+                <div className="flex items-center gap-2 sm:gap-3 flex-wrap justify-end">
+                    {wallet}
+                    <button className={tabClass(mode === 'buy')} onClick={() => setMode('buy')}>Mua</button>
+                    <button className={tabClass(mode === 'sell')} onClick={() => setMode('sell')}>Bán</button>
+                </div>
+            }
+        />
+    );
+};
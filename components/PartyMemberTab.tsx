@@ -1,12 +1,17 @@
 import React from 'react';
-import type { Entity, Status } from './types.ts';
+import type { Entity, KnownEntities, Status } from './types.ts';
 import { getIconForEntity } from './utils.ts';
+import { computeAttributes, normalizeAttributes } from './utils/characterAttributes';
+import { AttributeBars } from './AttributeBars.tsx';
 
 export const PartyMemberTab: React.FC<{
     party: Entity[];
     statuses: Status[];
     onMemberClick: (entityName: string) => void;
-}> = ({ party, statuses, onMemberClick }) => {
+    knownEntities?: KnownEntities;
+    worldData?: any; // Định nghĩa chỉ số và cảnh giới
+}> = ({ party, statuses, onMemberClick, knownEntities = {} as KnownEntities, worldData }) => {
+    const attributeDefinitions = worldData ? normalizeAttributes(worldData.attributes) : [];
     
     // Helper to get member status indicators
     const getMemberStatusIndicators = (member: Entity) => {
@@ -137,6 +142,17 @@ export const PartyMemberTab: React.FC<{
                                         {getMemberStatusIndicators(member)}
                                     </div>
                                     
+                                    {attributeDefinitions.length > 0 && (
+                                        <div className="mt-2 text-slate-700 dark:text-slate-300">
+                                            <AttributeBars
+                                                compact
+                                                attributes={computeAttributes(knownEntities[member.name] || member, attributeDefinitions, {
+                                                    realmTiers: worldData.realmTiers, statuses, knownEntities
+                                                })}
+                                            />
+                                        </div>
+                                    )}
+
                                     {/* Enhanced info for companions */}
                                     {member.type === 'companion' && (
                                         <div className="mt-2 space-y-1">
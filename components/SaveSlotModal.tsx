@@ -0,0 +1,183 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { SaveData } from './types.ts';
+import { ArchiveIcon, CrossIcon, TrashIcon, SaveIcon } from './Icons.tsx';
+import { SaveSlotManager, SaveSlotMetadata } from './utils/SaveSlotManager.ts';
+
+interface SaveSlotModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    mode: 'load' | 'save';
+    onLoadSlot?: (data: SaveData) => void;
+    getSaveData?: () => SaveData;
+    defaultSlotName?: string;
+}
+
+const formatSavedAt = (savedAt: number) => new Date(savedAt).toLocaleString('vi-VN');
+
+const formatGameTime = (gameTime: SaveSlotMetadata['gameTime']) => {
+    if (!gameTime) return '';
+    const minute = (gameTime.minute ?? 0).toString().padStart(2, '0');
+    return `Năm ${gameTime.year}, Tháng ${gameTime.month}, Ngày ${gameTime.day}, ${gameTime.hour}:${minute}`;
+};
+
+export const SaveSlotModal: React.FC<SaveSlotModalProps> = ({
+    isOpen, onClose, mode, onLoadSlot, getSaveData, defaultSlotName
+}) => {
+    const [slots, setSlots] = useState<SaveSlotMetadata[]>([]);
+    const [isBusy, setIsBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [newSlotName, setNewSlotName] = useState('');
+
+    const refreshSlots = useCallback(async () => {
+        if (!SaveSlotManager.isSupported()) {
+            setError('Trình duyệt không hỗ trợ IndexedDB. Hãy dùng "Lưu Trữ" để tải tệp về máy.');
+            return;
+        }
+        try {
+            setSlots(await SaveSlotManager.listSlots());
+            setError(null);
+        } catch (err) {
+            console.error('Error listing save slots:', err);
+            setError('Không thể đọc danh sách slot lưu.');
+        }
+    }, []);
+
+    useEffect(() => {
+        if (isOpen) {
+            setNewSlotName(defaultSlotName || '');
+            refreshSlots();
+        }
+    }, [isOpen, defaultSlotName, refreshSlots]);
+
+    const runAction = async (action: () => Promise<void>, errorMessage: string) => {
+        setIsBusy(true);
+        try {
+            await action();
+        } catch (err) {
+            console.error(errorMessage, err);
+            setError(errorMessage);
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleSaveNew = () => runAction(async () => {
+        if (!getSaveData) return;
+        const name = newSlotName.trim() || `Slot ${new Date().toLocaleString('vi-VN')}`;
+        await SaveSlotManager.saveToSlot(getSaveData(), { name, kind: 'manual' });
+        setNewSlotName('');
+        await refreshSlots();
+    }, 'Không thể lưu vào slot mới.');
+
+    const handleOverwrite = (slot: SaveSlotMetadata) => runAction(async () => {
+        if (!getSaveData) return;
+        if (!window.confirm(`Ghi đè slot "${slot.name}"?`)) return;
+        await SaveSlotManager.saveToSlot(getSaveData(), { id: slot.id, name: slot.name, kind: 'manual' });
+        await refreshSlots();
+    }, 'Không thể ghi đè slot.');
+
+    const handleLoad = (slot: SaveSlotMetadata) => runAction(async () => {
+        const data = await SaveSlotManager.loadSlot(slot.id);
+        if (!data) {
+            setError('Slot lưu không còn dữ liệu.');
+            return;
+        }
+        onLoadSlot?.(data);
+        onClose();
+    }, 'Không thể tải slot lưu.');
+
+    const handleDelete = (slot: SaveSlotMetadata) => runAction(async () => {
+        if (!window.confirm(`Xóa slot "${slot.name}"? Hành động này không thể hoàn tác.`)) return;
+        await SaveSlotManager.deleteSlot(slot.id);
+        await refreshSlots();
+    }, 'Không thể xóa slot.');
+
+    if (!isOpen) return null;
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-[70] p-4" onClick={onClose}>
+            <div className="bg-white/90 dark:bg-[#252945]/90 backdrop-blur-sm border border-slate-300 dark:border-slate-700 rounded-lg shadow-xl w-full max-w-2xl max-h-[85vh] flex flex-col text-slate-900 dark:text-white" onClick={e => e.stopPropagation()}>
+                <div className="p-4 border-b border-slate-200 dark:border-slate-600 flex justify-between items-center flex-shrink-0">
+                    <h3 className="text-lg font-semibold flex items-center gap-2">
+                        <ArchiveIcon className="w-6 h-6 text-blue-500" />
+                        {mode === 'save' ? 'Lưu Vào Slot' : 'Slot Lưu Game'}
+                    </h3>
+                    <button onClick={onClose} className="text-gray-500 dark:text-gray-400 hover:text-slate-900 dark:hover:text-white">
+                        <CrossIcon className="w-6 h-6"/>
+                    </button>
+                </div>
+
+                {mode === 'save' && (
+                    <div className="p-4 border-b border-slate-200 dark:border-slate-600 flex gap-2 flex-shrink-0">
+                        <input
+                            type="text"
+                            value={newSlotName}
+                            onChange={e => setNewSlotName(e.target.value)}
+                            placeholder="Tên slot mới..."
+                            className="flex-grow px-3 py-2 bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-600 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                        <button
+                            onClick={handleSaveNew}
+                            disabled={isBusy || !SaveSlotManager.isSupported()}
+                            className="px-4 py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 rounded-md text-white text-sm font-semibold transition-colors duration-200 flex items-center gap-2"
+                        >
+                            <SaveIcon className="w-4 h-4" /> Lưu slot mới
+                        </button>
+                    </div>
+                )}
+
+                <div className="p-4 flex-grow overflow-y-auto space-y-3">
+                    {error && (
+                        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+                    )}
+                    {slots.length === 0 && !error && (
+                        <p className="text-center text-slate-500 dark:text-slate-400 py-8">Chưa có slot lưu nào.</p>
+                    )}
+                    {slots.map(slot => (
+                        <div key={slot.id} className="p-3 bg-slate-50 dark:bg-slate-800/50 rounded-lg border border-slate-200 dark:border-slate-700">
+                            <div className="flex justify-between items-start gap-3">
+                                <div className="min-w-0">
+                                    <div className="flex items-center gap-2">
+                                        <span className="font-semibold text-slate-800 dark:text-gray-100 truncate">{slot.name}</span>
+                                        {slot.kind === 'autosave' && (
+                                            <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300">Tự động</span>
+                                        )}
+                                    </div>
+                                    <div className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                                        {slot.storyName} · {slot.characterName} · Lượt {slot.turnCount}
+                                    </div>
+                                    <div className="text-xs text-slate-500 dark:text-slate-400">
+                                        {formatGameTime(slot.gameTime)} · Lưu lúc {formatSavedAt(slot.savedAt)}
+                                    </div>
+                                </div>
+                                <div className="flex gap-2 flex-shrink-0">
+                                    {mode === 'load' ? (
+                                        <button onClick={() => handleLoad(slot)} disabled={isBusy} className="px-3 py-1.5 bg-green-600 hover:bg-green-500 disabled:opacity-50 rounded-md text-white text-xs font-semibold">
+                                            Tải
+                                        </button>
+                                    ) : slot.kind === 'manual' && (
+                                        <button onClick={() => handleOverwrite(slot)} disabled={isBusy} className="px-3 py-1.5 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 rounded-md text-white text-xs font-semibold">
+                                            Ghi đè
+                                        </button>
+                                    )}
+                                    <button onClick={() => handleDelete(slot)} disabled={isBusy} className="p-1.5 bg-red-600/80 hover:bg-red-500 disabled:opacity-50 rounded-md text-white" title="Xóa slot">
+                                        <TrashIcon className="w-4 h-4" />
+                                    </button>
+                                </div>
+                            </div>
+                            {slot.thumbnailText && (
+                                <p className="text-sm text-slate-600 dark:text-slate-300 mt-2 italic line-clamp-2">{slot.thumbnailText}</p>
+                            )}
+                        </div>
+                    ))}
+                </div>
+
+                <div className="p-3 bg-slate-50/80 dark:bg-[#1f2238]/80 rounded-b-lg flex justify-end items-center flex-shrink-0">
+                    <button onClick={onClose} className="px-4 py-2 bg-slate-600 hover:bg-slate-500 rounded-md text-white text-sm font-semibold transition-colors duration-200">
+                        Đóng
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -1,6 +1,7 @@
 import React from 'react';
 import type { Status } from './types.ts';
 import { getStatusTextColor, getStatusBorderColor, getIconForStatus } from './utils.ts';
+import { formatStatusRemaining } from './utils/statusDurations';
 
 export const StatusDetailModal: React.FC<{ status: Status | null; onClose: () => void; }> = ({ status, onClose }) => {
     if (!status) return null;
@@ -29,6 +30,9 @@ export const StatusDetailModal: React.FC<{ status: Status | null; onClose: () =>
                      <div className="border-t border-slate-200 dark:border-slate-700/60 mt-4 pt-4 space-y-3">
                         {status.effects && <p><strong className="font-semibold text-slate-800 dark:text-gray-100 w-32 inline-block">Hiệu ứng:</strong> {status.effects}</p>}
                         {status.duration && <p><strong className="font-semibold text-slate-800 dark:text-gray-100 w-32 inline-block">Thời gian:</strong> {status.duration}</p>}
+                        {status.remaining && <p><strong className="font-semibold text-slate-800 dark:text-gray-100 w-32 inline-block">Còn lại:</strong> {formatStatusRemaining(status.remaining)}</p>}
+                        {status.stacks && status.stacks > 1 && <p><strong className="font-semibold text-slate-800 dark:text-gray-100 w-32 inline-block">Cộng dồn:</strong> {status.stacks}{status.maxStacks ? `/${status.maxStacks}` : ''} tầng</p>}
+                        {status.tickEffect && <p><strong className="font-semibold text-slate-800 dark:text-gray-100 w-32 inline-block">Mỗi lượt:</strong> {status.tickEffect}</p>}
                         {status.cureConditions && <p><strong className="font-semibold text-slate-800 dark:text-gray-100 w-32 inline-block">Cách chữa trị:</strong> {status.cureConditions}</p>}
                         {status.source && <p><strong className="font-semibold text-slate-800 dark:text-gray-100 w-32 inline-block">Nguồn gốc:</strong> {status.source}</p>}
                     </div>
@@ -1,6 +1,7 @@
 import React from 'react';
 import type { Status } from './types.ts';
 import { getIconForStatus, getStatusBorderColor, getStatusTextColor, getStatusFontWeight } from './utils.ts';
+import { formatStatusRemaining } from './utils/statusDurations';
 
 export const StatusDisplay: React.FC<{ 
     statuses: Status[];
@@ -22,6 +23,12 @@ export const StatusDisplay: React.FC<{
                                 <span className={`${getStatusTextColor(status)} ${getStatusFontWeight(status)} text-sm`}>
                                     {status.name}
                                 </span>
+                                {status.stacks && status.stacks > 1 && (
+                                    <span className="text-xs font-bold text-slate-600 dark:text-slate-300">x{status.stacks}</span>
+                                )}
+                                {status.remaining && (
+                                    <span className="text-xs text-slate-500 dark:text-slate-400">{formatStatusRemaining(status.remaining)}</span>
+                                )}
                             </button>
                         ))}
                     </div>
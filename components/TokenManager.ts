@@ -3,8 +3,11 @@
  * Centralizes all token estimation and management across the application
  */
 
+import { tokenCounter } from './utils/tokenCounter';
+
 export interface TokenEstimationConfig {
-    charsPerToken: number;
+    counterId: string;          // Active token counter (see utils/tokenCounter)
+    model: string;              // Model whose context window drives the budget
     safetyMargin: number;
     maxTokensPerTurn: number;
     tokenBuffer: number;
@@ -26,12 +29,8 @@ export interface TokenUsageStats {
 
 export class TokenManager {
     // Centralized configuration - single source of truth
-    private static readonly CONFIG: TokenEstimationConfig = {
-        charsPerToken: 0.75,        // Vietnamese approximation (conservative)
-        safetyMargin: 0.1,          // 10% safety buffer for estimation errors
-        maxTokensPerTurn: 80000,    // Maximum tokens per AI turn
-        tokenBuffer: 5000           // Reserve buffer for system overhead
-    };
+    private static readonly SAFETY_MARGIN = 0.1;    // 10% safety buffer for estimation errors
+    private static readonly BUFFER_RATIO = 0.05;    // Reserve for system overhead, relative to the model budget
 
     // Standard allocation ratios
     private static readonly ALLOCATION_RATIOS = {
@@ -41,34 +40,19 @@ export class TokenManager {
         SUPPLEMENTAL: 0.10   // Additional context + rules
     };
 
-    // Token costs for different content types (for accurate estimation)
-    private static readonly CONTENT_MULTIPLIERS = {
-        plainText: 1.0,
-        structuredData: 1.2,    // JSON, lists, etc need more tokens
-        dialogue: 0.9,          // Conversations are more efficient
-        descriptions: 1.1,      // Narrative text slightly more expensive
-        code: 1.3,             // Code/commands use more tokens
-        metadata: 0.8          // Tags, labels are compact
-    };
-
     /**
-     * Core token estimation method - used everywhere
+     * Core token estimation method - used everywhere.
+     * Counts with the calibrated token counter of the active model instead of character multipliers.
      */
-    static estimate(text: string, contentType: keyof typeof TokenManager.CONTENT_MULTIPLIERS = 'plainText'): number {
+    static estimate(text: string): number {
         if (!text || typeof text !== 'string') return 0;
-        
-        const baseEstimate = Math.ceil(text.length * this.CONFIG.charsPerToken);
-        const multiplier = this.CONTENT_MULTIPLIERS[contentType];
-        const adjusted = Math.ceil(baseEstimate * multiplier);
-        
-        // Apply safety margin
-        return Math.ceil(adjusted * (1 + this.CONFIG.safetyMargin));
+        return Math.ceil(tokenCounter.count(text) * (1 + this.SAFETY_MARGIN));
     }
 
     /**
      * Estimate tokens for complex objects
      */
-    static estimateObject(obj: any, contentType: keyof typeof TokenManager.CONTENT_MULTIPLIERS = 'structuredData'): number {
+    static estimateObject(obj: any): number {
         if (obj === null || obj === undefined) return 0;
         
         let text: string;
@@ -80,14 +64,15 @@ export class TokenManager {
             text = String(obj);
         }
         
-        return this.estimate(text, contentType);
+        return this.estimate(text);
     }
 
     /**
      * Calculate token allocation based on available budget
      */
     static calculateAllocation(contextComplexity: 'low' | 'medium' | 'high' = 'medium'): TokenAllocation {
-        const baseLimit = this.CONFIG.maxTokensPerTurn - this.CONFIG.tokenBuffer;
+        const { maxTokensPerTurn, tokenBuffer } = this.getConfig();
+        const baseLimit = maxTokensPerTurn - tokenBuffer;
         
         // Adjust ratios based on complexity
         let ratios = { ...this.ALLOCATION_RATIOS };
@@ -119,24 +104,20 @@ export class TokenManager {
     /**
      * Check if content fits within token limit
      */
-    static validateLimit(text: string, limit: number, contentType: keyof typeof TokenManager.CONTENT_MULTIPLIERS = 'plainText'): boolean {
-        return this.estimate(text, contentType) <= limit;
+    static validateLimit(text: string, limit: number): boolean {
+        return this.estimate(text) <= limit;
     }
 
     /**
      * Truncate text to fit within token limit
      */
-    static truncateToLimit(text: string, maxTokens: number, contentType: keyof typeof TokenManager.CONTENT_MULTIPLIERS = 'plainText'): string {
-        if (this.validateLimit(text, maxTokens, contentType)) {
+    static truncateToLimit(text: string, maxTokens: number): string {
+        if (this.validateLimit(text, maxTokens)) {
             return text;
         }
 
-        // Calculate approximate character limit
-        const multiplier = this.CONTENT_MULTIPLIERS[contentType];
-        const safetyFactor = 1 + this.CONFIG.safetyMargin;
-        const effectiveCharsPerToken = this.CONFIG.charsPerToken * multiplier * safetyFactor;
-        
-        const charLimit = Math.floor(maxTokens / effectiveCharsPerToken);
+        // Approximate character limit, proportional to the measured tokens of this text
+        const charLimit = Math.floor(text.length * maxTokens / this.estimate(text));
         
         if (text.length <= charLimit) {
             return text;
@@ -180,7 +161,14 @@ export class TokenManager {
      * Get current token limits and configurations
      */
     static getConfig(): Readonly<TokenEstimationConfig> {
-        return { ...this.CONFIG };
+        const maxTokensPerTurn = tokenCounter.getPromptBudget();
+        return {
+            counterId: tokenCounter.getCounter().id,
+            model: tokenCounter.getActiveModel(),
+            safetyMargin: this.SAFETY_MARGIN,
+            maxTokensPerTurn,
+            tokenBuffer: Math.round(maxTokensPerTurn * this.BUFFER_RATIO)
+        };
     }
 
     /**
@@ -189,23 +177,23 @@ export class TokenManager {
     static estimateMemory(memory: { text: string; pinned?: boolean }): number {
         // Pinned memories might be referenced more, so slightly higher cost
         const multiplier = memory.pinned ? 1.1 : 1.0;
-        return Math.ceil(this.estimate(memory.text, 'plainText') * multiplier);
+        return Math.ceil(this.estimate(memory.text) * multiplier);
     }
 
     static estimateEntity(entity: any): number {
         let totalTokens = 0;
         
         // Base info
-        totalTokens += this.estimate(entity.name || '', 'metadata');
-        totalTokens += this.estimate(entity.type || '', 'metadata');
-        totalTokens += this.estimate(entity.description || '', 'descriptions');
+        totalTokens += this.estimate(entity.name || '');
+        totalTokens += this.estimate(entity.type || '');
+        totalTokens += this.estimate(entity.description || '');
         
         // Optional fields
-        if (entity.personality) totalTokens += this.estimate(entity.personality, 'plainText');
-        if (entity.motivation) totalTokens += this.estimate(entity.motivation, 'plainText');
-        if (entity.skills?.length) totalTokens += this.estimate(entity.skills.join(', '), 'metadata');
-        if (entity.location) totalTokens += this.estimate(entity.location, 'metadata');
-        if (entity.realm) totalTokens += this.estimate(entity.realm, 'metadata');
+        if (entity.personality) totalTokens += this.estimate(entity.personality);
+        if (entity.motivation) totalTokens += this.estimate(entity.motivation);
+        if (entity.skills?.length) totalTokens += this.estimate(entity.skills.join(', '));
+        if (entity.location) totalTokens += this.estimate(entity.location);
+        if (entity.realm) totalTokens += this.estimate(entity.realm);
         
         return totalTokens;
     }
@@ -213,12 +201,12 @@ export class TokenManager {
     static estimateQuest(quest: any): number {
         let totalTokens = 0;
         
-        totalTokens += this.estimate(quest.title || '', 'plainText');
-        totalTokens += this.estimate(quest.description || '', 'descriptions');
+        totalTokens += this.estimate(quest.title || '');
+        totalTokens += this.estimate(quest.description || '');
         
         if (quest.objectives?.length) {
             quest.objectives.forEach((obj: any) => {
-                totalTokens += this.estimate(obj.description || '', 'plainText');
+                totalTokens += this.estimate(obj.description || '');
             });
         }
         
@@ -228,10 +216,10 @@ export class TokenManager {
     static estimateStatus(status: any): number {
         let totalTokens = 0;
         
-        totalTokens += this.estimate(status.name || '', 'metadata');
-        totalTokens += this.estimate(status.description || '', 'descriptions');
-        totalTokens += this.estimate(status.duration || '', 'metadata');
-        totalTokens += this.estimate(status.owner || '', 'metadata');
+        totalTokens += this.estimate(status.name || '');
+        totalTokens += this.estimate(status.description || '');
+        totalTokens += this.estimate(status.duration || '');
+        totalTokens += this.estimate(status.owner || '');
         
         return totalTokens;
     }
@@ -246,19 +234,13 @@ export class TokenManager {
             turn: 0.9       // Brief summaries
         };
         
-        return Math.ceil(this.estimate(entry, 'plainText') * typeMultipliers[type]);
+        return Math.ceil(this.estimate(entry) * typeMultipliers[type]);
     }
 
     static estimateGameHistoryEntry(entry: any): number {
         if (!entry?.parts?.[0]?.text) return 0;
         
-        const text = entry.parts[0].text;
-        
-        // User entries are typically actions (more structured)
-        // Model entries are typically stories (more descriptive)
-        const contentType = entry.role === 'user' ? 'structuredData' : 'descriptions';
-        
-        return this.estimate(text, contentType);
+        return this.estimate(entry.parts[0].text);
     }
 
     /**
@@ -295,7 +277,7 @@ export class TokenManager {
             warnings.push(`Total usage exceeded budget: ${totalUsage}/${totalBudget} tokens`);
         }
         
-        const hardLimit = this.CONFIG.maxTokensPerTurn;
+        const hardLimit = this.getConfig().maxTokensPerTurn;
         if (totalUsage > hardLimit) {
             warnings.push(`CRITICAL: Hard limit exceeded: ${totalUsage}/${hardLimit} tokens`);
         }
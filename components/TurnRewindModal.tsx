@@ -0,0 +1,148 @@
+import React from 'react';
+import { CrossIcon, RefreshIcon } from './Icons.tsx';
+import type { TurnSnapshotSummary } from './utils/TurnSnapshotManager.ts';
+import type { StoryBranchSummary } from './utils/StoryBranchManager.ts';
+
+interface TurnRewindModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    snapshots: TurnSnapshotSummary[];
+    currentTurn: number;
+    isLoading: boolean;
+    onRewindToTurn: (turn: number) => void;
+    onUndoLastTurn: () => void;
+    branches?: StoryBranchSummary[];
+    onForkAtTurn?: (turn: number) => void;
+    onSwitchBranch?: (branchId: string) => void;
+}
+
+const formatGameTime = (gameTime: TurnSnapshotSummary['gameTime']) => {
+    if (!gameTime) return '';
+    const minute = (gameTime.minute ?? 0).toString().padStart(2, '0');
+    return `Năm ${gameTime.year}, Tháng ${gameTime.month}, Ngày ${gameTime.day}, ${gameTime.hour}:${minute}`;
+};
+
+export const TurnRewindModal: React.FC<TurnRewindModalProps> = ({
+    isOpen, onClose, snapshots, currentTurn, isLoading, onRewindToTurn, onUndoLastTurn,
+    branches, onForkAtTurn, onSwitchBranch
+}) => {
+    if (!isOpen) return null;
+
+    const earlierSnapshots = snapshots.filter(s => s.turn < currentTurn).reverse();
+
+    const handleRewind = (turn: number) => {
+        if (window.confirm(`Quay lại lượt ${turn}? Mọi diễn biến sau lượt này sẽ bị xóa.`)) {
+            onRewindToTurn(turn);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-[70] p-4" onClick={onClose}>
+            <div className="bg-white/90 dark:bg-[#252945]/90 backdrop-blur-sm border border-slate-300 dark:border-slate-700 rounded-lg shadow-xl w-full max-w-2xl max-h-[85vh] flex flex-col text-slate-900 dark:text-white" onClick={e => e.stopPropagation()}>
+                <div className="p-4 border-b border-slate-200 dark:border-slate-600 flex justify-between items-center flex-shrink-0">
+                    <h3 className="text-lg font-semibold flex items-center gap-2">
+                        <RefreshIcon className="w-6 h-6 text-amber-500" />
+                        Tua Lại Lượt
+                    </h3>
+                    <button onClick={onClose} className="text-gray-500 dark:text-gray-400 hover:text-slate-900 dark:hover:text-white">
+                        <CrossIcon className="w-6 h-6"/>
+                    </button>
+                </div>
+
+                <div className="p-4 border-b border-slate-200 dark:border-slate-600 flex items-center justify-between gap-3 flex-shrink-0">
+                    <p className="text-sm text-slate-600 dark:text-slate-400">
+                        Lượt hiện tại: <span className="font-semibold text-slate-800 dark:text-slate-200">{currentTurn}</span> · Đang lưu {snapshots.length} snapshot
+                    </p>
+                    <button
+                        onClick={onUndoLastTurn}
+                        disabled={isLoading || earlierSnapshots.length === 0}
+                        className="px-4 py-2 bg-amber-600 hover:bg-amber-500 disabled:opacity-50 disabled:cursor-not-allowed rounded-md text-white text-sm font-semibold transition-colors duration-200"
+                    >
+                        ↩️ Hoàn tác lượt trước
+                    </button>
+                </div>
+
+                <div className="p-4 flex-grow overflow-y-auto space-y-3">
+                    {branches && branches.length > 0 && (
+                        <div className="space-y-2 pb-3 border-b border-slate-200 dark:border-slate-600">
+                            <div className="flex justify-between items-center">
+                                <h4 className="text-sm font-semibold text-slate-700 dark:text-slate-300">🌿 Nhánh cốt truyện</h4>
+                                {onForkAtTurn && (
+                                    <button
+                                        onClick={() => onForkAtTurn(currentTurn)}
+                                        disabled={isLoading}
+                                        className="px-3 py-1.5 bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 rounded-md text-white text-xs font-semibold"
+                                    >
+                                        Tách nhánh tại lượt hiện tại
+                                    </button>
+                                )}
+                            </div>
+                            {branches.map(branch => (
+                                <div key={branch.id} className={`p-2 rounded-lg border flex justify-between items-center gap-3 ${branch.isActive ? 'border-emerald-400 bg-emerald-50 dark:bg-emerald-900/20' : 'border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800/50'}`}>
+                                    <div className="min-w-0">
+                                        <div className="font-semibold text-sm text-slate-800 dark:text-gray-100 truncate">{branch.name}</div>
+                                        <div className="text-xs text-slate-500 dark:text-slate-400">
+                                            {branch.parentName ? `Tách từ "${branch.parentName}" tại lượt ${branch.forkTurn}` : 'Gốc'}
+                                            {branch.latestTurn !== null && ` · Lượt mới nhất: ${branch.isActive ? currentTurn : branch.latestTurn}`}
+                                        </div>
+                                    </div>
+                                    {branch.isActive ? (
+                                        <span className="text-xs font-semibold text-emerald-600 dark:text-emerald-400 flex-shrink-0">Đang chơi</span>
+                                    ) : onSwitchBranch && (
+                                        <button
+                                            onClick={() => onSwitchBranch(branch.id)}
+                                            disabled={isLoading}
+                                            className="px-3 py-1.5 bg-slate-600 hover:bg-slate-500 disabled:opacity-50 rounded-md text-white text-xs font-semibold flex-shrink-0"
+                                        >
+                                            Chuyển
+                                        </button>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    {earlierSnapshots.length === 0 ? (
+                        <p className="text-center text-slate-500 dark:text-slate-400 py-8">Chưa có lượt nào để quay lại.</p>
+                    ) : (
+                        earlierSnapshots.map(snapshot => (
+                            <div key={snapshot.turn} className="p-3 bg-slate-50 dark:bg-slate-800/50 rounded-lg border border-slate-200 dark:border-slate-700 flex justify-between items-start gap-3">
+                                <div className="min-w-0">
+                                    <div className="font-semibold text-slate-800 dark:text-gray-100">Lượt {snapshot.turn}</div>
+                                    <div className="text-xs text-slate-500 dark:text-slate-400">{formatGameTime(snapshot.gameTime)}</div>
+                                    {snapshot.preview && (
+                                        <p className="text-sm text-slate-600 dark:text-slate-300 mt-1 italic line-clamp-2">{snapshot.preview}</p>
+                                    )}
+                                </div>
+                                <div className="flex flex-col gap-1.5 flex-shrink-0">
+                                    <button
+                                        onClick={() => handleRewind(snapshot.turn)}
+                                        disabled={isLoading}
+                                        className="px-3 py-1.5 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 rounded-md text-white text-xs font-semibold"
+                                    >
+                                        Quay lại
+                                    </button>
+                                    {onForkAtTurn && (
+                                        <button
+                                            onClick={() => onForkAtTurn(snapshot.turn)}
+                                            disabled={isLoading}
+                                            className="px-3 py-1.5 bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 rounded-md text-white text-xs font-semibold"
+                                        >
+                                            Tách nhánh
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+                        ))
+                    )}
+                </div>
+
+                <div className="p-3 bg-slate-50/80 dark:bg-[#1f2238]/80 rounded-b-lg flex justify-end items-center flex-shrink-0">
+                    <button onClick={onClose} className="px-4 py-2 bg-slate-600 hover:bg-slate-500 rounded-md text-white text-sm font-semibold transition-colors duration-200">
+                        Đóng
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
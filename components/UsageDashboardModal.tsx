@@ -0,0 +1,240 @@
+import React, { useMemo, useState, useSyncExternalStore } from 'react';
+import { ChartIcon, CrossIcon, PlusIcon, TrashIcon } from './Icons.tsx';
+import { usageLedger } from './utils/usageLedger';
+import type { UsageLedgerEntry, UsageTask } from './utils/usageLedger';
+import { DEFAULT_PRICE_TABLE, parsePriceTable, summarizeUsage } from './utils/usagePricing';
+import type { ModelPrice, UsageSummaryRow } from './utils/usagePricing';
+import { tokenCounter } from './utils/tokenCounter';
+
+const PRICE_TABLE_STORAGE_KEY = 'llm_price_table';
+const CHART_DAYS = 14;
+
+const TASK_LABELS: Record<UsageTask, string> = {
+    story: 'Lượt truyện',
+    suggestion: 'Gợi ý',
+    memory: 'Tóm tắt ký ức',
+    other: 'Khác'
+};
+
+type ChartMetric = 'cost' | 'tokens';
+
+const loadPriceTable = (): ModelPrice[] => {
+    try {
+        return parsePriceTable(localStorage.getItem(PRICE_TABLE_STORAGE_KEY));
+    } catch {
+        return DEFAULT_PRICE_TABLE;
+    }
+};
+
+const formatCost = (cost: number) => `$${cost < 0.01 && cost > 0 ? cost.toFixed(4) : cost.toFixed(2)}`;
+const formatTokens = (tokens: number) => tokens.toLocaleString('vi-VN');
+
+const metricValue = (row: UsageSummaryRow, metric: ChartMetric) => metric === 'cost' ? row.cost : row.totalTokens;
+const formatMetric = (value: number, metric: ChartMetric) => metric === 'cost' ? formatCost(value) : formatTokens(value);
+
+// Biểu đồ cột ngang đơn giản, độ dài tỉ lệ với giá trị lớn nhất
+const BarChart: React.FC<{ rows: UsageSummaryRow[]; metric: ChartMetric; emptyText: string }> = ({ rows, metric, emptyText }) => {
+    if (rows.length === 0) {
+        return <p className="text-sm text-gray-500 dark:text-gray-400 italic">{emptyText}</p>;
+    }
+    const max = Math.max(...rows.map(row => metricValue(row, metric)), 0) || 1;
+    return (
+        <div className="space-y-1.5">
+            {rows.map(row => (
+                <div key={row.key} className="flex items-center gap-2 text-xs" title={`${row.requests} yêu cầu, ${row.failures} lỗi, ${formatTokens(row.totalTokens)} token`}>
+                    <span className="w-40 truncate text-slate-700 dark:text-gray-300">{row.key}</span>
+                    <div className="flex-1 h-4 bg-slate-200 dark:bg-slate-700 rounded">
+                        <div className="h-4 bg-cyan-500 rounded" style={{ width: `${(metricValue(row, metric) / max) * 100}%` }} />
+                    </div>
+                    <span className="w-24 text-right font-mono text-slate-800 dark:text-gray-200">{formatMetric(metricValue(row, metric), metric)}</span>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+export const UsageDashboardModal: React.FC<{
+    isOpen: boolean;
+    onClose: () => void;
+}> = ({ isOpen, onClose }) => {
+    const entries: UsageLedgerEntry[] = useSyncExternalStore(usageLedger.subscribe, usageLedger.getEntries);
+    const [priceTable, setPriceTable] = useState<ModelPrice[]>(loadPriceTable);
+    const [metric, setMetric] = useState<ChartMetric>('cost');
+    // Hệ số hiệu chỉnh đọc trực tiếp mỗi lần vẽ; tăng số này để vẽ lại sau khi đặt lại
+    const [, setCalibrationVersion] = useState(0);
+
+    const summaries: Record<'day' | 'save' | 'model' | 'task', UsageSummaryRow[]> = useMemo(() => ({
+        day: summarizeUsage(entries, priceTable, 'day').slice(-CHART_DAYS),
+        save: summarizeUsage(entries, priceTable, 'save'),
+        model: summarizeUsage(entries, priceTable, 'model'),
+        task: summarizeUsage(entries, priceTable, 'task').map(row => ({ ...row, key: TASK_LABELS[row.key as UsageTask] ?? row.key }))
+    }), [entries, priceTable]);
+
+    if (!isOpen) return null;
+
+    const totals = summaries.model.reduce(
+        (sum, row) => ({
+            requests: sum.requests + row.requests,
+            failures: sum.failures + row.failures,
+            tokens: sum.tokens + row.totalTokens,
+            cost: sum.cost + row.cost,
+            unpricedTokens: sum.unpricedTokens + row.unpricedTokens
+        }),
+        { requests: 0, failures: 0, tokens: 0, cost: 0, unpricedTokens: 0 }
+    );
+
+    const calibration = tokenCounter.getCalibration();
+
+    const updatePriceTable = (next: ModelPrice[]) => {
+        setPriceTable(next);
+        localStorage.setItem(PRICE_TABLE_STORAGE_KEY, JSON.stringify(next));
+    };
+
+    const updatePrice = (index: number, patch: Partial<ModelPrice>) =>
+        updatePriceTable(priceTable.map((price, i) => i === index ? { ...price, ...patch } : price));
+
+    const inputClass = 'bg-slate-100 dark:bg-[#373c5a] border border-slate-300 dark:border-slate-600 rounded-md py-1 px-2 text-xs text-slate-800 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-cyan-500';
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-[70] p-4" onClick={onClose}>
+            <div className="bg-white/90 dark:bg-[#252945]/90 backdrop-blur-sm border border-slate-300 dark:border-slate-700 rounded-lg shadow-xl w-full max-w-3xl h-full max-h-[85vh] flex flex-col text-slate-900 dark:text-white" onClick={e => e.stopPropagation()}>
+                <div className="p-4 border-b border-slate-200 dark:border-slate-600 flex justify-between items-center flex-shrink-0">
+                    <h3 className="text-lg font-semibold flex items-center gap-2">
+                        <ChartIcon className="w-6 h-6 text-cyan-500" />
+                        Thống Kê Sử Dụng & Chi Phí
+                    </h3>
+                    <button onClick={onClose} className="text-gray-500 dark:text-gray-400 hover:text-slate-900 dark:hover:text-white text-3xl leading-none">
+                        <CrossIcon className="w-6 h-6"/>
+                    </button>
+                </div>
+
+                <div className="p-4 md:p-6 flex-grow overflow-y-auto space-y-6">
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-center">
+                        {[
+                            ['Yêu cầu', formatTokens(totals.requests)],
+                            ['Lỗi', formatTokens(totals.failures)],
+                            ['Token', formatTokens(totals.tokens)],
+                            ['Chi phí ước tính', formatCost(totals.cost)]
+                        ].map(([label, value]) => (
+                            <div key={label} className="border border-slate-200 dark:border-slate-600 rounded-lg p-3">
+                                <p className="text-xs text-gray-500 dark:text-gray-400">{label}</p>
+                                <p className="text-lg font-bold font-mono">{value}</p>
+                            </div>
+                        ))}
+                    </div>
+                    {totals.unpricedTokens > 0 && (
+                        <p className="text-xs text-amber-600 dark:text-amber-400">
+                            {formatTokens(totals.unpricedTokens)} token thuộc model chưa có trong bảng giá nên không được tính chi phí.
+                        </p>
+                    )}
+
+                    <div className="flex gap-2 text-xs">
+                        {(['cost', 'tokens'] as ChartMetric[]).map(option => (
+                            <button
+                                key={option}
+                                onClick={() => setMetric(option)}
+                                className={`px-3 py-1 rounded-full border ${metric === option ? 'bg-cyan-600 border-cyan-600 text-white' : 'border-slate-300 dark:border-slate-600 text-slate-700 dark:text-gray-300'}`}
+                            >
+                                {option === 'cost' ? 'Chi phí' : 'Token'}
+                            </button>
+                        ))}
+                    </div>
+
+                    <section className="space-y-2">
+                        <h4 className="font-semibold text-sm">Theo ngày ({CHART_DAYS} ngày gần nhất có sử dụng)</h4>
+                        <BarChart rows={summaries.day} metric={metric} emptyText="Chưa có yêu cầu nào được ghi lại." />
+                    </section>
+
+                    <section className="space-y-2">
+                        <h4 className="font-semibold text-sm">Theo lượt chơi</h4>
+                        <BarChart rows={summaries.save} metric={metric} emptyText="Chưa có yêu cầu nào được ghi lại." />
+                    </section>
+
+                    <section className="space-y-2">
+                        <h4 className="font-semibold text-sm">Theo model và tác vụ</h4>
+                        <table className="w-full text-xs">
+                            <thead>
+                                <tr className="text-left text-gray-500 dark:text-gray-400">
+                                    <th className="py-1">Nhóm</th>
+                                    <th className="py-1 text-right">Yêu cầu</th>
+                                    <th className="py-1 text-right">Token vào</th>
+                                    <th className="py-1 text-right">Token ra</th>
+                                    <th className="py-1 text-right">Độ trễ TB</th>
+                                    <th className="py-1 text-right">Chi phí</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {[...summaries.model, ...summaries.task].map((row, index) => (
+                                    <tr key={`${index}-${row.key}`} className={`border-t border-slate-200 dark:border-slate-700 ${index === summaries.model.length ? 'border-t-2' : ''}`}>
+                                        <td className="py-1 font-mono">{row.key}</td>
+                                        <td className="py-1 text-right">{row.requests}{row.failures > 0 && <span className="text-red-500"> ({row.failures} lỗi)</span>}</td>
+                                        <td className="py-1 text-right font-mono">{formatTokens(row.promptTokens)}</td>
+                                        <td className="py-1 text-right font-mono">{formatTokens(row.completionTokens)}</td>
+                                        <td className="py-1 text-right font-mono">{row.averageLatencyMs} ms</td>
+                                        <td className="py-1 text-right font-mono">{formatCost(row.cost)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </section>
+
+                    <section className="space-y-2">
+                        <div className="flex justify-between items-center">
+                            <h4 className="font-semibold text-sm">Bảng giá (USD / 1 triệu token)</h4>
+                            <button onClick={() => updatePriceTable(DEFAULT_PRICE_TABLE)} className="text-xs text-cyan-600 dark:text-cyan-400 hover:underline">
+                                Khôi phục mặc định
+                            </button>
+                        </div>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                            Model khớp theo tên chính xác hoặc tiền tố dài nhất. Khi backend chỉ báo tổng token, toàn bộ được tính theo giá đầu vào.
+                        </p>
+                        {priceTable.map((price, index) => (
+                            <div key={index} className="flex items-center gap-2">
+                                <input type="text" value={price.model} onChange={e => updatePrice(index, { model: e.target.value })} className={`${inputClass} flex-1`} placeholder="Tên model" />
+                                <input type="number" min="0" step="0.01" value={price.inputPerMillion} onChange={e => updatePrice(index, { inputPerMillion: Math.max(0, parseFloat(e.target.value) || 0) })} className={`${inputClass} w-24`} title="Giá đầu vào" />
+                                <input type="number" min="0" step="0.01" value={price.outputPerMillion} onChange={e => updatePrice(index, { outputPerMillion: Math.max(0, parseFloat(e.target.value) || 0) })} className={`${inputClass} w-24`} title="Giá đầu ra" />
+                                <button onClick={() => updatePriceTable(priceTable.filter((_, i) => i !== index))} className="text-red-500 hover:text-red-400" title="Xóa dòng">
+                                    <TrashIcon className="w-4 h-4" />
+                                </button>
+                            </div>
+                        ))}
+                        <button
+                            onClick={() => updatePriceTable([...priceTable, { model: '', inputPerMillion: 0, outputPerMillion: 0 }])}
+                            className="flex items-center gap-1 text-xs text-cyan-600 dark:text-cyan-400 hover:underline"
+                        >
+                            <PlusIcon className="w-4 h-4" /> Thêm model
+                        </button>
+                    </section>
+
+                    <section className="space-y-1 text-xs text-slate-700 dark:text-gray-300">
+                        <h4 className="font-semibold text-sm">Bộ đếm token</h4>
+                        <p>
+                            {tokenCounter.getCounter().id} · model {tokenCounter.getActiveModel()} · ngân sách prompt {formatTokens(tokenCounter.getPromptBudget())} token
+                        </p>
+                        <p>
+                            Hệ số hiệu chỉnh: {calibration ? `${calibration.factor.toFixed(2)} (${calibration.samples} mẫu)` : 'chưa có mẫu'}
+                            {calibration && (
+                                <button
+                                    onClick={() => { tokenCounter.resetCalibration(); setCalibrationVersion((version: number) => version + 1); }}
+                                    className="ml-2 text-cyan-600 dark:text-cyan-400 hover:underline"
+                                >
+                                    Đặt lại
+                                </button>
+                            )}
+                        </p>
+                    </section>
+                </div>
+
+                <div className="p-4 border-t border-slate-200 dark:border-slate-600 flex justify-end flex-shrink-0">
+                    <button
+                        onClick={() => usageLedger.clear()}
+                        disabled={entries.length === 0}
+                        className="px-6 py-2 bg-red-600 hover:bg-red-500 text-white rounded-md font-semibold transition-colors disabled:opacity-50"
+                    >
+                        XÓA SỔ SỬ DỤNG
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,105 @@
+import React from 'react';
+import type { AttributeDefinition } from './types.ts';
+import { DEFAULT_ATTRIBUTES } from './utils/characterAttributes';
+
+interface WorldAttributesEditorProps {
+    attributes: AttributeDefinition[];
+    onChange: (attributes: AttributeDefinition[]) => void;
+}
+
+const inputClass = "w-full bg-white/10 backdrop-blur-sm border border-white/20 rounded py-1.5 px-2 text-white text-sm placeholder-white/40 focus:outline-none focus:border-pink-400/50 focus:ring-1 focus:ring-pink-400/20 transition-all duration-300";
+const addButtonClass = "w-6 h-6 bg-green-500/20 hover:bg-green-500/30 border border-green-400/30 hover:border-green-400/50 rounded text-green-200 hover:text-white transition-all duration-300 flex items-center justify-center text-sm font-bold";
+const removeButtonClass = "w-5 h-5 flex-shrink-0 bg-red-500/20 hover:bg-red-500/30 border border-red-400/30 hover:border-red-400/50 rounded text-red-200 hover:text-white transition-all duration-300 flex items-center justify-center text-xs font-bold";
+
+/**
+ * Chỉnh hệ thống chỉ số của thế giới: thuộc tính và tài nguyên, giá trị gốc và lượng cộng mỗi cảnh giới
+ */
+export const WorldAttributesEditor: React.FC<WorldAttributesEditorProps> = ({ attributes, onChange }) => {
+    const updateAttribute = (index: number, changes: Partial<AttributeDefinition>) => {
+        onChange(attributes.map((attribute, i) => i === index ? { ...attribute, ...changes } : attribute));
+    };
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center justify-between gap-2">
+                <label className="block text-xs text-white/70">Chỉ Số & Tài Nguyên (để trống nếu không dùng)</label>
+                <div className="flex gap-2">
+                    <button
+                        type="button"
+                        onClick={() => onChange(DEFAULT_ATTRIBUTES)}
+                        className="px-2 h-6 bg-white/10 hover:bg-white/20 border border-white/20 rounded text-white/70 hover:text-white text-xs transition-all duration-300"
+                        title="Dùng bộ chỉ số mặc định"
+                    >
+                        Mặc định
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() => onChange([...attributes, { id: '', name: '', kind: 'stat', base: 10, perRealm: 0 }])}
+                        className={addButtonClass}
+                        title="Thêm chỉ số"
+                    >
+                        +
+                    </button>
+                </div>
+            </div>
+            {attributes.length > 0 && (
+                <div className="flex items-center gap-2 text-[10px] text-white/50 pr-7">
+                    <span className="w-16">Mã</span>
+                    <span className="flex-grow">Tên</span>
+                    <span className="w-24">Loại</span>
+                    <span className="w-16 text-center">Gốc</span>
+                    <span className="w-16 text-center">+/Cảnh giới</span>
+                </div>
+            )}
+            {attributes.map((attribute, index) => (
+                <div key={index} className="flex items-center gap-2">
+                    <input
+                        type="text"
+                        value={attribute.id}
+                        onChange={(e) => updateAttribute(index, { id: e.target.value })}
+                        placeholder="hp"
+                        title="Mã dùng trong thẻ lệnh; để trống sẽ tạo từ tên"
+                        className={`${inputClass} !w-16`}
+                    />
+                    <input
+                        type="text"
+                        value={attribute.name}
+                        onChange={(e) => updateAttribute(index, { name: e.target.value })}
+                        placeholder="VD: Sinh Lực, Sức Mạnh..."
+                        className={inputClass}
+                    />
+                    <select
+                        value={attribute.kind}
+                        onChange={(e) => updateAttribute(index, { kind: e.target.value as AttributeDefinition['kind'] })}
+                        className={`${inputClass} !w-24`}
+                    >
+                        <option value="stat" className="bg-slate-800 text-white">Thuộc tính</option>
+                        <option value="resource" className="bg-slate-800 text-white">Tài nguyên</option>
+                    </select>
+                    <input
+                        type="number"
+                        value={attribute.base}
+                        onChange={(e) => updateAttribute(index, { base: parseInt(e.target.value) || 0 })}
+                        title={attribute.kind === 'resource' ? 'Giá trị tối đa gốc' : 'Giá trị gốc'}
+                        className={`${inputClass} !w-16 text-center`}
+                    />
+                    <input
+                        type="number"
+                        value={attribute.perRealm || 0}
+                        onChange={(e) => updateAttribute(index, { perRealm: parseInt(e.target.value) || 0 })}
+                        title="Cộng thêm mỗi cảnh giới"
+                        className={`${inputClass} !w-16 text-center`}
+                    />
+                    <button
+                        type="button"
+                        onClick={() => onChange(attributes.filter((_, i) => i !== index))}
+                        className={removeButtonClass}
+                        title="Xóa chỉ số"
+                    >
+                        -
+                    </button>
+                </div>
+            ))}
+        </div>
+    );
+};
@@ -0,0 +1,155 @@
+import React from 'react';
+import type { CalendarEra, CalendarMonth, WorldCalendar } from './types.ts';
+import { CALENDAR_PRESETS, getDaysInYear } from './utils/worldCalendar';
+
+interface WorldCalendarEditorProps {
+    calendar: WorldCalendar;
+    onChange: (calendar: WorldCalendar) => void;
+}
+
+const inputClass = "w-full bg-white/10 backdrop-blur-sm border border-white/20 rounded py-1.5 px-2 text-white text-sm placeholder-white/40 focus:outline-none focus:border-pink-400/50 focus:ring-1 focus:ring-pink-400/20 transition-all duration-300";
+const addButtonClass = "w-6 h-6 bg-green-500/20 hover:bg-green-500/30 border border-green-400/30 hover:border-green-400/50 rounded text-green-200 hover:text-white transition-all duration-300 flex items-center justify-center text-sm font-bold";
+const removeButtonClass = "w-5 h-5 flex-shrink-0 bg-red-500/20 hover:bg-red-500/30 border border-red-400/30 hover:border-red-400/50 rounded text-red-200 hover:text-white transition-all duration-300 flex items-center justify-center text-xs font-bold";
+
+/**
+ * Chỉnh lịch của thế giới: tháng (tên, số ngày, mùa), các ngày trong tuần và kỷ nguyên
+ */
+export const WorldCalendarEditor: React.FC<WorldCalendarEditorProps> = ({ calendar, onChange }) => {
+    const updateMonth = (index: number, changes: Partial<CalendarMonth>) => {
+        onChange({ ...calendar, months: calendar.months.map((month, i) => i === index ? { ...month, ...changes } : month) });
+    };
+
+    const updateEra = (index: number, changes: Partial<CalendarEra>) => {
+        onChange({ ...calendar, eras: calendar.eras.map((era, i) => i === index ? { ...era, ...changes } : era) });
+    };
+
+    const handlePresetChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+        const preset = CALENDAR_PRESETS.find(p => p.id === e.target.value);
+        if (preset) onChange(preset.calendar);
+    };
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center justify-between gap-2">
+                <label className="block text-sm font-medium text-white/90">Lịch Thế Giới</label>
+                <select
+                    value=""
+                    onChange={handlePresetChange}
+                    className="bg-white/10 border border-white/20 rounded py-1 px-2 text-white text-xs focus:outline-none"
+                >
+                    <option value="" className="bg-slate-800 text-white">Dùng mẫu lịch...</option>
+                    {CALENDAR_PRESETS.map(preset => (
+                        <option key={preset.id} value={preset.id} className="bg-slate-800 text-white">{preset.label}</option>
+                    ))}
+                </select>
+            </div>
+
+            {/* Months */}
+            <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                    <label className="block text-xs text-white/70">
+                        Các Tháng ({calendar.months.length} tháng, {getDaysInYear(calendar)} ngày/năm)
+                    </label>
+                    <button
+                        type="button"
+                        onClick={() => onChange({ ...calendar, months: [...calendar.months, { name: `Tháng ${calendar.months.length + 1}`, days: 30 }] })}
+                        className={addButtonClass}
+                        title="Thêm tháng"
+                    >
+                        +
+                    </button>
+                </div>
+                {calendar.months.map((month, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                        <span className="text-xs text-white/50 w-5 text-right">{index + 1}</span>
+                        <input
+                            type="text"
+                            value={month.name}
+                            onChange={(e) => updateMonth(index, { name: e.target.value })}
+                            placeholder="Tên tháng"
+                            className={inputClass}
+                        />
+                        <input
+                            type="number"
+                            min="1"
+                            value={month.days}
+                            onChange={(e) => updateMonth(index, { days: parseInt(e.target.value) || 1 })}
+                            title="Số ngày"
+                            className={`${inputClass} !w-16 text-center`}
+                        />
+                        <input
+                            type="text"
+                            value={month.season || ''}
+                            onChange={(e) => updateMonth(index, { season: e.target.value })}
+                            placeholder="Mùa"
+                            className={`${inputClass} !w-20`}
+                        />
+                        {calendar.months.length > 1 && (
+                            <button
+                                type="button"
+                                onClick={() => onChange({ ...calendar, months: calendar.months.filter((_, i) => i !== index) })}
+                                className={removeButtonClass}
+                                title="Xóa tháng"
+                            >
+                                -
+                            </button>
+                        )}
+                    </div>
+                ))}
+            </div>
+
+            {/* Weekdays */}
+            <div className="space-y-1">
+                <label className="block text-xs text-white/70">Các Ngày Trong Tuần (cách nhau bằng dấu phẩy, để trống nếu không dùng tuần)</label>
+                <input
+                    type="text"
+                    value={calendar.weekdays.join(', ')}
+                    onChange={(e) => onChange({ ...calendar, weekdays: e.target.value.split(',').map(day => day.trimStart()) })}
+                    placeholder="VD: Thứ Hai, Thứ Ba, Thứ Tư..."
+                    className={inputClass}
+                />
+            </div>
+
+            {/* Eras */}
+            <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                    <label className="block text-xs text-white/70">Kỷ Nguyên (năm bắt đầu theo lịch tuyệt đối)</label>
+                    <button
+                        type="button"
+                        onClick={() => onChange({ ...calendar, eras: [...calendar.eras, { name: '', startYear: 1 }] })}
+                        className={addButtonClass}
+                        title="Thêm kỷ nguyên"
+                    >
+                        +
+                    </button>
+                </div>
+                {calendar.eras.map((era, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                        <input
+                            type="text"
+                            value={era.name}
+                            onChange={(e) => updateEra(index, { name: e.target.value })}
+                            placeholder="VD: Thiên Nguyên, Kỷ Nguyên Thứ Ba..."
+                            className={inputClass}
+                        />
+                        <input
+                            type="number"
+                            value={era.startYear}
+                            onChange={(e) => updateEra(index, { startYear: parseInt(e.target.value) || 1 })}
+                            title="Năm bắt đầu"
+                            className={`${inputClass} !w-24 text-center`}
+                        />
+                        <button
+                            type="button"
+                            onClick={() => onChange({ ...calendar, eras: calendar.eras.filter((_, i) => i !== index) })}
+                            className={removeButtonClass}
+                            title="Xóa kỷ nguyên"
+                        >
+                            -
+                        </button>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,97 @@
+import React from 'react';
+import type { CurrencyDefinition } from './types.ts';
+import { DEFAULT_CURRENCIES } from './utils/economy';
+
+interface WorldCurrenciesEditorProps {
+    currencies: CurrencyDefinition[];
+    onChange: (currencies: CurrencyDefinition[]) => void;
+}
+
+const inputClass = "w-full bg-white/10 backdrop-blur-sm border border-white/20 rounded py-1.5 px-2 text-white text-sm placeholder-white/40 focus:outline-none focus:border-pink-400/50 focus:ring-1 focus:ring-pink-400/20 transition-all duration-300";
+const addButtonClass = "w-6 h-6 bg-green-500/20 hover:bg-green-500/30 border border-green-400/30 hover:border-green-400/50 rounded text-green-200 hover:text-white transition-all duration-300 flex items-center justify-center text-sm font-bold";
+const removeButtonClass = "w-5 h-5 flex-shrink-0 bg-red-500/20 hover:bg-red-500/30 border border-red-400/30 hover:border-red-400/50 rounded text-red-200 hover:text-white transition-all duration-300 flex items-center justify-center text-xs font-bold";
+
+/**
+ * Chỉnh các loại tiền tệ của thế giới và số dư ban đầu của nhân vật chính
+ */
+export const WorldCurrenciesEditor: React.FC<WorldCurrenciesEditorProps> = ({ currencies, onChange }) => {
+    const updateCurrency = (index: number, changes: Partial<CurrencyDefinition>) => {
+        onChange(currencies.map((currency, i) => i === index ? { ...currency, ...changes } : currency));
+    };
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center justify-between gap-2">
+                <label className="block text-xs text-white/70">Tiền Tệ (để trống nếu không dùng)</label>
+                <div className="flex gap-2">
+                    <button
+                        type="button"
+                        onClick={() => onChange(DEFAULT_CURRENCIES)}
+                        className="px-2 h-6 bg-white/10 hover:bg-white/20 border border-white/20 rounded text-white/70 hover:text-white text-xs transition-all duration-300"
+                        title="Dùng tiền tệ mặc định"
+                    >
+                        Mặc định
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() => onChange([...currencies, { id: '', name: '', symbol: '', starting: 0 }])}
+                        className={addButtonClass}
+                        title="Thêm tiền tệ"
+                    >
+                        +
+                    </button>
+                </div>
+            </div>
+            {currencies.length > 0 && (
+                <div className="flex items-center gap-2 text-[10px] text-white/50 pr-7">
+                    <span className="w-24">Mã</span>
+                    <span className="flex-grow">Tên</span>
+                    <span className="w-12 text-center">Biểu tượng</span>
+                    <span className="w-20 text-center">Ban đầu</span>
+                </div>
+            )}
+            {currencies.map((currency, index) => (
+                <div key={index} className="flex items-center gap-2">
+                    <input
+                        type="text"
+                        value={currency.id}
+                        onChange={(e) => updateCurrency(index, { id: e.target.value })}
+                        placeholder="linh_thach"
+                        title="Mã dùng trong thẻ lệnh; để trống sẽ tạo từ tên"
+                        className={`${inputClass} !w-24`}
+                    />
+                    <input
+                        type="text"
+                        value={currency.name}
+                        onChange={(e) => updateCurrency(index, { name: e.target.value })}
+                        placeholder="VD: Linh Thạch, Vàng..."
+                        className={inputClass}
+                    />
+                    <input
+                        type="text"
+                        value={currency.symbol || ''}
+                        onChange={(e) => updateCurrency(index, { symbol: e.target.value })}
+                        placeholder="💎"
+                        className={`${inputClass} !w-12 text-center`}
+                    />
+                    <input
+                        type="number"
+                        min={0}
+                        value={currency.starting || 0}
+                        onChange={(e) => updateCurrency(index, { starting: parseInt(e.target.value) || 0 })}
+                        title="Số dư ban đầu của nhân vật chính"
+                        className={`${inputClass} !w-20 text-center`}
+                    />
+                    <button
+                        type="button"
+                        onClick={() => onChange(currencies.filter((_, i) => i !== index))}
+                        className={removeButtonClass}
+                        title="Xóa tiền tệ"
+                    >
+                        -
+                    </button>
+                </div>
+            ))}
+        </div>
+    );
+};
@@ -0,0 +1,25 @@
+import type { MockLLMFixture } from '../utils/llmProviders/mockProvider';
+
+// Kịch bản mặc định cho chế độ AI giả lập: mở đầu cố định, các lượt sau dựng từ mẫu
+export const DEFAULT_MOCK_LLM_FIXTURE: MockLLMFixture = {
+    responses: [
+        {
+            match: 'INITIAL_STORY|câu chuyện mở đầu',
+            story: 'Sương sớm phủ kín con đường mòn dẫn vào Thanh Vân Trấn. Bạn dừng chân trước cổng trấn, nơi một lão bán trà đang nhóm lửa.',
+            tags: [
+                '[TIME_ELAPSED: hours=0]',
+                '[LORE_LOCATION: name="Thanh Vân Trấn", description="Thị trấn nhỏ nằm dưới chân núi Thanh Vân."]'
+            ],
+            choices: ['Bước vào trấn', 'Hỏi chuyện lão bán trà', 'Quan sát xung quanh', 'Nghỉ chân bên đường'],
+            npcs_present: [
+                { name: 'Lão bán trà', gender: 'Nam', age: 'Cao tuổi (60+ tuổi)', appearance: 'Râu tóc bạc trắng, lưng hơi còng.', description: 'Người bán trà lâu năm ở cổng trấn.', relationship: 'Người lạ', inner_thoughts: '"Lại một lữ khách đến sớm."' }
+            ]
+        }
+    ],
+    storyTemplates: [
+        'Bạn quyết định: {action}. Mọi thứ diễn ra suôn sẻ, thời gian trôi qua trong yên bình.',
+        'Bạn thực hiện "{action}". Một cơn gió lạ thổi qua, như báo hiệu điều gì đó sắp đến.'
+    ],
+    tagTemplates: ['[TIME_ELAPSED: minutes=30]'],
+    choiceTemplates: ['Tiếp tục khám phá', 'Nghỉ ngơi một lát', 'Kiểm tra hành trang', 'Quay lại con đường cũ']
+};
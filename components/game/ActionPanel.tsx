@@ -12,6 +12,7 @@ interface ActionPanelProps {
     customAction: string;
     setCustomAction: (action: string) => void;
     handleSuggestAction: () => void;
+    onStop?: () => void; // Hủy yêu cầu AI đang chạy
     isCustomActionLocked: boolean;
     isHighTokenCooldown?: boolean;
     cooldownTimeLeft?: number;
@@ -27,6 +28,7 @@ export const ActionPanel: React.FC<ActionPanelProps> = ({
     customAction,
     setCustomAction,
     handleSuggestAction,
+    onStop,
     isCustomActionLocked,
     isHighTokenCooldown = false,
     cooldownTimeLeft = 0,
@@ -197,7 +199,7 @@ export const ActionPanel: React.FC<ActionPanelProps> = ({
                         💭 Hành động tùy ý
                     </p>
                     <p className="text-xs text-white/50">
-                        Nhập hành động của riêng bạn (thêm "nsfw" ở cuối để có nội dung 18+)
+                        Nhập hành động của riêng bạn (thêm "nsfw" ở cuối để có nội dung 18+, mở đầu bằng "/check Sức Mạnh 15: ..." để tung xúc xắc)
                     </p>
                 </div>
                 <div className="flex gap-2">
@@ -225,14 +227,24 @@ export const ActionPanel: React.FC<ActionPanelProps> = ({
                     >
                         <SparklesIcon className="w-5 h-5" />
                     </button>
-                    <button 
-                        onClick={handleSendAction}
-                        disabled={isLoading || !isAiReady || isCustomActionLocked || isHighTokenCooldown}
-                        className="px-6 py-3 bg-gradient-to-r from-cyan-500/30 to-blue-500/30 hover:from-cyan-500/40 hover:to-blue-500/40 border border-cyan-400/40 rounded-xl text-white font-semibold transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed backdrop-blur-sm"
-                        aria-label="Gửi hành động"
-                    >
-                        {isHighTokenCooldown ? `Chờ ${cooldownTimeLeft}s` : 'Gửi'}
-                    </button>
+                    {isLoading && onStop ? (
+                        <button 
+                            onClick={onStop}
+                            className="px-6 py-3 bg-gradient-to-r from-red-500/30 to-rose-500/30 hover:from-red-500/40 hover:to-rose-500/40 border border-red-400/40 rounded-xl text-white font-semibold transition-all duration-300 backdrop-blur-sm"
+                            aria-label="Dừng yêu cầu AI"
+                        >
+                            Dừng
+                        </button>
+                    ) : (
+                        <button 
+                            onClick={handleSendAction}
+                            disabled={isLoading || !isAiReady || isCustomActionLocked || isHighTokenCooldown}
+                            className="px-6 py-3 bg-gradient-to-r from-cyan-500/30 to-blue-500/30 hover:from-cyan-500/40 hover:to-blue-500/40 border border-cyan-400/40 rounded-xl text-white font-semibold transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed backdrop-blur-sm"
+                            aria-label="Gửi hành động"
+                        >
+                            {isHighTokenCooldown ? `Chờ ${cooldownTimeLeft}s` : 'Gửi'}
+                        </button>
+                    )}
                 </div>
             </div>
         </div>
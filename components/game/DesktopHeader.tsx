@@ -5,11 +5,15 @@ import { createPortal } from 'react-dom';
 import { HomeIcon, ArchiveIcon, BrainIcon, MemoryIcon, RefreshIcon, DocumentAddIcon, ExclamationIcon, UserIcon } from '../Icons.tsx';
 import * as GameIcons from '../GameIcons.tsx';
 import type { FormData } from '../types.ts';
+import { formatCalendarDate, normalizeCalendar } from '../utils/worldCalendar';
 
 interface DesktopHeaderProps {
     onHome: () => void;
     onSettings: () => void;
     onSave: () => void;
+    onSaveToSlot?: () => void;
+    onRewind?: () => void;
+    onUndoLastTurn?: () => void;
     onExportWorldSetup: () => void;
     onMap: () => void;
     onRules: () => void;
@@ -34,7 +38,7 @@ const getTokenColor = (tokens: number) => {
     return 'text-green-500 bg-green-100 dark:bg-green-900/30';
 };
 export const DesktopHeader: React.FC<DesktopHeaderProps> = ({
-    onHome, onSettings, onSave, onExportWorldSetup, onMap, onRules, onRegexManager, onKnowledge, onMemory, onRestart,
+    onHome, onSettings, onSave, onSaveToSlot, onRewind, onUndoLastTurn, onExportWorldSetup, onMap, onRules, onRegexManager, onKnowledge, onMemory, onRestart,
     onInventory, onAdmin, hasActiveQuests, onManualCleanup,
     worldData, gameTime, turnCount, currentTurnTokens, totalTokens
 }) => {
@@ -129,7 +133,12 @@ export const DesktopHeader: React.FC<DesktopHeaderProps> = ({
                 {/* Right: Player Actions */}
                 <div className="flex items-center gap-2">
                     <div className="text-xs text-slate-500 dark:text-slate-400 mr-2">
-                        Năm {Number.isFinite(gameTime.year) ? gameTime.year : 1}, Tháng {Number.isFinite(gameTime.month) ? gameTime.month : 1}, Ngày {Number.isFinite(gameTime.day) ? gameTime.day : 1}, {Number.isFinite(gameTime.hour) ? gameTime.hour : 0}:{(Number.isFinite(gameTime.minute) ? gameTime.minute : 0).toString().padStart(2, '0')}
+                        {formatCalendarDate({
+                            year: Number.isFinite(gameTime.year) ? gameTime.year : 1,
+                            month: Number.isFinite(gameTime.month) ? gameTime.month : 1,
+                            day: Number.isFinite(gameTime.day) ? gameTime.day : 1,
+                            hour: Number.isFinite(gameTime.hour) ? gameTime.hour : 0
+                        }, normalizeCalendar(worldData.calendar))}, {Number.isFinite(gameTime.hour) ? gameTime.hour : 0}:{(Number.isFinite(gameTime.minute) ? gameTime.minute : 0).toString().padStart(2, '0')}
                     </div>
                     
                     <div className="relative">
@@ -172,6 +181,21 @@ export const DesktopHeader: React.FC<DesktopHeaderProps> = ({
                     <button onClick={() => { onSave(); setShowGameMenu(false); }} className="w-full text-left px-4 py-2 hover:bg-slate-50 dark:hover:bg-slate-700 text-sm flex items-center gap-2 text-slate-700 dark:text-slate-200">
                         <ArchiveIcon className="w-4 h-4" /> Lưu Trữ
                     </button>
+                    {onSaveToSlot && (
+                        <button onClick={() => { onSaveToSlot(); setShowGameMenu(false); }} className="w-full text-left px-4 py-2 hover:bg-slate-50 dark:hover:bg-slate-700 text-sm flex items-center gap-2 text-slate-700 dark:text-slate-200">
+                            💾 Lưu Vào Slot
+                        </button>
+                    )}
+                    {onUndoLastTurn && (
+                        <button onClick={() => { onUndoLastTurn(); setShowGameMenu(false); }} className="w-full text-left px-4 py-2 hover:bg-slate-50 dark:hover:bg-slate-700 text-sm flex items-center gap-2 text-slate-700 dark:text-slate-200">
+                            ↩️ Hoàn Tác Lượt
+                        </button>
+                    )}
+                    {onRewind && (
+                        <button onClick={() => { onRewind(); setShowGameMenu(false); }} className="w-full text-left px-4 py-2 hover:bg-slate-50 dark:hover:bg-slate-700 text-sm flex items-center gap-2 text-slate-700 dark:text-slate-200">
+                            ⏪ Tua Lại Lượt
+                        </button>
+                    )}
                     <button onClick={() => { onExportWorldSetup(); setShowGameMenu(false); }} className="w-full text-left px-4 py-2 hover:bg-slate-50 dark:hover:bg-slate-700 text-sm flex items-center gap-2 text-slate-700 dark:text-slate-200">
                         📤 Xuất WorldSetup
                     </button>
@@ -12,6 +12,7 @@ interface FloatingChoicePanelProps {
     customAction: string;
     setCustomAction: (action: string) => void;
     handleSuggestAction: () => void;
+    onStop?: () => void; // Hủy yêu cầu AI đang chạy
     isCustomActionLocked: boolean;
     className?: string;
     isHighTokenCooldown?: boolean;
@@ -28,6 +29,7 @@ export const FloatingChoicePanel: React.FC<FloatingChoicePanelProps> = memo(({
     customAction,
     setCustomAction,
     handleSuggestAction,
+    onStop,
     isCustomActionLocked,
     className = '',
     isHighTokenCooldown = false,
@@ -184,7 +186,7 @@ export const FloatingChoicePanel: React.FC<FloatingChoicePanelProps> = memo(({
                             💭 Hành động tùy ý
                         </p>
                         <p className="text-xs text-white/50">
-                            Nhập hành động của riêng bạn (thêm "nsfw" ở cuối để có nội dung 18+)
+                            Nhập hành động của riêng bạn (thêm "nsfw" ở cuối để có nội dung 18+, mở đầu bằng "/check Sức Mạnh 15: ..." để tung xúc xắc)
                         </p>
                     </div>
                     <div className="flex gap-2">
@@ -212,14 +214,24 @@ export const FloatingChoicePanel: React.FC<FloatingChoicePanelProps> = memo(({
                         >
                             <SparklesIcon className="w-4 h-4" />
                         </button>
-                        <button 
-                            onClick={handleSendAction}
-                            disabled={isLoading || !isAiReady || isCustomActionLocked || isHighTokenCooldown}
-                            className="px-4 py-2 bg-gradient-to-r from-cyan-500/30 to-blue-500/30 hover:from-cyan-500/40 hover:to-blue-500/40 border border-cyan-400/40 rounded-xl text-white font-semibold transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed backdrop-blur-sm text-sm"
-                            aria-label="Gửi hành động"
-                        >
-                            {isHighTokenCooldown ? `Chờ ${cooldownTimeLeft}s` : 'Gửi'}
-                        </button>
+                        {isLoading && onStop ? (
+                            <button 
+                                onClick={onStop}
+                                className="px-4 py-2 bg-gradient-to-r from-red-500/30 to-rose-500/30 hover:from-red-500/40 hover:to-rose-500/40 border border-red-400/40 rounded-xl text-white font-semibold transition-all duration-300 backdrop-blur-sm text-sm"
+                                aria-label="Dừng yêu cầu AI"
+                            >
+                                Dừng
+                            </button>
+                        ) : (
+                            <button 
+                                onClick={handleSendAction}
+                                disabled={isLoading || !isAiReady || isCustomActionLocked || isHighTokenCooldown}
+                                className="px-4 py-2 bg-gradient-to-r from-cyan-500/30 to-blue-500/30 hover:from-cyan-500/40 hover:to-blue-500/40 border border-cyan-400/40 rounded-xl text-white font-semibold transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed backdrop-blur-sm text-sm"
+                                aria-label="Gửi hành động"
+                            >
+                                {isHighTokenCooldown ? `Chờ ${cooldownTimeLeft}s` : 'Gửi'}
+                            </button>
+                        )}
                     </div>
                 </div>
             </div>
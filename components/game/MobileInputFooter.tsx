@@ -13,6 +13,7 @@ interface MobileInputFooterProps {
     handleAction: (action: string) => void;
     debouncedHandleAction: (action: string) => void;
     handleSuggestAction?: () => void;
+    onStop?: () => void; // Hủy yêu cầu AI đang chạy
     isLoading: boolean;
     isAiReady: boolean;
     isCustomActionLocked: boolean;
@@ -21,7 +22,7 @@ interface MobileInputFooterProps {
 }
 
 export const MobileInputFooter: React.FC<MobileInputFooterProps> = ({
-    onChoicesClick, onInventoryClick, onNPCPresenceClick, customAction, setCustomAction, handleAction, debouncedHandleAction, handleSuggestAction, isLoading, isAiReady, isCustomActionLocked, isHighTokenCooldown = false, cooldownTimeLeft = 0
+    onChoicesClick, onInventoryClick, onNPCPresenceClick, customAction, setCustomAction, handleAction, debouncedHandleAction, handleSuggestAction, onStop, isLoading, isAiReady, isCustomActionLocked, isHighTokenCooldown = false, cooldownTimeLeft = 0
 }) => {
     // Local state for input to prevent lag
     const [localCustomAction, setLocalCustomAction] = useState(customAction);
@@ -148,13 +149,23 @@ export const MobileInputFooter: React.FC<MobileInputFooterProps> = ({
                             <SparklesIcon className="w-4 h-4" />
                         </button>
                     )}
-                    <button 
-                        onClick={handleSendAction}
-                        disabled={isLoading || !isAiReady || isCustomActionLocked || isHighTokenCooldown}
-                        className="px-4 py-2 bg-purple-600 hover:bg-purple-500 text-white font-semibold rounded-md transition-colors disabled:bg-slate-500"
-                    >
-                        {isHighTokenCooldown ? `Chờ ${cooldownTimeLeft}s` : 'Gửi'}
-                    </button>
+                    {isLoading && onStop ? (
+                        <button 
+                            onClick={onStop}
+                            className="px-4 py-2 bg-red-600 hover:bg-red-500 text-white font-semibold rounded-md transition-colors"
+                            aria-label="Dừng yêu cầu AI"
+                        >
+                            Dừng
+                        </button>
+                    ) : (
+                        <button 
+                            onClick={handleSendAction}
+                            disabled={isLoading || !isAiReady || isCustomActionLocked || isHighTokenCooldown}
+                            className="px-4 py-2 bg-purple-600 hover:bg-purple-500 text-white font-semibold rounded-md transition-colors disabled:bg-slate-500"
+                        >
+                            {isHighTokenCooldown ? `Chờ ${cooldownTimeLeft}s` : 'Gửi'}
+                        </button>
+                    )}
                 </div>
             </div>
         </>
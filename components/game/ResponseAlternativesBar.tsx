@@ -0,0 +1,77 @@
+// components/game/ResponseAlternativesBar.tsx
+import React, { memo, useRef } from 'react';
+
+interface ResponseAlternativesBarProps {
+    selectedIndex: number;
+    total: number;
+    isLoading: boolean;
+    onSelect: (index: number) => void;
+    onRegenerate: () => void;
+}
+
+const SWIPE_THRESHOLD = 50;
+
+export const ResponseAlternativesBar: React.FC<ResponseAlternativesBarProps> = memo(({
+    selectedIndex,
+    total,
+    isLoading,
+    onSelect,
+    onRegenerate
+}) => {
+    const touchStartX = useRef<number | null>(null);
+
+    const canGoPrevious = !isLoading && selectedIndex > 0;
+    const canGoNext = !isLoading && selectedIndex < total - 1;
+
+    const handleTouchStart = (e: React.TouchEvent) => {
+        touchStartX.current = e.touches[0].clientX;
+    };
+
+    const handleTouchEnd = (e: React.TouchEvent) => {
+        if (touchStartX.current === null) return;
+        const deltaX = e.changedTouches[0].clientX - touchStartX.current;
+        touchStartX.current = null;
+        if (deltaX > SWIPE_THRESHOLD && canGoPrevious) onSelect(selectedIndex - 1);
+        else if (deltaX < -SWIPE_THRESHOLD && canGoNext) onSelect(selectedIndex + 1);
+    };
+
+    return (
+        <div
+            className="flex items-center justify-end gap-2 text-sm text-white/80"
+            onTouchStart={handleTouchStart}
+            onTouchEnd={handleTouchEnd}
+        >
+            {total > 1 && (
+                <div className="flex items-center gap-1 bg-white/10 backdrop-blur-sm border border-white/10 rounded-xl px-2 py-1">
+                    <button
+                        onClick={() => onSelect(selectedIndex - 1)}
+                        disabled={!canGoPrevious}
+                        className="px-2 hover:text-white disabled:opacity-30"
+                        aria-label="Phương án trước"
+                    >
+                        ◀
+                    </button>
+                    <span>{selectedIndex + 1}/{total}</span>
+                    <button
+                        onClick={() => onSelect(selectedIndex + 1)}
+                        disabled={!canGoNext}
+                        className="px-2 hover:text-white disabled:opacity-30"
+                        aria-label="Phương án sau"
+                    >
+                        ▶
+                    </button>
+                </div>
+            )}
+            <button
+                onClick={onRegenerate}
+                disabled={isLoading}
+                className="bg-white/10 hover:bg-white/20 backdrop-blur-sm border border-white/10 rounded-xl px-3 py-1 disabled:opacity-50 transition-colors"
+                title="Tạo lại phản hồi của AI cho lượt này"
+            >
+                🔄 Tạo lại
+            </button>
+        </div>
+    );
+});
+
+ResponseAlternativesBar.displayName = 'ResponseAlternativesBar';
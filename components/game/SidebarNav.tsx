@@ -11,6 +11,9 @@ interface SidebarNavProps {
     onHome: () => void;
     onSettings: () => void;
     onSave: () => void;
+    onSaveToSlot?: () => void;
+    onRewind?: () => void;
+    onUndoLastTurn?: () => void;
     onExportWorldSetup: () => void;
     onMap: () => void;
     onRules: () => void;
@@ -40,7 +43,7 @@ interface SidebarNavProps {
 }
 
 export const SidebarNav: React.FC<SidebarNavProps> = ({ 
-    isOpen, onClose, onHome, onSettings, onSave, onExportWorldSetup, onMap, onRules, onRegexManager, onKnowledge, onMemory, onRestart, 
+    isOpen, onClose, onHome, onSettings, onSave, onSaveToSlot, onRewind, onUndoLastTurn, onExportWorldSetup, onMap, onRules, onRegexManager, onKnowledge, onMemory, onRestart, 
     onAdmin, onPlayerInfo, onParty, onQuests, currentTurnTokens, totalTokens,
     historyStats, compressedSegments, gameHistory, cleanupStats, onManualCleanup
 }) => {
@@ -64,6 +67,15 @@ export const SidebarNav: React.FC<SidebarNavProps> = ({
                     <button onClick={() => handleNavigation(onQuests)} className="flex items-center text-left w-full px-3 py-2 bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 rounded">📋 <span className="ml-3">Nhiệm Vụ</span></button>
                     <button onClick={() => handleNavigation(onSettings)} className="flex items-center text-left w-full px-3 py-2 bg-blue-600 dark:bg-blue-700 hover:bg-blue-500 dark:hover:bg-blue-600 rounded text-white">⚙️ <span className="ml-3">Cài đặt</span></button>
                     <button onClick={() => handleNavigation(onSave)} className="flex items-center text-left w-full px-3 py-2 bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 rounded"><ArchiveIcon className="w-5 h-5 mr-3" /> Lưu Trữ</button>
+                    {onSaveToSlot && (
+                        <button onClick={() => handleNavigation(onSaveToSlot)} className="flex items-center text-left w-full px-3 py-2 bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 rounded">💾 <span className="ml-3">Lưu Vào Slot</span></button>
+                    )}
+                    {onUndoLastTurn && (
+                        <button onClick={() => handleNavigation(onUndoLastTurn)} className="flex items-center text-left w-full px-3 py-2 bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 rounded">↩️ <span className="ml-3">Hoàn Tác Lượt</span></button>
+                    )}
+                    {onRewind && (
+                        <button onClick={() => handleNavigation(onRewind)} className="flex items-center text-left w-full px-3 py-2 bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 rounded">⏪ <span className="ml-3">Tua Lại Lượt</span></button>
+                    )}
                     <button onClick={() => handleNavigation(onExportWorldSetup)} className="flex items-center text-left w-full px-3 py-2 bg-blue-600 dark:bg-blue-700 hover:bg-blue-500 dark:hover:bg-blue-600 rounded text-white">📤 <span className="ml-3">Xuất WorldSetup</span></button>
                     <button onClick={() => handleNavigation(onMap)} className="flex items-center text-left w-full px-3 py-2 bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 rounded"><GameIcons.MapPinIcon className="w-5 h-5 mr-3" /> Bản Đồ</button>
                     <button onClick={() => handleNavigation(onRules)} className="flex items-center text-left w-full px-3 py-2 bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 rounded"><DocumentAddIcon className="w-5 h-5 mr-3" /> Nạp Tri Thức</button>
@@ -3,10 +3,13 @@ import React, { memo, useState, useMemo, useContext, useEffect } from 'react';
 import { OptimizedInteractiveText } from '../OptimizedInteractiveText';
 import { AIContext } from '../../App.tsx';
 import type { Entity, Status, Quest, KnownEntities, GameHistoryEntry, EntityType, NPCPresent } from '../types';
+import type { ComputedAttribute } from '../utils/characterAttributes';
+import { AttributeBars } from '../AttributeBars';
 
 interface StatusPanelProps {
     pcEntity?: Entity;
     pcStatuses: Status[];
+    pcAttributes?: ComputedAttribute[];
     displayParty: Entity[];
     playerInventory: Entity[];
     quests: Quest[];
@@ -28,6 +31,7 @@ interface TabProps {
 export const StatusPanel: React.FC<StatusPanelProps> = memo(({
     pcEntity,
     pcStatuses,
+    pcAttributes = [],
     displayParty,
     playerInventory,
     quests,
@@ -278,6 +282,16 @@ export const StatusPanel: React.FC<StatusPanelProps> = memo(({
                     )}
                 </div>
 
+                {/* Character Attributes */}
+                {pcAttributes.length > 0 && (
+                    <div className="bg-white/5 backdrop-blur-sm border border-white/10 rounded-xl p-4 text-white/90">
+                        <h4 className="text-sm font-semibold text-white/80 mb-3 flex items-center gap-2">
+                            📊 Chỉ số
+                        </h4>
+                        <AttributeBars attributes={pcAttributes} />
+                    </div>
+                )}
+
                 {/* Character Statuses */}
                 <div className="bg-white/5 backdrop-blur-sm border border-white/10 rounded-xl p-4">
                     <h4 className="text-sm font-semibold text-white/80 mb-3 flex items-center gap-2">
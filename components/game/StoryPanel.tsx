@@ -24,10 +24,13 @@ interface VirtualScrollState {
 
 interface StoryPanelProps {
     storyLog: string[];
+    streamingText?: string | null; // Story đang stream, thẻ lệnh đã được ẩn
     isLoading: boolean;
     isAiReady: boolean;
     knownEntities: KnownEntities;
     onEntityClick: (entityName: string) => void;
+    branchName?: string;
+    footer?: React.ReactNode;
     className?: string;
 }
 
@@ -102,10 +105,13 @@ VirtualStoryItem.displayName = 'VirtualStoryItem';
 // Main StoryPanel component with virtual scrolling
 export const StoryPanel: React.FC<StoryPanelProps> = memo(({
     storyLog,
+    streamingText,
     isLoading,
     isAiReady,
     knownEntities,
     onEntityClick,
+    branchName,
+    footer,
     className = ''
 }) => {
     const containerRef = useRef<HTMLDivElement>(null);
@@ -264,6 +270,11 @@ export const StoryPanel: React.FC<StoryPanelProps> = memo(({
                         📖 Diễn Biến Câu Chuyện
                     </h2>
                     <div className="flex items-center gap-3 text-sm text-white/70">
+                        {branchName && (
+                            <div className="bg-emerald-500/20 border border-emerald-400/30 rounded-xl px-3 py-1 max-w-[12rem] truncate" title={`Nhánh: ${branchName}`}>
+                                <span>🌿 {branchName}</span>
+                            </div>
+                        )}
                         <div className="bg-white/10 backdrop-blur-sm rounded-xl px-3 py-1">
                             <span>{storyLog.length} dòng</span>
                         </div>
@@ -288,7 +299,7 @@ export const StoryPanel: React.FC<StoryPanelProps> = memo(({
                             </p>
                         </div>
                     </div>
-                ) : storyLog.length === 0 ? (
+                ) : storyLog.length === 0 && !streamingText ? (
                     <div className="flex items-center justify-center h-full p-6">
                         <div className="text-center bg-white/5 backdrop-blur-sm border border-white/10 rounded-2xl p-8">
                             <div className="text-purple-300 mb-4 text-4xl">📖</div>
@@ -317,12 +328,23 @@ export const StoryPanel: React.FC<StoryPanelProps> = memo(({
                                     onHeightMeasured={handleHeightMeasured}
                                 />
                             ))}
+                            {streamingText && (
+                                <div className="story-item bg-white/5 backdrop-blur-sm border border-purple-400/30 rounded-xl p-4">
+                                    <OptimizedInteractiveText
+                                        text={streamingText}
+                                        onEntityClick={onEntityClick}
+                                        knownEntities={knownEntities}
+                                    />
+                                    <span className="inline-block w-2 h-4 ml-1 align-middle bg-purple-300 animate-pulse" />
+                                </div>
+                            )}
+                            {footer}
                         </div>
                     </div>
                 )}
 
                 {/* Loading indicator */}
-                {isLoading && isAiReady && storyLog.length > 0 && (
+                {isLoading && isAiReady && storyLog.length > 0 && !streamingText && (
                     <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2">
                         <div className="flex items-center gap-3 bg-gradient-to-r from-purple-500/20 to-pink-500/20 backdrop-blur-xl border border-purple-400/30 px-4 py-3 rounded-2xl shadow-2xl">
                             <SpinnerIcon className="w-5 h-5 text-purple-300" />
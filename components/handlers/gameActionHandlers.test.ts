@@ -0,0 +1,234 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createGameActionHandlers } from './gameActionHandlers';
+import type { GameActionHandlersParams } from './gameActionHandlers';
+import { createCommandTagProcessor, CommandTagState } from '../utils/commandTagProcessor';
+import { createAbortError, createLLMProvider } from '../utils/llmProvider';
+import type { LLMProvider } from '../utils/llmProvider';
+import type { MockLLMFixture } from '../utils/llmProviders/mockProvider';
+import { jsonRepairLog } from '../utils/jsonRepairLog';
+import type { GameHistoryEntry, SaveData } from '../types';
+
+// Setter kiểu React: nhận giá trị hoặc hàm cập nhật
+const applyUpdate = <T,>(prev: T, update: T | ((prev: T) => T)): T =>
+  typeof update === 'function' ? (update as (prev: T) => T)(prev) : update;
+
+const fixture: MockLLMFixture = {
+  responses: [
+    {
+      match: 'câu chuyện mở đầu',
+      story: 'Bạn tỉnh dậy ở Thanh Vân Trấn.',
+      tags: ['[TIME_ELAPSED: hours=0]', '[LORE_LOCATION: name="Thanh Vân Trấn", description="Thị trấn nhỏ"]'],
+      choices: ['Đi chợ', 'Ngủ tiếp'],
+      npcs_present: [{ name: 'Lão bán trà', inner_thoughts: '"Khách sớm."' }]
+    },
+    { match: 'Đi chợ', error: 'OpenAI API HTTP 503: overloaded' },
+    { match: 'Câu cá', text: '```json\n{"story":"Bạn thả câu.","choices":["Kéo cần",' },
+    { match: 'Ngâm thơ', text: '{"story": 42, "choices": []}' },
+    { match: 'không đúng định dạng JSON', text: '{"story":"Bạn cất tiếng ngâm.","choices":["Ngâm tiếp"]}' },
+    {
+      match: 'Mở rương', story: 'Bạn mở rương.', tags: [], choices: ['Đóng rương'],
+      toolCalls: [
+        { name: 'ITEM_AQUIRED', args: { name: 'Kiếm gỗ', description: 'Khắc chữ "Tập"', quantities: 1 } },
+        { name: 'TIME_ELAPSED', args: { minutes: 30 } }
+      ]
+    },
+    { match: 'Ngồi thiền', text: '', toolCalls: [{ name: 'STATUS_APPLIED_SELF', args: { name: 'Tĩnh tâm', description: 'Tâm trí sáng suốt', type: 'buff' } }] },
+    { match: 'Các hàm bạn vừa gọi', story: 'Bạn tĩnh tâm.', tags: [], choices: ['Đứng dậy'] }
+  ],
+  storyTemplates: ['Bạn làm theo ý mình: {action}.'],
+  tagTemplates: ['[TIME_ELAPSED: hours=2]', '[STATUS_APPLIED_SELF: name="Mệt mỏi", type="debuff"]'],
+  choiceTemplates: ['Về nhà', 'Ăn tối']
+};
+
+// Dựng toàn bộ luồng handleAction với AI giả lập và bộ xử lý thẻ lệnh thật
+const createScenario = () => {
+  let tagState: CommandTagState = {
+    gameTime: { year: 1, month: 1, day: 1, hour: 8, minute: 0 },
+    chronicle: { memoir: [], chapter: [], turn: [] },
+    memories: [],
+    statuses: [],
+    knownEntities: { 'Lâm Phong': { name: 'Lâm Phong', type: 'pc', description: 'Thiếu niên' } },
+    quests: [],
+    party: [],
+    locationDiscoveryOrder: []
+  };
+  const ui = {
+    storyLog: [] as string[],
+    choices: [] as string[],
+    gameHistory: [] as GameHistoryEntry[],
+    turnCount: 0,
+    npcs: [] as any[],
+    loading: false
+  };
+
+  const slice = <K extends keyof CommandTagState>(key: K) => (update: any) => {
+    tagState = { ...tagState, [key]: applyUpdate(tagState[key], update) };
+  };
+  const tagProcessor = createCommandTagProcessor({
+    setGameTime: slice('gameTime'), setChronicle: slice('chronicle'), setMemories: slice('memories'),
+    setStatuses: slice('statuses'), setKnownEntities: slice('knownEntities'), setQuests: slice('quests'),
+    setParty: slice('party'), setLocationDiscoveryOrder: slice('locationDiscoveryOrder'),
+    getCurrentState: () => tagState,
+    onStateCommitted: state => { tagState = state; },
+    regexRules: [], turnCount: 0, worldData: {}
+  });
+
+  const llmProvider = createLLMProvider({
+    ai: null, model: 'mock', mockFixture: fixture,
+    failover: { maxAttempts: 2 }
+  });
+
+  const build = (overrides: Partial<GameActionHandlersParams> = {}) => {
+    const params: GameActionHandlersParams = {
+      llmProvider, selectedModel: 'mock', systemInstruction: 'GM', responseSchema: undefined,
+      isUsingDefaultKey: true, userApiKeyCount: 0, rotateKey: vi.fn(), rehydratedChoices: [],
+      temperature: 0.9, topK: 40, topP: 0.95, enableCOT: false,
+      setIsLoading: loading => { ui.loading = loading; },
+      setChoices: choices => { ui.choices = choices; },
+      setCustomAction: vi.fn(),
+      setStoryLog: update => { ui.storyLog = applyUpdate(ui.storyLog, update); },
+      setGameHistory: update => { ui.gameHistory = applyUpdate(ui.gameHistory, update); },
+      setTurnCount: update => { ui.turnCount = applyUpdate(ui.turnCount, update); },
+      setCurrentTurnTokens: vi.fn(), setTotalTokens: vi.fn(),
+      setNPCsPresent: npcs => { ui.npcs = npcs; },
+      setStreamingStory: vi.fn(),
+      activeRequestRef: { current: null },
+      gameHistory: ui.gameHistory, choices: ui.choices,
+      customRules: [], regexRules: [], ruleChanges: null, setRuleChanges: vi.fn(),
+      parseStoryAndTags: (text, apply) => tagProcessor.parseStoryAndTags(text, apply),
+      updateChoiceHistory: vi.fn(), updateCOTResearchLog: vi.fn(), triggerHighTokenCooldown: vi.fn()
+    };
+    return createGameActionHandlers({ ...params, ...overrides });
+  };
+
+  const saveData = (): SaveData => ({
+    worldData: { worldName: 'Thanh Vân', allowNsfw: false } as any,
+    knownEntities: tagState.knownEntities, statuses: tagState.statuses, quests: tagState.quests,
+    gameHistory: ui.gameHistory, memories: tagState.memories, party: tagState.party, customRules: [],
+    systemInstruction: 'GM', turnCount: ui.turnCount, gameTime: tagState.gameTime, chronicle: tagState.chronicle
+  });
+
+  return { ui, getTagState: () => tagState, build, saveData };
+};
+
+describe('game action flow with the mock provider', () => {
+  let scenario: ReturnType<typeof createScenario>;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    jsonRepairLog.clear();
+    scenario = createScenario();
+  });
+
+  it('should play the opening story and a templated turn through the command tag pipeline', async () => {
+    const { ui, build, getTagState, saveData } = scenario;
+    const pc = getTagState().knownEntities['Lâm Phong'];
+
+    await build().generateInitialStory({ worldName: 'Thanh Vân' }, getTagState().knownEntities, pc, []);
+
+    expect(ui.storyLog.join('\n')).toContain('Bạn tỉnh dậy ở Thanh Vân Trấn.');
+    expect(ui.choices).toEqual(['Đi chợ', 'Ngủ tiếp']);
+    expect(ui.npcs.map(npc => npc.name)).toEqual(['Lão bán trà']);
+    expect(getTagState().locationDiscoveryOrder).toEqual(['Thanh Vân Trấn']);
+
+    await build().handleAction('Ngủ tiếp', saveData());
+
+    expect(ui.storyLog.slice(-2)).toEqual(['> Ngủ tiếp', 'Bạn làm theo ý mình: Ngủ tiếp.']);
+    expect(ui.choices).toEqual(['Về nhà', 'Ăn tối']);
+    expect(ui.turnCount).toBe(1);
+    expect(getTagState().gameTime).toMatchObject({ hour: 10 });
+    expect(getTagState().statuses.map(s => s.name)).toEqual(['Mệt mỏi']);
+    expect(ui.loading).toBe(false);
+  });
+
+  it('should retry a scripted transient error and finish the turn', async () => {
+    const { ui, build, saveData } = scenario;
+
+    await build().handleAction('Đi chợ', saveData());
+
+    expect(ui.storyLog).toEqual(['> Đi chợ', 'Bạn làm theo ý mình: Đi chợ.']);
+    expect(ui.turnCount).toBe(1);
+  }, 10000);
+
+  it('should repair a fenced, truncated JSON turn without asking again', async () => {
+    const { ui, build, saveData } = scenario;
+
+    await build().handleAction('Câu cá', saveData());
+
+    expect(ui.storyLog).toEqual(['> Câu cá', 'Bạn thả câu.']);
+    expect(ui.choices).toEqual(['Kéo cần']);
+    expect(jsonRepairLog.getSnapshot().entries.map(entry => entry.outcome)).toEqual(['repaired']);
+    expect(ui.gameHistory[ui.gameHistory.length - 1].parts[0].text).toBe(JSON.stringify({ story: 'Bạn thả câu.', choices: ['Kéo cần'], npcs_present: [] }));
+  });
+
+  it('should ask the model to fix a response that fails the schema', async () => {
+    const { ui, build, saveData } = scenario;
+
+    await build().handleAction('Ngâm thơ', saveData());
+
+    expect(ui.storyLog).toEqual(['> Ngâm thơ', 'Bạn cất tiếng ngâm.']);
+    expect(ui.choices).toEqual(['Ngâm tiếp']);
+    expect(jsonRepairLog.getSnapshot()).toMatchObject({
+      entries: [{ outcome: 'reasked', errors: ['Trường "story" phải là chuỗi không rỗng'] }],
+      counts: { reasked: 1 }
+    });
+  });
+
+  it('should apply function calls through the command tag pipeline when tool calling is enabled', async () => {
+    const { ui, build, getTagState, saveData } = scenario;
+
+    await build({ enableToolCalling: true }).handleAction('Mở rương', saveData());
+
+    expect(ui.storyLog).toEqual(['> Mở rương', 'Bạn mở rương.']);
+    expect(getTagState().knownEntities['Kiếm gỗ']).toMatchObject({ type: 'item', owner: 'pc', description: 'Khắc chữ "Tập"', quantities: 1 });
+    expect(getTagState().gameTime).toMatchObject({ hour: 8, minute: 30 });
+  });
+
+  it('should ask for the story when the model only returns function calls', async () => {
+    const { ui, build, getTagState, saveData } = scenario;
+
+    await build({ enableToolCalling: true }).handleAction('Ngồi thiền', saveData());
+
+    expect(ui.storyLog).toEqual(['> Ngồi thiền', 'Bạn tĩnh tâm.']);
+    expect(ui.choices).toEqual(['Đứng dậy']);
+    expect(getTagState().statuses.map(s => s.name)).toEqual(['Tĩnh tâm']);
+  });
+
+  it('should not send function declarations unless tool calling is enabled', async () => {
+    const { build, getTagState, saveData } = scenario;
+
+    await build().handleAction('Mở rương', saveData());
+
+    expect(getTagState().knownEntities['Kiếm gỗ']).toBeUndefined();
+  });
+
+  it('should leave the choice history and token counters untouched when stopped while the JSON is re-asked', async () => {
+    const { ui, build, saveData } = scenario;
+    const provider = createLLMProvider({ ai: null, model: 'mock', mockFixture: fixture })!;
+    const updateChoiceHistory = vi.fn();
+    const setCurrentTurnTokens = vi.fn();
+    const setTotalTokens = vi.fn();
+    // Người chơi bấm Dừng đúng lúc đang hỏi lại model để sửa JSON
+    const stoppingProvider: LLMProvider = {
+      ...provider,
+      generate: async request => {
+        if (JSON.stringify(request.contents).includes('không đúng định dạng JSON')) {
+          handlers.cancelActiveRequest();
+          throw createAbortError();
+        }
+        return provider.generate(request);
+      }
+    };
+    const handlers = build({ llmProvider: stoppingProvider, updateChoiceHistory, setCurrentTurnTokens, setTotalTokens });
+
+    await handlers.handleAction('Ngâm thơ', saveData());
+
+    expect(ui.storyLog).toEqual([]);
+    expect(ui.turnCount).toBe(0);
+    expect(updateChoiceHistory).not.toHaveBeenCalled();
+    expect(setCurrentTurnTokens).not.toHaveBeenCalled();
+    expect(setTotalTokens).not.toHaveBeenCalled();
+  });
+});
@@ -1,9 +1,30 @@
-import { GoogleGenAI } from "@google/genai";
 import type { GameHistoryEntry, SaveData, RegexRule, NPCPresent } from '../types';
 import { buildEnhancedRagPrompt } from '../promptBuilder';
 import { createAutoTrimmedStoryLog } from '../utils/storyLogUtils';
 import { regexEngine, RegexPlacement } from '../utils/RegexEngine';
-import { parseOpenAiCompatibleResponse } from '../utils/openAiCompatibleResponse';
+import { generateStreaming, toHistoryContents } from '../utils/llmProvider';
+import type { LLMGenerateRequest, LLMGenerateResult, LLMProvider } from '../utils/llmProvider';
+import { extractStreamingStory } from '../utils/streamingStory';
+import { classifyLLMError } from '../utils/llmRetryPolicy';
+import type { LLMErrorCategory } from '../utils/llmRetryPolicy';
+import { buildJsonFixPrompt, normalizeChoices, parseTurnResponse } from '../utils/turnResponse';
+import { jsonRepairLog } from '../utils/jsonRepairLog';
+import type { LLMTaskModel } from '../utils/modelProfiles';
+import { appendToolCallTags, buildCommandTagTools, buildToolCallFollowUpPrompt, buildToolCallingInstruction } from '../utils/commandTagTools';
+import { tokenCounter } from '../utils/tokenCounter';
+import { formatCalendarDate, formatCalendarForPrompt, normalizeCalendar } from '../utils/worldCalendar';
+import { formatStatusEventsForPrompt } from '../utils/statusDurations';
+import type { StatusTickEvent } from '../utils/statusDurations';
+import { formatCheckForLog, formatCheckResultsForPrompt, parsePlayerCheck } from '../utils/skillChecks';
+import type { CheckContext, CheckRequest, CheckResult } from '../utils/skillChecks';
+
+// Thông báo cho người chơi khi đã hết lượt thử lại và dự phòng
+const LLM_FAILURE_MESSAGES: Partial<Record<LLMErrorCategory, string>> = {
+    auth: "Lỗi: API Key không hợp lệ hoặc không có quyền truy cập. Vui lòng kiểm tra Thiết Lập Nguồn AI.",
+    quota: "Lỗi: Đã hết hạn mức yêu cầu của AI. Vui lòng chờ một lát rồi thử lại.",
+    content_blocked: "Lỗi: Nội dung bị bộ lọc an toàn của AI chặn. Vui lòng thử một hành động khác.",
+    transient: "Lỗi: Máy chủ AI tạm thời không phản hồi. Vui lòng thử lại."
+};
 
 /**
  * Enhances NPC data by filling missing fields with intelligent defaults
@@ -209,7 +230,7 @@ const enhanceNPCData = (rawNPCs: NPCPresent[], storyText: string): NPCPresent[]
 };
 
 export interface GameActionHandlersParams {
-    ai: GoogleGenAI | null;
+    llmProvider: LLMProvider | null;
     selectedModel: string;
     systemInstruction: string;
     responseSchema: any;
@@ -222,13 +243,11 @@ export interface GameActionHandlersParams {
     temperature: number;
     topK: number;
     topP: number;
-    
-    // OpenAI Compatible Endpoint
-    openAiBaseUrl: string;
-    openAiApiKey: string;
+    suggestionModel?: LLMTaskModel; // Hồ sơ model cho gợi ý hành động; mặc định dùng cấu hình lượt truyện
     
     // Game Settings
     enableCOT: boolean;
+    enableToolCalling?: boolean; // Khai báo thẻ lệnh thành hàm thay vì chỉ dùng thẻ trong story
     
     // State setters
     setIsLoading: (loading: boolean) => void;
@@ -240,13 +259,22 @@ export interface GameActionHandlersParams {
     setCurrentTurnTokens: (tokens: number) => void;
     setTotalTokens: (tokens: number | ((prev: number) => number)) => void;
     setNPCsPresent: (npcs: import('../types').NPCPresent[]) => void;
+    setStreamingStory?: (text: string | null) => void; // Phần story đang stream, null khi không stream
+    activeRequestRef: { current: AbortController | null }; // Yêu cầu AI đang chạy, giữ qua các lần tạo lại handlers
     
     // Current state values
     gameHistory: GameHistoryEntry[];
+    choices: string[];
     customRules: any[];
     regexRules: RegexRule[];
     ruleChanges: any;
     setRuleChanges: (changes: any) => void;
+    statusEvents?: StatusTickEvent[]; // Trạng thái hết hạn/tác động mỗi lượt chưa báo cho AI
+    setStatusEvents?: (events: StatusTickEvent[]) => void;
+    pendingChecks?: CheckResult[]; // Kết quả thẻ CHECK chưa báo cho AI
+    setPendingChecks?: (results: CheckResult[]) => void;
+    rollCheck?: (request: CheckRequest) => CheckResult; // Tung xúc xắc cho lệnh /check của người chơi
+    getCheckContext?: () => CheckContext; // Chỉ số/kỹ năng hiện có để tách đúng mức độ khỏi tên trong lệnh /check
     parseStoryAndTags: (text: string, applySideEffects: boolean) => string;
     
     // Choice history tracking
@@ -257,73 +285,137 @@ export interface GameActionHandlersParams {
     
     // High token usage cooldown
     triggerHighTokenCooldown: () => void;
+    
+    // Response alternatives (regenerate / swipe)
+    onResponseAccepted?: (action: string, responseText: string, turn: number, isRegeneration: boolean) => void;
 }
 
 export const createGameActionHandlers = (params: GameActionHandlersParams) => {
     const {
-        ai, selectedModel, systemInstruction, responseSchema,
+        llmProvider, selectedModel, systemInstruction, responseSchema,
         isUsingDefaultKey, userApiKeyCount, rotateKey, rehydratedChoices,
-        temperature, topK, topP, enableCOT,
-        openAiBaseUrl, openAiApiKey,
+        temperature, topK, topP, suggestionModel, enableCOT, enableToolCalling = false,
         setIsLoading, setChoices, setCustomAction, setStoryLog, setGameHistory,
-        setTurnCount, setCurrentTurnTokens, setTotalTokens, setNPCsPresent,
-        gameHistory, customRules, regexRules, ruleChanges, setRuleChanges, parseStoryAndTags,
-        updateChoiceHistory, updateCOTResearchLog, triggerHighTokenCooldown
+        setTurnCount, setCurrentTurnTokens, setTotalTokens, setNPCsPresent, setStreamingStory, activeRequestRef,
+        gameHistory, choices, customRules, regexRules, ruleChanges, setRuleChanges, statusEvents = [], setStatusEvents,
+        pendingChecks = [], setPendingChecks, rollCheck, getCheckContext, parseStoryAndTags,
+        updateChoiceHistory, updateCOTResearchLog, triggerHighTokenCooldown, onResponseAccepted
     } = params;
-    const hasOpenAiEndpoint = openAiBaseUrl.trim().length > 0;
-
-    // Helper: call OpenAI-compatible endpoint
-    // Returns { text, totalTokens } - totalTokens from usage data if endpoint supports it
-    const callOpenAiApi = async (
-        messages: { role: string; content: string }[],
-        modelOverride?: string,
-        tempOverride?: number,
-        topPOverride?: number
-    ): Promise<{ text: string; totalTokens: number }> => {
-        const baseUrl = openAiBaseUrl.trim().replace(/\/$/, '');
-        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
-        if (openAiApiKey.trim()) {
-            headers['Authorization'] = `Bearer ${openAiApiKey.trim()}`;
-        }
-        const body: Record<string, any> = {
-            model: modelOverride || selectedModel,
-            messages,
-            temperature: tempOverride !== undefined ? tempOverride : temperature,
-            top_p: topPOverride !== undefined ? topPOverride : topP,
-            stream: true,
-            // response_format is widely supported (OpenAI, LM Studio, OpenRouter, most Ollama builds)
-            // but may be ignored silently by endpoints that don't support it
-            response_format: { type: 'json_object' },
-        };
-        console.debug('[OpenAI API] Calling', baseUrl + '/chat/completions', 'model:', body.model);
-        const response = await fetch(`${baseUrl}/chat/completions`, { method: 'POST', headers, body: JSON.stringify(body) });
-        if (!response.ok) {
-            const errText = await response.text();
-            throw new Error(`OpenAI API HTTP ${response.status}: ${errText}`);
-        }
-        const data = await parseOpenAiCompatibleResponse(response);
-        const text = data.text;
-        const totalTokens = data.totalTokens;
-        console.debug('[OpenAI API] Response received, length:', text.length, 'tokens:', totalTokens);
-        return { text, totalTokens };
+
+    // Create auto-trimmed story log functions
+    const storyLogManager = createAutoTrimmedStoryLog(setStoryLog);
+
+    // Mỗi lúc chỉ có một yêu cầu AI; yêu cầu mới sẽ hủy yêu cầu cũ
+    const beginRequest = () => {
+        activeRequestRef.current?.abort();
+        const controller = new AbortController();
+        activeRequestRef.current = controller;
+        return controller;
     };
 
-    // Helper: convert Gemini-style history to OpenAI messages
-    const toOpenAiMessages = (history: GameHistoryEntry[], systemInstr: string): { role: string; content: string }[] => {
-        const messages: { role: string; content: string }[] = [];
-        if (systemInstr) {
-            messages.push({ role: 'system', content: systemInstr });
+    const endRequest = (controller: AbortController) => {
+        if (activeRequestRef.current === controller) {
+            activeRequestRef.current = null;
         }
-        for (const entry of history) {
-            const role = entry.role === 'model' ? 'assistant' : 'user';
-            const content = entry.parts.map(p => p.text).join('');
-            messages.push({ role, content });
+    };
+
+    const cancelActiveRequest = () => {
+        activeRequestRef.current?.abort();
+    };
+
+    // Stream phản hồi chính và hiển thị dần phần story; thẻ lệnh chỉ được áp dụng khi stream xong
+    const generateStory = async (provider: LLMProvider, request: LLMGenerateRequest) => {
+        if (!setStreamingStory) return calibrateTokenCounter(provider, request, await provider.generate(request));
+        let lastPreview = '';
+        return calibrateTokenCounter(provider, request, await generateStreaming(provider, request, text => {
+            const preview = extractStreamingStory(text);
+            if (preview !== lastPreview) {
+                lastPreview = preview;
+                setStreamingStory(preview);
+            }
+        }));
+    };
+
+    // Hiệu chỉnh bộ đếm token theo số token đầu vào provider báo về, gắn với model đã thực sự trả lời
+    // (có thể là model dự phòng); AI giả lập tự ước lượng nên bỏ qua
+    const calibrateTokenCounter = (provider: LLMProvider, request: LLMGenerateRequest, result: LLMGenerateResult): LLMGenerateResult => {
+        if (provider.id !== 'mock' && result.usage?.promptTokens) {
+            const promptText = [
+                request.systemInstruction ?? '',
+                ...toHistoryContents(request.contents).flatMap(entry => entry.parts.map(part => part.text)),
+                request.tools ? JSON.stringify(request.tools) : ''
+            ].join('\n');
+            tokenCounter.calibrate(result.model || request.model || provider.model, tokenCounter.countRaw(promptText), result.usage.promptTokens);
         }
-        return messages;
+        return result;
     };
 
-    // Create auto-trimmed story log functions
-    const storyLogManager = createAutoTrimmedStoryLog(setStoryLog);
+    // Chế độ function calling: khai báo các thẻ lệnh có `tool` thành hàm khi provider hỗ trợ
+    const withCommandTagTools = (request: LLMGenerateRequest): LLMGenerateRequest => {
+        if (!enableToolCalling || !llmProvider?.capabilities.toolCalling) return request;
+        const tools = buildCommandTagTools();
+        return {
+            ...request,
+            systemInstruction: `${request.systemInstruction ?? ''}\n\n${buildToolCallingInstruction(tools)}`,
+            tools
+        };
+    };
+
+    /**
+     * Văn bản của phản hồi lượt. Khi model chỉ gọi hàm mà không viết câu chuyện, yêu cầu viết tiếp (không kèm hàm).
+     * Token của lời gọi phụ được báo qua addTokens để người gọi chỉ cộng vào tổng khi lượt hoàn tất.
+     */
+    const resolveToolCallText = async (provider: LLMProvider, request: LLMGenerateRequest, result: LLMGenerateResult, addTokens: (tokens: number) => void): Promise<string> => {
+        if (result.text || !result.toolCalls?.length) return result.text;
+
+        console.log(`🔧 Model returned only function calls, asking for the story:`, result.toolCalls.map(call => call.name));
+        const followUp = await provider.generate({
+            ...request,
+            tools: undefined,
+            contents: [
+                ...toHistoryContents(request.contents),
+                { role: 'user', parts: [{ text: buildToolCallFollowUpPrompt(result.toolCalls) }] }
+            ]
+        });
+        addTokens(followUp.usage?.totalTokens || 0);
+        return followUp.text;
+    };
+
+    /**
+     * Kiểm tra phản hồi lượt theo schema; JSON lỗi được tự sửa, không sửa được thì yêu cầu model trả lại JSON hợp lệ.
+     * Văn bản thường (không có JSON) được giữ nguyên cho bộ phân tích văn bản.
+     */
+    const ensureValidTurnResponse = async (provider: LLMProvider, responseText: string, request: LLMGenerateRequest, addTokens: (tokens: number) => void, turnCount?: number): Promise<string> => {
+        const parsed = parseTurnResponse(responseText);
+        if (parsed.response) {
+            if (parsed.repairs.length === 0) return responseText;
+            console.warn(`🔧 Repaired turn response JSON:`, parsed.repairs);
+            jsonRepairLog.record({ turnCount, outcome: 'repaired', repairs: parsed.repairs, errors: [] });
+            return JSON.stringify(parsed.response);
+        }
+        if (!parsed.hasJson) return responseText;
+
+        console.warn(`🔧 Turn response failed validation, asking the model to fix its JSON:`, parsed.errors);
+        const fixResponse = await provider.generate({
+            ...request,
+            tools: undefined,
+            contents: [
+                ...toHistoryContents(request.contents),
+                { role: 'model', parts: [{ text: responseText }] },
+                { role: 'user', parts: [{ text: buildJsonFixPrompt(parsed.errors) }] }
+            ]
+        });
+        addTokens(fixResponse.usage?.totalTokens || 0);
+
+        const fixed = parseTurnResponse(fixResponse.text);
+        jsonRepairLog.record({
+            turnCount,
+            outcome: fixed.response ? 'reasked' : 'failed',
+            repairs: [...new Set([...parsed.repairs, ...fixed.repairs])],
+            errors: fixed.response ? parsed.errors : fixed.errors
+        });
+        return fixed.response ? JSON.stringify(fixed.response) : responseText;
+    };
 
     const generateInitialStory = async (
         worldData: any,
@@ -331,11 +423,13 @@ export const createGameActionHandlers = (params: GameActionHandlersParams) => {
         pcEntity: any,
         initialHistory: GameHistoryEntry[]
     ) => {
-        if (!ai && !hasOpenAiEndpoint) return;
+        if (!llmProvider) return;
         setIsLoading(true);
         
         const finalPersonality = worldData.customPersonality || worldData.personalityFromList;
         const writingStyleText = worldData.writingStyle === 'first_person' ? 'Ngôi thứ nhất - Nhân vật chính xưng "Ta/Tôi"' : 'Ngôi thứ hai - "Ngươi" là nhân vật chính';
+        const calendar = normalizeCalendar(worldData.calendar);
+        const calendarInfo = formatCalendarForPrompt(calendar);
         const nsfwInstruction = worldData.allowNsfw ? 'Cho phép. Kích hoạt quy tắc nội dung 18+ của Quản Trò. Viết một cách trần trụi, bạo lực, tục tĩu và không giới hạn.' : 'Không, AI phải tránh các chủ đề và mô tả 18+.';
         
         const activeRules = customRules.filter(r => r.alwaysActive && r.isActive);
@@ -381,7 +475,7 @@ Tính cách: ${pcEntity.personality}${pcEntity.motivation ? `\n**ĐỘNG CƠ/M
 --- THÔNG TIN THẾ GIỚI ---
 Thế giới: ${worldData.worldName}
 Mô tả: ${worldData.worldDescription}
-Thời gian: Năm ${worldData.worldTime?.year || 1}, Tháng ${worldData.worldTime?.month || 1}, Ngày ${worldData.worldTime?.day || 1}
+Thời gian: ${formatCalendarDate({ year: worldData.worldTime?.year || 1, month: worldData.worldTime?.month || 1, day: worldData.worldTime?.day || 1, hour: 8 }, calendar)}${calendarInfo ? `\n${calendarInfo}` : ''}
 Địa điểm bắt đầu: ${worldData.startLocation === 'Tuỳ chọn' ? worldData.customStartLocation : worldData.startLocation || 'Không xác định'}
 Phong cách viết: ${writingStyleText}
 Nội dung 18+: ${nsfwInstruction}
@@ -405,6 +499,7 @@ Hãy tạo một câu chuyện mở đầu cuốn hút${pcEntity.motivation ? `
             parts: [{ text: 'INITIAL_STORY: Generate opening story' }] 
         };
         setGameHistory([optimizedInitialEntry]);
+        const controller = beginRequest();
 
         try {
             console.log('📖 GenerateInitialStory: Making AI request with model:', selectedModel);
@@ -414,64 +509,59 @@ Hãy tạo một câu chuyện mở đầu cuốn hút${pcEntity.motivation ? `
             // Use full prompt for AI generation
             const fullInitialHistory: GameHistoryEntry[] = [{ role: 'user', parts: [{ text: userPrompt }] }];
             
-            let responseText = '';
-            let responseUsageMetadata: { totalTokenCount?: number } | null = null;
-
-            if (hasOpenAiEndpoint) {
-                // Use OpenAI compatible endpoint
-                const messages = toOpenAiMessages(fullInitialHistory, systemInstruction);
-                const result = await callOpenAiApi(messages);
-                responseText = result.text;
-                responseUsageMetadata = { totalTokenCount: result.totalTokens };
-                setCurrentTurnTokens(result.totalTokens);
-                setTotalTokens(prev => prev + result.totalTokens);
-            } else {
-                const response = await ai!.models.generateContent({
-                    model: selectedModel, 
-                    contents: fullInitialHistory,
-                    config: { 
-                        systemInstruction: systemInstruction, 
-                        responseMimeType: "application/json", 
-                        responseSchema: responseSchema 
-                    }
-                });
-                
-                console.log('📖 GenerateInitialStory: AI response received:', {
-                    hasText: !!response.text,
-                    textLength: response.text?.length || 0,
-                    usageMetadata: response.usageMetadata
-                });
-                
-                const turnTokens = response.usageMetadata?.totalTokenCount || 0;
-                responseUsageMetadata = response.usageMetadata || null;
+            const initialRequest = withCommandTagTools({
+                contents: fullInitialHistory,
+                systemInstruction,
+                jsonMode: true,
+                responseSchema,
+                temperature, topP, topK,
+                signal: controller.signal,
+                task: 'story'
+            });
+            const response = await generateStory(llmProvider, initialRequest);
+            
+            console.log('📖 GenerateInitialStory: AI response received:', {
+                hasText: !!response.text,
+                textLength: response.text.length,
+                usage: response.usage
+            });
+            
+            // Token chỉ được cộng sau lời gọi AI cuối cùng để nút Dừng không làm lệch bộ đếm
+            const turnTokens = response.usage?.totalTokens || 0;
+            let extraTokens = 0;
+            const addExtraTokens = (tokens: number) => { extraTokens += tokens; };
+            const commitTokens = () => {
                 setCurrentTurnTokens(turnTokens);
-                setTotalTokens(prev => prev + turnTokens);
-                responseText = response.text?.trim() || '';
-            }
+                setTotalTokens(prev => prev + turnTokens + extraTokens);
+            };
+            let responseText = await resolveToolCallText(llmProvider, initialRequest, response, addExtraTokens);
             
             if (!responseText) {
                 console.error("📖 GenerateInitialStory: API returned empty response text", {
-                    responseMetadata: responseUsageMetadata,
+                    usage: response.usage,
                     model: selectedModel,
-                    provider: hasOpenAiEndpoint ? 'openai-compatible' : 'gemini'
+                    provider: llmProvider.id
                 });
                 
                 // Check for specific error conditions
                 let errorMessage = "Lỗi: AI không thể tạo câu chuyện khởi đầu.";
                 
-                if (responseUsageMetadata?.totalTokenCount === 0) {
+                if (response.usage?.totalTokens === 0) {
                     errorMessage += " Có thể do giới hạn token hoặc nội dung bị lọc.";
-                } else if (!responseUsageMetadata) {
+                } else if (!response.usage) {
                     errorMessage += " Có thể do lỗi kết nối mạng.";
                 }
                 
                 errorMessage += " Vui lòng thử tạo lại thế giới hoặc kiểm tra API key.";
                 
+                commitTokens();
                 storyLogManager.update(prev => [...prev, errorMessage]);
                 setChoices([]);
                 return;
             }
             
+            responseText = appendToolCallTags(await ensureValidTurnResponse(llmProvider, responseText, initialRequest, addExtraTokens, 0), response.toolCalls);
+            commitTokens();
             console.log('📖 GenerateInitialStory: Response text received, length:', responseText.length);
             parseApiResponseHandler(responseText);
             setGameHistory(prev => [...prev, { role: 'model', parts: [{ text: responseText }] }]);
@@ -485,7 +575,9 @@ Hãy tạo một câu chuyện mở đầu cuốn hút${pcEntity.motivation ? `
                 userApiKeyCount
             });
             
-            if (!isUsingDefaultKey && userApiKeyCount > 1 && error.toString().includes('429')) {
+            if (controller.signal.aborted) {
+                storyLogManager.set(["Đã dừng tạo câu chuyện mở đầu. Hãy bắt đầu lại để thử lần nữa."]);
+            } else if (!isUsingDefaultKey && userApiKeyCount > 1 && classifyLLMError(error) === 'quota') {
                 console.log("📖 GenerateInitialStory: Rate limit detected, rotating key...");
                 rotateKey();
                 storyLogManager.update(prev => [...prev, "**⭐ Lỗi giới hạn yêu cầu. Đã tự động chuyển sang API Key tiếp theo. Vui lòng thử lại hành động của bạn. ⭐**"]);
@@ -496,11 +588,13 @@ Hãy tạo một câu chuyện mở đầu cuốn hút${pcEntity.motivation ? `
             }
         } finally {
             console.log("📖 GenerateInitialStory: Cleaning up, setting loading false");
+            endRequest(controller);
+            setStreamingStory?.(null);
             setIsLoading(false);
         }
     };
 
-    const handleAction = async (action: string, currentGameState: SaveData) => {
+    const handleAction = async (action: string, currentGameState: SaveData, options: { isRegeneration?: boolean } = {}) => {
         let originalAction = action.trim();
         let isNsfwRequest = false;
         
@@ -510,7 +604,12 @@ Hãy tạo một câu chuyện mở đầu cuốn hút${pcEntity.motivation ? `
             originalAction = originalAction.replace(nsfwRegex, '').trim();
         }
 
-        if (!originalAction || (!ai && !openAiBaseUrl.trim())) return;
+        // "/check Sức Mạnh 15: phá cửa" - engine tung xúc xắc, AI chỉ kể lại kết quả
+        const checkCommand = rollCheck ? parsePlayerCheck(originalAction, getCheckContext?.()) : null;
+        if (checkCommand) originalAction = checkCommand.action;
+
+        if (!originalAction || !llmProvider) return;
+        const playerCheck = checkCommand && rollCheck ? rollCheck(checkCommand.request) : null;
 
         // Process player input through regex rules
         const processedAction = regexEngine.processText(
@@ -526,10 +625,10 @@ Hãy tạo một câu chuyện mở đầu cuốn hút${pcEntity.motivation ? `
         setIsLoading(true);
         setChoices([]);
         setCustomAction('');
-        storyLogManager.update(prev => [...prev, `> ${processedAction}`]);
-        
-        // Track selected choice in history
-        updateChoiceHistory([], processedAction, 'Player action executed');
+        storyLogManager.update(prev => playerCheck
+            ? [...prev, `> ${processedAction}`, formatCheckForLog(playerCheck)]
+            : [...prev, `> ${processedAction}`]);
+        const controller = beginRequest();
 
         let ruleChangeContext = '';
         if (ruleChanges) {
@@ -537,11 +636,16 @@ Hãy tạo một câu chuyện mở đầu cuốn hút${pcEntity.motivation ? `
             setRuleChanges(null); 
         }
 
+        const statusEventContext = formatStatusEventsForPrompt(statusEvents);
+        if (statusEvents.length > 0) setStatusEvents?.([]);
+        const checkResultContext = formatCheckResultsForPrompt(playerCheck ? [...pendingChecks, playerCheck] : pendingChecks);
+        if (pendingChecks.length > 0) setPendingChecks?.([]);
+
         let nsfwInstructionPart = isNsfwRequest && currentGameState.worldData.allowNsfw ? `\nLƯU Ý ĐẶC BIỆT: ...` : '';
         
         console.log(`🔍 DEBUG: enableCOT parameter before calling buildEnhancedRagPrompt: ${enableCOT} (type: ${typeof enableCOT})`);
         
-        const userPrompt = buildEnhancedRagPrompt(originalAction, currentGameState, ruleChangeContext, nsfwInstructionPart, enableCOT);
+        const userPrompt = buildEnhancedRagPrompt(originalAction, currentGameState, ruleChangeContext, nsfwInstructionPart, enableCOT, statusEventContext, checkResultContext);
         
         // DEBUG: Enhanced prompt analysis for COT tracking
         console.log(`🔍 [Turn ${currentGameState.turnCount}] Enhanced Prompt Debug:`, {
@@ -580,44 +684,42 @@ Hãy tạo một câu chuyện mở đầu cuốn hút${pcEntity.motivation ? `
         };
         
         // For AI API call: use full prompt with current history
-        const apiHistory = [...gameHistory, { role: 'user', parts: [{ text: userPrompt }] }];
+        const apiHistory: GameHistoryEntry[] = [...gameHistory, { role: 'user', parts: [{ text: userPrompt }] }];
         // For storage: use optimized entry
         const updatedHistory = [...gameHistory, optimizedUserEntry];
 
+        // Áp dụng phản hồi được chọn và ghi nhận làm phương án của lượt này
+        // Lựa chọn đã chọn và token chỉ được ghi nhận sau lời gọi AI cuối cùng, để nút Dừng không để lại dấu vết
+        let turnTokens = 0;
+        let extraTokens = 0;
+        const addExtraTokens = (tokens: number) => { extraTokens += tokens; };
+        const commitTurnUsage = () => {
+            updateChoiceHistory([], processedAction, 'Player action executed');
+            setCurrentTurnTokens(turnTokens);
+            setTotalTokens(prev => prev + turnTokens + extraTokens);
+        };
+
+        const acceptResponse = (text: string) => {
+            commitTurnUsage();
+            setGameHistory(prev => [...prev, optimizedUserEntry, { role: 'model', parts: [{ text }] }]);
+            parseApiResponseHandler(text);
+            onResponseAccepted?.(action, text, currentGameState.turnCount, !!options.isRegeneration);
+        };
+
         try {
-            let responseText = '';
-            let turnTokens = 0;
-            let responseUsageMetadata: { totalTokenCount?: number } | null = null;
-
-            if (hasOpenAiEndpoint) {
-                // Use OpenAI compatible endpoint
-                const messages = toOpenAiMessages(apiHistory, systemInstruction);
-                const result = await callOpenAiApi(messages);
-                responseText = result.text;
-                turnTokens = result.totalTokens;
-                responseUsageMetadata = { totalTokenCount: result.totalTokens };
-                setCurrentTurnTokens(turnTokens);
-                setTotalTokens(prev => prev + turnTokens);
-            } else {
-                const response = await ai!.models.generateContent({
-                    model: selectedModel, 
-                    contents: apiHistory, // Use full context for AI
-                    config: { 
-                        systemInstruction: systemInstruction, 
-                        responseMimeType: "application/json", 
-                        responseSchema: responseSchema,
-                        // Use configured AI settings
-                        temperature: temperature,
-                        topP: topP,
-                        topK: topK
-                    }
-                });
-                turnTokens = response.usageMetadata?.totalTokenCount || 0;
-                responseUsageMetadata = response.usageMetadata || null;
-                setCurrentTurnTokens(turnTokens);
-                setTotalTokens(prev => prev + turnTokens);
-                responseText = response.text?.trim() || '';
-            }
+            const turnRequest = withCommandTagTools({
+                contents: apiHistory, // Use full context for AI
+                systemInstruction,
+                jsonMode: true,
+                responseSchema,
+                // Use configured AI settings
+                temperature, topP, topK,
+                signal: controller.signal,
+                task: 'story'
+            });
+            const response = await generateStory(llmProvider, turnRequest);
+            let responseText = await resolveToolCallText(llmProvider, turnRequest, response, addExtraTokens);
+            turnTokens = response.usage?.totalTokens || 0;
             
             // DEBUG: Log response details 
             console.log(`📤 [Turn ${currentGameState.turnCount}] AI Response Debug:`, {
@@ -689,27 +791,31 @@ Hãy tạo một câu chuyện mở đầu cuốn hút${pcEntity.motivation ? `
             
             if (!responseText) {
                 console.error("API returned empty response text in handleAction", {
-                    responseMetadata: responseUsageMetadata,
+                    usage: response.usage,
                     model: selectedModel,
                     action: originalAction,
-                    provider: hasOpenAiEndpoint ? 'openai-compatible' : 'gemini'
+                    provider: llmProvider.id
                 });
                 
                 // Check for specific error conditions
                 let errorMessage = "Lỗi: AI không trả về nội dung.";
                 
-                if (responseUsageMetadata?.totalTokenCount === 0) {
+                if (response.usage?.totalTokens === 0) {
                     errorMessage += " Có thể do giới hạn token hoặc nội dung bị lọc.";
-                } else if (!responseUsageMetadata) {
+                } else if (!response.usage) {
                     errorMessage += " Có thể do lỗi kết nối mạng.";
                 }
                 
                 errorMessage += " Vui lòng thử lại với hành động khác hoặc kiểm tra API key.";
                 
                 // Player action is already in the story log, just add error message
+                commitTurnUsage();
                 storyLogManager.update(prev => [...prev, errorMessage]);
                 return;
             }
+
+            // Sửa JSON lỗi (hoặc hỏi lại model) trước khi phát hiện trùng lặp và áp dụng
+            responseText = appendToolCallTags(await ensureValidTurnResponse(llmProvider, responseText, turnRequest, addExtraTokens, currentGameState.turnCount), response.toolCalls);
             
             // Detect duplicate responses by comparing with recent history
             const isDuplicateResponse = detectDuplicateResponse(responseText, gameHistory);
@@ -724,48 +830,43 @@ Hãy tạo một câu chuyện mở đầu cuốn hút${pcEntity.motivation ? `
                 // Add variation to force different response with attempt counter
                 const attemptNumber = (gameHistory.filter(h => h.parts[0].text.includes('lần thử lại')).length || 0) + 1;
                 const retryPrompt = userPrompt + `\n\n**QUAN TRỌNG**: Đây là lần thử lại #${attemptNumber} do phản hồi trùng lặp. Hãy tạo nội dung HOÀN TOÀN KHÁC với lượt trước. Tập trung vào sự sáng tạo và đa dạng. Seed: ${Math.random()}`;
-                const retryHistory = [...gameHistory, { role: 'user', parts: [{ text: retryPrompt }] }];
+                const retryHistory: GameHistoryEntry[] = [...gameHistory, { role: 'user', parts: [{ text: retryPrompt }] }];
                 
                 // Prevent infinite loops - max 2 retries
                 if (attemptNumber >= 3) {
                     console.warn(`⚠️ [Turn ${currentGameState.turnCount}] Max duplicate retries reached (${attemptNumber}), accepting response`);
                     // Continue with current response to prevent infinite loop
+                    acceptResponse(responseText);
                 } else {
                 
-                let retryText = '';
-                if (openAiBaseUrl.trim()) {
-                    const retryMessages = toOpenAiMessages(retryHistory, systemInstruction);
-                    const retryResult = await callOpenAiApi(retryMessages, undefined, Math.min(temperature + 0.1, 2.0), Math.max(topP - 0.05, 0.1));
-                    retryText = retryResult.text;
-                } else {
-                const retryResponse = await ai!.models.generateContent({
-                    model: selectedModel, 
+                const retryRequest = withCommandTagTools({
                     contents: retryHistory,
-                    config: { 
-                        systemInstruction: systemInstruction, 
-                        responseMimeType: "application/json", 
-                        responseSchema: responseSchema,
-                        // Use higher values for retry to increase diversity
-                        temperature: Math.min(temperature + 0.1, 2.0),
-                        topP: Math.max(topP - 0.05, 0.1),
-                        topK: Math.max(topK - 10, 10)
-                    }
+                    systemInstruction,
+                    jsonMode: true,
+                    responseSchema,
+                    // Use higher values for retry to increase diversity
+                    temperature: Math.min(temperature + 0.1, 2.0),
+                    topP: Math.max(topP - 0.05, 0.1),
+                    topK: Math.max(topK - 10, 10),
+                    signal: controller.signal,
+                    task: 'story'
                 });
-                retryText = retryResponse.text?.trim() || '';
-                }
+                const retryResponse = await llmProvider.generate(retryRequest);
+                const retryRawText = await resolveToolCallText(llmProvider, retryRequest, retryResponse, addExtraTokens);
+                const retryText = retryRawText && appendToolCallTags(
+                    await ensureValidTurnResponse(llmProvider, retryRawText, retryRequest, addExtraTokens, currentGameState.turnCount),
+                    retryResponse.toolCalls
+                );
                 if (retryText) {
-                    setGameHistory(prev => [...prev, optimizedUserEntry, { role: 'model', parts: [{ text: retryText }] }]);
-                    parseApiResponseHandler(retryText);
+                    acceptResponse(retryText);
                     console.log(`✅ [Turn ${currentGameState.turnCount}] Successfully generated unique response on retry`);
                 } else {
                     // Fallback to original response if retry fails
-                    setGameHistory(prev => [...prev, optimizedUserEntry, { role: 'model', parts: [{ text: responseText }] }]);
-                    parseApiResponseHandler(responseText);
+                    acceptResponse(responseText);
                 }
                 }
             } else {
-                setGameHistory(prev => [...prev, optimizedUserEntry, { role: 'model', parts: [{ text: responseText }] }]);
-                parseApiResponseHandler(responseText);
+                acceptResponse(responseText);
             }
             
             // COT Research Logging - Save detailed analysis to game state
@@ -820,6 +921,18 @@ Hãy tạo một câu chuyện mở đầu cuốn hút${pcEntity.motivation ? `
                 return newTurn;
             }); 
         } catch (error: any) {
+            // Lượt không hoàn tất: giữ diễn biến trạng thái và kết quả kiểm tra để báo cho AI ở lần thử sau
+            if (statusEvents.length > 0) setStatusEvents?.(statusEvents);
+            if (pendingChecks.length > 0) setPendingChecks?.(pendingChecks);
+            if (controller.signal.aborted) {
+                // Người chơi bấm Dừng: trả lại trạng thái trước hành động và nội dung ô nhập
+                console.log(`⏹️ [Turn ${currentGameState.turnCount}] Request cancelled by player`);
+                setStoryLog(prev => prev.slice(0, playerCheck ? -2 : -1));
+                setChoices(choices);
+                setCustomAction(action);
+                if (ruleChanges) setRuleChanges(ruleChanges);
+                return;
+            }
             console.error("Error continuing story:", error);
             
             // Store the player action before removing it
@@ -829,22 +942,29 @@ Hãy tạo một câu chuyện mở đầu cuốn hút${pcEntity.motivation ? `
                 return prev.slice(0, -1); // Remove the last entry
             });
 
-            if (!isUsingDefaultKey && userApiKeyCount > 1 && error.toString().includes('429')) {
+            const category = classifyLLMError(error);
+            if (!isUsingDefaultKey && userApiKeyCount > 1 && category === 'quota') {
                 rotateKey();
                 // Restore player action and add error message
                 storyLogManager.update(prev => [...prev, playerAction, "**⭐ Lỗi giới hạn yêu cầu. Đã tự động chuyển sang API Key tiếp theo. Vui lòng thử lại hành động của bạn. ⭐**"]);
             } else {
                 // Restore player action and add error message
-                storyLogManager.update(prev => [...prev, playerAction, "Lỗi: AI không thể xử lý yêu cầu. Vui lòng thử một hành động khác."]);
+                const failureMessage = LLM_FAILURE_MESSAGES[category] ?? "Lỗi: AI không thể xử lý yêu cầu. Vui lòng thử một hành động khác.";
+                storyLogManager.update(prev => [...prev, playerAction, failureMessage]);
             }
         } finally {
+            endRequest(controller);
+            setStreamingStory?.(null);
             setIsLoading(false);
         }
     };
 
     const handleSuggestAction = async (storyLog: string[], currentGameState?: SaveData) => {
-        if (!ai && !hasOpenAiEndpoint) return;
+        const suggestion = suggestionModel?.provider ? suggestionModel : { provider: llmProvider, temperature, topP, topK };
+        const suggestionProvider = suggestion.provider;
+        if (!suggestionProvider) return;
         setIsLoading(true);
+        const controller = beginRequest();
         try {
             // Get the last few story entries for better context
             const recentStory = storyLog.slice(-3).join('\n\n');
@@ -868,18 +988,15 @@ VÍ DỤ:
 
 Hãy gợi ý hành động:`;
 
-            let suggestedAction = 'Không thể nhận gợi ý lúc này.';
-
-            if (hasOpenAiEndpoint) {
-                const result = await callOpenAiApi([{ role: 'user', content: suggestionPrompt }]);
-                suggestedAction = result.text || suggestedAction;
-            } else {
-                const response = await ai!.models.generateContent({
-                    model: selectedModel,
-                    contents: [{ role: 'user', parts: [{ text: suggestionPrompt }] }],
-                });
-                suggestedAction = response.text?.trim() || suggestedAction;
-            }
+            const response = await suggestionProvider.generate({
+                contents: suggestionPrompt,
+                temperature: suggestion.temperature,
+                topP: suggestion.topP,
+                topK: suggestion.topK,
+                signal: controller.signal,
+                task: 'suggestion'
+            });
+            const suggestedAction = response.text || 'Không thể nhận gợi ý lúc này.';
             
             // Clean up the response to remove quotes and extra formatting
             const cleanAction = suggestedAction
@@ -889,9 +1006,12 @@ Hãy gợi ý hành động:`;
                 
             setCustomAction(cleanAction);
         } catch (error) {
+            // Hủy gợi ý thì giữ nguyên ô nhập
+            if (controller.signal.aborted) return;
             console.error("Error suggesting action:", error);
             setCustomAction("Không thể nhận gợi ý lúc này.");
         } finally {
+            endRequest(controller);
             setIsLoading(false);
         }
     };
@@ -937,32 +1057,6 @@ Hãy gợi ý hành động:`;
         };
     };
 
-    const normalizeChoices = (rawChoices: unknown): string[] => {
-        if (!Array.isArray(rawChoices)) {
-            return [];
-        }
-
-        return rawChoices
-            .map(choice => {
-                if (typeof choice === 'string') {
-                    return choice.trim();
-                }
-
-                if (typeof choice === 'number' || typeof choice === 'boolean') {
-                    return String(choice).trim();
-                }
-
-                if (choice && typeof choice === 'object') {
-                    const choiceObject = choice as Record<string, unknown>;
-                    const candidate = choiceObject.text ?? choiceObject.label ?? choiceObject.choice ?? choiceObject.content;
-                    return typeof candidate === 'string' ? candidate.trim() : '';
-                }
-
-                return '';
-            })
-            .filter(choice => choice.length > 0);
-    };
-
     const extractJsonPayload = (rawText: string): string | null => {
         const trimmedText = rawText.trim();
         if (!trimmedText) {
@@ -986,19 +1080,9 @@ Hãy gợi ý hành động:`;
     };
 
     const parseResponseContent = (rawText: string): { story: string; choices: string[]; cot_reasoning?: string; npcs_present?: NPCPresent[] } | null => {
-        const jsonPayload = extractJsonPayload(rawText);
-        if (jsonPayload) {
-            try {
-                const parsed = JSON.parse(jsonPayload);
-                return {
-                    story: parsed.story || '',
-                    choices: normalizeChoices(parsed.choices),
-                    cot_reasoning: typeof parsed.cot_reasoning === 'string' ? parsed.cot_reasoning : undefined,
-                    npcs_present: Array.isArray(parsed.npcs_present) ? parsed.npcs_present : []
-                };
-            } catch (error) {
-                console.warn('Could not parse JSON payload in parseResponseContent, falling back to plain text.', error);
-            }
+        const parsed = parseTurnResponse(rawText);
+        if (parsed.response) {
+            return parsed.response;
         }
 
         const plainText = parsePlainTextResponse(rawText);
@@ -1023,35 +1107,12 @@ Hãy gợi ý hành động:`;
                 return;
             }
             
-            // Clean the response text while preserving COT reasoning
-            let cleanText = text.trim();
-            
-            console.log("🔍 Raw AI Response (first 500 chars):", cleanText.substring(0, 500));
-            
-            // Check if response contains COT reasoning
-            const hasCOTReasoning = cleanText.includes('[COT_REASONING]');
-            console.log("🧠 COT Reasoning detected in response:", hasCOTReasoning);
-            
-            // If response starts with markdown code block, extract content
-            if (cleanText.startsWith('```json')) {
-                const jsonMatch = cleanText.match(/```json\s*([\s\S]*?)\s*```/);
-                if (jsonMatch) {
-                    cleanText = jsonMatch[1].trim();
-                }
-            } else if (cleanText.startsWith('```')) {
-                const jsonMatch = cleanText.match(/```\s*([\s\S]*?)\s*```/);
-                if (jsonMatch) {
-                    cleanText = jsonMatch[1].trim();
-                }
-            }
-            
-            const plainTextResponse = parsePlainTextResponse(cleanText);
+            console.log("🔍 Raw AI Response (first 500 chars):", text.trim().substring(0, 500));
 
-            // Extract JSON for parsing
-            const jsonMatch = cleanText.match(/\{[\s\S]*\}/);
-            if (jsonMatch) {
-                cleanText = jsonMatch[0];
-            } else if (plainTextResponse) {
+            const parsed = parseTurnResponse(text);
+            const plainTextResponse = parsed.hasJson ? null : parsePlainTextResponse(text.trim());
+
+            if (plainTextResponse) {
                 console.warn("Response is not JSON. Falling back to plain text parser.");
                 let cleanStory = parseStoryAndTags(plainTextResponse.story, true);
 
@@ -1081,95 +1142,16 @@ Hãy gợi ý hành động:`;
                 triggerHighTokenCooldown();
                 return;
             }
-            
-            // Final check if cleanText is valid before parsing
-            if (!cleanText || cleanText.length === 0) {
-                console.error("No valid JSON found in response");
-                storyLogManager.update(prev => [...prev, "Lỗi: Không tìm thấy JSON hợp lệ trong phản hồi. Hãy thử lại."]);
+
+            // Phản hồi đã qua ensureValidTurnResponse; lỗi ở đây nghĩa là cả sửa tự động lẫn hỏi lại đều thất bại
+            const jsonResponse = parsed.response;
+            if (!jsonResponse) {
+                console.error("Invalid turn response:", parsed.errors);
+                storyLogManager.update(prev => [...prev, `Lỗi: Không thể phân tích phản hồi AI. Chi tiết: ${parsed.errors.join('; ')}`]);
                 setChoices([]);
                 return;
             }
-            
-            // Enhanced JSON parsing with error handling for unterminated strings
-            let jsonResponse;
-            let fixedText = cleanText;
-            try {
-                // First, try to fix common JSON issues
-                // Fix trailing commas
-                fixedText = fixedText.replace(/,(\s*[}\]])/g, '$1');
-                
-                // Fix unescaped backslashes
-                fixedText = fixedText.replace(/\\(?!["\\/bfnrt]|u[0-9a-fA-F]{4})/g, '\\\\');
-                
-                // Fix unterminated strings by ensuring all quotes are properly closed
-                const quotes = fixedText.match(/"/g);
-                if (quotes && quotes.length % 2 !== 0) {
-                    // Odd number of quotes - add missing closing quote at the end
-                    console.warn("Detected unterminated string, attempting to fix...");
-                    fixedText = fixedText + '"';
-                }
-                
-                // Fix missing closing braces/brackets by counting them
-                const openBraces = (fixedText.match(/\{/g) || []).length;
-                const closeBraces = (fixedText.match(/\}/g) || []).length;
-                const openBrackets = (fixedText.match(/\[/g) || []).length;
-                const closeBrackets = (fixedText.match(/\]/g) || []).length;
-                
-                // Add missing closing braces
-                for (let i = 0; i < openBraces - closeBraces; i++) {
-                    fixedText += '}';
-                }
-                
-                // Add missing closing brackets
-                for (let i = 0; i < openBrackets - closeBrackets; i++) {
-                    fixedText += ']';
-                }
-                
-                // Try to parse the fixed JSON
-                jsonResponse = JSON.parse(fixedText);
-            } catch (parseError: any) {
-                console.error("JSON parse error:", parseError.message);
-                console.error("Failed JSON text (first 500 chars):", fixedText.substring(0, 500));
-                console.error("Character at error position:", fixedText.charAt(parseError.message.match(/position (\d+)/)?.[1] || 0));
-                console.log("Attempting to salvage response...");
-
-                const salvagedPlainText = parsePlainTextResponse(text);
-                if (salvagedPlainText) {
-                    jsonResponse = salvagedPlainText;
-                } else {
-                
-                // Try to extract story and choices manually if JSON parsing fails
-                try {
-                    const storyMatch = cleanText.match(/"story"\s*:\s*"([^"]+(?:\\.[^"]*)*?)"/);
-                    const choicesMatch = cleanText.match(/"choices"\s*:\s*\[((?:[^[\]]*|\[[^[\]]*\])*)\]/);
-                    
-                    if (storyMatch) {
-                        jsonResponse = {
-                            story: storyMatch[1].replace(/\\"/g, '"').replace(/\\n/g, '\n'),
-                            choices: []
-                        };
-                        
-                        // Try to extract choices if found
-                        if (choicesMatch) {
-                            try {
-                                const choicesStr = '[' + choicesMatch[1] + ']';
-                                jsonResponse.choices = JSON.parse(choicesStr);
-                            } catch (choiceError) {
-                                console.warn("Could not parse choices, using empty array");
-                            }
-                        }
-                    } else {
-                        throw new Error("Could not extract story from malformed JSON");
-                    }
-                } catch (salvageError) {
-                    console.error("Failed to salvage response:", salvageError);
-                    storyLogManager.update(prev => [...prev, `Lỗi: Không thể phân tích phản hồi AI. Chi tiết: ${parseError.message}`]);
-                    setChoices([]);
-                    return;
-                }
-                }
-            }
-            
+
             // Extract and log COT reasoning if present + Create research log entry
             let cotReasoningForResearch = null;
             if (jsonResponse.cot_reasoning) {
@@ -1192,14 +1174,6 @@ Hãy gợi ý hành động:`;
                 };
             }
             
-            // Validate required fields
-            if (!jsonResponse.story) {
-                console.error("Missing story field in JSON response");
-                storyLogManager.update(prev => [...prev, "Lỗi: Phản hồi thiếu nội dung câu chuyện. Hãy thử lại."]);
-                setChoices([]);
-                return;
-            }
-            
             let cleanStory = parseStoryAndTags(jsonResponse.story, true);
             
             // Process AI output through regex rules
@@ -1609,6 +1583,7 @@ Hãy gợi ý hành động:`;
         generateInitialStory,
         handleAction,
         handleSuggestAction,
+        cancelActiveRequest,
         detectDuplicateResponse,
         extractCOTReasoning
     };
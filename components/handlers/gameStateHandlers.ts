@@ -1,6 +1,9 @@
-import type { SaveData, CustomRule, Memory, Entity } from '../types';
+import type { SaveData, CustomRule, Memory, Entity, TurnSnapshotLog, StoryBranchTree, ResponseAlternatives } from '../types';
 import { GameSettings } from '../GameSettingsModal';
 import { ReferenceIdGenerator } from '../utils/ReferenceIdGenerator';
+import { CURRENT_SAVE_SCHEMA_VERSION } from '../utils/SaveDataMigration';
+import type { DiceState } from '../utils/skillChecks';
+import { createStartingWallet } from '../utils/economy';
 
 export interface GameStateHandlersParams {
     worldData: any;
@@ -30,6 +33,10 @@ export interface GameStateHandlersParams {
         selectedChoice?: string;
         context?: string;
     }>;
+    turnSnapshots?: TurnSnapshotLog;
+    storyBranches?: StoryBranchTree;
+    responseAlternatives?: ResponseAlternatives;
+    diceState?: DiceState;
     
     // Setters
     setShowSaveSuccess: (show: boolean) => void;
@@ -61,23 +68,26 @@ export const createGameStateHandlers = (params: GameStateHandlersParams) => {
         worldData, knownEntities, statuses, quests, gameHistory, memories, party,
         customRules, systemInstruction, turnCount, totalTokens, gameTime, chronicle,
         compressedHistory, historyStats, cleanupStats, archivedMemories, memoryStats,
-        storyLog, choices, locationDiscoveryOrder, choiceHistory,
+        storyLog, choices, locationDiscoveryOrder, choiceHistory, turnSnapshots, storyBranches, responseAlternatives, diceState,
         setShowSaveSuccess, setStoryLog, setChoices, setStatuses, setQuests, setMemories,
         setKnownEntities, setParty, setCustomRules, setTurnCount, setTotalTokens, setGameTime, setChronicle,
         setRuleChanges, setGameHistory, setHasGeneratedInitialStory, setIsLoading,
         isGeneratingRef, initialGameState, previousRulesRef
     } = params;
 
+    const buildSaveData = (): SaveData => ({
+        schemaVersion: CURRENT_SAVE_SCHEMA_VERSION,
+        worldData, knownEntities, statuses, quests, gameHistory, memories, party,
+        customRules, systemInstruction, turnCount, totalTokens, gameTime, chronicle,
+        compressedHistory, historyStats, cleanupStats, archivedMemories, memoryStats,
+        storyLog, choices, locationDiscoveryOrder, choiceHistory, turnSnapshots, storyBranches, responseAlternatives, diceState
+    });
+
     const handleSaveGame = () => {
         setShowSaveSuccess(true);
         setTimeout(() => setShowSaveSuccess(false), 3000);
 
-        const currentGameState: SaveData = {
-            worldData, knownEntities, statuses, quests, gameHistory, memories, party,
-            customRules, systemInstruction, turnCount, totalTokens, gameTime, chronicle,
-            compressedHistory, historyStats, cleanupStats, archivedMemories, memoryStats,
-            storyLog, choices, locationDiscoveryOrder, choiceHistory
-        };
+        const currentGameState = buildSaveData();
         
         const jsonString = JSON.stringify(currentGameState, null, 2);
         const blob = new Blob([jsonString], { type: 'application/json' });
@@ -109,6 +119,7 @@ export const createGameStateHandlers = (params: GameStateHandlersParams) => {
             appearance: worldData.characterAppearance || initialGameState.knownEntities[worldData.characterName || 'Vô Danh']?.appearance || '',
             personality: worldData.customPersonality || worldData.personalityFromList,
             learnedSkills: [],
+            wallet: createStartingWallet(worldData.currencies),
             referenceId: ReferenceIdGenerator.generateReferenceId(worldData.characterName || 'Vô Danh', 'pc'),
         };
         
@@ -160,6 +171,7 @@ export const createGameStateHandlers = (params: GameStateHandlersParams) => {
     };
 
     return {
+        buildSaveData,
         handleSaveGame,
         handleRestartGame,
         handleToggleMemoryPin,
@@ -21,6 +21,9 @@ export const useGameSettings = (): [GameSettingsState, GameSettingsActions] => {
             historyCompressionThreshold: 72,
             themeColor: 'purple',
             enableCOT: false,
+            reviewTagChanges: false,
+            autosaveEnabled: true,
+            autosaveInterval: 5,
             // Entity Export Settings
             entityExportEnabled: true,
             entityExportInterval: 7,
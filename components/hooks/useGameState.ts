@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
-import type { SaveData, KnownEntities, Status, Quest, GameHistoryEntry, Memory, Entity, CustomRule, Chronicle, RegexRule, NPCPresent } from '../types';
-import { MemoryMigration } from '../utils/MemoryMigration';
+import type { SaveData, KnownEntities, Status, Quest, GameHistoryEntry, Memory, Entity, CustomRule, Chronicle, RegexRule, NPCPresent, TurnSnapshotLog, StoryBranchTree, ResponseAlternatives } from '../types';
+import { createDiceState } from '../utils/skillChecks';
+import type { DiceState } from '../utils/skillChecks';
 
 export interface GameState {
     // Core game data
@@ -49,6 +50,16 @@ export interface GameState {
         performanceMetrics: any;
     }>;
     
+    // Turn snapshots (undo / rewind)
+    turnSnapshots: TurnSnapshotLog | undefined;
+    storyBranches: StoryBranchTree | undefined;
+    
+    // Response alternatives of the latest turn (regenerate / swipe)
+    responseAlternatives: ResponseAlternatives | undefined;
+    
+    // Seedable RNG for engine-side skill checks
+    diceState: DiceState;
+    
     // UI state
     isLoading: boolean;
     hasGeneratedInitialStory: boolean;
@@ -85,6 +96,16 @@ export interface GameStateActions {
     // COT Research logging setter
     setCotResearchLog: (log: any[] | ((prev: any[]) => any[])) => void;
     
+    // Turn snapshots setter
+    setTurnSnapshots: (log: TurnSnapshotLog | undefined | ((prev: TurnSnapshotLog | undefined) => TurnSnapshotLog | undefined)) => void;
+    setStoryBranches: (tree: StoryBranchTree | undefined) => void;
+    
+    // Response alternatives setter
+    setResponseAlternatives: (alternatives: ResponseAlternatives | undefined | ((prev: ResponseAlternatives | undefined) => ResponseAlternatives | undefined)) => void;
+    
+    // Dice state setter
+    setDiceState: (state: DiceState) => void;
+    
     // UI state setters
     setIsLoading: (loading: boolean) => void;
     setHasGeneratedInitialStory: (generated: boolean) => void;
@@ -103,14 +124,8 @@ export const useGameState = (
     const [statuses, setStatuses] = useState<Status[]>(initialGameState.statuses);
     const [quests, setQuests] = useState<Quest[]>(initialGameState.quests);
     const [gameHistory, setGameHistory] = useState<GameHistoryEntry[]>(initialGameState.gameHistory);
-    const [memories, setMemories] = useState<Memory[]>(() => {
-        // Auto-migrate memories to enhanced format if needed
-        if (MemoryMigration.needsMigration(initialGameState.memories)) {
-            const migratedState = MemoryMigration.autoMigrateOnLoad(initialGameState);
-            return migratedState.memories;
-        }
-        return initialGameState.memories;
-    });
+    // Ký ức đã được nâng cấp định dạng trong pipeline migration khi tải (SaveDataMigration)
+    const [memories, setMemories] = useState<Memory[]>(initialGameState.memories);
     const [party, setParty] = useState<Entity[]>(initialGameState.party);
     const [customRules, setCustomRules] = useState<CustomRule[]>(initialGameState.customRules);
     const [regexRules, setRegexRules] = useState<RegexRule[]>(initialGameState.regexRules || []);
@@ -198,6 +213,10 @@ export const useGameState = (
         finalResponseQuality: any;
         performanceMetrics: any;
     }>>(initialGameState.cotResearchLog || []);
+    const [turnSnapshots, setTurnSnapshots] = useState<TurnSnapshotLog | undefined>(initialGameState.turnSnapshots);
+    const [storyBranches, setStoryBranches] = useState<StoryBranchTree | undefined>(initialGameState.storyBranches);
+    const [responseAlternatives, setResponseAlternatives] = useState<ResponseAlternatives | undefined>(initialGameState.responseAlternatives);
+    const [diceState, setDiceState] = useState<DiceState>(() => initialGameState.diceState || createDiceState());
     
     // UI state
     const [isLoading, setIsLoading] = useState(initialGameState.gameHistory.length === 0 && isAiReady);
@@ -242,6 +261,10 @@ export const useGameState = (
         locationDiscoveryOrder,
         choiceHistory,
         cotResearchLog,
+        turnSnapshots,
+        storyBranches,
+        responseAlternatives,
+        diceState,
         isLoading,
         hasGeneratedInitialStory,
         customAction
@@ -269,6 +292,10 @@ export const useGameState = (
         setLocationDiscoveryOrder,
         updateChoiceHistory,
         setCotResearchLog,
+        setTurnSnapshots,
+        setStoryBranches,
+        setResponseAlternatives,
+        setDiceState,
         setIsLoading,
         setHasGeneratedInitialStory,
         setCustomAction
@@ -24,6 +24,8 @@ export interface ModalState {
     isEditPCModalOpen: boolean;
     isEditLocationModalOpen: boolean;
     isRegexManagerModalOpen: boolean;
+    isSaveSlotModalOpen: boolean;
+    isTurnRewindModalOpen: boolean;
     
     // Active modal entities
     activeEntity: Entity | null;
@@ -64,6 +66,8 @@ export interface ModalStateActions {
     setIsEditPCModalOpen: (open: boolean) => void;
     setIsEditLocationModalOpen: (open: boolean) => void;
     setIsRegexManagerModalOpen: (open: boolean) => void;
+    setIsSaveSlotModalOpen: (open: boolean) => void;
+    setIsTurnRewindModalOpen: (open: boolean) => void;
     
     // Active modal entity setters
     setActiveEntity: (entity: Entity | null) => void;
@@ -100,6 +104,8 @@ export interface ModalStateActions {
         editPC: () => void;
         editLocation: () => void;
         regexManager: () => void;
+        saveSlots: () => void;
+        turnRewind: () => void;
     };
 }
 
@@ -126,6 +132,8 @@ export const useModalState = (): [ModalState, ModalStateActions] => {
     const [isEditPCModalOpen, setIsEditPCModalOpen] = useState(false);
     const [isEditLocationModalOpen, setIsEditLocationModalOpen] = useState(false);
     const [isRegexManagerModalOpen, setIsRegexManagerModalOpen] = useState(false);
+    const [isSaveSlotModalOpen, setIsSaveSlotModalOpen] = useState(false);
+    const [isTurnRewindModalOpen, setIsTurnRewindModalOpen] = useState(false);
     
     // Active modal entities
     const [activeEntity, setActiveEntity] = useState<Entity | null>(null);
@@ -178,6 +186,8 @@ export const useModalState = (): [ModalState, ModalStateActions] => {
             setActiveEditLocation(null);
         },
         regexManager: () => setIsRegexManagerModalOpen(false),
+        saveSlots: () => setIsSaveSlotModalOpen(false),
+        turnRewind: () => setIsTurnRewindModalOpen(false),
     }), []);
 
     const modalState: ModalState = {
@@ -202,6 +212,8 @@ export const useModalState = (): [ModalState, ModalStateActions] => {
         isEditPCModalOpen,
         isEditLocationModalOpen,
         isRegexManagerModalOpen,
+        isSaveSlotModalOpen,
+        isTurnRewindModalOpen,
         activeEntity,
         activeStatus,
         activeQuest,
@@ -237,6 +249,8 @@ export const useModalState = (): [ModalState, ModalStateActions] => {
         setIsEditPCModalOpen,
         setIsEditLocationModalOpen,
         setIsRegexManagerModalOpen,
+        setIsSaveSlotModalOpen,
+        setIsTurnRewindModalOpen,
         setActiveEntity,
         setActiveStatus,
         setActiveQuest,
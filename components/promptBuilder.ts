@@ -4,19 +4,25 @@ import { EnhancedRAG } from './utils/EnhancedRAG';
 import { MemoryAnalytics } from './utils/MemoryAnalytics';
 import { ReferenceBasedRAG, type CompactRAGContext } from './utils/ReferenceBasedRAG';
 import { ruleActivationEngine, type ActivationContext } from './utils/RuleActivationEngine';
-
-// Aggressive Token Management for 100k hard limit
+import { commandTagRegistry } from './utils/commandTagRegistry';
+import { tokenCounter } from './utils/tokenCounter';
+import { formatCalendarDate, formatCalendarForPrompt, normalizeCalendar } from './utils/worldCalendar';
+import { formatStatusLabel } from './utils/statusDurations';
+import { computeAttributes, formatAttributesForPrompt, normalizeAttributes } from './utils/characterAttributes';
+import { formatMoney, formatWallet, getItemPrice, normalizeCurrencies } from './utils/economy';
+import { buildPromptSections, promptInspector, type PromptRuleTrace, type PromptSectionId, type PromptSectionMark, type PromptSubsection } from './utils/promptInspector';
+
+// Aggressive Token Management, scaled to the prompt budget of the active model (see utils/tokenCounter)
 const TOKEN_CONFIG = {
-    MAX_TOKENS_PER_TURN: 90000,  // 90k hard limit with 10k buffer
-    TOKEN_BUFFER: 10000,         // 10k safety buffer
-    CHARS_PER_TOKEN: 1.2,        // Conservative token estimation
+    SOFT_LIMIT_RATIO: 0.8,       // Share of the model budget split across prompt sections
+    HARD_LIMIT_RATIO: 0.85,      // Emergency truncation above this share
     
-    // Aggressive allocation for strict 100k budget
+    // Aggressive allocation of the soft limit
     ALLOCATION: {
-        CRITICAL: 0.50,      // 45k tokens - Party, action context only
-        IMPORTANT: 0.25,     // 22.5k tokens - Essential entities, key quests
-        CONTEXTUAL: 0.15,    // 13.5k tokens - Minimal world info
-        SUPPLEMENTAL: 0.10   // 9k tokens - Rules, misc (reduced)
+        CRITICAL: 0.50,      // Party, action context only
+        IMPORTANT: 0.25,     // Essential entities, key quests
+        CONTEXTUAL: 0.15,    // Minimal world info
+        SUPPLEMENTAL: 0.10   // Rules, misc (reduced)
     },
     
     // Reference-based RAG settings
@@ -24,6 +30,15 @@ const TOKEN_CONFIG = {
     REFERENCE_RAG_TOKEN_LIMIT: 600  // Max tokens for reference-based context
 };
 
+// Soft/hard prompt limits for the model currently driving the story
+const getTurnTokenLimits = () => {
+    const budget = tokenCounter.getPromptBudget();
+    return {
+        softLimit: Math.floor(budget * TOKEN_CONFIG.SOFT_LIMIT_RATIO),
+        hardLimit: Math.floor(budget * TOKEN_CONFIG.HARD_LIMIT_RATIO)
+    };
+};
+
 // Entity relevance scoring
 interface EntityRelevance {
     entity: Entity;
@@ -42,6 +57,9 @@ export class EnhancedRAGSystem {
     private semanticCache = new Map<string, Set<string>>();
     private entityGraph = new Map<string, Set<string>>();
     private currentGameState?: SaveData; // Store current game state for choice context
+    // Trace of the prompt being built, recorded for the prompt inspector
+    private promptTrace: { marks: PromptSectionMark[]; subsections: PromptSubsection[]; rules: PromptRuleTrace[] } =
+        { marks: [], subsections: [], rules: [] };
     
     constructor() {
         this.initializeSystem();
@@ -59,7 +77,9 @@ export class EnhancedRAGSystem {
         gameState: SaveData,
         ruleChangeContext: string = '',
         playerNsfwRequest: string = '',
-        enableCOT: boolean = true
+        enableCOT: boolean = true,
+        statusEventContext: string = '',
+        checkResultContext: string = ''
     ): string {
         const startTime = performance.now();
         
@@ -74,6 +94,7 @@ export class EnhancedRAGSystem {
         try {
             // Store current game state for choice context
             this.currentGameState = gameState;
+            this.promptTrace = { marks: [], subsections: [], rules: [] };
             
             // Step 1: Choose RAG strategy based on configuration
             let intelligentContext;
@@ -156,13 +177,17 @@ export class EnhancedRAGSystem {
                 intelligentContext,
                 compactContext,
                 gameState,
-                enableCOT
+                enableCOT,
+                statusEventContext,
+                checkResultContext
             );
             
             const endTime = performance.now();
             console.log(`RAG processing time: ${(endTime - startTime).toFixed(2)}ms`);
             
-            return this.enforceTokenLimit(finalPrompt);
+            const limitedPrompt = this.enforceTokenLimit(finalPrompt);
+            this.recordInspection(action, gameState, relevantEntities, finalPrompt, limitedPrompt);
+            return limitedPrompt;
             
         } catch (error) {
             console.error('Enhanced RAG Error:', error);
@@ -348,7 +373,7 @@ export class EnhancedRAGSystem {
         gameState: SaveData,
         intelligentContextTokens: number = 0
     ): TokenBudget {
-        const baseLimit = TOKEN_CONFIG.MAX_TOKENS_PER_TURN - TOKEN_CONFIG.TOKEN_BUFFER;
+        const baseLimit = getTurnTokenLimits().softLimit;
         
         // Analyze context complexity
         const hasActiveQuests = gameState.quests?.some(q => q.status === 'active') || false;
@@ -434,6 +459,7 @@ export class EnhancedRAGSystem {
         // Add Vietnamese choice instructions at the beginning of critical context
         const choiceInstructions = this.buildCoreGameInstructions();
         context += "\n" + choiceInstructions + "\n\n";
+        this.traceSubsection('critical', 'coreInstructions', choiceInstructions);
         usedTokens += this.estimateTokens(choiceInstructions);
         
         // Add time and turn info
@@ -446,6 +472,23 @@ export class EnhancedRAGSystem {
         if (partyContext) {
             context += partyContext + "\n";
             usedTokens += this.estimateTokens(partyContext);
+            this.traceSubsection('critical', 'party', partyContext);
+        }
+        
+        // Numeric stats and resource pools so the narration stays consistent with them
+        const attributeContext = this.buildAttributeContext(gameState);
+        if (attributeContext) {
+            context += attributeContext + "\n";
+            usedTokens += this.estimateTokens(attributeContext);
+            this.traceSubsection('critical', 'attributes', attributeContext);
+        }
+        
+        // Wallet balances so purchases are validated against real money
+        const walletContext = this.buildWalletContext(gameState);
+        if (walletContext) {
+            context += walletContext + "\n";
+            usedTokens += this.estimateTokens(walletContext);
+            this.traceSubsection('critical', 'wallet', walletContext);
         }
         
         // Add remaining entities with detailed info (no filtering by type)
@@ -472,6 +515,59 @@ export class EnhancedRAGSystem {
         return context;
     }
     
+    // Current stats of the PC and companions, derived from realm, equipment and statuses
+    private buildAttributeContext(gameState: SaveData): string {
+        const definitions = normalizeAttributes(gameState.worldData?.attributes);
+        if (definitions.length === 0) return '';
+
+        const members = (gameState.party || []).filter(member => member.type === 'pc' || member.type === 'companion');
+        if (!members.some(member => member.type === 'pc')) {
+            const pc = Object.values(gameState.knownEntities || {}).find(entity => entity.type === 'pc');
+            if (pc) members.unshift(pc);
+        }
+        if (members.length === 0) return '';
+
+        const lines = members.map(member => {
+            const entity = gameState.knownEntities?.[member.name] || member;
+            const attributes = computeAttributes(entity, definitions, {
+                realmTiers: gameState.worldData?.realmTiers,
+                statuses: gameState.statuses,
+                knownEntities: gameState.knownEntities
+            });
+            return `- ${entity.name}: ${formatAttributesForPrompt(attributes)}`;
+        });
+        const ids = definitions.map(definition => `${definition.id}=${definition.name}`).join(', ');
+        return `**CHỈ SỐ NHÂN VẬT:**\n${lines.join('\n')}\nMô tả diễn biến khớp với các chỉ số trên; tài nguyên về 0 phải có hậu quả. Dùng STAT_CHANGE khi chỉ số thay đổi (mã: ${ids}).\n`;
+    }
+
+    // Balances of the PC and companions, plus the price list of merchants at the PC's location
+    private buildWalletContext(gameState: SaveData): string {
+        const currencies = normalizeCurrencies(gameState.worldData?.currencies);
+        if (currencies.length === 0) return '';
+
+        const knownEntities = gameState.knownEntities || {};
+        const pc = Object.values(knownEntities).find(entity => entity.type === 'pc');
+        if (!pc) return '';
+        const companions = (gameState.party || [])
+            .filter(member => member.type === 'companion')
+            .map(member => knownEntities[member.name] || member)
+            .filter(member => member.wallet);
+
+        const lines = [pc, ...companions].map(entity => `- ${entity.name}: ${formatWallet(entity, currencies)}`);
+        const merchants = Object.values(knownEntities).filter(entity =>
+            entity.merchantStock?.length && (!pc.location || !entity.location || entity.location === pc.location));
+        merchants.forEach(merchant => {
+            const stock = merchant.merchantStock!.slice(0, 8).map(item => {
+                const price = getItemPrice(item, currencies);
+                const quantity = item.quantities !== undefined ? ` (còn ${item.quantities})` : '';
+                return `${item.name}${price ? ` ${formatMoney(price.amount, price.currency)}` : ''}${quantity}`;
+            });
+            lines.push(`- Hàng của ${merchant.name}: ${stock.join(', ')}`);
+        });
+        const ids = currencies.map(currency => `${currency.id}=${currency.name}`).join(', ');
+        return `**TÀI SẢN:**\n${lines.join('\n')}\nKhông để nhân vật tiêu quá số dư. Dùng ITEM_BOUGHT/ITEM_SOLD khi mua bán, CURRENCY_CHANGE khi nhận/mất tiền (mã: ${ids}).\n`;
+    }
+
     // Enhanced party coordination context for better AI understanding
     private buildEnhancedPartyContext(gameState: SaveData, maxTokens: number): string {
         const { party, statuses } = gameState;
@@ -516,7 +612,7 @@ export class EnhancedRAGSystem {
                 pcDetails.push(`Kỹ năng: ${skillsWithMastery.join(', ')}`);
             }
             if (pcStatuses.length > 0) {
-                pcDetails.push(`Trạng thái: ${pcStatuses.map(s => s.name).join(', ')}`);
+                pcDetails.push(`Trạng thái: ${pcStatuses.map(formatStatusLabel).join(', ')}`);
             }
             
             if (pcDetails.length > 0) {
@@ -558,7 +654,7 @@ export class EnhancedRAGSystem {
                 // Active status effects
                 const companionStatuses = statuses.filter(s => s.owner === companion.name);
                 if (companionStatuses.length > 0) {
-                    companionDetails.push(`Trạng thái: ${companionStatuses.map(s => s.name).join(', ')}`);
+                    companionDetails.push(`Trạng thái: ${companionStatuses.map(formatStatusLabel).join(', ')}`);
                 }
                 
                 // Core personality for AI roleplay
@@ -607,6 +703,7 @@ export class EnhancedRAGSystem {
         );
         context += questContext;
         usedTokens += this.estimateTokens(questContext);
+        this.traceSubsection('important', 'quests', questContext);
         
         // Recent history with smart summarization
         const historyContext = this.buildSmartHistoryContext(
@@ -615,6 +712,7 @@ export class EnhancedRAGSystem {
         );
         context += historyContext;
         usedTokens += this.estimateTokens(historyContext);
+        this.traceSubsection('important', 'history', historyContext);
         
         // Related entities
         const remainingBudget = tokenBudget - usedTokens;
@@ -635,7 +733,7 @@ export class EnhancedRAGSystem {
 
     // Utility methods
     private estimateTokens(text: string): number {
-        return Math.ceil(text.length * TOKEN_CONFIG.CHARS_PER_TOKEN);
+        return tokenCounter.count(text);
     }
 
     private countRecentMentions(name: string, history: GameHistoryEntry[], lookback: number): number {
@@ -736,8 +834,13 @@ export class EnhancedRAGSystem {
         
         try {
             const { year, month, day, hour, minute } = time;
-            const timeStr = `Năm ${year || '?'} Tháng ${month || '?'} Ngày ${day || '?'}, ${hour || 0} giờ ${minute || 0} phút`;
-            return turnCount !== undefined ? `Thời gian: ${timeStr} (Lượt ${turnCount})` : timeStr;
+            const calendar = normalizeCalendar(this.currentGameState?.worldData?.calendar);
+            const date = formatCalendarDate({ year: year || 1, month: month || 1, day: day || 1, hour: hour || 0 }, calendar);
+            const timeStr = `${date}, ${hour || 0} giờ ${minute || 0} phút`;
+            if (turnCount === undefined) return timeStr;
+            // Full calendar layout only in the critical section, so the AI knows month lengths for TIME_ELAPSED
+            const calendarInfo = formatCalendarForPrompt(calendar);
+            return `Thời gian: ${timeStr} (Lượt ${turnCount})${calendarInfo ? `\n${calendarInfo}` : ''}`;
         } catch {
             return 'Lỗi định dạng thời gian';
         }
@@ -751,8 +854,8 @@ export class EnhancedRAGSystem {
             return text;
         }
         
-        // Aggressive character limit
-        const charLimit = Math.floor(maxTokens / TOKEN_CONFIG.CHARS_PER_TOKEN * 0.9); // 90% safety margin
+        // Aggressive character limit, proportional to the measured tokens of this text
+        const charLimit = Math.floor(text.length * maxTokens / estimatedTokens * 0.9); // 90% safety margin
         
         if (text.length <= charLimit) {
             return text;
@@ -1547,6 +1650,10 @@ Tự hỏi bản thân:
             recentCompressed.forEach(segment => {
                 if (segment.storyFlow && segment.storyFlow.length > 0) {
                     context += `**NGỮ CẢNH TỪ LỊCH SỬ NÉN (${segment.turnRange}):**\n`;
+                    if (segment.summary) {
+                        context += `${segment.summary}\n`;
+                        usedTokens += this.estimateTokens(segment.summary);
+                    }
                     segment.storyFlow.forEach(flow => {
                         context += `• ${flow}\n`;
                         usedTokens += this.estimateTokens(flow) + 5;
@@ -1725,6 +1832,7 @@ Tự hỏi bản thân:
         const chronicleContext = this.buildChronicleContext(gameState.chronicle, chronicleTokens);
         context += chronicleContext;
         usedTokens += this.estimateTokens(chronicleContext);
+        this.traceSubsection('contextual', 'chronicle', chronicleContext);
         
         // Pinned memories
         const memoryTokens = maxTokens - usedTokens;
@@ -1806,6 +1914,11 @@ Tự hỏi bản thân:
 
         // Format activated rules for prompt
         const formattedContext = ruleActivationEngine.formatForPrompt(activationResult);
+        this.promptTrace.rules = activationResult.activatedRules.map(activated => ({
+            title: activated.rule.title || activated.rule.id,
+            reason: activated.activationReason,
+            keywords: activated.matchedKeywords
+        }));
 
         // Log activation statistics
         if (activationResult.activatedRules.length > 0) {
@@ -1833,7 +1946,7 @@ Tự hỏi bản thân:
      * These are the fundamental rules for choice generation and game mechanics
      */
     private buildCoreGameInstructions(): string {
-        return `--- QUY TẮC TƯƠNG TÁC ---
+        const instructions = `--- QUY TẮC TƯƠNG TÁC ---
 
 **1. LỰA CHỌN HÀNH ĐỘNG:**
 - Tạo 7-9 lựa chọn đa dạng: hành động, xã hội, thăm dó, chiến đấu, tua nhanh thời gian, chuyển cảnh, nsfw(nếu được bật)
@@ -1896,6 +2009,10 @@ Tự hỏi bản thân:
 - Format \`⭐...⭐\` (không bold) BẮT BUỘC cho nội dung Chronicle Turn
 - Tôn trong tính cách các NPC, không phải luôn luôn xoay quanh, chiều lòng người chơi.
 - Chủ động xây dựng các sự kiện đột phát giữa các lượt sau một thời gian nhất định(theo GameTime) như cướp bóc, ám sát, tỏ tình, cầu hôn....`;
+
+        // Cú pháp các thẻ lệnh đã đăng ký, tự động cập nhật khi có module thẻ mới
+        const tagDocumentation = commandTagRegistry.buildPromptDocumentation();
+        return tagDocumentation ? `${instructions}\n\n${tagDocumentation}` : instructions;
     }
 
 
@@ -1908,13 +2025,18 @@ Tự hỏi bản thân:
         intelligentContext?: any,
         compactContext?: CompactRAGContext | null,
         gameState?: SaveData,
-        enableCOT: boolean = true
+        enableCOT: boolean = true,
+        statusEventContext: string = '',
+        checkResultContext: string = ''
     ): string {
         let prompt = "";
+        // Marks where each section starts so the inspector can split the final prompt
+        const mark = (id: PromptSectionId) => this.promptTrace.marks.push({ id, start: prompt.length });
         
         // COT INSTRUCTIONS (CONDITIONAL BASED ON USER SETTING)
         // COT instructions handled by advanced COT prompt later - no early duplication needed
         if (!enableCOT) {
+            mark('format');
             prompt += `🚨🚨🚨 RESPONSE FORMAT - READ FIRST 🚨🚨🚨
 
 JSON RESPONSE FORMAT (COT DISABLED):
@@ -1936,13 +2058,16 @@ Example JSON:
         
         // Rule changes (second priority)
         if (ruleChangeContext) {
+            mark('ruleChanges');
             prompt += ruleChangeContext + "\n";
         }
         
         // Critical context
+        mark('critical');
         prompt += sections.critical + "\n";
         
         // Phase 4: Intelligent Context (before important context)
+        mark('retrieval');
         if (compactContext) {
             // Use compact reference-based context ONLY
             prompt += ReferenceBasedRAG.formatCompactContextForPrompt(compactContext) + "\n";
@@ -1953,20 +2078,36 @@ Example JSON:
         }
         
         // Important context
+        mark('important');
         prompt += sections.important + "\n";
         
         // Contextual information
+        mark('contextual');
         prompt += sections.contextual + "\n";
         
         // Supplemental context
         if (sections.supplemental) {
+            mark('rules');
             prompt += sections.supplemental + "\n";
         }
         
+        // Status effects that expired or ticked since the last turn
+        if (statusEventContext) {
+            mark('statusEvents');
+            prompt += statusEventContext;
+        }
+        
+        // Dice checks the engine resolved; the AI must narrate these outcomes
+        if (checkResultContext) {
+            mark('checks');
+            prompt += checkResultContext;
+        }
+        
         // Player action with enhanced context and randomness to prevent duplicate responses
         const timestamp = Date.now();
         const randomSeed = Math.random().toString(36).substring(2, 8);
         
+        mark('action');
         if (gameState) {
             const actionAnalysis = this.analyzePlayerAction(action, gameState);
             
@@ -1990,6 +2131,7 @@ Example JSON:
         // Add smart choice generation context
         const choiceContext = this.buildSmartChoiceContext(sections, compactContext, intelligentContext);
         if (choiceContext) {
+            mark('choices');
             prompt += `\n${choiceContext}`;
         }
         
@@ -2007,6 +2149,7 @@ Example JSON:
                     action: action.substring(0, 50) + (action.length > 50 ? '...' : '')
                 });
                 // PRIORITY: Place COT at the very end for maximum visibility
+                mark('cot');
                 prompt += `\n\n` + "=".repeat(80) + `\n`;
                 prompt += `🚨 QUAN TRỌNG: BẮT BUỘC PHẢI THỰC HIỆN COT REASONING TRƯỚC KHI TẠO JSON!\n`;
                 prompt += "=".repeat(80) + `\n`;
@@ -2018,11 +2161,14 @@ Example JSON:
         
         // NSFW context if applicable
         if (nsfwContext) {
+            mark('nsfw');
             prompt += `\n${nsfwContext}`;
         } else if (worldData.allowNsfw) {
+            mark('nsfw');
             prompt += `\nLƯU Ý: Chế độ NSFW đang BẬT.`;
         }
         
+        mark('closing');
         prompt += `
 === YÊU CẦU XỬ LÝ ===
 Tiếp tục câu chuyện dựa trên hành động và tri thức đã truy xuất.
@@ -2077,6 +2223,37 @@ TUYỆT ĐỐI KHÔNG tự thêm động cơ/suy nghĩ/cảm xúc cho PC. CHỈ
         return prompt;
     }
 
+    private traceSubsection(parent: PromptSectionId, id: PromptSectionId, text: string): void {
+        this.promptTrace.subsections.push({ parent, id, text });
+    }
+
+    // Records the finished prompt, its section breakdown and why each entity was retrieved
+    private recordInspection(
+        action: string,
+        gameState: SaveData,
+        relevantEntities: EntityRelevance[],
+        assembledPrompt: string,
+        finalPrompt: string
+    ): void {
+        promptInspector.record({
+            turnCount: gameState.turnCount || 0,
+            action,
+            prompt: finalPrompt,
+            totalTokens: this.estimateTokens(finalPrompt),
+            budget: tokenCounter.getPromptBudget(),
+            truncated: finalPrompt !== assembledPrompt,
+            // Emergency truncation drops whole sections, so offsets only apply to the assembled prompt
+            sections: buildPromptSections(assembledPrompt, this.promptTrace.marks, this.promptTrace.subsections),
+            entities: relevantEntities.map(({ entity, score, reason }) => ({
+                name: entity.name,
+                type: entity.type,
+                score,
+                reasons: reason
+            })),
+            rules: this.promptTrace.rules
+        });
+    }
+
     private truncateWithTokenLimit(text: string, maxTokens: number): string {
         const estimatedTokens = this.estimateTokens(text);
         
@@ -2085,7 +2262,7 @@ TUYỆT ĐỐI KHÔNG tự thêm động cơ/suy nghĩ/cảm xúc cho PC. CHỈ
         }
         
         // Calculate character limit based on token limit
-        const charLimit = Math.floor(maxTokens / TOKEN_CONFIG.CHARS_PER_TOKEN);
+        const charLimit = Math.floor(text.length * maxTokens / estimatedTokens);
         
         if (text.length <= charLimit) {
             return text;
@@ -2108,7 +2285,7 @@ TUYỆT ĐỐI KHÔNG tự thêm động cơ/suy nghĩ/cảm xúc cho PC. CHỈ
     // ADDED: Emergency truncation method
     private emergencyTruncation(prompt: string): string {
         const totalTokens = this.estimateTokens(prompt);
-        const hardLimit = 185000; // Emergency limit well under 100k
+        const hardLimit = tokenCounter.getPromptBudget(); // Emergency limit: the whole model budget
         
         if (totalTokens <= hardLimit) {
             return prompt;
@@ -2143,8 +2320,7 @@ TUYỆT ĐỐI KHÔNG tự thêm động cơ/suy nghĩ/cảm xúc cho PC. CHỈ
     // UPDATED: Enhanced token limit enforcement with hard limit
     private enforceTokenLimit(prompt: string): string {
         const totalTokens = this.estimateTokens(prompt);
-        const softLimit = TOKEN_CONFIG.MAX_TOKENS_PER_TURN - TOKEN_CONFIG.TOKEN_BUFFER;
-        const hardLimit = 85000; // Well under 100k
+        const { softLimit, hardLimit } = getTurnTokenLimits();
         
         if (totalTokens <= softLimit) {
             console.log(`✅ Prompt tokens: ${totalTokens}/${softLimit} (Safe)`);
@@ -2347,13 +2523,17 @@ export const buildEnhancedRagPrompt = (
     gameState: SaveData,
     ruleChangeContext = '',
     playerNsfwRequest = '',
-    enableCOT = true
+    enableCOT = true,
+    statusEventContext = '',
+    checkResultContext = ''
 ): string => {
     return enhancedRAG.buildEnhancedPrompt(
         action,
         gameState,
         ruleChangeContext,
         playerNsfwRequest,
-        enableCOT
+        enableCOT,
+        statusEventContext,
+        checkResultContext
     );
 };
\ No newline at end of file
@@ -1,6 +1,8 @@
 
 
-import type { GoogleGenAI } from "@google/genai";
+import type { LLMProvider } from './utils/llmProvider';
+import type { LLMTask, LLMTaskModel } from './utils/modelProfiles';
+import type { DiceState } from './utils/skillChecks';
 
 export type EntityType = 'pc' | 'npc' | 'location' | 'faction' | 'item' | 'skill' | 'status_effect' | 'companion' | 'concept';
 
@@ -38,6 +40,13 @@ export interface Entity {
     archivedAt?: number;         // Turn number khi archive
     lastMentioned?: number;      // Turn cuối cùng được nhắc đến
     referenceId?: string;        // Unique identifier for exports and cross-referencing
+    stats?: { [attributeId: string]: number };        // Giá trị gốc riêng của nhân vật, ghi đè giá trị gốc của thế giới
+    resources?: { [attributeId: string]: number };    // Giá trị hiện tại của các tài nguyên (HP, MP...)
+    statBonuses?: { [attributeId: string]: number };  // Vật phẩm: cộng chỉ số khi được trang bị
+    wallet?: { [currencyId: string]: number };        // Nhân vật: số dư từng loại tiền
+    price?: number;                                   // Vật phẩm: giá mua một đơn vị
+    priceCurrency?: string;                           // Vật phẩm: id tiền tệ của giá, mặc định là loại tiền đầu tiên
+    merchantStock?: Entity[];                         // NPC thương nhân: hàng đang bán
 }
 
 export interface KnownEntities {
@@ -97,11 +106,48 @@ export interface RealmTier {
   requiredExp: number;
 }
 
+export interface CalendarMonth {
+  name: string;
+  days: number;
+  season?: string;
+}
+
+export interface CalendarEra {
+  name: string;
+  startYear: number;               // Năm (theo lịch tuyệt đối) bắt đầu kỷ nguyên
+}
+
+export interface WorldCalendar {
+  months: CalendarMonth[];
+  weekdays: string[];              // Rỗng: thế giới không dùng tuần
+  eras: CalendarEra[];
+}
+
+// Chỉ số do thế giới định nghĩa: thuộc tính (Sức Mạnh...) hoặc tài nguyên có giá trị hiện tại/tối đa (HP, MP...)
+export interface AttributeDefinition {
+    id: string;                 // Khóa ngắn dùng trong thẻ lệnh, VD "hp", "str"
+    name: string;
+    kind: 'stat' | 'resource';
+    base: number;               // Giá trị gốc; với tài nguyên là giá trị tối đa gốc
+    perRealm?: number;          // Cộng thêm cho mỗi cảnh giới trên cảnh giới đầu tiên
+}
+
+// Đơn vị tiền tệ của thế giới; một thế giới có thể dùng nhiều loại (Linh Thạch, Vàng...)
+export interface CurrencyDefinition {
+    id: string;                 // Khóa ngắn dùng trong thẻ lệnh, VD "linh_thach"
+    name: string;
+    symbol?: string;            // Biểu tượng hiển thị, VD "💎"
+    starting?: number;          // Số dư ban đầu của nhân vật chính
+}
+
 export interface FormData {
     storyName: string; // Changed from 'genre' 
     genre: string; // New field for story genre
     worldDetail: string;
     worldTime: { day: number; month: number; year: number }; // New field for world start time
+    calendar: WorldCalendar; // Lịch của thế giới: tháng, thứ, kỷ nguyên, mùa
+    attributes: AttributeDefinition[]; // Chỉ số và tài nguyên của nhân vật; rỗng là tắt hệ thống chỉ số
+    currencies: CurrencyDefinition[]; // Các loại tiền tệ; rỗng là tắt hệ thống tiền tệ
     startLocation: string; // New field for start location
     customStartLocation: string; // New field for custom start location when "Tuỳ chọn" is selected
     expName: string; // New field for realm system - experience unit name
@@ -121,6 +167,16 @@ export interface FormData {
     customRules: CustomRule[];
 }
 
+// Thời gian còn lại của trạng thái; thời gian trong game được quy về phút
+export interface StatusDuration {
+    unit: 'turns' | 'minutes';
+    remaining: number;
+    total: number;
+}
+
+// Khi áp lại trạng thái cùng tên: làm mới thời gian, cộng dồn tầng, hoặc cộng thêm thời gian
+export type StatusStacking = 'refresh' | 'stack' | 'extend';
+
 export interface Status {
     name:string;
     description: string;
@@ -130,6 +186,13 @@ export interface Status {
     effects?: string;
     cureConditions?: string;
     owner: string; // 'pc' or an NPC's name
+    remaining?: StatusDuration;  // Không có: vĩnh viễn hoặc chờ chữa
+    appliedTurn?: number;        // Lượt được áp dụng, lượt đó không bị trừ thời gian
+    tickEffect?: string;         // Tác động mỗi lượt, được báo lại cho AI
+    stacking?: StatusStacking;
+    stacks?: number;
+    maxStacks?: number;
+    statModifiers?: { [attributeId: string]: number }; // Cộng/trừ chỉ số khi trạng thái còn hiệu lực, nhân theo số tầng
 }
 
 export interface Memory {
@@ -201,6 +264,7 @@ export interface CompressedHistorySegment {
 }
 // --- Save Game Data Structure ---
 export interface SaveData {
+    schemaVersion?: number;       // Xem CURRENT_SAVE_SCHEMA_VERSION trong utils/SaveDataMigration
     worldData: Omit<FormData, 'customRules'>;
     knownEntities: KnownEntities;
     statuses: Status[];
@@ -217,6 +281,7 @@ export interface SaveData {
         month: number;
         day: number;
         hour: number;
+        minute?: number;
     };
     chronicle: Chronicle;
     
@@ -224,6 +289,7 @@ export interface SaveData {
     storyLog?: string[];
     choices?: string[];
     locationDiscoveryOrder?: string[];
+    diceState?: DiceState;        // Seed và vị trí của bộ tung xúc xắc, giúp kết quả kiểm tra tái hiện được
 
     // Thêm fields mới cho sliding window
     compressedHistory?: CompressedHistorySegment[];
@@ -302,10 +368,76 @@ export interface SaveData {
         processingOrder: string[]; // Array of rule IDs in execution order
         defaultPlacement: RegexPlacement[];
     };
+
+    // Turn snapshots cho hoàn tác / tua lại lượt (của nhánh đang chơi)
+    turnSnapshots?: TurnSnapshotLog;
+
+    // Cây nhánh cốt truyện (tách nhánh từ lượt cũ)
+    storyBranches?: StoryBranchTree;
+
+    // Các phương án phản hồi của lượt gần nhất (tạo lại / vuốt chọn)
+    responseAlternatives?: ResponseAlternatives;
+}
+
+// Các phần trạng thái được khôi phục cùng nhau khi tua lại lượt
+export interface TurnSnapshotState {
+    knownEntities: KnownEntities;
+    statuses: Status[];
+    quests: Quest[];
+    memories: Memory[];
+    chronicle: Chronicle;
+    gameTime: SaveData['gameTime'];
+    gameHistory: GameHistoryEntry[];
+    party: Entity[];
+    turnCount: number;
+    storyLog: string[];
+    choices: string[];
+    locationDiscoveryOrder: string[];
+}
+
+export type StructuralDiffPath = Array<string | number>;
+
+export type StructuralDiffOp =
+    | { op: 'set'; path: StructuralDiffPath; value: any }
+    | { op: 'delete'; path: StructuralDiffPath }
+    | { op: 'truncate'; path: StructuralDiffPath; length: number };
+
+// Ring buffer: một snapshot đầy đủ (cũ nhất) + các diff tiến theo từng lượt
+export interface TurnSnapshotLog {
+    capacity: number;
+    base: { turn: number; state: TurnSnapshotState } | null;
+    deltas: Array<{ turn: number; ops: StructuralDiffOp[] }>;
+}
+
+// Nhánh cốt truyện: dùng chung lịch sử của nhánh cha trước lượt `forkTurn`
+export interface StoryBranch {
+    id: string;
+    name: string;
+    parentId: string | null;
+    forkTurn: number | null;
+    createdAt: number;
+    snapshots?: TurnSnapshotLog; // Chỉ lưu ở nhánh không hoạt động; nhánh đang chơi dùng SaveData.turnSnapshots
+}
+
+export interface StoryBranchTree {
+    activeBranchId: string;
+    branches: StoryBranch[];
+}
+
+export interface ResponseAlternative {
+    response: string;
+    ops?: StructuralDiffOp[]; // Diff so với trạng thái trước hành động; phương án đang hiển thị chưa có
+}
+
+export interface ResponseAlternatives {
+    turn: number; // Lượt trước khi người chơi hành động
+    action: string;
+    alternatives: ResponseAlternative[];
+    selectedIndex: number;
 }
 
 export interface AIContextType {
-    ai: GoogleGenAI | null;
+    llmProvider: LLMProvider | null; // Backend AI đang dùng (Gemini hoặc OpenAI-compatible)
     isAiReady: boolean;
     apiKeyError: string | null;
     isUsingDefaultKey: boolean;
@@ -315,8 +447,8 @@ export interface AIContextType {
     temperature: number;
     topK: number;
     topP: number;
-    openAiBaseUrl: string;
-    openAiApiKey: string;
+    enableToolCalling: boolean; // Thẻ lệnh được khai báo thành hàm (function calling)
+    taskModels: Record<LLMTask, LLMTaskModel>; // Provider và tham số theo từng tác vụ (story = cấu hình chính)
 }
 
 // --- Regex System Types ---
@@ -208,7 +208,7 @@ export const DEFAULT_REGEX_TEMPLATES: RegexRuleTemplate[] = [
             },
             {
                 name: "Gold/Currency",
-                findRegex: "/\\b(\\d+)\\s*(gold|coins?|silver|copper|money|currency)\\b/gi",
+                findRegex: "/\\b(\\d+)\\s*(linh thạch|lượng vàng|lượng bạc|vàng|đồng|gold|coins?|silver|copper|money|currency)\\b/gi",
                 replaceString: "💰**$1** $2",
                 trimStrings: [],
                 placement: [RegexPlacement.AI_OUTPUT],
@@ -219,7 +219,7 @@ export const DEFAULT_REGEX_TEMPLATES: RegexRuleTemplate[] = [
                 runOnEdit: true,
                 substituteRegex: RegexSubstituteMode.NONE,
                 category: "Items",
-                description: "Highlight currency amounts",
+                description: "Highlight currency amounts (Linh Thạch, Vàng, gold...)",
                 createdAt: Date.now()
             }
         ]
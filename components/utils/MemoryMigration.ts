@@ -161,11 +161,12 @@ export class MemoryMigration {
         // Apply unified auto cleanup after migration for old saves using default configuration
         console.log('🧹 Applying unified auto cleanup to migrated memories...');
         const cleanupResult = UnifiedMemoryManager.coordinatedCleanup(updatedGameState);
+        const activeMemories = [...cleanupResult.memoriesProcessed.kept, ...cleanupResult.memoriesProcessed.enhanced];
         
         console.log('🎯 Unified auto cleanup applied:', {
             original: gameState.memories.length,
             migrated: deduplicatedMemories.length,
-            afterCleanup: cleanupResult.memoriesProcessed.memories.length,
+            afterCleanup: activeMemories.length,
             memoriesArchived: cleanupResult.memoriesProcessed.archived.length,
             memoriesEnhanced: cleanupResult.memoriesProcessed.enhanced.length,
             tokensSaved: cleanupResult.tokensSaved,
@@ -174,7 +175,7 @@ export class MemoryMigration {
         
         return {
             ...updatedGameState,
-            memories: cleanupResult.memoriesProcessed.memories,
+            memories: activeMemories,
             gameHistory: cleanupResult.historyProcessed.activeEntries
         };
     }
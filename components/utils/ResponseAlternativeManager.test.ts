@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { ResponseAlternativeManager, MAX_RESPONSE_ALTERNATIVES } from './ResponseAlternativeManager';
+import type { TurnSnapshotState } from '../types';
+
+const createState = (story: string[], extra: Partial<TurnSnapshotState> = {}): TurnSnapshotState => ({
+  knownEntities: {},
+  statuses: [],
+  quests: [],
+  memories: [],
+  chronicle: { memoir: [], chapter: [], turn: [] },
+  gameTime: { year: 1, month: 1, day: 1, hour: 8, minute: 0 },
+  gameHistory: [],
+  party: [],
+  turnCount: 4,
+  storyLog: story,
+  choices: [],
+  locationDiscoveryOrder: [],
+  ...extra
+});
+
+describe('ResponseAlternativeManager', () => {
+  it('should start a new list for a new action', () => {
+    const first = ResponseAlternativeManager.accept(undefined, 4, 'Đi vào rừng', 'A', false);
+    const next = ResponseAlternativeManager.accept(first, 5, 'Nghỉ ngơi', 'B', false);
+
+    expect(first).toEqual({ turn: 4, action: 'Đi vào rừng', alternatives: [{ response: 'A' }], selectedIndex: 0 });
+    expect(next.alternatives).toEqual([{ response: 'B' }]);
+  });
+
+  it('should append and select regenerated responses for the same turn', () => {
+    let alternatives = ResponseAlternativeManager.accept(undefined, 4, 'Đi vào rừng', 'A', false);
+    alternatives = ResponseAlternativeManager.accept(alternatives, 4, 'Đi vào rừng', 'B', true);
+
+    expect(alternatives.alternatives.map(a => a.response)).toEqual(['A', 'B']);
+    expect(alternatives.selectedIndex).toBe(1);
+  });
+
+  it('should cap the number of kept alternatives', () => {
+    let alternatives = ResponseAlternativeManager.accept(undefined, 4, 'x', 'r0', false);
+    for (let i = 1; i <= MAX_RESPONSE_ALTERNATIVES + 2; i++) {
+      alternatives = ResponseAlternativeManager.accept(alternatives, 4, 'x', `r${i}`, true);
+    }
+
+    expect(alternatives.alternatives).toHaveLength(MAX_RESPONSE_ALTERNATIVES);
+    expect(alternatives.alternatives[alternatives.selectedIndex].response).toBe(`r${MAX_RESPONSE_ALTERNATIVES + 2}`);
+  });
+
+  it('should roll back the previous alternative when switching', () => {
+    const base = createState(['mở đầu']);
+    const afterA = createState(['mở đầu', '> Đi', 'Gặp sói'], {
+      turnCount: 5,
+      statuses: [{ name: 'Bị thương', description: '', type: 'debuff', source: 'Sói', owner: 'pc' }]
+    });
+    const afterB = createState(['mở đầu', '> Đi', 'Gặp tiên nữ'], { turnCount: 5 });
+
+    let alternatives = ResponseAlternativeManager.accept(undefined, 4, 'Đi', 'A', false);
+    alternatives = ResponseAlternativeManager.captureSelected(alternatives, base, afterA);
+    alternatives = ResponseAlternativeManager.accept(alternatives, 4, 'Đi', 'B', true);
+    alternatives = ResponseAlternativeManager.captureSelected(alternatives, base, afterB);
+
+    const restoredA = ResponseAlternativeManager.resolveState(alternatives, 0, base);
+    const restoredB = ResponseAlternativeManager.resolveState(alternatives, 1, base);
+
+    expect(restoredA).toEqual(afterA);
+    expect(restoredB).toEqual(afterB);
+    expect(restoredB!.statuses).toEqual([]);
+    expect(base.storyLog).toEqual(['mở đầu']);
+  });
+
+  it('should not resolve an alternative whose state was never captured', () => {
+    const alternatives = ResponseAlternativeManager.accept(undefined, 4, 'Đi', 'A', false);
+
+    expect(ResponseAlternativeManager.resolveState(alternatives, 0, createState([]))).toBeNull();
+    expect(ResponseAlternativeManager.resolveState(alternatives, 3, createState([]))).toBeNull();
+  });
+});
@@ -0,0 +1,65 @@
+import type { ResponseAlternatives, TurnSnapshotState } from '../types';
+import { TurnSnapshotManager } from './TurnSnapshotManager';
+
+export const MAX_RESPONSE_ALTERNATIVES = 10;
+
+/**
+ * Quản lý các phương án phản hồi AI của lượt gần nhất.
+ * Trạng thái sau mỗi phương án được lưu dưới dạng diff so với trạng thái trước hành động,
+ * nên chuyển phương án chỉ cần khôi phục snapshot rồi áp diff - không chạy lại command tag.
+ */
+export class ResponseAlternativeManager {
+
+    /**
+     * Ghi nhận phản hồi vừa được áp dụng. Hành động mới bắt đầu danh sách mới,
+     * tạo lại cùng hành động thì thêm phương án và chọn phương án đó.
+     */
+    static accept(
+        current: ResponseAlternatives | undefined,
+        turn: number,
+        action: string,
+        response: string,
+        isRegeneration: boolean
+    ): ResponseAlternatives {
+        if (!isRegeneration || !current || current.turn !== turn || current.action !== action) {
+            return { turn, action, alternatives: [{ response }], selectedIndex: 0 };
+        }
+
+        let alternatives = [...current.alternatives, { response }];
+        if (alternatives.length > MAX_RESPONSE_ALTERNATIVES) {
+            alternatives = alternatives.slice(alternatives.length - MAX_RESPONSE_ALTERNATIVES);
+        }
+        return { ...current, alternatives, selectedIndex: alternatives.length - 1 };
+    }
+
+    /**
+     * Lưu trạng thái hiện tại (kết quả của phương án đang chọn) dưới dạng diff trước khi rời phương án đó
+     */
+    static captureSelected(
+        alternatives: ResponseAlternatives,
+        baseState: TurnSnapshotState,
+        currentState: TurnSnapshotState
+    ): ResponseAlternatives {
+        return {
+            ...alternatives,
+            alternatives: alternatives.alternatives.map((alternative, index) =>
+                index === alternatives.selectedIndex
+                    ? { ...alternative, ops: TurnSnapshotManager.diff(baseState, currentState) }
+                    : alternative
+            )
+        };
+    }
+
+    /**
+     * Dựng lại trạng thái sau phương án `index`; null nếu phương án chưa được ghi nhận trạng thái
+     */
+    static resolveState(alternatives: ResponseAlternatives, index: number, baseState: TurnSnapshotState): TurnSnapshotState | null {
+        const alternative = alternatives.alternatives[index];
+        if (!alternative?.ops) return null;
+        return TurnSnapshotManager.patch(JSON.parse(JSON.stringify(baseState)), alternative.ops);
+    }
+
+    static select(alternatives: ResponseAlternatives, index: number): ResponseAlternatives {
+        return { ...alternatives, selectedIndex: index };
+    }
+}
@@ -0,0 +1,183 @@
+import { describe, it, expect } from 'vitest';
+import { SaveDataMigration, CURRENT_SAVE_SCHEMA_VERSION, SaveMigrationStep } from './SaveDataMigration';
+
+const context = { fallbackSystemInstruction: 'DEFAULT_INSTRUCTION' };
+
+// Bản lưu rất cũ: chưa có schemaVersion, party, realmTiers, còn dùng userKnowledge
+const legacySaveFixture = {
+  worldData: {
+    storyName: 'Phiêu Lưu Ký',
+    genre: 'Tu Tiên',
+    characterName: 'Lâm Phong',
+    worldTime: { day: 1, month: 1, year: 1 }
+  },
+  knownEntities: {
+    'Lâm Phong': { name: 'Lâm Phong', type: 'pc', description: 'Thiếu niên' }
+  },
+  gameHistory: [
+    { role: 'user', parts: [{ text: 'ACTION: Đi vào rừng' }] }
+  ],
+  userKnowledge: 'Thế giới có ba đại tông môn.',
+  turnCount: 3,
+  gameTime: { year: 1, month: 2, day: 3, hour: 10 }
+};
+
+// Bản lưu cộng đồng (kiểu "Đấu La Đại Lục") xuất trước khi có schemaVersion
+const communitySaveFixture = {
+  worldData: {
+    storyName: 'Đấu La Đại Lục - Vô Song Thức Tỉnh 2.0',
+    genre: 'Đồng nhân',
+    characterName: 'Đường Vũ',
+    startLocation: 'Thánh Hồn Thôn',
+    customStartLocation: '',
+    expName: 'Hồn Lực',
+    realmTiers: [
+      { id: '1', name: 'Hồn Sĩ', requiredExp: 0 },
+      { id: '2', name: 'Hồn Sư', requiredExp: 100 },
+      { id: '3', name: 'Đại Hồn Sư', requiredExp: 300 }
+    ],
+    worldTime: { day: 1, month: 1, year: 1 }
+  },
+  knownEntities: {
+    'Đường Vũ': { name: 'Đường Vũ', type: 'pc', description: 'Song sinh võ hồn' },
+    'Tiểu Vũ': { name: 'Tiểu Vũ', type: 'npc', description: 'Thỏ mười vạn năm' },
+    'Linh Thạch': { name: 'Linh Thạch', type: 'item', description: 'Tiền tệ', owner: 'pc', quantities: 25 }
+  },
+  statuses: [],
+  quests: [],
+  gameHistory: [
+    { role: 'user', parts: [{ text: 'ACTION: Thức tỉnh võ hồn' }] },
+    { role: 'model', parts: [{ text: '{"story":"Ánh sáng bùng lên...","choices":[]}' }] }
+  ],
+  memories: [
+    { text: 'Đường Vũ thức tỉnh song sinh võ hồn tại Thánh Hồn Thôn', pinned: true },
+    { text: 'Gặp Tiểu Vũ lần đầu', pinned: false }
+  ],
+  party: [{ name: 'Đường Vũ', type: 'pc', description: 'Song sinh võ hồn' }],
+  customRules: [],
+  systemInstruction: 'CUSTOM_INSTRUCTION',
+  turnCount: 8,
+  totalTokens: 12000,
+  gameTime: { year: 1, month: 1, day: 4, hour: 14, minute: 30 },
+  chronicle: { memoir: [], chapter: [], turn: ['Thức tỉnh võ hồn'] }
+};
+
+describe('SaveDataMigration', () => {
+  it('should treat saves without schemaVersion as version 0', () => {
+    expect(SaveDataMigration.getVersion(legacySaveFixture)).toBe(0);
+    expect(SaveDataMigration.needsMigration(legacySaveFixture)).toBe(true);
+  });
+
+  it('should migrate a legacy save to the current schema with backward-compat defaults', () => {
+    const { data, report } = SaveDataMigration.migrate(legacySaveFixture, context);
+
+    expect(data.schemaVersion).toBe(CURRENT_SAVE_SCHEMA_VERSION);
+    expect(data.worldData.expName).toBe('Kinh Nghiệm');
+    expect(data.worldData.realmTiers).toHaveLength(2);
+    expect(data.party.map(p => p.name)).toEqual(['Lâm Phong']);
+    expect(data.customRules).toEqual([{ id: 'imported_knowledge', content: 'Thế giới có ba đại tông môn.', isActive: true }]);
+    expect((data as any).userKnowledge).toBeUndefined();
+    expect(data.systemInstruction).toBe('DEFAULT_INSTRUCTION');
+    expect(data.gameTime).toEqual({ year: 1, month: 2, day: 3, hour: 10, minute: 0 });
+    expect(data.compressedHistory).toEqual([]);
+
+    expect(report.fromVersion).toBe(0);
+    expect(report.toVersion).toBe(CURRENT_SAVE_SCHEMA_VERSION);
+    expect(report.steps.map(s => s.toVersion)).toEqual([1, 2, 3, 4, 5]);
+    expect(report.steps[0].changes).toContain('customRules: chuyển đổi từ userKnowledge');
+    expect(report.steps[0].changes).toContain('userKnowledge: đã xóa trường cũ');
+  });
+
+  it('should keep existing values of a community save and upgrade its memories', () => {
+    const { data, report } = SaveDataMigration.migrate(communitySaveFixture, context);
+
+    expect(data.worldData.expName).toBe('Hồn Lực');
+    expect(data.worldData.realmTiers.map(t => t.name)).toEqual(['Hồn Sĩ', 'Hồn Sư', 'Đại Hồn Sư']);
+    expect(data.systemInstruction).toBe('CUSTOM_INSTRUCTION');
+    expect(data.gameTime).toEqual(communitySaveFixture.gameTime);
+    expect(data.gameHistory).toEqual(communitySaveFixture.gameHistory);
+    expect(report.steps[0].changes).not.toContain('worldData.realmTiers: thêm giá trị mặc định');
+
+    data.memories.forEach(memory => {
+      expect(memory.createdAt).toBeDefined();
+      expect(memory.importance).toBeDefined();
+      expect(memory.category).toBeDefined();
+    });
+    expect(report.steps[1].changes).toHaveLength(1);
+    // Bản lưu cũ giữ nguyên cách tính 30 ngày/tháng
+    expect(data.worldData.calendar.months).toHaveLength(12);
+    expect(data.worldData.calendar.months.every(month => month.days === 30)).toBe(true);
+    expect(data.worldData.attributes.map(attribute => attribute.id)).toContain('hp');
+    // Tiền từng được lưu như vật phẩm nay nằm trong ví
+    expect(data.knownEntities['Linh Thạch']).toBeUndefined();
+    expect(data.knownEntities['Đường Vũ'].wallet).toEqual({ linh_thach: 25 });
+  });
+
+  it('should load old saves deterministically', () => {
+    const first = SaveDataMigration.migrate(communitySaveFixture, context);
+    const second = SaveDataMigration.migrate(communitySaveFixture, context);
+
+    expect(second.data).toEqual(first.data);
+    expect(second.report).toEqual(first.report);
+  });
+
+  it('should not mutate the input save', () => {
+    const snapshot = JSON.parse(JSON.stringify(legacySaveFixture));
+    SaveDataMigration.migrate(legacySaveFixture, context);
+
+    expect(legacySaveFixture).toEqual(snapshot);
+  });
+
+  it('should be a no-op for saves already at the current version', () => {
+    const { data: migrated } = SaveDataMigration.migrate(communitySaveFixture, context);
+    const { data, report } = SaveDataMigration.migrate(migrated, context);
+
+    expect(report.steps).toHaveLength(0);
+    expect(data).toEqual(migrated);
+    expect(SaveDataMigration.formatReport(report)).toContain('không cần migration');
+  });
+
+  it('should load saves from a newer schema as-is with a warning', () => {
+    const futureSave = { ...communitySaveFixture, schemaVersion: CURRENT_SAVE_SCHEMA_VERSION + 1 };
+    const { data, report } = SaveDataMigration.migrate(futureSave, context);
+
+    expect(data).toEqual(futureSave);
+    expect(report.steps).toHaveLength(0);
+    expect(report.warnings).toHaveLength(1);
+  });
+
+  it('should run registered migrations in version order starting after the save version', () => {
+    const order: number[] = [];
+    const migrations: SaveMigrationStep[] = [
+      { toVersion: 2, description: 'second', migrate: (save) => { order.push(2); return save; } },
+      { toVersion: 1, description: 'first', migrate: (save, _ctx, changes) => { order.push(1); changes.push('x'); return save; } }
+    ];
+
+    SaveDataMigration.migrate({ ...legacySaveFixture }, context, migrations);
+    expect(order).toEqual([1, 2]);
+
+    order.length = 0;
+    SaveDataMigration.migrate({ ...legacySaveFixture, schemaVersion: 1 }, context, migrations);
+    expect(order).toEqual([2]);
+  });
+
+  it('should describe every step in the formatted report', () => {
+    const { report } = SaveDataMigration.migrate(legacySaveFixture, context);
+    const text = SaveDataMigration.formatReport(report);
+
+    expect(text).toContain('v0 → v5');
+    expect(text).toContain('[v1]');
+    expect(text).toContain('[v2]');
+    expect(text).toContain('[v3]');
+    expect(text).toContain('[v5]');
+  });
+
+  it('should summarize changes for the player and stay silent when nothing changed', () => {
+    const { data: migrated, report } = SaveDataMigration.migrate(legacySaveFixture, context);
+    const summary = SaveDataMigration.summarizeReport(report);
+
+    expect(summary).toContain('v0 → v5');
+    expect(summary).not.toContain('\n');
+    expect(SaveDataMigration.summarizeReport(SaveDataMigration.migrate(migrated, context).report)).toBeNull();
+  });
+});
@@ -0,0 +1,261 @@
+import type { SaveData, Entity } from '../types';
+import { MemoryMigration } from './MemoryMigration';
+import { DEFAULT_CALENDAR } from './worldCalendar';
+import { DEFAULT_ATTRIBUTES } from './characterAttributes';
+import { DEFAULT_CURRENCIES, findCurrency } from './economy';
+
+/**
+ * Phiên bản schema hiện tại của SaveData. Tăng số này khi thêm migration mới.
+ * Bản lưu không có schemaVersion được coi là phiên bản 0.
+ */
+export const CURRENT_SAVE_SCHEMA_VERSION = 5;
+
+export interface SaveMigrationContext {
+    fallbackSystemInstruction: string;
+}
+
+export interface SaveMigrationStep {
+    toVersion: number;
+    description: string;
+    migrate: (save: any, context: SaveMigrationContext, changes: string[]) => any;
+}
+
+export interface SaveMigrationReport {
+    fromVersion: number;
+    toVersion: number;
+    steps: Array<{
+        toVersion: number;
+        description: string;
+        changes: string[];
+    }>;
+    warnings: string[];
+}
+
+const applyDefault = (target: any, key: string, fallback: any, changes: string[], label: string = key) => {
+    if (!target[key]) {
+        if (target[key] !== fallback) {
+            changes.push(`${label}: thêm giá trị mặc định`);
+        }
+        target[key] = fallback;
+    }
+};
+
+/**
+ * Danh sách migration theo thứ tự. Mỗi bước nhận bản lưu ở phiên bản (toVersion - 1).
+ */
+const SAVE_MIGRATIONS: SaveMigrationStep[] = [
+    {
+        toVersion: 1,
+        description: 'Giá trị mặc định tương thích ngược cho bản lưu cũ',
+        migrate: (save, context, changes) => {
+            const worldData = { ...save.worldData };
+            applyDefault(worldData, 'startLocation', '', changes, 'worldData.startLocation');
+            applyDefault(worldData, 'customStartLocation', '', changes, 'worldData.customStartLocation');
+            applyDefault(worldData, 'expName', 'Kinh Nghiệm', changes, 'worldData.expName');
+            applyDefault(worldData, 'realmTiers', [
+                { id: '1', name: 'Luyện Khí', requiredExp: 0 },
+                { id: '2', name: 'Trúc Cơ', requiredExp: 100 }
+            ], changes, 'worldData.realmTiers');
+            save.worldData = worldData;
+
+            applyDefault(save, 'statuses', [], changes);
+            applyDefault(save, 'quests', [], changes);
+            applyDefault(save, 'memories', [], changes);
+
+            if (!save.party) {
+                const pc = Object.values(save.knownEntities).find((e: any) => e.type === 'pc') as Entity | undefined;
+                save.party = pc ? [pc] : [];
+                changes.push(`party: khởi tạo ${pc ? `với nhân vật chính "${pc.name}"` : 'rỗng'}`);
+            }
+
+            if (!save.customRules) {
+                save.customRules = save.userKnowledge
+                    ? [{ id: 'imported_knowledge', content: save.userKnowledge, isActive: true }]
+                    : [];
+                changes.push(save.userKnowledge ? 'customRules: chuyển đổi từ userKnowledge' : 'customRules: thêm giá trị mặc định');
+            }
+            if (save.userKnowledge !== undefined) {
+                delete save.userKnowledge;
+                changes.push('userKnowledge: đã xóa trường cũ');
+            }
+
+            applyDefault(save, 'systemInstruction', context.fallbackSystemInstruction, changes);
+            applyDefault(save, 'turnCount', 0, changes);
+            applyDefault(save, 'totalTokens', 0, changes);
+
+            const gameTime = {
+                year: save.gameTime?.year || 1,
+                month: save.gameTime?.month || 1,
+                day: save.gameTime?.day || 1,
+                hour: save.gameTime?.hour || 8,
+                minute: save.gameTime?.minute || 0
+            };
+            if (JSON.stringify(gameTime) !== JSON.stringify(save.gameTime)) {
+                changes.push('gameTime: bổ sung trường còn thiếu');
+            }
+            save.gameTime = gameTime;
+
+            applyDefault(save, 'chronicle', { memoir: [], chapter: [], turn: [] }, changes);
+            // Hỗ trợ cho lịch sử nén
+            applyDefault(save, 'compressedHistory', [], changes);
+            applyDefault(save, 'lastCompressionTurn', 0, changes);
+            applyDefault(save, 'historyStats', {
+                totalEntriesProcessed: 0,
+                totalTokensSaved: 0,
+                compressionCount: 0
+            }, changes);
+            applyDefault(save, 'cleanupStats', {
+                totalCleanupsPerformed: 0,
+                totalTokensSavedFromCleanup: 0,
+                lastCleanupTurn: 0,
+                cleanupHistory: []
+            }, changes);
+
+            return save;
+        }
+    },
+    {
+        toVersion: 2,
+        description: 'Chuyển ký ức sang định dạng nâng cao (importance, category, source)',
+        migrate: (save, _context, changes) => {
+            if (!MemoryMigration.needsMigration(save.memories)) {
+                return save;
+            }
+            const migrated = MemoryMigration.autoMigrateOnLoad(save);
+            changes.push(`memories: ${save.memories.length} → ${migrated.memories.length} ký ức sau khi nâng cấp và dọn dẹp`);
+            // Chỉ thay ký ức; lịch sử game giữ nguyên như khi tải trước đây
+            save.memories = migrated.memories;
+            return save;
+        }
+    },
+    {
+        toVersion: 3,
+        description: 'Thêm lịch thế giới (12 tháng × 30 ngày như cách tính cũ)',
+        migrate: (save, _context, changes) => {
+            const worldData = { ...save.worldData };
+            applyDefault(worldData, 'calendar', DEFAULT_CALENDAR, changes, 'worldData.calendar');
+            save.worldData = worldData;
+            return save;
+        }
+    },
+    {
+        toVersion: 4,
+        description: 'Thêm hệ thống chỉ số và tài nguyên (Sinh Lực, Linh Lực, Thể Lực...)',
+        migrate: (save, _context, changes) => {
+            const worldData = { ...save.worldData };
+            applyDefault(worldData, 'attributes', DEFAULT_ATTRIBUTES, changes, 'worldData.attributes');
+            save.worldData = worldData;
+            return save;
+        }
+    },
+    {
+        toVersion: 5,
+        description: 'Thêm tiền tệ và ví; vật phẩm trùng tên tiền tệ của PC được đổi thành số dư',
+        migrate: (save, _context, changes) => {
+            const worldData = { ...save.worldData };
+            applyDefault(worldData, 'currencies', DEFAULT_CURRENCIES, changes, 'worldData.currencies');
+            save.worldData = worldData;
+
+            const knownEntities: { [name: string]: Entity } = { ...save.knownEntities };
+            const pc = Object.values(knownEntities).find(entity => entity.type === 'pc');
+            if (!pc) return save;
+            const wallet: { [currencyId: string]: number } = { ...pc.wallet };
+            Object.values(knownEntities).forEach(entity => {
+                const currency = entity.type === 'item' && entity.owner === 'pc' ? findCurrency(worldData.currencies, entity.name) : undefined;
+                if (!currency) return;
+                const amount = entity.quantities ?? entity.uses ?? 1;
+                wallet[currency.id] = (wallet[currency.id] || 0) + amount;
+                delete knownEntities[entity.name];
+                changes.push(`knownEntities: "${entity.name}" (${amount}) chuyển vào ví`);
+            });
+            knownEntities[pc.name] = { ...pc, wallet };
+            save.knownEntities = knownEntities;
+            return save;
+        }
+    }
+];
+
+export class SaveDataMigration {
+
+    /**
+     * Danh sách migration đã đăng ký, theo thứ tự
+     */
+    static getMigrations(): SaveMigrationStep[] {
+        return SAVE_MIGRATIONS;
+    }
+
+    /**
+     * Phiên bản schema của bản lưu (0 nếu là bản lưu cũ không có schemaVersion)
+     */
+    static getVersion(save: any): number {
+        return typeof save?.schemaVersion === 'number' ? save.schemaVersion : 0;
+    }
+
+    static needsMigration(save: any): boolean {
+        return this.getVersion(save) < CURRENT_SAVE_SCHEMA_VERSION;
+    }
+
+    /**
+     * Chạy tuần tự các migration cần thiết. Không thay đổi object đầu vào.
+     */
+    static migrate(
+        rawSave: any,
+        context: SaveMigrationContext,
+        migrations: SaveMigrationStep[] = SAVE_MIGRATIONS
+    ): { data: SaveData; report: SaveMigrationReport } {
+        const fromVersion = this.getVersion(rawSave);
+        let save = JSON.parse(JSON.stringify(rawSave));
+        const report: SaveMigrationReport = {
+            fromVersion,
+            toVersion: fromVersion,
+            steps: [],
+            warnings: []
+        };
+
+        if (fromVersion > CURRENT_SAVE_SCHEMA_VERSION) {
+            report.warnings.push(`Bản lưu có schemaVersion ${fromVersion} mới hơn phiên bản hỗ trợ (${CURRENT_SAVE_SCHEMA_VERSION}). Dữ liệu được tải nguyên trạng.`);
+            return { data: save as SaveData, report };
+        }
+
+        const pending = [...migrations]
+            .filter(step => step.toVersion > fromVersion)
+            .sort((a, b) => a.toVersion - b.toVersion);
+
+        for (const step of pending) {
+            const changes: string[] = [];
+            save = step.migrate(save, context, changes);
+            save.schemaVersion = step.toVersion;
+            report.steps.push({ toVersion: step.toVersion, description: step.description, changes });
+            report.toVersion = step.toVersion;
+        }
+
+        return { data: save as SaveData, report };
+    }
+
+    /**
+     * Tạo báo cáo dạng văn bản để log hoặc hiển thị
+     */
+    static formatReport(report: SaveMigrationReport): string {
+        if (report.steps.length === 0 && report.warnings.length === 0) {
+            return `Bản lưu đã ở phiên bản ${report.toVersion}, không cần migration.`;
+        }
+        const lines = [`Migration bản lưu: v${report.fromVersion} → v${report.toVersion}`];
+        report.steps.forEach(step => {
+            lines.push(`  [v${step.toVersion}] ${step.description}${step.changes.length === 0 ? ' (không có thay đổi)' : ''}`);
+            step.changes.forEach(change => lines.push(`    - ${change}`));
+        });
+        report.warnings.forEach(warning => lines.push(`  ⚠️ ${warning}`));
+        return lines.join('\n');
+    }
+
+    /** Tóm tắt một dòng cho người chơi; null nếu bản lưu không thay đổi */
+    static summarizeReport(report: SaveMigrationReport): string | null {
+        const changed = report.steps.filter(step => step.changes.length > 0);
+        if (changed.length === 0 && report.warnings.length === 0) return null;
+        const parts = changed.map(step => `${step.description} (${step.changes.length} thay đổi)`);
+        const summary = parts.length > 0
+            ? `🔄 Bản lưu đã được nâng cấp v${report.fromVersion} → v${report.toVersion}: ${parts.join('; ')}`
+            : '🔄 Bản lưu đã được tải';
+        return [summary, ...report.warnings.map(warning => `⚠️ ${warning}`)].join(' ');
+    }
+}
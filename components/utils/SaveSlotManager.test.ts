@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { SaveSlotManager, SaveSlotMetadata, MAX_AUTOSAVE_SLOTS } from './SaveSlotManager';
+import type { SaveData } from '../types';
+
+const createSaveData = (overrides: Partial<SaveData> = {}): SaveData => ({
+  worldData: { storyName: 'Thử Nghiệm', characterName: 'Lâm Phong' } as SaveData['worldData'],
+  knownEntities: {
+    'Lâm Phong': { name: 'Lâm Phong', type: 'pc', description: 'Nhân vật chính' }
+  },
+  statuses: [],
+  quests: [],
+  gameHistory: [],
+  memories: [],
+  party: [],
+  customRules: [],
+  systemInstruction: '',
+  turnCount: 12,
+  gameTime: { year: 3, month: 4, day: 5, hour: 9, minute: 30 },
+  chronicle: { memoir: [], chapter: [], turn: [] },
+  ...overrides
+});
+
+const createSlot = (id: string, savedAt: number, kind: SaveSlotMetadata['kind'] = 'autosave'): SaveSlotMetadata => ({
+  id,
+  name: id,
+  kind,
+  storyName: '',
+  characterName: '',
+  turnCount: 0,
+  gameTime: { year: 1, month: 1, day: 1, hour: 8 },
+  thumbnailText: '',
+  savedAt
+});
+
+describe('SaveSlotManager', () => {
+  describe('buildMetadata', () => {
+    it('should capture character, turn, game time and thumbnail text', () => {
+      const data = createSaveData({ storyLog: ['Mở đầu', 'Lâm Phong bước vào [ITEM_AQUIRED: name="Kiếm"] <b>sơn động</b>.'] });
+      const meta = SaveSlotManager.buildMetadata(data, { id: 'slot-1', name: 'Trước boss', kind: 'manual' }, 1000);
+
+      expect(meta).toEqual({
+        id: 'slot-1',
+        name: 'Trước boss',
+        kind: 'manual',
+        storyName: 'Thử Nghiệm',
+        characterName: 'Lâm Phong',
+        turnCount: 12,
+        gameTime: { year: 3, month: 4, day: 5, hour: 9, minute: 30 },
+        thumbnailText: 'Lâm Phong bước vào sơn động.',
+        savedAt: 1000
+      });
+    });
+
+    it('should truncate long thumbnail text', () => {
+      const thumbnail = SaveSlotManager.buildThumbnailText(['a'.repeat(500)]);
+
+      expect(thumbnail.length).toBeLessThanOrEqual(161);
+      expect(thumbnail.endsWith('…')).toBe(true);
+    });
+
+    it('should return empty thumbnail for empty story log', () => {
+      expect(SaveSlotManager.buildThumbnailText(undefined)).toBe('');
+      expect(SaveSlotManager.buildThumbnailText([])).toBe('');
+    });
+  });
+
+  describe('pickAutosaveSlotId', () => {
+    it('should fill empty autosave slots first', () => {
+      expect(SaveSlotManager.pickAutosaveSlotId([])).toBe('autosave-0');
+      expect(SaveSlotManager.pickAutosaveSlotId([createSlot('autosave-0', 1)])).toBe('autosave-1');
+    });
+
+    it('should ignore manual slots', () => {
+      const manual = createSlot('autosave-0', 1, 'manual');
+      expect(SaveSlotManager.pickAutosaveSlotId([manual])).toBe('autosave-0');
+    });
+
+    it('should overwrite the oldest autosave when all slots are used', () => {
+      const slots = Array.from({ length: MAX_AUTOSAVE_SLOTS }, (_, i) => createSlot(`autosave-${i}`, 100 - i));
+
+      expect(SaveSlotManager.pickAutosaveSlotId(slots)).toBe(`autosave-${MAX_AUTOSAVE_SLOTS - 1}`);
+    });
+  });
+});
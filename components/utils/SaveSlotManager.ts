@@ -0,0 +1,191 @@
+import type { SaveData } from '../types';
+
+export type SaveSlotKind = 'manual' | 'autosave';
+
+export interface SaveSlotMetadata {
+    id: string;
+    name: string;
+    kind: SaveSlotKind;
+    storyName: string;
+    characterName: string;
+    turnCount: number;
+    gameTime: SaveData['gameTime'];
+    thumbnailText: string;
+    savedAt: number;
+}
+
+interface SaveSlotDataRecord {
+    id: string;
+    data: SaveData;
+}
+
+const DB_NAME = 'rpgai-save-slots';
+const DB_VERSION = 1;
+const META_STORE = 'slotMeta';
+const DATA_STORE = 'slotData';
+
+export const MAX_AUTOSAVE_SLOTS = 3;
+export const AUTOSAVE_SLOT_PREFIX = 'autosave-';
+const THUMBNAIL_MAX_LENGTH = 160;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+
+/**
+ * Quản lý các slot lưu game trong IndexedDB (slot thủ công + autosave xoay vòng).
+ * Metadata và dữ liệu được lưu ở hai object store riêng để danh sách slot tải nhanh.
+ */
+export class SaveSlotManager {
+    private static dbPromise: Promise<IDBDatabase> | null = null;
+
+    /**
+     * Trình duyệt có hỗ trợ IndexedDB hay không
+     */
+    static isSupported(): boolean {
+        return typeof indexedDB !== 'undefined';
+    }
+
+    private static openDatabase(): Promise<IDBDatabase> {
+        if (!this.dbPromise) {
+            this.dbPromise = new Promise((resolve, reject) => {
+                const request = indexedDB.open(DB_NAME, DB_VERSION);
+                request.onupgradeneeded = () => {
+                    const db = request.result;
+                    if (!db.objectStoreNames.contains(META_STORE)) {
+                        db.createObjectStore(META_STORE, { keyPath: 'id' });
+                    }
+                    if (!db.objectStoreNames.contains(DATA_STORE)) {
+                        db.createObjectStore(DATA_STORE, { keyPath: 'id' });
+                    }
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => {
+                    this.dbPromise = null;
+                    reject(request.error);
+                };
+            });
+        }
+        return this.dbPromise;
+    }
+
+    /**
+     * Tạo đoạn văn bản xem trước từ mục cuối cùng của story log
+     */
+    static buildThumbnailText(storyLog: string[] | undefined): string {
+        if (!storyLog || storyLog.length === 0) return '';
+        const lastEntry = storyLog[storyLog.length - 1] || '';
+        const plain = lastEntry
+            .replace(/\[([A-Z_]+):\s*([^\]]+)\]/g, '')
+            .replace(/<[^>]+>/g, '')
+            .replace(/\s+/g, ' ')
+            .trim();
+        return plain.length > THUMBNAIL_MAX_LENGTH
+            ? `${plain.slice(0, THUMBNAIL_MAX_LENGTH).trimEnd()}…`
+            : plain;
+    }
+
+    /**
+     * Tạo metadata cho slot từ dữ liệu lưu
+     */
+    static buildMetadata(
+        data: SaveData,
+        slot: { id: string; name: string; kind: SaveSlotKind },
+        savedAt: number = Date.now()
+    ): SaveSlotMetadata {
+        const pc = Object.values(data.knownEntities || {}).find(e => e.type === 'pc');
+        return {
+            id: slot.id,
+            name: slot.name,
+            kind: slot.kind,
+            storyName: data.worldData?.storyName || 'Phiêu Lưu Ký',
+            characterName: pc?.name || data.worldData?.characterName || 'Vô Danh',
+            turnCount: data.turnCount || 0,
+            gameTime: { ...data.gameTime },
+            thumbnailText: this.buildThumbnailText(data.storyLog),
+            savedAt,
+        };
+    }
+
+    /**
+     * Chọn slot autosave tiếp theo: slot còn trống trước, sau đó ghi đè slot cũ nhất
+     */
+    static pickAutosaveSlotId(existing: SaveSlotMetadata[]): string {
+        const autosaves = existing.filter(slot => slot.kind === 'autosave');
+        for (let i = 0; i < MAX_AUTOSAVE_SLOTS; i++) {
+            const id = `${AUTOSAVE_SLOT_PREFIX}${i}`;
+            if (!autosaves.some(slot => slot.id === id)) return id;
+        }
+        const oldest = autosaves.reduce((a, b) => (a.savedAt <= b.savedAt ? a : b));
+        return oldest.id;
+    }
+
+    /**
+     * Danh sách slot, mới nhất trước
+     */
+    static async listSlots(): Promise<SaveSlotMetadata[]> {
+        const db = await this.openDatabase();
+        const tx = db.transaction(META_STORE, 'readonly');
+        const slots = await requestToPromise(tx.objectStore(META_STORE).getAll()) as SaveSlotMetadata[];
+        return slots.sort((a, b) => b.savedAt - a.savedAt);
+    }
+
+    /**
+     * Ghi dữ liệu vào slot (tạo mới nếu không truyền id)
+     */
+    static async saveToSlot(
+        data: SaveData,
+        options: { id?: string; name: string; kind?: SaveSlotKind }
+    ): Promise<SaveSlotMetadata> {
+        const id = options.id || `slot-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+        const metadata = this.buildMetadata(data, { id, name: options.name, kind: options.kind || 'manual' });
+        // Loại bỏ proxy/hàm để dữ liệu có thể structured-clone
+        const plainData: SaveData = JSON.parse(JSON.stringify(data));
+
+        const db = await this.openDatabase();
+        const tx = db.transaction([META_STORE, DATA_STORE], 'readwrite');
+        tx.objectStore(META_STORE).put(metadata);
+        tx.objectStore(DATA_STORE).put({ id, data: plainData } as SaveSlotDataRecord);
+        await transactionDone(tx);
+
+        console.log(`💾 Saved slot "${metadata.name}" (${id}) at turn ${metadata.turnCount}`);
+        return metadata;
+    }
+
+    /**
+     * Autosave vào một trong MAX_AUTOSAVE_SLOTS slot xoay vòng
+     */
+    static async autosave(data: SaveData): Promise<SaveSlotMetadata> {
+        const existing = await this.listSlots();
+        const id = this.pickAutosaveSlotId(existing);
+        return this.saveToSlot(data, { id, name: `Tự động lưu - Lượt ${data.turnCount || 0}`, kind: 'autosave' });
+    }
+
+    /**
+     * Đọc dữ liệu thô của slot (chưa áp dụng giá trị mặc định tương thích ngược)
+     */
+    static async loadSlot(id: string): Promise<SaveData | null> {
+        const db = await this.openDatabase();
+        const tx = db.transaction(DATA_STORE, 'readonly');
+        const record = await requestToPromise(tx.objectStore(DATA_STORE).get(id)) as SaveSlotDataRecord | undefined;
+        return record ? record.data : null;
+    }
+
+    static async deleteSlot(id: string): Promise<void> {
+        const db = await this.openDatabase();
+        const tx = db.transaction([META_STORE, DATA_STORE], 'readwrite');
+        tx.objectStore(META_STORE).delete(id);
+        tx.objectStore(DATA_STORE).delete(id);
+        await transactionDone(tx);
+        console.log(`🗑️ Deleted save slot ${id}`);
+    }
+}
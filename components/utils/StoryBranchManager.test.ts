@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { StoryBranchManager, MAIN_BRANCH_ID } from './StoryBranchManager';
+import { TurnSnapshotManager } from './TurnSnapshotManager';
+import type { TurnSnapshotLog, TurnSnapshotState } from '../types';
+
+const createState = (turn: number, label = 'main'): TurnSnapshotState => ({
+  knownEntities: {},
+  statuses: [],
+  quests: [],
+  memories: [],
+  chronicle: { memoir: [], chapter: [], turn: [] },
+  gameTime: { year: 1, month: 1, day: 1, hour: turn, minute: 0 },
+  gameHistory: [],
+  party: [],
+  turnCount: turn,
+  storyLog: [`${label} ${turn}`],
+  choices: [],
+  locationDiscoveryOrder: []
+});
+
+const recordTurns = (log: TurnSnapshotLog | undefined, turns: number[], label: string): TurnSnapshotLog => {
+  let result = log;
+  turns.forEach(turn => { result = TurnSnapshotManager.record(result, turn, createState(turn, label)); });
+  return result!;
+};
+
+const timelineLabels = (entries: { state: TurnSnapshotState }[]) => entries.map(entry => entry.state.storyLog[0]);
+
+describe('StoryBranchManager', () => {
+  it('should create a main branch for saves without a branch tree', () => {
+    const tree = StoryBranchManager.ensureTree(undefined, 1);
+
+    expect(tree.activeBranchId).toBe(MAIN_BRANCH_ID);
+    expect(tree.branches).toHaveLength(1);
+    expect(StoryBranchManager.ensureTree(tree)).toBe(tree);
+  });
+
+  it('should fork at a past turn and share the common history', () => {
+    const tree = StoryBranchManager.ensureTree(undefined, 1);
+    const mainLog = recordTurns(undefined, [0, 1, 2, 3], 'main');
+
+    const forked = StoryBranchManager.fork(tree, mainLog, 1, 'Nhánh phụ', 2)!;
+    expect(forked.state).toEqual(createState(1, 'main'));
+    expect(TurnSnapshotManager.getTurns(forked.log)).toEqual([1]);
+
+    const branchLog = recordTurns(forked.log, [2, 3], 'alt');
+    const timeline = StoryBranchManager.getTimeline(forked.tree, branchLog);
+
+    expect(timelineLabels(timeline)).toEqual(['main 0', 'main 1', 'alt 2', 'alt 3']);
+    expect(timeline.map(entry => entry.branchId)).toEqual([MAIN_BRANCH_ID, forked.tree.activeBranchId, forked.tree.activeBranchId, forked.tree.activeBranchId]);
+    expect(StoryBranchManager.getActiveBranch(forked.tree).name).toBe('Nhánh phụ');
+  });
+
+  it('should switch between branches keeping each timeline intact', () => {
+    const mainLog = recordTurns(undefined, [0, 1, 2, 3], 'main');
+    const forked = StoryBranchManager.fork(StoryBranchManager.ensureTree(undefined, 1), mainLog, 1, 'Nhánh phụ', 2)!;
+    const branchId = forked.tree.activeBranchId;
+    const branchLog = recordTurns(forked.log, [2], 'alt');
+
+    const toMain = StoryBranchManager.switchTo(forked.tree, branchLog, MAIN_BRANCH_ID)!;
+    expect(toMain.state).toEqual(createState(3, 'main'));
+    expect(toMain.log).toEqual(mainLog);
+    expect(StoryBranchManager.getBranch(toMain.tree, MAIN_BRANCH_ID)!.snapshots).toBeUndefined();
+
+    const back = StoryBranchManager.switchTo(toMain.tree, toMain.log, branchId)!;
+    expect(back.state).toEqual(createState(2, 'alt'));
+    expect(timelineLabels(StoryBranchManager.getTimeline(back.tree, back.log))).toEqual(['main 0', 'main 1', 'alt 2']);
+  });
+
+  it('should not switch to the active branch or an unknown branch', () => {
+    const tree = StoryBranchManager.ensureTree(undefined, 1);
+    const log = recordTurns(undefined, [0], 'main');
+
+    expect(StoryBranchManager.switchTo(tree, log, MAIN_BRANCH_ID)).toBeNull();
+    expect(StoryBranchManager.switchTo(tree, log, 'missing')).toBeNull();
+  });
+
+  it('should rewind into shared history by re-forking from the ancestor', () => {
+    const mainLog = recordTurns(undefined, [0, 1, 2, 3], 'main');
+    const forked = StoryBranchManager.fork(StoryBranchManager.ensureTree(undefined, 1), mainLog, 2, 'Nhánh phụ', 2)!;
+    const branchLog = recordTurns(forked.log, [3], 'alt');
+
+    const rewound = StoryBranchManager.rewind(forked.tree, branchLog, 0)!;
+    const active = StoryBranchManager.getActiveBranch(rewound.tree);
+
+    expect(rewound.state).toEqual(createState(0, 'main'));
+    expect(active.forkTurn).toBe(0);
+    expect(active.parentId).toBe(MAIN_BRANCH_ID);
+    expect(TurnSnapshotManager.getTurns(rewound.log)).toEqual([0]);
+  });
+
+  it('should keep shared history of child branches when their parent is rewound', () => {
+    const mainLog = recordTurns(undefined, [0, 1, 2, 3], 'main');
+    const forked = StoryBranchManager.fork(StoryBranchManager.ensureTree(undefined, 1), mainLog, 3, 'Nhánh phụ', 2)!;
+    const branchId = forked.tree.activeBranchId;
+    const toMain = StoryBranchManager.switchTo(forked.tree, recordTurns(forked.log, [4], 'alt'), MAIN_BRANCH_ID)!;
+
+    const rewound = StoryBranchManager.rewind(toMain.tree, toMain.log, 0)!;
+    const replayedLog = recordTurns(rewound.log, [1, 2], 'replay');
+
+    expect(timelineLabels(StoryBranchManager.getTimeline(rewound.tree, replayedLog, branchId)))
+      .toEqual(['main 0', 'main 1', 'main 2', 'main 3', 'alt 4']);
+    expect(timelineLabels(StoryBranchManager.getTimeline(rewound.tree, replayedLog)))
+      .toEqual(['main 0', 'replay 1', 'replay 2']);
+  });
+
+  it('should find the previous turn across shared history', () => {
+    const mainLog = recordTurns(undefined, [0, 1, 2], 'main');
+    const forked = StoryBranchManager.fork(StoryBranchManager.ensureTree(undefined, 1), mainLog, 2, 'Nhánh phụ', 2)!;
+
+    expect(StoryBranchManager.findPreviousTurn(forked.tree, forked.log, 2)).toBe(1);
+    expect(StoryBranchManager.summarizeTimeline(forked.tree, forked.log).map(s => s.turn)).toEqual([0, 1, 2]);
+  });
+
+  it('should summarize branches with their fork point and latest turn', () => {
+    const mainLog = recordTurns(undefined, [0, 1, 2], 'main');
+    const forked = StoryBranchManager.fork(StoryBranchManager.ensureTree(undefined, 1), mainLog, 1, '', 2)!;
+
+    expect(StoryBranchManager.summarizeBranches(forked.tree, forked.log)).toEqual([
+      { id: MAIN_BRANCH_ID, name: 'Nhánh chính', parentName: null, forkTurn: null, latestTurn: 2, isActive: false },
+      { id: forked.tree.activeBranchId, name: 'Nhánh 1', parentName: 'Nhánh chính', forkTurn: 1, latestTurn: 1, isActive: true }
+    ]);
+  });
+});
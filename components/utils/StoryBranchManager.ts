@@ -0,0 +1,204 @@
+import type { StoryBranch, StoryBranchTree, TurnSnapshotLog, TurnSnapshotState } from '../types';
+import { TurnSnapshotManager, TurnSnapshotSummary } from './TurnSnapshotManager';
+
+export const MAIN_BRANCH_ID = 'main';
+export const MAIN_BRANCH_NAME = 'Nhánh chính';
+
+export interface StoryTimelineEntry {
+    turn: number;
+    branchId: string;
+    state: TurnSnapshotState;
+}
+
+export interface StoryBranchSummary {
+    id: string;
+    name: string;
+    parentName: string | null;
+    forkTurn: number | null;
+    latestTurn: number | null;
+    isActive: boolean;
+}
+
+/** Kết quả của một thao tác đổi dòng thời gian: cây mới, log snapshot của nhánh đang chơi và trạng thái cần áp dụng */
+export interface StoryBranchTransition {
+    tree: StoryBranchTree;
+    log: TurnSnapshotLog;
+    state: TurnSnapshotState;
+}
+
+/**
+ * Quản lý cây nhánh cốt truyện. Mỗi nhánh chỉ lưu snapshot từ lượt tách nhánh trở đi,
+ * lịch sử trước đó được đọc từ nhánh cha. Tất cả phương thức đều thuần.
+ */
+export class StoryBranchManager {
+
+    static ensureTree(tree: StoryBranchTree | undefined, now: number = Date.now()): StoryBranchTree {
+        if (tree && tree.branches.some(branch => branch.id === tree.activeBranchId)) return tree;
+        return {
+            activeBranchId: MAIN_BRANCH_ID,
+            branches: [{ id: MAIN_BRANCH_ID, name: MAIN_BRANCH_NAME, parentId: null, forkTurn: null, createdAt: now }]
+        };
+    }
+
+    static getBranch(tree: StoryBranchTree, branchId: string): StoryBranch | undefined {
+        return tree.branches.find(branch => branch.id === branchId);
+    }
+
+    static getActiveBranch(tree: StoryBranchTree): StoryBranch {
+        return this.getBranch(tree, tree.activeBranchId) || tree.branches[0];
+    }
+
+    private static getLog(tree: StoryBranchTree, branchId: string, activeLog: TurnSnapshotLog | undefined): TurnSnapshotLog | undefined {
+        return branchId === tree.activeBranchId ? activeLog : this.getBranch(tree, branchId)?.snapshots;
+    }
+
+    /**
+     * Toàn bộ dòng thời gian của một nhánh, gồm cả lịch sử dùng chung với các nhánh tổ tiên
+     */
+    static getTimeline(tree: StoryBranchTree, activeLog: TurnSnapshotLog | undefined, branchId: string = tree.activeBranchId): StoryTimelineEntry[] {
+        const branch = this.getBranch(tree, branchId);
+        if (!branch) return [];
+
+        const own = TurnSnapshotManager.entries(this.getLog(tree, branchId, activeLog))
+            .map(entry => ({ ...entry, branchId }));
+        if (!branch.parentId || branch.forkTurn === null) return own;
+
+        const inherited = this.getTimeline(tree, activeLog, branch.parentId)
+            .filter(entry => entry.turn < branch.forkTurn!);
+        return [...inherited, ...own];
+    }
+
+    static summarizeTimeline(tree: StoryBranchTree, activeLog: TurnSnapshotLog | undefined): TurnSnapshotSummary[] {
+        return this.getTimeline(tree, activeLog).map(entry => TurnSnapshotManager.summarizeState(entry.turn, entry.state));
+    }
+
+    static findPreviousTurn(tree: StoryBranchTree, activeLog: TurnSnapshotLog | undefined, currentTurn: number): number | null {
+        const earlier = this.getTimeline(tree, activeLog).filter(entry => entry.turn < currentTurn);
+        return earlier.length > 0 ? earlier[earlier.length - 1].turn : null;
+    }
+
+    static summarizeBranches(tree: StoryBranchTree, activeLog: TurnSnapshotLog | undefined): StoryBranchSummary[] {
+        return tree.branches.map(branch => {
+            const turns = TurnSnapshotManager.getTurns(this.getLog(tree, branch.id, activeLog));
+            return {
+                id: branch.id,
+                name: branch.name,
+                parentName: branch.parentId ? this.getBranch(tree, branch.parentId)?.name ?? null : null,
+                forkTurn: branch.forkTurn,
+                latestTurn: turns.length > 0 ? turns[turns.length - 1] : null,
+                isActive: branch.id === tree.activeBranchId
+            };
+        });
+    }
+
+    /**
+     * Các nhánh con tách ra sau lượt `turn` sẽ mất phần lịch sử chung khi nhánh cha bị cắt.
+     * Sao chép phần lịch sử đó vào snapshot riêng của nhánh con trước khi cắt.
+     */
+    private static detachChildren(
+        branches: StoryBranch[],
+        parentId: string,
+        parentTimeline: StoryTimelineEntry[],
+        turn: number
+    ): StoryBranch[] {
+        return branches.map(branch => {
+            if (branch.parentId !== parentId || branch.forkTurn === null || branch.forkTurn <= turn) return branch;
+
+            const forkTurn = branch.forkTurn;
+            const shared = parentTimeline.filter(entry => entry.turn > turn && entry.turn < forkTurn);
+            if (shared.length === 0) return branch;
+
+            let log = TurnSnapshotManager.createEmptyLog(branch.snapshots?.capacity);
+            for (const entry of [...shared, ...TurnSnapshotManager.entries(branch.snapshots)]) {
+                log = TurnSnapshotManager.record(log, entry.turn, entry.state);
+            }
+            return { ...branch, forkTurn: shared[0].turn, snapshots: log };
+        });
+    }
+
+    /**
+     * Tua nhánh đang chơi về lượt `turn`. Nếu lượt đó thuộc lịch sử chung,
+     * nhánh được tách lại từ nhánh tổ tiên sở hữu lượt đó.
+     */
+    static rewind(tree: StoryBranchTree, activeLog: TurnSnapshotLog | undefined, turn: number): StoryBranchTransition | null {
+        const timeline = this.getTimeline(tree, activeLog);
+        const target = timeline.find(entry => entry.turn === turn);
+        if (!target) return null;
+
+        const active = this.getActiveBranch(tree);
+        const capacity = activeLog?.capacity;
+        const branches = this.detachChildren(tree.branches, active.id, timeline, turn);
+
+        if (target.branchId === active.id) {
+            return {
+                tree: { ...tree, branches },
+                log: TurnSnapshotManager.truncateFrom(activeLog!, turn + 1),
+                state: target.state
+            };
+        }
+
+        return {
+            tree: {
+                ...tree,
+                branches: branches.map(branch =>
+                    branch.id === active.id ? { ...branch, parentId: target.branchId, forkTurn: turn } : branch
+                )
+            },
+            log: TurnSnapshotManager.record(TurnSnapshotManager.createEmptyLog(capacity), turn, target.state),
+            state: target.state
+        };
+    }
+
+    /**
+     * Tách nhánh mới tại lượt `turn` của dòng thời gian hiện tại và chuyển sang nhánh đó.
+     * Nhánh cũ giữ nguyên toàn bộ diễn biến.
+     */
+    static fork(
+        tree: StoryBranchTree,
+        activeLog: TurnSnapshotLog | undefined,
+        turn: number,
+        name: string,
+        now: number = Date.now()
+    ): StoryBranchTransition | null {
+        const target = this.getTimeline(tree, activeLog).find(entry => entry.turn === turn);
+        if (!target) return null;
+
+        const id = `branch-${tree.branches.length}-${now.toString(36)}`;
+        const branches = tree.branches.map(branch =>
+            branch.id === tree.activeBranchId ? { ...branch, snapshots: activeLog } : branch
+        );
+        branches.push({ id, name: name.trim() || `Nhánh ${tree.branches.length}`, parentId: target.branchId, forkTurn: turn, createdAt: now });
+
+        return {
+            tree: { activeBranchId: id, branches },
+            log: TurnSnapshotManager.record(TurnSnapshotManager.createEmptyLog(activeLog?.capacity), turn, target.state),
+            state: target.state
+        };
+    }
+
+    /**
+     * Chuyển sang nhánh khác, tiếp tục từ lượt mới nhất của nhánh đó
+     */
+    static switchTo(tree: StoryBranchTree, activeLog: TurnSnapshotLog | undefined, branchId: string): StoryBranchTransition | null {
+        const target = this.getBranch(tree, branchId);
+        if (!target || branchId === tree.activeBranchId) return null;
+
+        const entries = TurnSnapshotManager.entries(target.snapshots);
+        if (!target.snapshots || entries.length === 0) return null;
+
+        const branches = tree.branches.map(branch => {
+            if (branch.id === tree.activeBranchId) return { ...branch, snapshots: activeLog };
+            if (branch.id === branchId) {
+                const { snapshots: _snapshots, ...rest } = branch;
+                return rest;
+            }
+            return branch;
+        });
+
+        return {
+            tree: { activeBranchId: branchId, branches },
+            log: target.snapshots,
+            state: entries[entries.length - 1].state
+        };
+    }
+}
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import { TurnSnapshotManager } from './TurnSnapshotManager';
+import type { TurnSnapshotState } from '../types';
+
+const createState = (turn: number): TurnSnapshotState => ({
+  knownEntities: {
+    'Lâm Phong': { name: 'Lâm Phong', type: 'pc', description: 'Thiếu niên', realm: `Tầng ${turn}` }
+  },
+  statuses: turn % 2 === 0 ? [] : [{ name: 'Trúng độc', description: '', type: 'debuff', source: 'Rắn', owner: 'pc' }],
+  quests: [],
+  memories: Array.from({ length: turn }, (_, i) => ({ text: `Ký ức ${i}`, pinned: false })),
+  chronicle: { memoir: [], chapter: [], turn: Array.from({ length: turn }, (_, i) => `Lượt ${i + 1}`) },
+  gameTime: { year: 1, month: 1, day: 1, hour: 8 + turn, minute: 0 },
+  gameHistory: Array.from({ length: turn * 2 }, (_, i) => ({ role: i % 2 === 0 ? 'user' : 'model', parts: [{ text: `entry ${i}` }] })),
+  party: [],
+  turnCount: turn,
+  storyLog: [`Diễn biến lượt ${turn}`],
+  choices: [`Lựa chọn ${turn}`],
+  locationDiscoveryOrder: []
+});
+
+describe('TurnSnapshotManager', () => {
+  describe('diff / patch', () => {
+    it('should round-trip nested objects and arrays', () => {
+      const prev = { a: 1, list: [1, 2, 3], nested: { keep: true, drop: 'x' } };
+      const next = { a: 2, list: [1, 5], nested: { keep: true, added: [1] }, extra: null };
+
+      const ops = TurnSnapshotManager.diff(prev, next);
+      const patched = TurnSnapshotManager.patch(JSON.parse(JSON.stringify(prev)), ops);
+
+      expect(patched).toEqual(next);
+    });
+
+    it('should produce no ops for identical values', () => {
+      expect(TurnSnapshotManager.diff(createState(3), createState(3))).toEqual([]);
+    });
+
+    it('should only store appended entries for growing arrays', () => {
+      const ops = TurnSnapshotManager.diff({ list: [1, 2] }, { list: [1, 2, 3] });
+
+      expect(ops).toEqual([{ op: 'set', path: ['list', 2], value: 3 }]);
+    });
+  });
+
+  describe('record / restore', () => {
+    it('should restore every recorded turn exactly', () => {
+      let log = TurnSnapshotManager.createEmptyLog(10);
+      for (let turn = 0; turn <= 5; turn++) {
+        log = TurnSnapshotManager.record(log, turn, createState(turn));
+      }
+
+      expect(TurnSnapshotManager.getTurns(log)).toEqual([0, 1, 2, 3, 4, 5]);
+      for (let turn = 0; turn <= 5; turn++) {
+        expect(TurnSnapshotManager.restore(log, turn)).toEqual(createState(turn));
+      }
+    });
+
+    it('should keep a single full copy and bounded deltas', () => {
+      let log = TurnSnapshotManager.createEmptyLog(3);
+      for (let turn = 0; turn <= 6; turn++) {
+        log = TurnSnapshotManager.record(log, turn, createState(turn));
+      }
+
+      expect(TurnSnapshotManager.getTurns(log)).toEqual([4, 5, 6]);
+      expect(log.base?.state).toEqual(createState(4));
+      expect(TurnSnapshotManager.restore(log, 6)).toEqual(createState(6));
+      expect(TurnSnapshotManager.restore(log, 2)).toBeNull();
+    });
+
+    it('should replace the snapshot of the same turn and drop later ones', () => {
+      let log = TurnSnapshotManager.createEmptyLog();
+      [0, 1, 2, 3].forEach(turn => { log = TurnSnapshotManager.record(log, turn, createState(turn)); });
+
+      const replacement = { ...createState(1), storyLog: ['Nhánh mới'] };
+      log = TurnSnapshotManager.record(log, 1, replacement);
+
+      expect(TurnSnapshotManager.getTurns(log)).toEqual([0, 1]);
+      expect(TurnSnapshotManager.restore(log, 1)).toEqual(replacement);
+    });
+
+    it('should not mutate the log or the recorded state', () => {
+      const state = createState(2);
+      const log = TurnSnapshotManager.record(undefined, 1, createState(1));
+      const before = JSON.parse(JSON.stringify(log));
+
+      TurnSnapshotManager.record(log, 2, state);
+      state.knownEntities['Lâm Phong'].realm = 'changed';
+
+      expect(log).toEqual(before);
+    });
+  });
+
+  it('should find the previous turn for undo', () => {
+    let log = TurnSnapshotManager.createEmptyLog();
+    [0, 1, 2].forEach(turn => { log = TurnSnapshotManager.record(log, turn, createState(turn)); });
+
+    expect(TurnSnapshotManager.findPreviousTurn(log, 2)).toBe(1);
+    expect(TurnSnapshotManager.findPreviousTurn(log, 0)).toBeNull();
+    expect(TurnSnapshotManager.findPreviousTurn(undefined, 5)).toBeNull();
+  });
+
+  it('should truncate snapshots from a turn onwards', () => {
+    let log = TurnSnapshotManager.createEmptyLog();
+    [0, 1, 2, 3].forEach(turn => { log = TurnSnapshotManager.record(log, turn, createState(turn)); });
+
+    expect(TurnSnapshotManager.getTurns(TurnSnapshotManager.truncateFrom(log, 2))).toEqual([0, 1]);
+    expect(TurnSnapshotManager.getTurns(TurnSnapshotManager.truncateFrom(log, 0))).toEqual([]);
+  });
+
+  it('should summarize snapshots with game time and preview', () => {
+    let log = TurnSnapshotManager.createEmptyLog();
+    [0, 1].forEach(turn => { log = TurnSnapshotManager.record(log, turn, createState(turn)); });
+
+    expect(TurnSnapshotManager.summarize(log)).toEqual([
+      { turn: 0, gameTime: createState(0).gameTime, preview: 'Diễn biến lượt 0' },
+      { turn: 1, gameTime: createState(1).gameTime, preview: 'Diễn biến lượt 1' }
+    ]);
+  });
+});
@@ -0,0 +1,196 @@
+import type { TurnSnapshotLog, TurnSnapshotState, StructuralDiffOp, StructuralDiffPath } from '../types';
+import { SaveSlotManager } from './SaveSlotManager';
+
+export const DEFAULT_SNAPSHOT_CAPACITY = 20;
+
+export interface TurnSnapshotSummary {
+    turn: number;
+    gameTime: TurnSnapshotState['gameTime'];
+    preview: string;
+}
+
+const clone = <T>(value: T): T => (value === undefined ? value : JSON.parse(JSON.stringify(value)));
+
+const isPlainObject = (value: any): value is Record<string, any> =>
+    value !== null && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Lưu snapshot trạng thái theo lượt dưới dạng diff cấu trúc trong một ring buffer có giới hạn.
+ * Tất cả phương thức đều thuần (không thay đổi log đầu vào) để dùng trực tiếp với React state.
+ */
+export class TurnSnapshotManager {
+
+    static createEmptyLog(capacity: number = DEFAULT_SNAPSHOT_CAPACITY): TurnSnapshotLog {
+        return { capacity, base: null, deltas: [] };
+    }
+
+    /**
+     * Tạo danh sách thao tác biến `prev` thành `next`
+     */
+    static diff(prev: any, next: any, path: StructuralDiffPath = [], ops: StructuralDiffOp[] = []): StructuralDiffOp[] {
+        if (Object.is(prev, next)) return ops;
+
+        if (Array.isArray(prev) && Array.isArray(next)) {
+            const shared = Math.min(prev.length, next.length);
+            for (let i = 0; i < shared; i++) {
+                this.diff(prev[i], next[i], [...path, i], ops);
+            }
+            if (next.length < prev.length) {
+                ops.push({ op: 'truncate', path, length: next.length });
+            }
+            for (let i = shared; i < next.length; i++) {
+                ops.push({ op: 'set', path: [...path, i], value: clone(next[i]) });
+            }
+            return ops;
+        }
+
+        if (isPlainObject(prev) && isPlainObject(next)) {
+            for (const key of Object.keys(prev)) {
+                if (!(key in next)) ops.push({ op: 'delete', path: [...path, key] });
+            }
+            for (const key of Object.keys(next)) {
+                if (!(key in prev)) {
+                    ops.push({ op: 'set', path: [...path, key], value: clone(next[key]) });
+                } else {
+                    this.diff(prev[key], next[key], [...path, key], ops);
+                }
+            }
+            return ops;
+        }
+
+        ops.push({ op: 'set', path, value: clone(next) });
+        return ops;
+    }
+
+    /**
+     * Áp dụng diff lên `target` (thay đổi trực tiếp) và trả về gốc mới
+     */
+    static patch<T>(target: T, ops: StructuralDiffOp[]): T {
+        let root: any = target;
+        for (const op of ops) {
+            if (op.path.length === 0) {
+                if (op.op === 'set') root = clone(op.value);
+                else if (op.op === 'truncate' && Array.isArray(root)) root.length = op.length;
+                continue;
+            }
+            let parent = root;
+            for (let i = 0; i < op.path.length - 1; i++) {
+                parent = parent[op.path[i]];
+            }
+            const key = op.path[op.path.length - 1];
+            if (op.op === 'set') {
+                parent[key] = clone(op.value);
+            } else if (op.op === 'delete') {
+                delete parent[key];
+            } else {
+                parent[key].length = op.length;
+            }
+        }
+        return root;
+    }
+
+    /**
+     * Duyệt tuần tự các snapshot, dựng lại trạng thái đầy đủ của từng lượt
+     */
+    static walk(log: TurnSnapshotLog, visit: (turn: number, state: TurnSnapshotState) => boolean | void): void {
+        if (!log.base) return;
+        let state = clone(log.base.state);
+        if (visit(log.base.turn, state) === false) return;
+        for (const delta of log.deltas) {
+            state = this.patch(state, delta.ops);
+            if (visit(delta.turn, state) === false) return;
+        }
+    }
+
+    /**
+     * Danh sách (lượt, trạng thái) theo thứ tự; mỗi trạng thái là một bản sao độc lập
+     */
+    static entries(log: TurnSnapshotLog | undefined): Array<{ turn: number; state: TurnSnapshotState }> {
+        const result: Array<{ turn: number; state: TurnSnapshotState }> = [];
+        if (!log) return result;
+        this.walk(log, (turn, state) => { result.push({ turn, state: clone(state) }); });
+        return result;
+    }
+
+    static getTurns(log: TurnSnapshotLog | undefined): number[] {
+        if (!log?.base) return [];
+        return [log.base.turn, ...log.deltas.map(delta => delta.turn)];
+    }
+
+    /**
+     * Bỏ mọi snapshot từ lượt `turn` trở đi
+     */
+    static truncateFrom(log: TurnSnapshotLog, turn: number): TurnSnapshotLog {
+        if (!log.base || log.base.turn >= turn) {
+            return this.createEmptyLog(log.capacity);
+        }
+        return { ...log, deltas: log.deltas.filter(delta => delta.turn < turn) };
+    }
+
+    /**
+     * Ghi snapshot cho lượt `turn`. Snapshot cũ của cùng lượt (hoặc các lượt sau, khi đã tua lại) bị thay thế.
+     */
+    static record(log: TurnSnapshotLog | undefined, turn: number, state: TurnSnapshotState): TurnSnapshotLog {
+        const snapshot = clone(state);
+        const current = this.truncateFrom(log || this.createEmptyLog(), turn);
+
+        if (!current.base) {
+            return { ...current, base: { turn, state: snapshot }, deltas: [] };
+        }
+
+        let latest: TurnSnapshotState = current.base.state;
+        this.walk(current, (_turn, reconstructed) => { latest = reconstructed; });
+
+        let base = current.base;
+        let deltas = [...current.deltas, { turn, ops: this.diff(latest, snapshot) }];
+
+        // Ring buffer: gộp diff cũ nhất vào snapshot gốc khi vượt quá dung lượng
+        while (deltas.length + 1 > Math.max(1, current.capacity)) {
+            base = { turn: deltas[0].turn, state: this.patch(clone(base.state), deltas[0].ops) };
+            deltas = deltas.slice(1);
+        }
+
+        return { ...current, base, deltas };
+    }
+
+    /**
+     * Dựng lại trạng thái đầy đủ của lượt `turn`
+     */
+    static restore(log: TurnSnapshotLog | undefined, turn: number): TurnSnapshotState | null {
+        if (!log) return null;
+        let result = null as TurnSnapshotState | null;
+        this.walk(log, (snapshotTurn, state) => {
+            if (snapshotTurn === turn) {
+                result = state;
+                return false;
+            }
+        });
+        return result;
+    }
+
+    /**
+     * Lượt gần nhất có snapshot, trước lượt hiện tại
+     */
+    static findPreviousTurn(log: TurnSnapshotLog | undefined, currentTurn: number): number | null {
+        const earlier = this.getTurns(log).filter(turn => turn < currentTurn);
+        return earlier.length > 0 ? earlier[earlier.length - 1] : null;
+    }
+
+    /**
+     * Thông tin tóm tắt từng snapshot để hiển thị trong UI
+     */
+    static summarize(log: TurnSnapshotLog | undefined): TurnSnapshotSummary[] {
+        const summaries: TurnSnapshotSummary[] = [];
+        if (!log) return summaries;
+        this.walk(log, (turn, state) => { summaries.push(this.summarizeState(turn, state)); });
+        return summaries;
+    }
+
+    static summarizeState(turn: number, state: TurnSnapshotState): TurnSnapshotSummary {
+        return {
+            turn,
+            gameTime: { ...state.gameTime },
+            preview: SaveSlotManager.buildThumbnailText(state.storyLog)
+        };
+    }
+}
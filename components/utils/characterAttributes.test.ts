@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import type { Entity } from '../types';
+import { applyAttributeChange, computeAttributes, DEFAULT_ATTRIBUTES, formatAttributesForPrompt, normalizeAttributes } from './characterAttributes';
+
+const realmTiers = [
+  { id: '1', name: 'Luyện Khí', requiredExp: 0 },
+  { id: '2', name: 'Trúc Cơ', requiredExp: 100 }
+];
+
+const pc: Entity = { name: 'Lâm Phong', type: 'pc', description: '', realm: 'Trúc Cơ', resources: { hp: 60 } };
+
+describe('characterAttributes', () => {
+  it('should default old worlds and sanitize edited definitions', () => {
+    expect(normalizeAttributes(undefined)).toBe(DEFAULT_ATTRIBUTES);
+    expect(normalizeAttributes([])).toEqual([]);
+    expect(normalizeAttributes([
+      { id: '', name: ' Sức Mạnh ', kind: 'stat', base: 10 },
+      { id: 'suc_manh', name: 'Trùng', kind: 'stat', base: 1 },
+      { id: 'qi', name: 'Chân Khí', kind: 'resource', base: '80' as any, perRealm: 20 }
+    ])).toEqual([
+      { id: 'suc_manh', name: 'Sức Mạnh', kind: 'stat', base: 10, perRealm: 0 },
+      { id: 'qi', name: 'Chân Khí', kind: 'resource', base: 80, perRealm: 20 }
+    ]);
+  });
+
+  it('should derive values from realm, equipped items and stacked statuses', () => {
+    const attributes = computeAttributes(pc, DEFAULT_ATTRIBUTES, {
+      realmTiers,
+      knownEntities: {
+        'Kiếm Gỗ': { name: 'Kiếm Gỗ', type: 'item', description: '', owner: 'pc', equipped: true, statBonuses: { 'Sức Mạnh': 3 } },
+        'Giáp Da': { name: 'Giáp Da', type: 'item', description: '', owner: 'pc', equipped: false, statBonuses: { hp: 50 } }
+      },
+      statuses: [
+        { name: 'Chảy Máu', description: '', type: 'injury', source: '', owner: 'pc', stacks: 2, statModifiers: { str: -1 } },
+        { name: 'Cuồng Nộ', description: '', type: 'buff', source: '', owner: 'Thục Nhi', statModifiers: { str: 5 } }
+      ]
+    });
+
+    const hp = attributes.find(attribute => attribute.id === 'hp')!;
+    const str = attributes.find(attribute => attribute.id === 'str')!;
+    expect(hp).toMatchObject({ base: 100, bonus: 50, value: 150, current: 60 });
+    expect(str).toMatchObject({ base: 10, bonus: 3, value: 13, sources: ['Cảnh giới +2', 'Kiếm Gỗ +3', 'Chảy Máu -2'] });
+    expect(formatAttributesForPrompt([hp, str])).toBe('Sinh Lực 60/150 (Cảnh giới +50), Sức Mạnh 13 (Cảnh giới +2, Kiếm Gỗ +3, Chảy Máu -2)');
+  });
+
+  it('should clamp resource changes and change stats permanently', () => {
+    const [hp, , , str] = computeAttributes(pc, DEFAULT_ATTRIBUTES, { realmTiers });
+
+    expect(applyAttributeChange(pc, hp, { amount: -100 }).resources?.hp).toBe(0);
+    expect(applyAttributeChange(pc, hp, { amount: 500 }).resources?.hp).toBe(150);
+    expect(applyAttributeChange(pc, hp, { value: 'max', maxAmount: 20 })).toMatchObject({ stats: { hp: 120 }, resources: { hp: 170 } });
+    expect(applyAttributeChange(pc, str, { amount: 2 }).stats?.str).toBe(12);
+  });
+});
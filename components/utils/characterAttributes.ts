@@ -0,0 +1,163 @@
+import type { AttributeDefinition, Entity, KnownEntities, RealmTier, Status } from '../types';
+
+/**
+ * Hệ thống chỉ số: giá trị gốc do thế giới định nghĩa, cộng thêm theo cảnh giới,
+ * trang bị đang dùng và trạng thái còn hiệu lực. Tài nguyên (HP, MP...) có thêm giá trị hiện tại.
+ */
+
+export interface ComputedAttribute {
+    id: string;
+    name: string;
+    kind: AttributeDefinition['kind'];
+    base: number;
+    bonus: number;
+    value: number;              // Giá trị sau khi cộng; với tài nguyên là giá trị tối đa
+    current?: number;           // Chỉ có với tài nguyên
+    sources: string[];          // VD: "Cảnh giới +40", "Kiếm Gỗ +2"
+}
+
+export interface AttributeContext {
+    realmTiers?: RealmTier[];
+    statuses?: Status[];
+    knownEntities?: KnownEntities;
+}
+
+export interface AttributeChange {
+    amount?: number;            // Cộng/trừ: tài nguyên đổi giá trị hiện tại, thuộc tính đổi giá trị gốc
+    value?: number | 'max';     // Đặt thẳng giá trị; "max" hồi đầy tài nguyên
+    maxAmount?: number;         // Tăng/giảm vĩnh viễn giá trị tối đa của tài nguyên
+}
+
+export const DEFAULT_ATTRIBUTES: AttributeDefinition[] = [
+    { id: 'hp', name: 'Sinh Lực', kind: 'resource', base: 100, perRealm: 50 },
+    { id: 'mp', name: 'Linh Lực', kind: 'resource', base: 50, perRealm: 30 },
+    { id: 'stamina', name: 'Thể Lực', kind: 'resource', base: 100, perRealm: 20 },
+    { id: 'str', name: 'Sức Mạnh', kind: 'stat', base: 10, perRealm: 2 },
+    { id: 'agi', name: 'Thân Pháp', kind: 'stat', base: 10, perRealm: 2 },
+    { id: 'int', name: 'Ngộ Tính', kind: 'stat', base: 10, perRealm: 2 }
+];
+
+const toAttributeId = (value: string) =>
+    value.trim().toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/đ/g, 'd').replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+
+/** Làm sạch danh sách chỉ số; không có (bản lưu cũ) thì dùng mặc định, mảng rỗng nghĩa là tắt */
+export const normalizeAttributes = (definitions?: AttributeDefinition[] | null): AttributeDefinition[] => {
+    if (!Array.isArray(definitions)) return DEFAULT_ATTRIBUTES;
+
+    const seen = new Set<string>();
+    return definitions
+        .filter(definition => definition && definition.name?.trim())
+        .map(definition => ({
+            id: toAttributeId(definition.id || definition.name) || toAttributeId(definition.name),
+            name: definition.name.trim(),
+            kind: definition.kind === 'resource' ? 'resource' as const : 'stat' as const,
+            base: Number(definition.base) || 0,
+            perRealm: Number(definition.perRealm) || 0
+        }))
+        .filter(definition => definition.id && !seen.has(definition.id) && seen.add(definition.id));
+};
+
+/** Tìm chỉ số theo id hoặc tên, không phân biệt hoa thường */
+export const findAttribute = (definitions: AttributeDefinition[], key: string): AttributeDefinition | undefined => {
+    const normalized = toAttributeId(String(key ?? ''));
+    return definitions.find(definition => definition.id === normalized || toAttributeId(definition.name) === normalized);
+};
+
+/** Quy các khóa trong bảng cộng chỉ số (id hoặc tên) về id; khóa không khớp chỉ số nào bị bỏ */
+export const resolveModifiers = (
+    modifiers: { [key: string]: number } | undefined,
+    definitions: AttributeDefinition[]
+): { [attributeId: string]: number } => {
+    const resolved: { [attributeId: string]: number } = {};
+    if (!modifiers || typeof modifiers !== 'object') return resolved;
+    Object.entries(modifiers).forEach(([key, amount]) => {
+        const definition = findAttribute(definitions, key);
+        if (definition && Number.isFinite(Number(amount))) {
+            resolved[definition.id] = (resolved[definition.id] || 0) + Number(amount);
+        }
+    });
+    return resolved;
+};
+
+/** Vị trí cảnh giới của nhân vật, cảnh giới đầu tiên hoặc không rõ là 0 */
+export const getRealmIndex = (realm: string | undefined, realmTiers: RealmTier[] = []): number => {
+    if (!realm) return 0;
+    const index = realmTiers.findIndex(tier => tier.name.trim().toLowerCase() === realm.trim().toLowerCase());
+    return Math.max(0, index);
+};
+
+// Trạng thái và vật phẩm của PC có owner là 'pc'
+const isOwnedBy = (owner: string | undefined, entity: Entity) =>
+    owner === entity.name || (entity.type === 'pc' && owner === 'pc');
+
+const formatSigned = (amount: number) => amount >= 0 ? `+${amount}` : `${amount}`;
+
+export const computeAttributes = (
+    entity: Entity,
+    definitions: AttributeDefinition[],
+    { realmTiers = [], statuses = [], knownEntities = {} }: AttributeContext = {}
+): ComputedAttribute[] => {
+    const realmIndex = getRealmIndex(entity.realm, realmTiers);
+    const equipment = Object.values(knownEntities).filter(item =>
+        item.type === 'item' && item.equipped && item.statBonuses && isOwnedBy(item.owner, entity));
+    const activeStatuses = statuses.filter(status => status.statModifiers && isOwnedBy(status.owner, entity));
+
+    return definitions.map(definition => {
+        const sources: string[] = [];
+        let bonus = 0;
+        const addBonus = (label: string, amount: number) => {
+            if (!amount) return;
+            bonus += amount;
+            sources.push(`${label} ${formatSigned(amount)}`);
+        };
+
+        addBonus('Cảnh giới', (definition.perRealm || 0) * realmIndex);
+        equipment.forEach(item => addBonus(item.name, resolveModifiers(item.statBonuses, definitions)[definition.id] || 0));
+        activeStatuses.forEach(status => addBonus(
+            status.name,
+            (resolveModifiers(status.statModifiers, definitions)[definition.id] || 0) * (status.stacks || 1)
+        ));
+
+        const base = entity.stats?.[definition.id] ?? definition.base;
+        const value = Math.max(0, base + bonus);
+        const attribute: ComputedAttribute = { id: definition.id, name: definition.name, kind: definition.kind, base, bonus, value, sources };
+        if (definition.kind === 'resource') {
+            attribute.current = Math.min(value, Math.max(0, entity.resources?.[definition.id] ?? value));
+        }
+        return attribute;
+    });
+};
+
+/**
+ * Áp dụng thay đổi từ thẻ STAT_CHANGE. Tài nguyên luôn bị kẹp trong khoảng 0 đến giá trị tối đa.
+ */
+export const applyAttributeChange = (entity: Entity, attribute: ComputedAttribute, change: AttributeChange): Entity => {
+    const stats = { ...entity.stats };
+    const resources = { ...entity.resources };
+
+    if (attribute.kind === 'resource') {
+        let max = attribute.value;
+        if (change.maxAmount) {
+            stats[attribute.id] = attribute.base + change.maxAmount;
+            max = Math.max(0, attribute.value + change.maxAmount);
+        }
+        let current = Math.min(attribute.current ?? max, max);
+        if (change.value === 'max') current = max;
+        else if (typeof change.value === 'number') current = change.value;
+        if (change.amount) current += change.amount;
+        resources[attribute.id] = Math.min(max, Math.max(0, Math.round(current)));
+    } else {
+        if (typeof change.value === 'number') stats[attribute.id] = change.value;
+        if (change.amount) stats[attribute.id] = (stats[attribute.id] ?? attribute.base) + change.amount;
+    }
+
+    return { ...entity, stats, resources };
+};
+
+/** VD: "Sinh Lực 80/150, Sức Mạnh 14 (Kiếm Gỗ +2)" */
+export const formatAttributesForPrompt = (attributes: ComputedAttribute[]): string =>
+    attributes.map(attribute => {
+        const value = attribute.kind === 'resource' ? `${attribute.current}/${attribute.value}` : `${attribute.value}`;
+        const sources = attribute.sources.length > 0 ? ` (${attribute.sources.join(', ')})` : '';
+        return `${attribute.name} ${value}${sources}`;
+    }).join(', ');
@@ -0,0 +1,38 @@
+import type { CommandTagDiagnostic } from './commandTagParser';
+import { createObservableStore } from './observableStore';
+
+export type CommandTagDiagnosticSource = 'parser' | 'unprocessed' | 'reducer';
+
+export interface CommandTagDiagnosticEntry extends Partial<Pick<CommandTagDiagnostic, 'line' | 'column' | 'tagType'>> {
+    id: number;
+    timestamp: number;
+    turnCount?: number;
+    source: CommandTagDiagnosticSource;
+    severity: CommandTagDiagnostic['severity'];
+    message: string;
+    raw?: string;
+}
+
+const MAX_DIAGNOSTIC_ENTRIES = 100;
+
+/**
+ * Lưu các thẻ lệnh không phân tích/xử lý được để hiển thị trong bảng nhà phát triển
+ */
+class CommandTagDiagnosticsStore {
+    private store = createObservableStore<CommandTagDiagnosticEntry[]>([]);
+    private nextId = 1;
+
+    public readonly getEntries = this.store.getSnapshot;
+    public readonly subscribe = this.store.subscribe;
+    public readonly clear = this.store.reset;
+
+    public record(source: CommandTagDiagnosticSource, diagnostics: Array<Omit<CommandTagDiagnosticEntry, 'id' | 'timestamp' | 'source'>>): void {
+        if (diagnostics.length === 0) return;
+
+        const timestamp = Date.now();
+        const recorded = diagnostics.map(diagnostic => ({ ...diagnostic, id: this.nextId++, timestamp, source }));
+        this.store.update(entries => [...entries, ...recorded].slice(-MAX_DIAGNOSTIC_ENTRIES));
+    }
+}
+
+export const commandTagDiagnostics = new CommandTagDiagnosticsStore();
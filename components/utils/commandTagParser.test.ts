@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { parseCommandTags, coerceAttributeValue, DEFAULT_COMMAND_TAG_SCHEMA } from './commandTagParser';
+
+describe('commandTagParser', () => {
+  it('should accept "]" and escaped quotes inside quoted values', () => {
+    const { tags, cleanStory, diagnostics } = parseCommandTags(
+      'Trước.[LORE_ITEM: name="Kiếm [cổ]", description="Khắc chữ \\"Thiên\\" và ]"] Sau.'
+    );
+
+    expect(diagnostics).toEqual([]);
+    expect(cleanStory).toBe('Trước. Sau.');
+    expect(tags[0].attributes).toEqual({ name: 'Kiếm [cổ]', description: 'Khắc chữ "Thiên" và ]' });
+  });
+
+  it('should parse multi-line values and report tag positions', () => {
+    const { tags } = parseCommandTags('Dòng một\nDòng hai [CHRONICLE_CHAPTER: text="Chương 1\nChương 2"]');
+
+    expect(tags[0]).toMatchObject({ type: 'CHRONICLE_CHAPTER', line: 2, column: 10 });
+    expect(tags[0].attributes.text).toBe('Chương 1\nChương 2');
+  });
+
+  it('should accept balanced brackets in bare values and both separator styles', () => {
+    const { tags } = parseCommandTags('[SKILL_LEARNED: name=Kiếm[Tầng1] learner="A", description="B" uses=3]');
+
+    expect(tags[0].attributes).toEqual({ name: 'Kiếm[Tầng1]', learner: 'A', description: 'B', uses: 3 });
+  });
+
+  it('should coerce attribute values using the schema with per-tag overrides', () => {
+    const schema = { ...DEFAULT_COMMAND_TAG_SCHEMA, tags: { CUSTOM: { level: 'number' as const } } };
+    const { tags, diagnostics } = parseCommandTags(
+      '[ITEM_AQUIRED: usable="true", quantities=2, hours=2, objectives="A; B"][CUSTOM: level=5][OTHER: level=5]',
+      schema
+    );
+
+    expect(diagnostics).toEqual([]);
+    expect(tags[0].attributes).toEqual({
+      usable: true, quantities: 2, hours: 2,
+      objectives: [{ description: 'A', completed: false }, { description: 'B', completed: false }]
+    });
+    expect(tags[1].attributes.level).toBe(5);
+    expect(tags[2].attributes.level).toBe('5');
+  });
+
+  it('should warn about values that do not match the schema type', () => {
+    const { tags, diagnostics } = parseCommandTags('[TIME_ELAPSED: hours=hai]');
+
+    expect(tags[0].attributes.hours).toBe('hai');
+    expect(diagnostics).toEqual([expect.objectContaining({ severity: 'warning', line: 1, column: 22, tagType: 'TIME_ELAPSED' })]);
+    expect(coerceAttributeValue('boolean', 'có').warning).toBeDefined();
+  });
+
+  it('should parse stat modifier maps by id or name', () => {
+    expect(coerceAttributeValue('modifierMap', 'hp:+20; Sức Mạnh -2, str=1')).toEqual({ value: { hp: 20, 'Sức Mạnh': -2, str: 1 } });
+    expect(coerceAttributeValue('modifierMap', 'hp:+20;mạnh lên')).toEqual({ value: { hp: 20 }, warning: 'Không đọc được chỉ số: "mạnh lên"' });
+  });
+
+  it('should report syntax errors with line and column and recover at the next "]"', () => {
+    const { tags, cleanStory, diagnostics } = parseCommandTags('Mở đầu\n[TIME_ELAPSED: hours 2] Tiếp.[MEMORY_ADD: text="ok"]');
+
+    expect(diagnostics).toEqual([expect.objectContaining({
+      severity: 'error', line: 2, column: 22, tagType: 'TIME_ELAPSED', raw: '[TIME_ELAPSED: hours 2]'
+    })]);
+    expect(tags.map(t => [t.type, t.attributes])).toEqual([['TIME_ELAPSED', {}], ['MEMORY_ADD', { text: 'ok' }]]);
+    expect(cleanStory).toBe('Mở đầu\n Tiếp.');
+  });
+
+  it('should keep text literal when an unterminated string never closes', () => {
+    const { tags, cleanStory, diagnostics } = parseCommandTags('Kết thúc [MEMORY_ADD: text="chưa đóng');
+
+    expect(tags).toEqual([]);
+    expect(cleanStory).toBe('Kết thúc [MEMORY_ADD: text="chưa đóng');
+    expect(diagnostics[0]).toMatchObject({ severity: 'error', line: 1, column: 28 });
+  });
+
+  it('should leave non-command brackets untouched', () => {
+    const text = '[COT_REASONING]Suy nghĩ[/COT_REASONING] Câu chuyện [ghi chú]';
+
+    expect(parseCommandTags(text)).toEqual({ tags: [], cleanStory: text, diagnostics: [] });
+  });
+});
@@ -0,0 +1,257 @@
+/**
+ * Bộ phân tích ngữ pháp thẻ lệnh trong câu chuyện của AI.
+ *
+ *   tag    := '[' NAME ':' attrs ']'
+ *   NAME   := [A-Z_]+
+ *   attrs  := (attr (','? attr)*)?
+ *   attr   := KEY '=' value
+ *   value  := '"' (escape | any char except '"')* '"'   -- cho phép ']', xuống dòng, \" \\ \n \t
+ *           | bare                                        -- dừng ở khoảng trắng, ',', '"' hoặc ']' ngoài ngoặc
+ *
+ * Văn bản dạng "[ABC]" (không có ':') được giữ nguyên, ví dụ [COT_REASONING].
+ */
+
+export type CommandTagAttributeType = 'string' | 'number' | 'boolean' | 'objectiveList' | 'modifierMap';
+
+export interface CommandTagAttributeSchema {
+    attributes: { [key: string]: CommandTagAttributeType };
+    tags?: { [tagType: string]: { [key: string]: CommandTagAttributeType } }; // Ghi đè theo từng loại thẻ
+}
+
+export interface ParsedCommandTag {
+    index: number;          // Thứ tự xuất hiện trong câu chuyện
+    type: string;
+    raw: string;            // Nguyên văn thẻ, ví dụ "[ITEM_AQUIRED: name=...]"
+    attributes: { [key: string]: any };
+    line: number;
+    column: number;
+}
+
+export interface CommandTagDiagnostic {
+    severity: 'error' | 'warning';
+    message: string;
+    line: number;
+    column: number;
+    tagType?: string;
+    raw?: string;
+}
+
+export interface CommandTagParseResult {
+    tags: ParsedCommandTag[];
+    cleanStory: string;
+    diagnostics: CommandTagDiagnostic[];
+}
+
+export const DEFAULT_COMMAND_TAG_SCHEMA: CommandTagAttributeSchema = {
+    attributes: {
+        isMainQuest: 'boolean',
+        equippable: 'boolean',
+        usable: 'boolean',
+        consumable: 'boolean',
+        learnable: 'boolean',
+        objectives: 'objectiveList',
+        quantities: 'number',
+        uses: 'number',
+        durability: 'number',
+        damage: 'number',
+        repairedAmount: 'number',
+        years: 'number',
+        months: 'number',
+        days: 'number',
+        hours: 'number',
+        minutes: 'number',
+        currentExp: 'number',
+        statBonuses: 'modifierMap',
+        statModifiers: 'modifierMap'
+    }
+};
+
+const ESCAPES: { [char: string]: string } = { n: '\n', t: '\t', '"': '"', '\\': '\\' };
+
+class CommandTagSyntaxError extends Error {
+    constructor(message: string, public offset: number) {
+        super(message);
+        this.name = 'CommandTagSyntaxError';
+    }
+}
+
+const isNameChar = (char: string) => /[A-Z_]/.test(char);
+const isKeyChar = (char: string) => /\w/.test(char);
+const isWhitespace = (char: string) => /\s/.test(char);
+
+const resolveAttributeType = (schema: CommandTagAttributeSchema, tagType: string, key: string): CommandTagAttributeType =>
+    schema.tags?.[tagType]?.[key] ?? schema.attributes[key] ?? 'string';
+
+/**
+ * Ép kiểu giá trị theo schema. Giá trị không hợp lệ được giữ nguyên dạng chuỗi kèm cảnh báo.
+ */
+export const coerceAttributeValue = (
+    type: CommandTagAttributeType,
+    value: string
+): { value: any; warning?: string } => {
+    switch (type) {
+        case 'number': {
+            const trimmed = value.trim();
+            if (trimmed !== '' && !isNaN(Number(trimmed))) return { value: Number(trimmed) };
+            return { value, warning: `"${value}" không phải là số` };
+        }
+        case 'boolean': {
+            const lower = value.trim().toLowerCase();
+            if (lower === 'true' || lower === 'false') return { value: lower === 'true' };
+            return { value: false, warning: `"${value}" không phải true/false, dùng false` };
+        }
+        case 'objectiveList':
+            return { value: value.split(';').map(desc => ({ description: desc.trim(), completed: false })) };
+        case 'modifierMap': {
+            // VD: "hp:+20;str:-2" hoặc "Sức Mạnh +3, mp 10"
+            const map: { [key: string]: number } = {};
+            const invalid: string[] = [];
+            value.split(/[;,]/).map(entry => entry.trim()).filter(Boolean).forEach(entry => {
+                const match = entry.match(/^(.+?)\s*[:=]?\s*([+-]?\d+(?:\.\d+)?)$/);
+                if (match) {
+                    map[match[1].trim()] = (map[match[1].trim()] || 0) + Number(match[2]);
+                } else {
+                    invalid.push(entry);
+                }
+            });
+            return invalid.length > 0
+                ? { value: map, warning: `Không đọc được chỉ số: ${invalid.map(entry => `"${entry}"`).join(', ')}` }
+                : { value: map };
+        }
+        default:
+            return { value };
+    }
+};
+
+/**
+ * Phân tích toàn bộ văn bản: tách thẻ, trả về câu chuyện đã bỏ thẻ và danh sách lỗi có dòng/cột.
+ */
+export const parseCommandTags = (
+    text: string,
+    schema: CommandTagAttributeSchema = DEFAULT_COMMAND_TAG_SCHEMA
+): CommandTagParseResult => {
+    const source = text || '';
+    const tags: ParsedCommandTag[] = [];
+    const diagnostics: CommandTagDiagnostic[] = [];
+    let cleanStory = '';
+
+    const lineStarts = [0];
+    for (let i = 0; i < source.length; i++) {
+        if (source[i] === '\n') lineStarts.push(i + 1);
+    }
+    const positionAt = (offset: number) => {
+        let line = 0;
+        while (line + 1 < lineStarts.length && lineStarts[line + 1] <= offset) line++;
+        return { line: line + 1, column: offset - lineStarts[line] + 1 };
+    };
+
+    // Trả về độ dài tên thẻ nếu `start` là đầu một thẻ "[NAME:"
+    const matchTagHead = (start: number): number => {
+        let pos = start + 1;
+        while (pos < source.length && isNameChar(source[pos])) pos++;
+        return pos > start + 1 && source[pos] === ':' ? pos - start - 1 : 0;
+    };
+
+    const parseTag = (start: number, nameLength: number): { end: number; tag: ParsedCommandTag } => {
+        const type = source.slice(start + 1, start + 1 + nameLength);
+        const attributes: { [key: string]: any } = {};
+        const warnings: Array<{ message: string; offset: number }> = [];
+        let pos = start + 2 + nameLength;
+
+        const skipSeparators = () => {
+            while (pos < source.length && (isWhitespace(source[pos]) || source[pos] === ',')) pos++;
+        };
+
+        while (true) {
+            skipSeparators();
+            if (pos >= source.length) throw new CommandTagSyntaxError('Thẻ chưa được đóng bằng "]"', pos);
+            if (source[pos] === ']') break;
+
+            const keyStart = pos;
+            while (pos < source.length && isKeyChar(source[pos])) pos++;
+            if (pos === keyStart) throw new CommandTagSyntaxError(`Ký tự không hợp lệ "${source[pos]}", cần tên thuộc tính`, pos);
+            const key = source.slice(keyStart, pos);
+
+            while (pos < source.length && source[pos] !== '\n' && isWhitespace(source[pos])) pos++;
+            if (source[pos] !== '=') throw new CommandTagSyntaxError(`Thiếu "=" sau thuộc tính "${key}"`, pos);
+            pos++;
+            while (pos < source.length && source[pos] !== '\n' && isWhitespace(source[pos])) pos++;
+
+            const valueStart = pos;
+            let value = '';
+            if (source[pos] === '"') {
+                pos++;
+                while (true) {
+                    if (pos >= source.length) throw new CommandTagSyntaxError(`Chuỗi của "${key}" chưa được đóng bằng dấu "`, valueStart);
+                    const char = source[pos];
+                    if (char === '"') { pos++; break; }
+                    if (char === '\\' && pos + 1 < source.length) {
+                        value += ESCAPES[source[pos + 1]] ?? source[pos + 1];
+                        pos += 2;
+                        continue;
+                    }
+                    value += char;
+                    pos++;
+                }
+            } else {
+                let depth = 0;
+                while (pos < source.length) {
+                    const char = source[pos];
+                    if (char === '[') depth++;
+                    else if (char === ']') {
+                        if (depth === 0) break;
+                        depth--;
+                    } else if (depth === 0 && (isWhitespace(char) || char === ',' || char === '"')) break;
+                    pos++;
+                }
+                if (depth > 0) throw new CommandTagSyntaxError(`Giá trị của "${key}" có ngoặc "[" chưa đóng`, valueStart);
+                value = source.slice(valueStart, pos);
+                if (value === '') throw new CommandTagSyntaxError(`Thiếu giá trị cho thuộc tính "${key}"`, valueStart);
+            }
+
+            const coerced = coerceAttributeValue(resolveAttributeType(schema, type, key), value);
+            if (coerced.warning) warnings.push({ message: `${key}: ${coerced.warning}`, offset: valueStart });
+            attributes[key] = coerced.value;
+        }
+
+        const end = pos + 1;
+        const raw = source.slice(start, end);
+        warnings.forEach(warning => diagnostics.push({
+            severity: 'warning', message: warning.message, ...positionAt(warning.offset), tagType: type, raw
+        }));
+        return { end, tag: { index: tags.length, type, raw, attributes, ...positionAt(start) } };
+    };
+
+    let pos = 0;
+    while (pos < source.length) {
+        const nameLength = source[pos] === '[' ? matchTagHead(pos) : 0;
+        if (!nameLength) {
+            cleanStory += source[pos];
+            pos++;
+            continue;
+        }
+
+        try {
+            const { end, tag } = parseTag(pos, nameLength);
+            tags.push(tag);
+            pos = end;
+        } catch (error) {
+            if (!(error instanceof CommandTagSyntaxError)) throw error;
+            const type = source.slice(pos + 1, pos + 1 + nameLength);
+            // Khôi phục như regex cũ: bỏ tới dấu "]" đầu tiên và giữ thẻ không thuộc tính
+            // để reducer báo "chưa xử lý"; nếu không có "]" thì giữ nguyên văn bản
+            const recoveryEnd = source.indexOf(']', pos);
+            const raw = source.slice(pos, recoveryEnd === -1 ? Math.min(source.length, pos + 80) : recoveryEnd + 1);
+            diagnostics.push({ severity: 'error', message: error.message, ...positionAt(error.offset), tagType: type, raw });
+            if (recoveryEnd === -1) {
+                cleanStory += source[pos];
+                pos++;
+            } else {
+                tags.push({ index: tags.length, type, raw, attributes: {}, ...positionAt(pos) });
+                pos = recoveryEnd + 1;
+            }
+        }
+    }
+
+    return { tags, cleanStory, diagnostics };
+};
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { previewCommandTags, describeCommandTagStateChanges } from './commandTagPreview';
+import { extractCommandTags } from './commandTagProcessor';
+import { createCommandTagState } from '../../src/test/commandTagState';
+import type { CommandTagState } from './commandTagProcessor';
+
+const createState = (overrides: Partial<CommandTagState> = {}): CommandTagState => createCommandTagState({
+  knownEntities: {
+    'Lâm Phong': { name: 'Lâm Phong', type: 'pc', description: 'Thiếu niên', realm: 'Luyện Khí', learnedSkills: ['Cơ Bản Quyền'] },
+    'Tiểu Mai': { name: 'Tiểu Mai', type: 'npc', description: 'Sư muội', relationship: 'Quen biết' },
+    'Bình Thuốc': { name: 'Bình Thuốc', type: 'item', description: '', owner: 'pc', quantities: 2 }
+  },
+  quests: [{ title: 'Tìm thuốc', description: '', status: 'active', isMainQuest: false, objectives: [{ description: 'Hái thảo', completed: false }] }],
+  ...overrides
+});
+
+const context = { regexRules: [], turnCount: 3, worldData: {} };
+
+describe('commandTagPreview', () => {
+  it('should describe each tag cumulatively without mutating the state', () => {
+    const state = createState();
+    const snapshot = JSON.parse(JSON.stringify(state));
+    const { tags } = extractCommandTags(
+      '[TIME_ELAPSED: hours=2][ITEM_AQUIRED: name="Kiếm Gỗ", description="Kiếm tập", quantities=1]' +
+      '[ITEM_CONSUMED: name="Bình Thuốc"][STATUS_APPLIED_SELF: name="Mệt mỏi", type="debuff"]' +
+      '[QUEST_OBJECTIVE_COMPLETED: questTitle="Tìm thuốc", objectiveDescription="Hái thảo"]' +
+      '[REALM_UPDATE: target="Lâm Phong", realm="Trúc Cơ"][RELATIONSHIP_CHANGED: npcName="Tiểu Mai", relationship="Thân thiết"]' +
+      '[SKILL_LEARNED: name="Thanh Phong Kiếm", description="Kiếm pháp", learner="Lâm Phong"]'
+    );
+
+    const items = previewCommandTags(state, tags, context);
+
+    expect(state).toEqual(snapshot);
+    expect(items.map(item => [item.category, item.lines])).toEqual([
+      ['time', ['⏱️ 8:00 1/1/1 → 10:00 1/1/1']],
+      ['item', ['🎒 Nhận: Kiếm Gỗ x1']],
+      ['item', ['✏️ Bình Thuốc: quantities 2 → 1']],
+      ['status', ['✨ PC: +Mệt mỏi (debuff)']],
+      ['quest', ['☑️ Tìm thuốc: Hái thảo', '📜 Tìm thuốc: active → completed']],
+      ['entity', ['✏️ Lâm Phong: realm Luyện Khí → Trúc Cơ']],
+      ['entity', ['✏️ Tiểu Mai: relationship Quen biết → Thân thiết']],
+      ['entity', ['✏️ Lâm Phong: learnedSkills [1] → [2]', '➕ skill: Thanh Phong Kiếm']]
+    ]);
+  });
+
+  it('should flag failing and unsupported tags without applying them', () => {
+    const state = createState({ quests: [{ title: 'Hỏng', description: '', status: 'active', isMainQuest: false } as any] });
+    const { tags } = extractCommandTags('[QUEST_OBJECTIVE_COMPLETED: questTitle="Hỏng", objectiveDescription="x"][UNKNOWN_TAG: a=1][TIME_ELAPSED: minutes=30]');
+
+    const items = previewCommandTags(state, tags, context);
+
+    expect(items[0].error).toBeDefined();
+    expect(items[1].unprocessed).toBe(true);
+    expect(items[2].lines).toEqual(['⏱️ 8:00 1/1/1 → 8:30 1/1/1']);
+  });
+
+  it('should report removed items and statuses', () => {
+    const before = createState({ statuses: [{ name: 'Độc', description: '', type: 'debuff', source: '', owner: 'Thục Nhi' }] });
+    const after = { ...before, statuses: [], knownEntities: Object.fromEntries(Object.entries(before.knownEntities).filter(([name]) => name !== 'Bình Thuốc')) };
+
+    expect(describeCommandTagStateChanges(before, after)).toEqual({
+      category: 'item',
+      lines: ['🗑️ Mất: Bình Thuốc', '💊 Thục Nhi: -Độc']
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import type { Entity, Quest, Status } from '../types';
+import type { ParsedCommandTag } from './commandTagParser';
+import { reduceCommandTags } from './commandTagProcessor';
+import type { CommandTagContext, CommandTagState } from './commandTagProcessor';
+
+export type CommandTagPreviewCategory = 'time' | 'item' | 'entity' | 'status' | 'quest' | 'other';
+
+export interface CommandTagPreviewItem {
+    tag: ParsedCommandTag;
+    category: CommandTagPreviewCategory;
+    lines: string[];        // Mô tả thay đổi dễ đọc, rỗng nếu thẻ không làm gì
+    error?: string;         // Thẻ ném lỗi khi áp dụng thử
+    unprocessed?: boolean;  // Thẻ không được hỗ trợ hoặc thiếu thuộc tính
+}
+
+const formatTime = (time: CommandTagState['gameTime']) =>
+    `${time.hour}:${String(time.minute ?? 0).padStart(2, '0')} ${time.day}/${time.month}/${time.year}`;
+
+const formatValue = (value: any): string => {
+    if (value === undefined || value === null || value === '') return '∅';
+    if (typeof value === 'object') return Array.isArray(value) ? `[${value.length}]` : '{…}';
+    const text = String(value);
+    return text.length > 40 ? `${text.substring(0, 40)}…` : text;
+};
+
+const ownerLabel = (owner: string) => owner === 'pc' ? 'PC' : owner;
+
+const describeEntities = (before: { [key: string]: Entity }, after: { [key: string]: Entity }): { lines: string[]; touchesItems: boolean } => {
+    const lines: string[] = [];
+    let touchesItems = false;
+
+    Object.keys(after).forEach(name => {
+        const previous = before[name];
+        const entity = after[name];
+        if (previous === entity) return;
+        if (entity.type === 'item' || previous?.type === 'item') touchesItems = true;
+
+        if (!previous) {
+            const quantity = entity.quantities ?? entity.uses;
+            lines.push(entity.type === 'item'
+                ? `🎒 Nhận: ${name}${quantity ? ` x${quantity}` : ''}`
+                : `➕ ${entity.type}: ${name}`);
+            return;
+        }
+
+        const changedFields = Array.from(new Set([...Object.keys(previous), ...Object.keys(entity)]))
+            .filter(key => (previous as any)[key] !== (entity as any)[key] && JSON.stringify((previous as any)[key]) !== JSON.stringify((entity as any)[key]));
+        if (changedFields.length > 0) {
+            lines.push(`✏️ ${name}: ${changedFields.map(key => `${key} ${formatValue((previous as any)[key])} → ${formatValue((entity as any)[key])}`).join(', ')}`);
+        }
+    });
+
+    Object.keys(before).forEach(name => {
+        if (after[name]) return;
+        if (before[name].type === 'item') touchesItems = true;
+        lines.push(before[name].type === 'item' ? `🗑️ Mất: ${name}` : `➖ Xóa: ${name}`);
+    });
+
+    return { lines, touchesItems };
+};
+
+const describeStatuses = (before: Status[], after: Status[]): string[] => {
+    const key = (status: Status) => `${status.owner}::${status.name}`;
+    const beforeKeys = new Set(before.map(key));
+    const afterKeys = new Set(after.map(key));
+    return [
+        ...after.filter(s => !beforeKeys.has(key(s))).map(s => `✨ ${ownerLabel(s.owner)}: +${s.name}${s.type ? ` (${s.type})` : ''}`),
+        ...before.filter(s => !afterKeys.has(key(s))).map(s => `💊 ${ownerLabel(s.owner)}: -${s.name}`)
+    ];
+};
+
+const describeQuests = (before: Quest[], after: Quest[]): string[] => {
+    const lines: string[] = [];
+    after.forEach(quest => {
+        const previous = before.find(q => q.title === quest.title);
+        if (!previous) {
+            lines.push(`📜 Nhiệm vụ mới: ${quest.title}`);
+            return;
+        }
+        (quest.objectives || []).forEach(objective => {
+            const old = previous.objectives?.find(o => o.description === objective.description);
+            if (objective.completed && !old?.completed) lines.push(`☑️ ${quest.title}: ${objective.description}`);
+        });
+        if (previous.status !== quest.status) lines.push(`📜 ${quest.title}: ${previous.status} → ${quest.status}`);
+    });
+    return lines;
+};
+
+/**
+ * Mô tả khác biệt giữa hai trạng thái command tag; category là phần thay đổi quan trọng nhất
+ */
+export const describeCommandTagStateChanges = (
+    before: CommandTagState,
+    after: CommandTagState
+): { category: CommandTagPreviewCategory; lines: string[] } => {
+    const lines: string[] = [];
+    const categories: CommandTagPreviewCategory[] = [];
+
+    if (before.gameTime !== after.gameTime) {
+        categories.push('time');
+        lines.push(`⏱️ ${formatTime(before.gameTime)} → ${formatTime(after.gameTime)}`);
+    }
+    if (before.knownEntities !== after.knownEntities) {
+        const entities = describeEntities(before.knownEntities, after.knownEntities);
+        categories.push(entities.touchesItems ? 'item' : 'entity');
+        lines.push(...entities.lines);
+    }
+    if (before.statuses !== after.statuses) {
+        categories.push('status');
+        lines.push(...describeStatuses(before.statuses, after.statuses));
+    }
+    if (before.quests !== after.quests) {
+        categories.push('quest');
+        lines.push(...describeQuests(before.quests, after.quests));
+    }
+    if (before.party !== after.party) {
+        const beforeNames = new Set(before.party.map(member => member.name));
+        const afterNames = new Set(after.party.map(member => member.name));
+        lines.push(
+            ...after.party.filter(m => !beforeNames.has(m.name)).map(m => `👥 +${m.name}`),
+            ...before.party.filter(m => !afterNames.has(m.name)).map(m => `👥 -${m.name}`)
+        );
+    }
+    if (before.memories !== after.memories && after.memories.length > before.memories.length) {
+        lines.push(`🧠 +${after.memories.length - before.memories.length} ký ức`);
+    }
+    if (before.chronicle !== after.chronicle) {
+        lines.push('📖 Cập nhật biên niên sử');
+    }
+    if (before.locationDiscoveryOrder !== after.locationDiscoveryOrder) {
+        after.locationDiscoveryOrder
+            .filter(location => !before.locationDiscoveryOrder.includes(location))
+            .forEach(location => lines.push(`🗺️ Khám phá: ${location}`));
+    }
+
+    return { category: categories[0] || 'other', lines };
+};
+
+/**
+ * Áp dụng thử lần lượt từng thẻ trên trạng thái hiện tại (không commit) để người chơi duyệt trước
+ */
+export const previewCommandTags = (
+    initialState: CommandTagState,
+    tags: ParsedCommandTag[],
+    context: CommandTagContext
+): CommandTagPreviewItem[] => {
+    // Bỏ turnCount để bản chạy thử không ghi log debug trùng với lần commit thật
+    const dryRunContext: CommandTagContext = { ...context, turnCount: undefined };
+    let state = initialState;
+
+    return tags.map(tag => {
+        const reduction = reduceCommandTags(state, [tag], dryRunContext);
+        if (reduction.errors.length > 0) {
+            return { tag, category: 'other', lines: [], error: reduction.errors[0].message };
+        }
+        if (reduction.unprocessedTags.length > 0) {
+            return { tag, category: 'other', lines: [], unprocessed: true };
+        }
+
+        const description = describeCommandTagStateChanges(state, reduction.state);
+        state = reduction.state;
+        return { tag, ...description };
+    });
+};
@@ -0,0 +1,282 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  extractCommandTags,
+  reduceCommandTags,
+  createCommandTagProcessor,
+  CommandTagState
+} from './commandTagProcessor';
+import { createCommandTagState as createState } from '../../src/test/commandTagState';
+
+const context = { regexRules: [], turnCount: 3, worldData: {} };
+
+describe('commandTagProcessor', () => {
+  describe('extractCommandTags', () => {
+    it('should strip tags from the story and parse attributes in order', () => {
+      const { tags, cleanStory } = extractCommandTags(
+        'Bạn nghỉ ngơi.[TIME_ELAPSED: hours=2] Trời tối dần.[STATUS_APPLIED_SELF: name="Mệt mỏi", type=debuff]'
+      );
+
+      expect(cleanStory).toBe('Bạn nghỉ ngơi. Trời tối dần.');
+      expect(tags.map(t => t.type)).toEqual(['TIME_ELAPSED', 'STATUS_APPLIED_SELF']);
+      expect(tags[0].attributes).toEqual({ hours: 2 });
+      expect(tags[1]).toMatchObject({ index: 1, attributes: { name: 'Mệt mỏi', type: 'debuff' } });
+    });
+  });
+
+  describe('reduceCommandTags', () => {
+    it('should return a new state and change log without mutating the input', () => {
+      const state = createState();
+      const snapshot = JSON.parse(JSON.stringify(state));
+      const { tags } = extractCommandTags(
+        '[TIME_ELAPSED: hours=3][QUEST_ASSIGNED: title="Tìm thuốc", description="Hái linh thảo", objectives="Vào rừng;Hái thảo"]'
+      );
+
+      const result = reduceCommandTags(state, tags, context);
+
+      expect(state).toEqual(snapshot);
+      expect(result.errors).toEqual([]);
+      expect(result.state.gameTime).toEqual({ year: 1, month: 1, day: 1, hour: 11, minute: 0 });
+      expect(result.state.quests[0]).toMatchObject({ title: 'Tìm thuốc', status: 'active' });
+      expect(result.changes.map(c => [c.tag.type, c.slices])).toEqual([
+        ['TIME_ELAPSED', ['gameTime']],
+        ['QUEST_ASSIGNED', ['quests']]
+      ]);
+      expect(result.state.statuses).toBe(state.statuses);
+    });
+
+    it('should copy entities and skill arrays instead of mutating the input state', () => {
+      const state = createState({
+        knownEntities: {
+          'Lâm Phong': { name: 'Lâm Phong', type: 'pc', description: 'Thiếu niên', realm: 'Luyện Khí', learnedSkills: ['Cơ Bản Quyền'] },
+          'Tiểu Mai': { name: 'Tiểu Mai', type: 'npc', description: 'Sư muội', relationship: 'Quen biết', skills: ['Ám Khí'] }
+        }
+      });
+      const snapshot = JSON.parse(JSON.stringify(state));
+      const { tags } = extractCommandTags(
+        '[REALM_UPDATE: target="Lâm Phong", realm="Trúc Cơ"]' +
+        '[RELATIONSHIP_CHANGED: npcName="Tiểu Mai", relationship="Thân thiết"]' +
+        '[SKILL_LEARNED: name="Thanh Phong Kiếm", description="Kiếm pháp", learner="Lâm Phong"]' +
+        '[SKILL_LEARNED: name="Phi Hoa Thủ", description="Thủ pháp", learner="Tiểu Mai"]'
+      );
+
+      const result = reduceCommandTags(state, tags, context);
+
+      expect(state).toEqual(snapshot);
+      expect(result.errors).toEqual([]);
+      expect(result.state.knownEntities['Lâm Phong']).toMatchObject({ realm: 'Trúc Cơ', learnedSkills: ['Cơ Bản Quyền', 'Thanh Phong Kiếm'] });
+      expect(result.state.knownEntities['Tiểu Mai']).toMatchObject({ relationship: 'Thân thiết', skills: ['Ám Khí', 'Phi Hoa Thủ'] });
+    });
+
+    it('should advance time using the world calendar month lengths', () => {
+      const calendar = { months: [{ name: 'Tháng Giêng', days: 30 }, { name: 'Tháng Hai', days: 29 }], weekdays: [], eras: [] };
+      const state = createState({ gameTime: { year: 5, month: 2, day: 28, hour: 20, minute: 0 } });
+      const { tags } = extractCommandTags('[TIME_ELAPSED: days=1, hours=6]');
+
+      const result = reduceCommandTags(state, tags, { ...context, worldData: { calendar } });
+
+      expect(result.state.gameTime).toEqual({ year: 6, month: 1, day: 1, hour: 2, minute: 0 });
+    });
+
+    it('should refresh, stack and cap statuses by type rules', () => {
+      const { tags } = extractCommandTags(
+        '[STATUS_APPLIED_SELF: name="Chảy Máu", description="Vết chém", type=injury, duration="3 lượt"]' +
+        '[STATUS_APPLIED_SELF: name="Chảy Máu", description="Vết chém sâu", type=injury, duration="2 lượt"]' +
+        '[STATUS_APPLIED_SELF: name="Hưng Phấn", description="Máu nóng", type=buff, duration="1 lượt"]' +
+        '[STATUS_APPLIED_SELF: name="Hưng Phấn", description="Máu nóng", type=buff, duration="2 lượt", stacking=extend]'
+      );
+
+      const { state } = reduceCommandTags(createState(), tags, context);
+
+      expect(state.statuses.map(s => [s.name, s.stacks, s.remaining?.remaining, s.appliedTurn])).toEqual([
+        ['Chảy Máu', 2, 2, 3],
+        ['Hưng Phấn', undefined, 3, 3]
+      ]);
+    });
+
+    it('should expire timed statuses when time passes and report them', () => {
+      const state = createState({
+        statuses: [
+          { name: 'Say Rượu', description: '', type: 'debuff', source: 'Quán rượu', duration: '2 giờ', owner: 'pc', remaining: { unit: 'minutes', remaining: 120, total: 120 } },
+          { name: 'Choáng', description: '', type: 'debuff', source: 'Đòn đánh', duration: '1 lượt', owner: 'pc', remaining: { unit: 'turns', remaining: 1, total: 1 } }
+        ]
+      });
+      const { tags } = extractCommandTags('[TIME_ELAPSED: hours=3]');
+
+      const result = reduceCommandTags(state, tags, context);
+
+      expect(result.state.statuses.map(s => s.name)).toEqual(['Choáng']);
+      expect(result.statusEvents).toEqual([{ kind: 'expired', name: 'Say Rượu', owner: 'pc' }]);
+      expect(result.changes.map(c => c.slices)).toEqual([['gameTime', 'statuses']]);
+    });
+
+    it('should change resource pools of the PC and keep the party copy in sync', () => {
+      const pc = { name: 'Lâm Phong', type: 'pc' as const, description: 'Thiếu niên', realm: 'Luyện Khí' };
+      const state = createState({ knownEntities: { 'Lâm Phong': pc }, party: [pc] });
+      const { tags } = extractCommandTags('[STAT_CHANGE: target="pc", stat="Sinh Lực", amount=-30][STAT_CHANGE: stat=mp, value=max][STAT_CHANGE: stat="không có", amount=1]');
+
+      const result = reduceCommandTags(state, tags, { ...context, worldData: { realmTiers: [] } });
+
+      expect(result.errors).toEqual([]);
+      expect(result.state.knownEntities['Lâm Phong'].resources).toEqual({ hp: 70, mp: 50 });
+      expect(result.state.party[0].resources).toEqual({ hp: 70, mp: 50 });
+      expect(result.changes.map(c => c.slices)).toEqual([['knownEntities', 'party'], ['knownEntities', 'party']]);
+    });
+
+    it('should move money and stock through currency and trade tags', () => {
+      const pc = { name: 'Lâm Phong', type: 'pc' as const, description: 'Thiếu niên', wallet: { linh_thach: 40 } };
+      const state = createState({ knownEntities: { 'Lâm Phong': pc, 'Lão Trương': { name: 'Lão Trương', type: 'npc', description: '' } }, party: [pc] });
+      const { tags } = extractCommandTags(
+        '[CURRENCY_CHANGE: target="pc", currency="Linh Thạch", amount=20]' +
+        '[MERCHANT_STOCK: merchant="Lão Trương", name="Hồi Khí Đan", description="Hồi linh lực", price=50, quantities=1]' +
+        '[ITEM_BOUGHT: name="Hồi Khí Đan", merchant="Lão Trương"]' +
+        '[CURRENCY_CHANGE: target="pc", amount=-100]'
+      );
+
+      const result = reduceCommandTags(state, tags, context);
+
+      expect(result.errors).toEqual([]);
+      expect(result.state.knownEntities['Lâm Phong'].wallet).toEqual({ linh_thach: 10 });
+      expect(result.state.party[0].wallet).toEqual({ linh_thach: 10 });
+      expect(result.state.knownEntities['Hồi Khí Đan']).toMatchObject({ owner: 'pc', quantities: 1, price: 50 });
+      expect(result.state.knownEntities['Lão Trương'].merchantStock).toEqual([]);
+    });
+
+    it('should award quest rewards across slices when the last objective is completed', () => {
+      const state = createState({
+        quests: [{
+          title: 'Tìm thuốc', description: '', status: 'active', isMainQuest: false, reward: '100 exp',
+          objectives: [{ description: 'Hái thảo', completed: false }]
+        } as any]
+      });
+      const { tags } = extractCommandTags('[QUEST_OBJECTIVE_COMPLETED: questTitle="Tìm thuốc", objectiveDescription="Hái thảo"]');
+
+      const result = reduceCommandTags(state, tags, context);
+
+      expect(result.state.quests[0].status).toBe('completed');
+      expect(result.state.knownEntities['Lâm Phong'].currentExp).toBe(100);
+      expect(result.changes[0].slices).toEqual(['knownEntities', 'quests']);
+    });
+
+    it('should roll back a failing tag and report it without affecting the others', () => {
+      const state = createState({
+        quests: [{ title: 'Hỏng', description: '', status: 'active', isMainQuest: false } as any]
+      });
+      const { tags } = extractCommandTags(
+        '[TIME_ELAPSED: hours=1][QUEST_OBJECTIVE_COMPLETED: questTitle="Hỏng", objectiveDescription="x"][CHRONICLE_CHAPTER: text="Chương 1"]'
+      );
+
+      const result = reduceCommandTags(state, tags, context);
+
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0].tag.type).toBe('QUEST_OBJECTIVE_COMPLETED');
+      expect(result.state.quests).toBe(state.quests);
+      expect(result.state.gameTime.hour).toBe(9);
+      expect(result.state.chronicle.chapter).toEqual(['Chương 1']);
+    });
+
+    it('should collect unknown and attribute-less tags as unprocessed', () => {
+      const { tags } = extractCommandTags('[UNKNOWN_TAG: a=1][TIME_ELAPSED: nothing]');
+
+      const result = reduceCommandTags(createState(), tags, context);
+
+      expect(result.unprocessedTags).toEqual(['[UNKNOWN_TAG: a=1]', '[TIME_ELAPSED: nothing]']);
+      expect(result.changes).toEqual([]);
+    });
+  });
+
+  describe('createCommandTagProcessor', () => {
+    const createProcessor = (state: CommandTagState, extraParams: { reviewChanges?: boolean; onReviewRequested?: (tags: any[]) => void; onStatusEvents?: (events: any[]) => void; rollCheck?: (request: any) => any; onChecksResolved?: (results: any[], loggedInStory: boolean) => void } = {}) => {
+      const setters = {
+        setGameTime: vi.fn(), setChronicle: vi.fn(), setMemories: vi.fn(), setStatuses: vi.fn(),
+        setKnownEntities: vi.fn(), setQuests: vi.fn(), setParty: vi.fn(), setLocationDiscoveryOrder: vi.fn()
+      };
+      const onStateCommitted = vi.fn();
+      const onTagsRejected = vi.fn();
+      const processor = createCommandTagProcessor({
+        ...setters, ...context,
+        getCurrentState: () => state,
+        onStateCommitted,
+        onTagsRejected,
+        ...extraParams
+      });
+      return { processor, setters, onStateCommitted, onTagsRejected };
+    };
+
+    it('should commit only the changed slices at once', () => {
+      const { processor, setters, onStateCommitted } = createProcessor(createState());
+
+      const story = processor.parseStoryAndTags('Bạn đi ngủ.[TIME_ELAPSED: hours=8]', true);
+
+      expect(story).toBe('Bạn đi ngủ.');
+      expect(setters.setGameTime).toHaveBeenCalledWith({ year: 1, month: 1, day: 1, hour: 16, minute: 0 });
+      expect(setters.setKnownEntities).not.toHaveBeenCalled();
+      expect(onStateCommitted).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject the whole turn when a tag fails', () => {
+      const { processor, setters, onTagsRejected } = createProcessor(createState({
+        quests: [{ title: 'Hỏng', description: '', status: 'active', isMainQuest: false } as any]
+      }));
+
+      processor.parseStoryAndTags('[TIME_ELAPSED: hours=1][QUEST_OBJECTIVE_COMPLETED: questTitle="Hỏng", objectiveDescription="x"]', true);
+
+      Object.values(setters).forEach(setter => expect(setter).not.toHaveBeenCalled());
+      expect(onTagsRejected).toHaveBeenCalledWith([expect.objectContaining({ tag: expect.objectContaining({ type: 'QUEST_OBJECTIVE_COMPLETED' }) })]);
+    });
+
+    it('should hand tags to review instead of committing, then commit only the approved ones', () => {
+      const onReviewRequested = vi.fn();
+      const { processor, setters } = createProcessor(createState(), { reviewChanges: true, onReviewRequested });
+
+      const story = processor.parseStoryAndTags('Bạn đi ngủ.[TIME_ELAPSED: hours=8][CHRONICLE_CHAPTER: text="Giấc mơ lạ"]', true);
+
+      expect(story).toBe('Bạn đi ngủ.');
+      Object.values(setters).forEach(setter => expect(setter).not.toHaveBeenCalled());
+      const reviewedTags = onReviewRequested.mock.calls[0][0];
+      expect(reviewedTags.map((t: any) => t.type)).toEqual(['TIME_ELAPSED', 'CHRONICLE_CHAPTER']);
+
+      expect(processor.commitTags([reviewedTags[0]])).toBe(true);
+      expect(setters.setGameTime).toHaveBeenCalledWith({ year: 1, month: 1, day: 1, hour: 16, minute: 0 });
+      expect(setters.setChronicle).not.toHaveBeenCalled();
+    });
+
+    it('should tick turn statuses once per processed response and report expiries', () => {
+      const onStatusEvents = vi.fn();
+      const state = createState({
+        statuses: [{ name: 'Choáng', description: '', type: 'debuff', source: 'Đòn đánh', duration: '1 lượt', owner: 'pc', remaining: { unit: 'turns', remaining: 1, total: 1 }, appliedTurn: 2 }]
+      });
+      const { processor, setters } = createProcessor(state, { onStatusEvents });
+
+      processor.parseStoryAndTags('Bạn tỉnh lại.', true);
+
+      expect(setters.setStatuses).toHaveBeenCalledWith([]);
+      expect(onStatusEvents).toHaveBeenCalledWith([{ kind: 'expired', name: 'Choáng', owner: 'pc' }]);
+    });
+
+    it('should roll CHECK tags only after the turn is committed and log them in the story', () => {
+      const result = { ownerName: 'Lâm Phong', targetName: 'Sức Mạnh', targetKind: 'attribute', roll: 14, modifier: 1, total: 15, dc: 15, outcome: 'success', source: 'ai' };
+      const rollCheck = vi.fn(() => result);
+      const onChecksResolved = vi.fn();
+      const { processor } = createProcessor(createState(), { rollCheck, onChecksResolved });
+
+      const story = processor.parseStoryAndTags('Bạn dồn sức vào cánh cửa.[CHECK: stat="Sức Mạnh", dc=15, reason="phá cửa"]', true);
+
+      expect(rollCheck).toHaveBeenCalledWith({ owner: 'pc', target: 'Sức Mạnh', dc: '15', reason: 'phá cửa', source: 'ai' });
+      expect(onChecksResolved).toHaveBeenCalledWith([result], true);
+      expect(story).toBe('Bạn dồn sức vào cánh cửa.\n\n🎲 **Kiểm tra Sức Mạnh** của Lâm Phong (DC 15): d20 = 14 + 1 = 15 → Thành công');
+
+      const rejected = createProcessor(createState({
+        quests: [{ title: 'Hỏng', description: '', status: 'active', isMainQuest: false } as any]
+      }), { rollCheck, onChecksResolved });
+      rejected.processor.parseStoryAndTags('[CHECK: stat="Sức Mạnh"][QUEST_OBJECTIVE_COMPLETED: questTitle="Hỏng", objectiveDescription="x"]', true);
+      expect(rollCheck).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not touch state when side effects are disabled', () => {
+      const { processor, setters } = createProcessor(createState());
+
+      expect(processor.parseStoryAndTags('Yên tĩnh.[TIME_ELAPSED: hours=1]', false)).toBe('Yên tĩnh.');
+      expect(setters.setGameTime).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { CommandTagRegistry, CommandTagDefinition, commandTagRegistry } from './commandTagRegistry';
+import { extractCommandTags, reduceCommandTags } from './commandTagProcessor';
+import { createCommandTagState as createState } from '../../src/test/commandTagState';
+
+const blessingTag: CommandTagDefinition = {
+  name: 'SHRINE_BLESSING',
+  attributes: { hours: 'string', potency: 'number' },
+  documentation: '[SHRINE_BLESSING: name="Tên", potency=1] - Phúc lành của đền thờ',
+  handle: (attributes, { setStatuses }) => {
+    setStatuses(prev => [...prev, {
+      name: attributes.name, description: `Sức mạnh ${attributes.potency}`, type: 'buff', source: 'Đền thờ', owner: 'pc'
+    }]);
+  }
+};
+
+describe('CommandTagRegistry', () => {
+  it('should register the built-in tags on the default registry', () => {
+    ['ITEM_AQUIRED', 'STATUS_APPLIED_SELF', 'QUEST_UPDATED'].forEach(name => {
+      expect(commandTagRegistry.has(name)).toBe(true);
+    });
+    expect(commandTagRegistry.buildPromptDocumentation()).toContain('[ITEM_AQUIRED:');
+  });
+
+  it('should reject duplicate or invalid names unless replacing', () => {
+    const registry = new CommandTagRegistry([blessingTag]);
+
+    expect(() => registry.register(blessingTag)).toThrow('SHRINE_BLESSING');
+    expect(() => registry.register({ ...blessingTag, name: 'shrine' })).toThrow();
+
+    registry.register({ ...blessingTag, documentation: 'mới' }, { replace: true });
+    expect(registry.get('SHRINE_BLESSING')!.documentation).toBe('mới');
+  });
+
+  it('should apply per-tag attribute schemas when extracting', () => {
+    const registry = new CommandTagRegistry([blessingTag]);
+
+    const { tags } = extractCommandTags('[SHRINE_BLESSING: name="Ánh sáng", potency=3, hours=2][TIME_ELAPSED: hours=2]', registry);
+
+    expect(tags[0].attributes).toEqual({ name: 'Ánh sáng', potency: 3, hours: '2' });
+    expect(tags[1].attributes).toEqual({ hours: 2 });
+  });
+
+  it('should dispatch registered tags through the reducer and document them', () => {
+    const registry = new CommandTagRegistry([blessingTag]);
+    const { tags } = extractCommandTags('[SHRINE_BLESSING: name="Ánh sáng", potency=3]', registry);
+
+    const result = reduceCommandTags(createState(), tags, { regexRules: [], registry });
+
+    expect(result.unprocessedTags).toEqual([]);
+    expect(result.changes[0].slices).toEqual(['statuses']);
+    expect(result.state.statuses[0]).toMatchObject({ name: 'Ánh sáng', description: 'Sức mạnh 3' });
+    expect(registry.buildPromptDocumentation()).toBe('--- THẺ LỆNH ---\n[SHRINE_BLESSING: name="Tên", potency=1] - Phúc lành của đền thờ');
+  });
+
+  it('should not mutate the previous state when built-in item tags update an item', () => {
+    const sword = { name: 'Kiếm', type: 'item' as const, description: '', owner: 'pc', equippable: true, durability: 50 };
+    const state = createState({ knownEntities: { 'Kiếm': sword } });
+    const { tags } = extractCommandTags('[ITEM_EQUIPPED: name="Kiếm"][ITEM_DAMAGED: name="Kiếm", damage=20]');
+
+    const result = reduceCommandTags(state, tags, { regexRules: [] });
+
+    expect(result.state.knownEntities['Kiếm']).toMatchObject({ equipped: true, durability: 30 });
+    expect(sword).toEqual({ name: 'Kiếm', type: 'item', description: '', owner: 'pc', equippable: true, durability: 50 });
+  });
+});
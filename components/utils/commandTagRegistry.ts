@@ -0,0 +1,106 @@
+import type { CommandTagAttributeSchema, CommandTagAttributeType, ParsedCommandTag } from './commandTagParser';
+import { DEFAULT_COMMAND_TAG_SCHEMA } from './commandTagParser';
+import type { CommandTagContext, CommandTagState } from './commandTagProcessor';
+import { BUILTIN_COMMAND_TAGS } from './commandTags';
+import type { CheckRequest } from './skillChecks';
+
+// Setter trên bản nháp của reducer, cùng chữ ký với React setState
+export type CommandTagDraftSetter<T> = (update: T | ((prev: T) => T)) => void;
+
+export interface CommandTagDraftSetters {
+    setGameTime: CommandTagDraftSetter<CommandTagState['gameTime']>;
+    setChronicle: CommandTagDraftSetter<CommandTagState['chronicle']>;
+    setMemories: CommandTagDraftSetter<CommandTagState['memories']>;
+    setStatuses: CommandTagDraftSetter<CommandTagState['statuses']>;
+    setKnownEntities: CommandTagDraftSetter<CommandTagState['knownEntities']>;
+    setQuests: CommandTagDraftSetter<CommandTagState['quests']>;
+    setParty: CommandTagDraftSetter<CommandTagState['party']>;
+    setLocationDiscoveryOrder: CommandTagDraftSetter<CommandTagState['locationDiscoveryOrder']>;
+}
+
+export interface CommandTagHandlerContext extends CommandTagContext, CommandTagDraftSetters {
+    tag: ParsedCommandTag;
+    state: CommandTagState; // Bản nháp ngay trước khi áp dụng thẻ này
+    requestCheck: (request: CheckRequest) => void; // Engine tung xúc xắc sau khi commit lượt
+}
+
+// Khai báo hàm tương ứng với thẻ cho chế độ function calling; mỗi tham số là một JSON Schema
+export interface CommandTagToolSpec {
+    description: string;
+    parameters: { [key: string]: { type: 'string' | 'number' | 'integer' | 'boolean' | 'array'; description?: string; enum?: string[]; items?: { type: 'string' } } };
+    required?: string[];
+}
+
+export interface CommandTagDefinition {
+    name: string;
+    attributes?: { [key: string]: CommandTagAttributeType };
+    documentation?: string; // Đoạn hướng dẫn chèn vào prompt
+    tool?: CommandTagToolSpec; // Có thì thẻ cũng được khai báo thành hàm khi bật function calling
+    handle: (attributes: { [key: string]: any }, context: CommandTagHandlerContext) => void;
+}
+
+/**
+ * Danh sách thẻ lệnh có thể mở rộng. Mỗi thẻ tự khai báo schema thuộc tính, handler
+ * và tài liệu prompt, nên thêm thẻ mới chỉ cần đăng ký một module.
+ */
+export class CommandTagRegistry {
+    private definitions = new Map<string, CommandTagDefinition>();
+
+    constructor(definitions: CommandTagDefinition[] = []) {
+        this.registerAll(definitions);
+    }
+
+    /**
+     * Đăng ký thẻ; ghi đè thẻ đã có phải truyền `replace` để tránh trùng tên ngoài ý muốn
+     */
+    register(definition: CommandTagDefinition, options: { replace?: boolean } = {}): void {
+        if (!/^[A-Z_]+$/.test(definition.name)) {
+            throw new Error(`Tên thẻ lệnh không hợp lệ: "${definition.name}"`);
+        }
+        if (this.definitions.has(definition.name) && !options.replace) {
+            throw new Error(`Thẻ lệnh "${definition.name}" đã được đăng ký`);
+        }
+        this.definitions.set(definition.name, definition);
+    }
+
+    registerAll(definitions: CommandTagDefinition[], options: { replace?: boolean } = {}): void {
+        definitions.forEach(definition => this.register(definition, options));
+    }
+
+    unregister(name: string): boolean {
+        return this.definitions.delete(name);
+    }
+
+    get(name: string): CommandTagDefinition | undefined {
+        return this.definitions.get(name);
+    }
+
+    has(name: string): boolean {
+        return this.definitions.has(name);
+    }
+
+    list(): CommandTagDefinition[] {
+        return Array.from(this.definitions.values());
+    }
+
+    /**
+     * Schema cho bộ phân tích: thuộc tính chung cộng với khai báo riêng của từng thẻ
+     */
+    getAttributeSchema(): CommandTagAttributeSchema {
+        const tags: NonNullable<CommandTagAttributeSchema['tags']> = {};
+        this.definitions.forEach(definition => {
+            if (definition.attributes) tags[definition.name] = definition.attributes;
+        });
+        return { attributes: DEFAULT_COMMAND_TAG_SCHEMA.attributes, tags };
+    }
+
+    buildPromptDocumentation(): string {
+        const snippets = this.list()
+            .filter(definition => definition.documentation)
+            .map(definition => definition.documentation!.trim());
+        if (snippets.length === 0) return '';
+        return `--- THẺ LỆNH ---\n${snippets.join('\n')}`;
+    }
+}
+
+export const commandTagRegistry = new CommandTagRegistry(BUILTIN_COMMAND_TAGS);
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { appendToolCallTags, buildCommandTagTools, formatToolCallAsTag } from './commandTagTools';
+import { CommandTagRegistry } from './commandTagRegistry';
+import { extractCommandTags } from './commandTagProcessor';
+
+describe('commandTagTools', () => {
+  it('should declare tools for tags that opt in, plus TIME_ELAPSED', () => {
+    const registry = new CommandTagRegistry([
+      { name: 'SHRINE_BLESSING', tool: { description: 'Phúc lành', parameters: { name: { type: 'string' } }, required: ['name'] }, handle: () => {} },
+      { name: 'NO_TOOL', handle: () => {} }
+    ]);
+
+    expect(buildCommandTagTools(registry)).toEqual([
+      expect.objectContaining({ name: 'TIME_ELAPSED' }),
+      {
+        name: 'SHRINE_BLESSING',
+        description: 'Phúc lành',
+        parameters: { type: 'object', properties: { name: { type: 'string' } }, required: ['name'] }
+      }
+    ]);
+    expect(buildCommandTagTools().map(tool => tool.name)).toEqual(expect.arrayContaining(['ITEM_AQUIRED', 'STATUS_APPLIED_SELF', 'QUEST_ASSIGNED']));
+  });
+
+  it('should format calls as tags that the parser reads back unchanged', () => {
+    const tag = formatToolCallAsTag({
+      name: 'QUEST_ASSIGNED',
+      args: { title: 'Tìm "Ngọc"', description: 'Dòng 1\nDòng 2', objectives: ['Vào hang', 'Lấy ngọc'], isMainQuest: true, giver: null }
+    });
+
+    expect(tag).toBe('[QUEST_ASSIGNED: title="Tìm \\"Ngọc\\"", description="Dòng 1\\nDòng 2", objectives="Vào hang;Lấy ngọc", isMainQuest=true]');
+    expect(extractCommandTags(tag!).tags[0].attributes).toEqual({
+      title: 'Tìm "Ngọc"',
+      description: 'Dòng 1\nDòng 2',
+      objectives: [{ description: 'Vào hang', completed: false }, { description: 'Lấy ngọc', completed: false }],
+      isMainQuest: true
+    });
+    expect(formatToolCallAsTag({ name: 'lookup_weather', args: {} })).toBeNull();
+  });
+
+  it('should append tags to the story field of JSON responses and to plain text otherwise', () => {
+    const calls = [{ name: 'TIME_ELAPSED', args: { hours: 1 } }];
+
+    expect(JSON.parse(appendToolCallTags('{"story":"Trời tối.","choices":["Ngủ"]}', calls)).story).toBe('Trời tối.\n[TIME_ELAPSED: hours=1]');
+    expect(appendToolCallTags('Trời tối.', calls)).toBe('Trời tối.\n[TIME_ELAPSED: hours=1]');
+    expect(appendToolCallTags('Trời tối.', undefined)).toBe('Trời tối.');
+  });
+});
@@ -0,0 +1,96 @@
+import type { LLMToolCall, LLMToolDeclaration } from './llmProvider';
+import { commandTagRegistry } from './commandTagRegistry';
+import type { CommandTagRegistry, CommandTagToolSpec } from './commandTagRegistry';
+import { parseTurnResponse } from './turnResponse';
+
+// Thẻ được reducer xử lý trực tiếp (không nằm trong registry) nhưng vẫn khai báo thành hàm
+const REDUCER_TAG_TOOLS: { [tagName: string]: CommandTagToolSpec } = {
+    TIME_ELAPSED: {
+        description: 'Thời gian trôi qua trong lượt này; gọi mỗi lượt, kể cả khi bằng 0',
+        parameters: {
+            years: { type: 'integer' },
+            months: { type: 'integer' },
+            days: { type: 'integer' },
+            hours: { type: 'integer' },
+            minutes: { type: 'integer' }
+        }
+    }
+};
+
+const toDeclaration = (name: string, spec: CommandTagToolSpec): LLMToolDeclaration => ({
+    name,
+    description: spec.description,
+    parameters: {
+        type: 'object',
+        properties: spec.parameters,
+        ...(spec.required?.length ? { required: spec.required } : {})
+    }
+});
+
+/** Khai báo hàm cho các thẻ lệnh có `tool`, theo thứ tự đăng ký */
+export const buildCommandTagTools = (registry: CommandTagRegistry = commandTagRegistry): LLMToolDeclaration[] => [
+    ...Object.entries(REDUCER_TAG_TOOLS)
+        .filter(([name]) => !registry.has(name))
+        .map(([name, spec]) => toDeclaration(name, spec)),
+    ...registry.list()
+        .filter(definition => definition.tool)
+        .map(definition => toDeclaration(definition.name, definition.tool!))
+];
+
+/** Hướng dẫn nối vào system instruction: gọi hàm thay cho các thẻ tương ứng, các thẻ khác giữ nguyên */
+export const buildToolCallingInstruction = (tools: LLMToolDeclaration[]): string => `--- GỌI HÀM ---
+Các thao tác sau được cung cấp dưới dạng hàm: ${tools.map(tool => tool.name).join(', ')}.
+Với các thao tác này, hãy GỌI HÀM thay vì viết thẻ lệnh vào "story". Các thẻ lệnh khác vẫn viết trong "story" như cũ.
+Phần văn bản vẫn phải là JSON đầy đủ với "story" và "choices".`;
+
+// Cùng quy tắc escape với bộ phân tích thẻ: \" \\ \n \t
+const quoteAttribute = (value: string): string =>
+    `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n').replace(/\t/g, '\\t')}"`;
+
+const formatAttribute = (value: unknown): string | null => {
+    if (value === null || value === undefined) return null;
+    if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+    if (Array.isArray(value)) return quoteAttribute(value.map(String).join(';')); // objectiveList dùng dấu ;
+    if (typeof value === 'object') return quoteAttribute(JSON.stringify(value));
+    return quoteAttribute(String(value));
+};
+
+/** Chuyển lời gọi hàm thành thẻ lệnh tương đương, null nếu tên hàm không phải tên thẻ */
+export const formatToolCallAsTag = (call: LLMToolCall): string | null => {
+    if (!/^[A-Z_]+$/.test(call.name)) return null;
+    const attributes = Object.entries(call.args)
+        .map(([key, value]) => {
+            const formatted = formatAttribute(value);
+            return /^\w+$/.test(key) && formatted !== null ? `${key}=${formatted}` : null;
+        })
+        .filter((attribute): attribute is string => attribute !== null);
+    return `[${call.name}: ${attributes.join(', ')}]`;
+};
+
+/**
+ * Nối các lời gọi hàm (dưới dạng thẻ lệnh) vào cuối câu chuyện để đi qua cùng bộ xử lý thẻ.
+ * Phản hồi JSON được nối vào trường story; văn bản thường được nối thẳng vào cuối.
+ */
+export const appendToolCallTags = (responseText: string, toolCalls: LLMToolCall[] | undefined): string => {
+    if (!toolCalls?.length) return responseText;
+
+    const tags: string[] = [];
+    toolCalls.forEach(call => {
+        const tag = formatToolCallAsTag(call);
+        if (tag) tags.push(tag);
+        else console.warn(`⚠️ Ignoring call to unknown function "${call.name}"`);
+    });
+    if (tags.length === 0) return responseText;
+
+    const parsed = parseTurnResponse(responseText);
+    if (parsed.response) {
+        return JSON.stringify({ ...parsed.response, story: [parsed.response.story, ...tags].join('\n') });
+    }
+    return [responseText, ...tags].join('\n');
+};
+
+/** Yêu cầu viết câu chuyện khi model chỉ trả về lời gọi hàm */
+export const buildToolCallFollowUpPrompt = (toolCalls: LLMToolCall[]): string => `Các hàm bạn vừa gọi đã được ghi nhận:
+${toolCalls.map(call => `- ${call.name}(${JSON.stringify(call.args)})`).join('\n')}
+
+Bây giờ hãy trả về phản hồi JSON đầy đủ với "story" và "choices" cho lượt này. Không gọi lại các hàm trên.`;
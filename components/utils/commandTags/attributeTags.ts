@@ -0,0 +1,64 @@
+import type { Entity } from '../../types';
+import type { CommandTagDefinition } from '../commandTagRegistry';
+import { applyAttributeChange, computeAttributes, findAttribute, normalizeAttributes } from '../characterAttributes';
+import type { AttributeChange } from '../characterAttributes';
+
+// value nhận số hoặc "max" (hồi đầy tài nguyên)
+const parseChange = (attributes: { [key: string]: any }): AttributeChange => {
+    const value = String(attributes.value ?? '').trim().toLowerCase();
+    return {
+        amount: Number(attributes.amount) || undefined,
+        maxAmount: Number(attributes.maxAmount) || undefined,
+        value: value === 'max' ? 'max' : value !== '' && !isNaN(Number(value)) ? Number(value) : undefined
+    };
+};
+
+export const ATTRIBUTE_COMMAND_TAGS: CommandTagDefinition[] = [
+    {
+        name: 'STAT_CHANGE',
+        attributes: { amount: 'number', maxAmount: 'number' },
+        documentation: '[STAT_CHANGE: target="pc hoặc Tên NPC", stat="hp", amount=-20] - Đổi chỉ số/tài nguyên: amount cộng trừ, value=50 hoặc value="max" để đặt/hồi đầy, maxAmount=10 tăng giới hạn tối đa vĩnh viễn',
+        tool: {
+            description: 'Thay đổi chỉ số hoặc tài nguyên (HP, MP...) của PC hay NPC',
+            parameters: {
+                target: { type: 'string', description: '"pc" hoặc tên NPC chính xác' },
+                stat: { type: 'string', description: 'Id hoặc tên chỉ số' },
+                amount: { type: 'number', description: 'Lượng cộng (dương) hoặc trừ (âm)' },
+                value: { type: 'string', description: 'Đặt thẳng giá trị, hoặc "max" để hồi đầy' },
+                maxAmount: { type: 'number', description: 'Tăng/giảm vĩnh viễn giá trị tối đa của tài nguyên' }
+            },
+            required: ['stat']
+        },
+        handle: (attributes, { setKnownEntities, setParty, worldData, state }) => {
+            const definitions = normalizeAttributes(worldData?.attributes);
+            const definition = findAttribute(definitions, attributes.stat);
+            if (!definition) {
+                console.warn(`⚠️ STAT_CHANGE: chỉ số "${attributes.stat}" không tồn tại trong thế giới này`);
+                return;
+            }
+
+            const target = String(attributes.target || 'pc').trim();
+            const entity = target === 'pc'
+                ? Object.values(state.knownEntities).find(e => e.type === 'pc')
+                : state.knownEntities[target];
+            if (!entity) {
+                console.warn(`⚠️ STAT_CHANGE: không tìm thấy nhân vật "${target}"`);
+                return;
+            }
+
+            const attribute = computeAttributes(entity, [definition], {
+                realmTiers: worldData?.realmTiers,
+                statuses: state.statuses,
+                knownEntities: state.knownEntities
+            })[0];
+            const updated = applyAttributeChange(entity, attribute, parseChange(attributes));
+            console.log(`📊 ${entity.name}: ${definition.name} → ${definition.kind === 'resource' ? updated.resources?.[definition.id] : updated.stats?.[definition.id]}`);
+
+            setKnownEntities(prev => ({ ...prev, [entity.name]: updated }));
+            // Tổ đội giữ bản sao của nhân vật nên cần đồng bộ chỉ số
+            setParty(prev => prev.map((member: Entity) => member.name === entity.name
+                ? { ...member, stats: updated.stats, resources: updated.resources }
+                : member));
+        }
+    }
+];
@@ -0,0 +1,32 @@
+import type { CommandTagDefinition } from '../commandTagRegistry';
+
+export const CHECK_COMMAND_TAGS: CommandTagDefinition[] = [
+    {
+        name: 'CHECK',
+        documentation: '[CHECK: stat="Sức Mạnh", dc=15, reason="phá cánh cửa đá"] - Yêu cầu engine tung xúc xắc khi kết quả hành động không chắc chắn: stat là chỉ số, hoặc skill="Tên kỹ năng"; target="Tên NPC" nếu NPC thực hiện; dc là số hoặc "dễ"/"thường"/"khó"/"rất khó". KHÔNG tự quyết định kết quả, engine sẽ báo kết quả ở lượt sau',
+        tool: {
+            description: 'Yêu cầu engine tung xúc xắc kiểm tra chỉ số hoặc kỹ năng; kết quả được gửi lại ở lượt sau',
+            parameters: {
+                target: { type: 'string', description: '"pc" hoặc tên NPC thực hiện, mặc định là pc' },
+                stat: { type: 'string', description: 'Id hoặc tên chỉ số được kiểm tra' },
+                skill: { type: 'string', description: 'Tên kỹ năng được kiểm tra (thay cho stat)' },
+                dc: { type: 'string', description: 'Độ khó: số (VD 15) hoặc "dễ", "thường", "khó", "rất khó"' },
+                reason: { type: 'string', description: 'Hành động đang được kiểm tra' }
+            }
+        },
+        handle: (attributes, { requestCheck }) => {
+            const target = String(attributes.stat || attributes.skill || '').trim();
+            if (!target) {
+                console.warn('⚠️ CHECK: thiếu stat hoặc skill để kiểm tra');
+                return;
+            }
+            requestCheck({
+                owner: String(attributes.target || 'pc').trim(),
+                target,
+                dc: attributes.dc,
+                reason: attributes.reason,
+                source: 'ai'
+            });
+        }
+    }
+];
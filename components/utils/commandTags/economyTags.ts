@@ -0,0 +1,133 @@
+import type { Entity, KnownEntities } from '../../types';
+import type { CommandTagDefinition, CommandTagHandlerContext } from '../commandTagRegistry';
+import { adjustBalance, buyItem, findCharacter, findCurrency, formatMoney, normalizeCurrencies, sellItem } from '../economy';
+import type { TradeRequest } from '../economy';
+
+// Tổ đội giữ bản sao của nhân vật nên cần đồng bộ ví
+const commitEntities = (next: KnownEntities, { setKnownEntities, setParty }: CommandTagHandlerContext) => {
+    setKnownEntities(next);
+    setParty(prev => prev.map((member: Entity) => next[member.name]
+        ? { ...member, wallet: next[member.name].wallet }
+        : member));
+};
+
+const toTradeRequest = (attributes: { [key: string]: any }): TradeRequest => ({
+    item: String(attributes.name || '').trim(),
+    merchant: attributes.merchant ? String(attributes.merchant).trim() : undefined,
+    quantity: attributes.quantity,
+    price: typeof attributes.price === 'number' ? attributes.price : undefined,
+    currency: attributes.currency,
+    description: attributes.description
+});
+
+const tradeParameters = {
+    name: { type: 'string' as const, description: 'Tên vật phẩm chính xác' },
+    merchant: { type: 'string' as const, description: 'Tên NPC thương nhân' },
+    quantity: { type: 'integer' as const },
+    price: { type: 'number' as const, description: 'Giá một đơn vị cho hàng chưa niêm yết; bỏ trống để dùng giá niêm yết' },
+    currency: { type: 'string' as const, description: 'Id hoặc tên tiền tệ' }
+};
+
+export const ECONOMY_COMMAND_TAGS: CommandTagDefinition[] = [
+    {
+        name: 'CURRENCY_CHANGE',
+        attributes: { amount: 'number' },
+        documentation: '[CURRENCY_CHANGE: target="pc hoặc Tên NPC", currency="linh_thach", amount=-30] - Nhận (dương) hoặc tiêu (âm) tiền ngoài việc mua bán; KHÔNG dùng ITEM_AQUIRED cho tiền',
+        tool: {
+            description: 'Cộng hoặc trừ tiền trong ví của PC hay NPC',
+            parameters: {
+                target: { type: 'string', description: '"pc" hoặc tên NPC chính xác' },
+                currency: { type: 'string', description: 'Id hoặc tên tiền tệ' },
+                amount: { type: 'number', description: 'Số tiền nhận (dương) hoặc tiêu (âm)' }
+            },
+            required: ['amount']
+        },
+        handle: (attributes, context) => {
+            const currency = findCurrency(normalizeCurrencies(context.worldData?.currencies), attributes.currency);
+            const entity = findCharacter(context.state.knownEntities, attributes.target);
+            if (!currency || !entity) {
+                console.warn(`⚠️ CURRENCY_CHANGE: không tìm thấy ${!currency ? `tiền tệ "${attributes.currency}"` : `nhân vật "${attributes.target}"`}`);
+                return;
+            }
+            const updated = adjustBalance(entity, currency.id, Number(attributes.amount) || 0);
+            if (!updated) {
+                console.warn(`⚠️ CURRENCY_CHANGE: ${entity.name} không đủ ${formatMoney(Math.abs(attributes.amount), currency)}`);
+                return;
+            }
+            commitEntities({ ...context.state.knownEntities, [entity.name]: updated }, context);
+        }
+    },
+    {
+        name: 'MERCHANT_STOCK',
+        attributes: { price: 'number', quantities: 'number', usable: 'boolean', equippable: 'boolean', consumable: 'boolean', durability: 'number' },
+        documentation: '[MERCHANT_STOCK: merchant="Tên NPC", name="Tên vật phẩm", description="Mô tả", price=50, currency="linh_thach", quantities=3, equippable=true, statBonuses="str:+2"] - Thêm/cập nhật hàng NPC thương nhân đang bán, bỏ quantities nếu không giới hạn',
+        tool: {
+            description: 'Thêm hoặc cập nhật một món hàng trong cửa hàng của NPC thương nhân',
+            parameters: {
+                merchant: { type: 'string', description: 'Tên NPC thương nhân' },
+                name: { type: 'string' },
+                description: { type: 'string' },
+                price: { type: 'number', description: 'Giá một đơn vị' },
+                currency: { type: 'string', description: 'Id hoặc tên tiền tệ' },
+                quantities: { type: 'integer', description: 'Số lượng còn bán; bỏ trống nếu không giới hạn' },
+                usable: { type: 'boolean' },
+                equippable: { type: 'boolean' },
+                consumable: { type: 'boolean' },
+                durability: { type: 'number' },
+                statBonuses: { type: 'string', description: 'Chỉ số cộng thêm khi trang bị, VD "str:+2;hp:+20"' }
+            },
+            required: ['merchant', 'name', 'price']
+        },
+        handle: (attributes, context) => {
+            const { merchant: merchantName, currency: currencyKey, ...itemAttributes } = attributes;
+            const merchant = context.state.knownEntities[merchantName];
+            const currency = findCurrency(normalizeCurrencies(context.worldData?.currencies), currencyKey);
+            if (!merchant || !currency || !itemAttributes.name) {
+                console.warn(`⚠️ MERCHANT_STOCK: thiếu thương nhân, tiền tệ hoặc tên vật phẩm (${merchantName}, ${currencyKey}, ${itemAttributes.name})`);
+                return;
+            }
+            const stock = (merchant.merchantStock || []).filter(item => item.name !== itemAttributes.name);
+            const previous = merchant.merchantStock?.find(item => item.name === itemAttributes.name);
+            const stockItem: Entity = { description: '', ...previous, ...itemAttributes, name: itemAttributes.name, type: 'item', priceCurrency: currency.id };
+            context.setKnownEntities(prev => ({ ...prev, [merchant.name]: { ...merchant, merchantStock: [...stock, stockItem] } }));
+        }
+    },
+    {
+        name: 'ITEM_BOUGHT',
+        attributes: { quantity: 'number', price: 'number' },
+        documentation: '[ITEM_BOUGHT: name="Tên vật phẩm", merchant="Tên NPC", quantity=1] - PC mua vật phẩm; engine kiểm tra số dư, trừ tiền và chuyển hàng vào túi đồ (price/currency chỉ cần khi hàng chưa niêm yết)',
+        tool: {
+            description: 'PC mua vật phẩm; engine kiểm tra và trừ tiền',
+            parameters: { ...tradeParameters, description: { type: 'string', description: 'Mô tả nếu hàng chưa có trong cửa hàng' } },
+            required: ['name']
+        },
+        handle: (attributes, context) => {
+            const outcome = buyItem(context.state.knownEntities, toTradeRequest(attributes), normalizeCurrencies(context.worldData?.currencies));
+            if (!outcome.ok) {
+                console.warn(`⚠️ ITEM_BOUGHT: ${outcome.error}`);
+                return;
+            }
+            console.log(`💰 Mua ${outcome.quantity} ${attributes.name}: -${formatMoney(outcome.total, outcome.currency)}`);
+            commitEntities(outcome.knownEntities, context);
+        }
+    },
+    {
+        name: 'ITEM_SOLD',
+        attributes: { quantity: 'number', price: 'number' },
+        documentation: '[ITEM_SOLD: name="Tên vật phẩm", merchant="Tên NPC", quantity=1, price=20] - PC bán vật phẩm trong túi đồ; bỏ price để bán với một nửa giá niêm yết (price không được vượt mức này)',
+        tool: {
+            description: 'PC bán vật phẩm trong túi đồ; engine cộng tiền và chuyển hàng cho thương nhân',
+            parameters: tradeParameters,
+            required: ['name']
+        },
+        handle: (attributes, context) => {
+            const outcome = sellItem(context.state.knownEntities, toTradeRequest(attributes), normalizeCurrencies(context.worldData?.currencies));
+            if (!outcome.ok) {
+                console.warn(`⚠️ ITEM_SOLD: ${outcome.error}`);
+                return;
+            }
+            console.log(`💰 Bán ${outcome.quantity} ${attributes.name}: +${formatMoney(outcome.total, outcome.currency)}`);
+            commitEntities(outcome.knownEntities, context);
+        }
+    }
+];
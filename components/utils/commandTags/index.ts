@@ -0,0 +1,19 @@
+import type { CommandTagDefinition } from '../commandTagRegistry';
+import { STATUS_COMMAND_TAGS } from './statusTags';
+import { ITEM_COMMAND_TAGS } from './itemTags';
+import { QUEST_COMMAND_TAGS } from './questTags';
+import { ATTRIBUTE_COMMAND_TAGS } from './attributeTags';
+import { CHECK_COMMAND_TAGS } from './checkTags';
+import { ECONOMY_COMMAND_TAGS } from './economyTags';
+
+export { STATUS_COMMAND_TAGS, ITEM_COMMAND_TAGS, QUEST_COMMAND_TAGS, ATTRIBUTE_COMMAND_TAGS, CHECK_COMMAND_TAGS, ECONOMY_COMMAND_TAGS };
+
+// Các thẻ có sẵn được đăng ký vào registry mặc định
+export const BUILTIN_COMMAND_TAGS: CommandTagDefinition[] = [
+    ...STATUS_COMMAND_TAGS,
+    ...ITEM_COMMAND_TAGS,
+    ...QUEST_COMMAND_TAGS,
+    ...ATTRIBUTE_COMMAND_TAGS,
+    ...CHECK_COMMAND_TAGS,
+    ...ECONOMY_COMMAND_TAGS
+];
@@ -0,0 +1,250 @@
+import type { Entity } from '../../types';
+import type { CommandTagDefinition } from '../commandTagRegistry';
+import { ReferenceIdGenerator } from '../ReferenceIdGenerator';
+
+// ITEM_DISCARDED và ITEM_LOST đều xóa hẳn vật phẩm khỏi túi đồ của PC
+const removePlayerItem: CommandTagDefinition['handle'] = (attributes, { setKnownEntities }) => {
+    setKnownEntities(prev => {
+        const newEntities = { ...prev };
+        const item = newEntities[attributes.name];
+        if (item && item.owner === 'pc') {
+            // Completely remove the item from the player's knowledge
+            delete newEntities[attributes.name];
+            console.log(`🗑️ Item discarded: ${attributes.name} has been removed from inventory`);
+        }
+        return newEntities;
+    });
+};
+
+export const ITEM_COMMAND_TAGS: CommandTagDefinition[] = [
+    {
+        name: 'ITEM_AQUIRED',
+        attributes: { name: 'string', description: 'string', quantities: 'number', usable: 'boolean', equippable: 'boolean', consumable: 'boolean', durability: 'number', price: 'number' },
+        documentation: '[ITEM_AQUIRED: name="Tên", description="Mô tả", quantities=1, usable=true, equippable=false, durability=100, statBonuses="str:+2;hp:+20", price=50, priceCurrency="linh_thach"] - Nhận vật phẩm, cộng dồn nếu đã có; statBonuses cộng chỉ số khi trang bị; price là giá trị một đơn vị',
+        tool: {
+            description: 'PC nhận vật phẩm; cộng dồn số lượng nếu đã có',
+            parameters: {
+                name: { type: 'string' },
+                description: { type: 'string' },
+                quantities: { type: 'integer' },
+                usable: { type: 'boolean' },
+                equippable: { type: 'boolean' },
+                consumable: { type: 'boolean' },
+                durability: { type: 'number' },
+                statBonuses: { type: 'string', description: 'Chỉ số cộng thêm khi trang bị, VD "str:+2;hp:+20"' },
+                price: { type: 'number', description: 'Giá trị một đơn vị' },
+                priceCurrency: { type: 'string', description: 'Id tiền tệ của giá' }
+            },
+            required: ['name', 'description']
+        },
+        handle: (attributes, { setKnownEntities }) => {
+            if (!attributes.name) {
+                console.warn('⚠️ ITEM_AQUIRED: thiếu tên vật phẩm');
+                return;
+            }
+            setKnownEntities(prev => {
+                const existingItem = prev[attributes.name];
+
+                if (existingItem && existingItem.type === 'item' && existingItem.owner === 'pc') {
+                    // Item already exists - stack quantities
+                    const newQuantity = (attributes.quantities || 1);
+                    const existingQuantity = existingItem.quantities || existingItem.uses || 1;
+                    const totalQuantity = existingQuantity + newQuantity;
+
+                    const updatedItem: Entity = {
+                        ...existingItem,
+                        ...attributes, // Apply new attributes (like description updates)
+                        name: attributes.name, // Ensure name is preserved
+                        quantities: existingItem.quantities ? totalQuantity : undefined,
+                        uses: existingItem.uses ? totalQuantity : undefined
+                    };
+
+                    // If neither quantities nor uses existed, add quantities
+                    if (!existingItem.quantities && !existingItem.uses) {
+                        updatedItem.quantities = totalQuantity;
+                    }
+
+                    console.log(`📦 Stacked item: ${attributes.name} (${existingQuantity} + ${newQuantity} = ${totalQuantity})`);
+                    return { ...prev, [attributes.name]: updatedItem };
+                } else {
+                    // New item or different owner - create new entry
+                    const newItem: Entity = {
+                        type: 'item',
+                        owner: 'pc',
+                        referenceId: ReferenceIdGenerator.generateReferenceId(attributes.name, 'item'),
+                        ...attributes,
+                        name: attributes.name,
+                        description: attributes.description ?? ''
+                    };
+                    console.log(`🔗 Generated reference ID for acquired item ${attributes.name}: ${newItem.referenceId}`);
+                    return { ...prev, [attributes.name]: newItem };
+                }
+            });
+        }
+    },
+    {
+        name: 'ITEM_CONSUMED',
+        attributes: { name: 'string', quantity: 'number', quantities: 'number' },
+        documentation: '[ITEM_CONSUMED: name="Tên Item", quantity=1] - Sử dụng/tiêu thụ hoặc đưa vật phẩm cho người khác',
+        tool: {
+            description: 'PC sử dụng, tiêu thụ hoặc đưa vật phẩm cho người khác',
+            parameters: { name: { type: 'string', description: 'Tên vật phẩm chính xác' }, quantity: { type: 'integer' } },
+            required: ['name']
+        },
+        handle: (attributes, { setKnownEntities }) => {
+            setKnownEntities(prev => {
+                const newEntities = { ...prev };
+                const itemToConsume = newEntities[attributes.name];
+
+                if (itemToConsume && itemToConsume.type === 'item' && itemToConsume.owner === 'pc') {
+                    // Check quantities first (new system), then uses (legacy)
+                    const currentQuantity = itemToConsume.quantities || itemToConsume.uses;
+                    const quantityToConsume = attributes.quantity || attributes.quantities || 1; // Support quantity parameter
+
+                    // If item has no quantity/uses defined, treat it as single-use item (remove after consumption)
+                    if (typeof currentQuantity !== 'number' || currentQuantity === undefined || currentQuantity === null) {
+                        delete newEntities[attributes.name];
+                        console.log(`🗑️ Single-use item consumed: ${attributes.name} - removed from inventory (no quantity/uses defined)`);
+                    } else if (currentQuantity > quantityToConsume) {
+                        // Decrease quantity/uses by specified amount
+                        const newQuantity = currentQuantity - quantityToConsume;
+                        if (newQuantity > 0) {
+                            if (itemToConsume.quantities) {
+                                newEntities[attributes.name] = {
+                                    ...itemToConsume,
+                                    quantities: newQuantity,
+                                };
+                            } else if (itemToConsume.uses) {
+                                newEntities[attributes.name] = {
+                                    ...itemToConsume,
+                                    uses: newQuantity,
+                                };
+                            }
+                            console.log(`📦 Item consumed: ${attributes.name} - consumed ${quantityToConsume}, now has ${newQuantity} remaining`);
+                        } else {
+                            // Remove item if new quantity would be 0 or negative
+                            delete newEntities[attributes.name];
+                            console.log(`🗑️ Item completely consumed: ${attributes.name} - consumed ${quantityToConsume}, removed from inventory (reached 0)`);
+                        }
+                    } else {
+                        // Remove item completely when current quantity equals or is less than consumption amount
+                        delete newEntities[attributes.name];
+                        console.log(`🗑️ Item completely consumed: ${attributes.name} - consumed ${quantityToConsume}, removed from inventory (quantity ${currentQuantity} <= consume ${quantityToConsume})`);
+                    }
+                }
+                return newEntities;
+            });
+        }
+    },
+    {
+        name: 'ITEM_EQUIPPED',
+        documentation: '[ITEM_EQUIPPED: name="Tên Item"] - Trang bị vật phẩm có equippable=true',
+        tool: { description: 'PC trang bị vật phẩm có equippable=true', parameters: { name: { type: 'string', description: 'Tên vật phẩm chính xác' } }, required: ['name'] },
+        handle: (attributes, { setKnownEntities }) => {
+            setKnownEntities(prev => {
+                const newEntities = { ...prev };
+                const item = newEntities[attributes.name];
+                if (item && item.owner === 'pc' && item.equippable) {
+                    newEntities[attributes.name] = { ...item, equipped: true };
+                }
+                return newEntities;
+            });
+        }
+    },
+    {
+        name: 'ITEM_UNEQUIPPED',
+        documentation: '[ITEM_UNEQUIPPED: name="Tên Item"]',
+        tool: { description: 'PC tháo trang bị', parameters: { name: { type: 'string', description: 'Tên vật phẩm chính xác' } }, required: ['name'] },
+        handle: (attributes, { setKnownEntities }) => {
+            setKnownEntities(prev => {
+                const newEntities = { ...prev };
+                const item = newEntities[attributes.name];
+                if (item && item.owner === 'pc') {
+                    newEntities[attributes.name] = { ...item, equipped: false };
+                }
+                return newEntities;
+            });
+        }
+    },
+    {
+        name: 'ITEM_TRANSFORMED',
+        documentation: '[ITEM_TRANSFORMED: oldName="Tên cũ", newName="Tên mới", description="Mô tả mới"]',
+        handle: (attributes, { setKnownEntities }) => {
+            setKnownEntities(prev => {
+                const { oldName, newName, description, ...rest } = attributes;
+                if (!oldName || !newName) return prev;
+
+                const newEntities = { ...prev };
+                const oldItem = newEntities[oldName];
+
+                if (oldItem) delete newEntities[oldName];
+
+                const newItem: Entity = {
+                    ...rest,
+                    name: newName,
+                    type: 'item',
+                    owner: oldItem?.owner || 'pc',
+                    description: description || `Vật phẩm được biến đổi từ ${oldName}.`,
+                };
+
+                newEntities[newName] = newItem;
+
+                return newEntities;
+            });
+        }
+    },
+    {
+        name: 'ITEM_UPDATED',
+        documentation: '[ITEM_UPDATED: name="Tên Item", ...thuộc tính mới]',
+        handle: (attributes, { setKnownEntities }) => {
+            setKnownEntities(prev => {
+                const newEntities = { ...prev };
+                if (newEntities[attributes.name] && newEntities[attributes.name].owner === 'pc') {
+                    newEntities[attributes.name] = { ...newEntities[attributes.name], ...attributes };
+                }
+                return newEntities;
+            });
+        }
+    },
+    {
+        name: 'ITEM_DAMAGED',
+        attributes: { name: 'string', damage: 'number' },
+        documentation: '[ITEM_DAMAGED: name="Tên Item", damage=10]',
+        handle: (attributes, { setKnownEntities }) => {
+            setKnownEntities(prev => {
+                const newEntities = { ...prev };
+                const item = newEntities[attributes.name];
+                if (item && typeof item.durability === 'number') {
+                    newEntities[attributes.name] = { ...item, durability: Math.max(0, item.durability - (attributes.damage || 0)) };
+                }
+                return newEntities;
+            });
+        }
+    },
+    {
+        name: 'ITEM_REPAIRED',
+        attributes: { name: 'string', repairedAmount: 'number' },
+        documentation: '[ITEM_REPAIRED: name="Tên Item", repairedAmount=10]',
+        handle: (attributes, { setKnownEntities }) => {
+            setKnownEntities(prev => {
+                const newEntities = { ...prev };
+                const item = newEntities[attributes.name];
+                if (item && typeof item.durability === 'number') {
+                    newEntities[attributes.name] = { ...item, durability: Math.min(100, item.durability + (attributes.repairedAmount || 0)) };
+                }
+                return newEntities;
+            });
+        }
+    },
+    {
+        name: 'ITEM_DISCARDED',
+        documentation: '[ITEM_DISCARDED: name="Tên Item"] - Vứt bỏ, xóa khỏi túi đồ',
+        tool: { description: 'PC vứt bỏ vật phẩm, xóa khỏi túi đồ', parameters: { name: { type: 'string', description: 'Tên vật phẩm chính xác' } }, required: ['name'] },
+        handle: removePlayerItem
+    },
+    {
+        name: 'ITEM_LOST',
+        documentation: '[ITEM_LOST: name="Tên Item"] - Đánh mất, xóa khỏi túi đồ',
+        handle: removePlayerItem
+    }
+];
@@ -0,0 +1,30 @@
+import type { Entity } from '../../types';
+
+// Helper function to check and update realm progression
+export const checkRealmProgression = (entity: Entity, worldData: any): Entity => {
+    if (!entity || entity.type !== 'pc' || !worldData?.realmTiers || !entity.currentExp) {
+        return entity;
+    }
+
+    const { realmTiers } = worldData;
+    const currentExp = entity.currentExp;
+    let newRealm = entity.realm;
+
+    // Find the highest realm tier the player qualifies for
+    for (let i = realmTiers.length - 1; i >= 0; i--) {
+        const tier = realmTiers[i];
+        if (currentExp >= tier.requiredExp) {
+            newRealm = tier.name;
+            break;
+        }
+    }
+
+    // If realm changed, log and return updated entity
+    if (newRealm !== entity.realm) {
+        console.log(`🌟 Realm progression: ${entity.realm} → ${newRealm} (Exp: ${currentExp})`);
+        // You could also add a status effect here to indicate the breakthrough
+        return { ...entity, realm: newRealm };
+    }
+
+    return entity;
+};
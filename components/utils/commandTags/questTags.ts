@@ -0,0 +1,107 @@
+import type { Quest } from '../../types';
+import type { CommandTagDefinition, CommandTagHandlerContext } from '../commandTagRegistry';
+import { checkRealmProgression } from './progression';
+
+// Cộng kinh nghiệm ghi trong phần thưởng (ví dụ "100 exp", "50 kinh nghiệm") cho PC khi hoàn thành nhiệm vụ
+const awardQuestExperience = (quest: Quest, { setKnownEntities, worldData }: CommandTagHandlerContext) => {
+    const expMatch = quest.reward?.match(/(\d+)\s*(?:exp|kinh nghiệm|experience)/i);
+    if (!expMatch) return;
+
+    const expAmount = parseInt(expMatch[1]);
+    console.log(`🎉 Quest completed: ${quest.title} - Awarding ${expAmount} experience`);
+
+    setKnownEntities(prevEntities => {
+        const newEntities = { ...prevEntities };
+        const pc = Object.values(newEntities).find(e => e.type === 'pc');
+        if (pc) {
+            const currentExp = pc.currentExp || 0;
+            const newExp = currentExp + expAmount;
+            const updatedPc = { ...pc, currentExp: newExp };
+
+            // Check for realm progression
+            newEntities[pc.name] = checkRealmProgression(updatedPc, worldData);
+
+            console.log(`✨ Experience awarded: ${pc.name} gained ${expAmount} exp (${currentExp} → ${newExp})`);
+        }
+        return newEntities;
+    });
+};
+
+export const QUEST_COMMAND_TAGS: CommandTagDefinition[] = [
+    {
+        name: 'QUEST_ASSIGNED',
+        attributes: { objectives: 'objectiveList', isMainQuest: 'boolean' },
+        documentation: '[QUEST_ASSIGNED: title="Tên nhiệm vụ", description="Mô tả", objectives="Mục tiêu 1;Mục tiêu 2", giver="Người giao", reward="Phần thưởng", isMainQuest=false]',
+        tool: {
+            description: 'Giao nhiệm vụ mới cho PC',
+            parameters: {
+                title: { type: 'string' },
+                description: { type: 'string' },
+                objectives: { type: 'array', items: { type: 'string' } },
+                giver: { type: 'string' },
+                reward: { type: 'string' },
+                isMainQuest: { type: 'boolean' }
+            },
+            required: ['title', 'description', 'objectives']
+        },
+        handle: (attributes, { setQuests }) => {
+            const newQuest: Quest = {
+                title: attributes.title,
+                description: attributes.description,
+                objectives: attributes.objectives || [],
+                giver: attributes.giver,
+                reward: attributes.reward,
+                isMainQuest: attributes.isMainQuest || false,
+                status: 'active'
+            };
+            setQuests(prev => [...prev.filter(q => q.title !== newQuest.title), newQuest]);
+        }
+    },
+    {
+        name: 'QUEST_UPDATED',
+        documentation: '[QUEST_UPDATED: title="...", status="completed|failed"] - Kinh nghiệm trong phần thưởng được cộng tự động khi completed',
+        tool: {
+            description: 'Kết thúc nhiệm vụ; kinh nghiệm trong phần thưởng được cộng tự động khi completed',
+            parameters: { title: { type: 'string' }, status: { type: 'string', enum: ['completed', 'failed'] } },
+            required: ['title', 'status']
+        },
+        handle: (attributes, context) => {
+            context.setQuests(prev => prev.map(q => {
+                if (q.title !== attributes.title) return q;
+
+                if (attributes.status === 'completed' && q.reward) {
+                    awardQuestExperience(q, context);
+                }
+                return { ...q, status: attributes.status };
+            }));
+        }
+    },
+    {
+        name: 'QUEST_OBJECTIVE_COMPLETED',
+        documentation: '[QUEST_OBJECTIVE_COMPLETED: questTitle="...", objectiveDescription="..."]',
+        tool: {
+            description: 'Đánh dấu một mục tiêu của nhiệm vụ đã hoàn thành',
+            parameters: { questTitle: { type: 'string' }, objectiveDescription: { type: 'string' } },
+            required: ['questTitle', 'objectiveDescription']
+        },
+        handle: (attributes, context) => {
+            context.setQuests(prev => prev.map(q => {
+                if (q.title !== attributes.questTitle) return q;
+
+                const newObjectives = q.objectives.map(obj =>
+                    obj.description === attributes.objectiveDescription ? { ...obj, completed: true } : obj
+                );
+                const allCompleted = newObjectives.every(obj => obj.completed);
+
+                if (allCompleted && q.reward) {
+                    awardQuestExperience(q, context);
+                }
+                return {
+                    ...q,
+                    objectives: newObjectives,
+                    status: allCompleted ? 'completed' : q.status
+                };
+            }));
+        }
+    }
+];
@@ -0,0 +1,167 @@
+import type { Status, WorldCalendar } from '../../types';
+import type { CommandTagDefinition, CommandTagToolSpec } from '../commandTagRegistry';
+import { partyDebugger } from '../partyDebugger';
+import { parseStacking, parseStatusDuration, STATUS_TYPE_RULES } from '../statusDurations';
+import { normalizeCalendar } from '../worldCalendar';
+
+/**
+ * Áp dụng trạng thái theo quy tắc của loại (hoặc stacking/maxStacks trên thẻ): áp lại trạng thái cùng tên
+ * sẽ làm mới thời gian, cộng dồn tầng hoặc cộng thêm thời gian; vượt giới hạn theo loại thì bỏ trạng thái cũ nhất.
+ */
+const applyStatusWithLimit = (
+    prevStatuses: Status[],
+    newStatusAttributes: any,
+    owner: string,
+    turnCount?: number,
+    calendar?: WorldCalendar
+): Status[] => {
+    const { npcName: _npcName, stacking, maxStacks, ...attributes } = newStatusAttributes;
+    const incoming: Status = {
+        ...attributes,
+        owner,
+        appliedTurn: turnCount,
+        remaining: parseStatusDuration(attributes.duration, calendar)
+    };
+    if (parseStacking(stacking)) incoming.stacking = parseStacking(stacking);
+    if (Number(maxStacks) >= 1) incoming.maxStacks = Math.floor(Number(maxStacks));
+
+    const newStatusType = incoming.type;
+    if (!newStatusType) {
+        // Failsafe for statuses without a type, just add it.
+        return [...prevStatuses, incoming];
+    }
+
+    const existing = prevStatuses.find(s => s.name === incoming.name && s.owner === owner);
+    const rule = STATUS_TYPE_RULES[newStatusType] || STATUS_TYPE_RULES.neutral;
+    const mode = incoming.stacking || existing?.stacking || rule.stacking;
+    let newStatusToAdd = incoming;
+
+    if (existing) {
+        const stackLimit = incoming.maxStacks || existing.maxStacks || Math.max(rule.maxStacks, mode === 'stack' ? 2 : 1);
+        const extended = mode === 'extend' && existing.remaining && incoming.remaining && existing.remaining.unit === incoming.remaining.unit
+            ? {
+                unit: incoming.remaining.unit,
+                remaining: existing.remaining.remaining + incoming.remaining.remaining,
+                total: existing.remaining.total + incoming.remaining.total
+            }
+            : incoming.remaining;
+        newStatusToAdd = {
+            ...existing,
+            ...incoming,
+            stacking: mode,
+            stacks: mode === 'stack' ? Math.min(stackLimit, (existing.stacks || 1) + 1) : existing.stacks,
+            remaining: extended
+        };
+    }
+
+    // Trạng thái cùng tên được thay bằng bản mới ở cuối danh sách
+    const filteredStatuses = prevStatuses.filter(s => s !== existing);
+    const otherOwnersStatuses = filteredStatuses.filter(s => s.owner !== owner);
+    const ownerStatuses = filteredStatuses.filter(s => s.owner === owner);
+    const ownerStatusesOfType = ownerStatuses.filter(s => s.type === newStatusType);
+    const ownerStatusesOfOtherTypes = ownerStatuses.filter(s => s.type !== newStatusType);
+
+    // Đã đủ giới hạn của loại: chỉ giữ (giới hạn - 1) trạng thái mới nhất
+    const finalOwnerStatusesOfType = ownerStatusesOfType.length >= rule.maxPerOwner
+        ? ownerStatusesOfType.slice(ownerStatusesOfType.length - (rule.maxPerOwner - 1))
+        : ownerStatusesOfType;
+
+    const finalResult = [
+        ...otherOwnersStatuses,
+        ...ownerStatusesOfOtherTypes,
+        ...finalOwnerStatusesOfType,
+        newStatusToAdd
+    ];
+
+    console.log('🔧 Final result:', {
+        totalCount: finalResult.length,
+        newStatusAdded: newStatusToAdd,
+        allStatuses: finalResult.map(s => `${s.name}(${s.owner})`)
+    });
+
+    return finalResult;
+};
+
+const STATUS_ATTRIBUTES = 'name="Tên", description="Mô tả", type="buff/debuff/neutral/injury", effects="Tác động", source="Nguồn gốc", duration="3 lượt/2 giờ/5 ngày/Vĩnh viễn", cureConditions="Điều kiện chữa", tickEffect="Tác động mỗi lượt (tùy chọn)", stacking="refresh/stack/extend (tùy chọn)", statModifiers="str:-2;agi:-1 (tùy chọn)"';
+
+const STATUS_TOOL_PARAMETERS: CommandTagToolSpec['parameters'] = {
+    name: { type: 'string' },
+    description: { type: 'string' },
+    type: { type: 'string', enum: ['buff', 'debuff', 'neutral', 'injury'] },
+    effects: { type: 'string' },
+    source: { type: 'string' },
+    duration: { type: 'string', description: 'Số + đơn vị: "3 lượt", "2 giờ", "5 ngày"; hoặc "Vĩnh viễn"' },
+    cureConditions: { type: 'string' },
+    tickEffect: { type: 'string', description: 'Tác động lặp lại mỗi lượt' },
+    stacking: { type: 'string', enum: ['refresh', 'stack', 'extend'] },
+    maxStacks: { type: 'number' },
+    statModifiers: { type: 'string', description: 'Cộng/trừ chỉ số khi còn hiệu lực, VD "str:-2;agi:-1"' }
+};
+
+const logStatusApplied = (attributes: { [key: string]: any }, owner: string, memberType: 'pc' | 'npc', turnCount?: number) => {
+    partyDebugger.log('STATUS_CHANGE', `✨ Status applied to ${owner === 'pc' ? 'PC' : owner}: ${attributes.name}`, {
+        memberName: owner,
+        memberType,
+        status: {
+            name: attributes.name,
+            type: attributes.type,
+            description: attributes.description,
+            duration: attributes.duration,
+            source: attributes.source
+        },
+        action: 'APPLIED'
+    }, turnCount);
+};
+
+export const STATUS_COMMAND_TAGS: CommandTagDefinition[] = [
+    {
+        name: 'STATUS_APPLIED_SELF',
+        documentation: `[STATUS_APPLIED_SELF: ${STATUS_ATTRIBUTES}] - Trạng thái của PC`,
+        tool: { description: 'Áp dụng trạng thái lên PC', parameters: STATUS_TOOL_PARAMETERS, required: ['name', 'description', 'type'] },
+        handle: (attributes, { setStatuses, turnCount, worldData }) => {
+            setStatuses(prev => {
+                const newStatuses = applyStatusWithLimit(prev, attributes, 'pc', turnCount, normalizeCalendar(worldData?.calendar));
+                // Log status change for PC
+                if (turnCount && !prev.some(s => s.name === attributes.name && s.owner === 'pc')) {
+                    logStatusApplied(attributes, 'pc', 'pc', turnCount);
+                }
+                return newStatuses;
+            });
+        }
+    },
+    {
+        name: 'STATUS_APPLIED_NPC',
+        documentation: `[STATUS_APPLIED_NPC: npcName="Tên NPC CHÍNH XÁC", ${STATUS_ATTRIBUTES}] - Trạng thái của NPC`,
+        tool: {
+            description: 'Áp dụng trạng thái lên NPC',
+            parameters: { npcName: { type: 'string', description: 'Tên NPC chính xác' }, ...STATUS_TOOL_PARAMETERS },
+            required: ['npcName', 'name', 'description', 'type']
+        },
+        handle: (attributes, { setStatuses, turnCount, worldData }) => {
+            setStatuses(prev => {
+                const newStatuses = applyStatusWithLimit(prev, attributes, attributes.npcName, turnCount, normalizeCalendar(worldData?.calendar));
+                // Log status change for NPC
+                if (turnCount && !prev.some(s => s.name === attributes.name && s.owner === attributes.npcName)) {
+                    logStatusApplied(attributes, attributes.npcName, 'npc', turnCount);
+                }
+                return newStatuses;
+            });
+        }
+    },
+    {
+        name: 'STATUS_CURED_SELF',
+        documentation: '[STATUS_CURED_SELF: name="Tên Trạng Thái"]',
+        tool: { description: 'Gỡ trạng thái khỏi PC', parameters: { name: { type: 'string' } }, required: ['name'] },
+        handle: (attributes, { setStatuses }) => {
+            setStatuses(prev => prev.filter(s => !(s.name === attributes.name && s.owner === 'pc')));
+        }
+    },
+    {
+        name: 'STATUS_CURED_NPC',
+        documentation: '[STATUS_CURED_NPC: npcName="Tên NPC", name="Tên Trạng Thái"]',
+        tool: { description: 'Gỡ trạng thái khỏi NPC', parameters: { npcName: { type: 'string' }, name: { type: 'string' } }, required: ['npcName', 'name'] },
+        handle: (attributes, { setStatuses }) => {
+            setStatuses(prev => prev.filter(s => !(s.name === attributes.name && s.owner === attributes.npcName)));
+        }
+    }
+];
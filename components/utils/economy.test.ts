@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import type { KnownEntities } from '../types';
+import { buyItem, createStartingWallet, DEFAULT_CURRENCIES, findCurrency, normalizeCurrencies, sellItem } from './economy';
+
+const knownEntities: KnownEntities = {
+  'Lâm Phong': { name: 'Lâm Phong', type: 'pc', description: '', wallet: { linh_thach: 100 } },
+  'Lão Trương': {
+    name: 'Lão Trương', type: 'npc', description: '', wallet: { linh_thach: 20 },
+    merchantStock: [{ name: 'Hồi Khí Đan', type: 'item', description: 'Hồi linh lực', price: 30, priceCurrency: 'linh_thach', quantities: 2 }]
+  },
+  'Thiết Kiếm': { name: 'Thiết Kiếm', type: 'item', description: '', owner: 'pc', price: 50, priceCurrency: 'linh_thach' },
+  'Ngọc Bội': { name: 'Ngọc Bội', type: 'item', description: '', owner: 'pc', price: 40, equipped: true }
+};
+
+describe('economy', () => {
+  it('should normalize currencies and fall back to the defaults for old saves', () => {
+    expect(normalizeCurrencies(undefined)).toEqual(DEFAULT_CURRENCIES);
+    expect(normalizeCurrencies([])).toEqual([]);
+
+    const currencies = normalizeCurrencies([
+      { id: '', name: ' Lượng Bạc ', starting: -5 },
+      { id: 'luong_bac', name: 'Trùng lặp' },
+      { id: 'x', name: '' }
+    ]);
+    expect(currencies).toEqual([{ id: 'luong_bac', name: 'Lượng Bạc', symbol: undefined, starting: 0 }]);
+    expect(findCurrency(DEFAULT_CURRENCIES, 'Linh Thạch')?.id).toBe('linh_thach');
+    expect(findCurrency(DEFAULT_CURRENCIES)?.id).toBe('linh_thach');
+    expect(createStartingWallet(DEFAULT_CURRENCIES)).toEqual({ linh_thach: 10, vang: 0 });
+  });
+
+  it('should charge the player, reduce stock and pay the merchant when buying', () => {
+    const outcome = buyItem(knownEntities, { item: 'hồi khí đan', merchant: 'Lão Trương', quantity: 2 }, DEFAULT_CURRENCIES);
+    if (!outcome.ok) throw new Error(outcome.error);
+
+    expect(outcome.total).toBe(60);
+    expect(outcome.knownEntities['Lâm Phong'].wallet).toEqual({ linh_thach: 40 });
+    expect(outcome.knownEntities['Hồi Khí Đan']).toMatchObject({ owner: 'pc', quantities: 2, price: 30 });
+    expect(outcome.knownEntities['Lão Trương'].wallet).toEqual({ linh_thach: 80 });
+    expect(outcome.knownEntities['Lão Trương'].merchantStock).toEqual([]);
+    expect(knownEntities['Lâm Phong'].wallet).toEqual({ linh_thach: 100 });
+
+    const tooExpensive = buyItem(outcome.knownEntities, { item: 'Linh Đan', price: 50 }, DEFAULT_CURRENCIES);
+    expect(tooExpensive).toMatchObject({ ok: false });
+    expect(buyItem(knownEntities, { item: 'Hồi Khí Đan', merchant: 'Lão Trương', quantity: 3 }, DEFAULT_CURRENCIES)).toMatchObject({ ok: false });
+  });
+
+  it('should sell at half price and refuse equipped items or merchants without funds', () => {
+    const merchants = { ...knownEntities, 'Lão Trương': { ...knownEntities['Lão Trương'], wallet: { linh_thach: 100 } } };
+    const outcome = sellItem(merchants, { item: 'Thiết Kiếm', merchant: 'Lão Trương' }, DEFAULT_CURRENCIES);
+    if (!outcome.ok) throw new Error(outcome.error);
+
+    expect(outcome.total).toBe(25);
+    expect(outcome.knownEntities['Thiết Kiếm']).toBeUndefined();
+    expect(outcome.knownEntities['Lâm Phong'].wallet).toEqual({ linh_thach: 125 });
+    expect(outcome.knownEntities['Lão Trương'].wallet).toEqual({ linh_thach: 75 });
+    expect(outcome.knownEntities['Lão Trương'].merchantStock?.[1]).toMatchObject({ name: 'Thiết Kiếm', quantities: 1, price: 50 });
+    expect(outcome.knownEntities['Lão Trương'].merchantStock?.[1].owner).toBeUndefined();
+
+    expect(sellItem(merchants, { item: 'Ngọc Bội', merchant: 'Lão Trương' }, DEFAULT_CURRENCIES)).toMatchObject({ ok: false });
+    expect(sellItem(knownEntities, { item: 'Thiết Kiếm', merchant: 'Lão Trương' }, DEFAULT_CURRENCIES)).toMatchObject({ ok: false });
+  });
+
+  it('should ignore a tag price or currency that overrides the merchant listing', () => {
+    const outcome = buyItem(knownEntities, { item: 'Hồi Khí Đan', merchant: 'Lão Trương', price: 0, currency: 'vang' }, DEFAULT_CURRENCIES);
+    if (!outcome.ok) throw new Error(outcome.error);
+
+    expect(outcome.total).toBe(30);
+    expect(outcome.currency.id).toBe('linh_thach');
+    expect(outcome.knownEntities['Lâm Phong'].wallet).toEqual({ linh_thach: 70 });
+
+    const unlisted = buyItem(knownEntities, { item: 'Bánh Bao', price: 2 }, DEFAULT_CURRENCIES);
+    expect(unlisted).toMatchObject({ ok: true, total: 2 });
+  });
+
+  it('should cap sale prices at the buyback price and refuse priced sales of unlisted items without a paying merchant', () => {
+    const inflated = sellItem(knownEntities, { item: 'Thiết Kiếm', price: 9999 }, DEFAULT_CURRENCIES);
+    if (!inflated.ok) throw new Error(inflated.error);
+    expect(inflated.total).toBe(25);
+
+    const haggled = sellItem(knownEntities, { item: 'Thiết Kiếm', price: 10 }, DEFAULT_CURRENCIES);
+    expect(haggled).toMatchObject({ ok: true, total: 10 });
+
+    const withTrinket = { ...knownEntities, 'Hòn Đá': { name: 'Hòn Đá', type: 'item' as const, description: '', owner: 'pc' } };
+    expect(sellItem(withTrinket, { item: 'Hòn Đá', price: 500 }, DEFAULT_CURRENCIES)).toMatchObject({ ok: false });
+    const sold = sellItem(withTrinket, { item: 'Hòn Đá', merchant: 'Lão Trương', price: 5 }, DEFAULT_CURRENCIES);
+    if (!sold.ok) throw new Error(sold.error);
+    expect(sold.knownEntities['Lão Trương'].wallet).toEqual({ linh_thach: 15 });
+  });
+});
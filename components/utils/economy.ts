@@ -0,0 +1,211 @@
+import type { CurrencyDefinition, Entity, KnownEntities } from '../types';
+import { ReferenceIdGenerator } from './ReferenceIdGenerator';
+
+/**
+ * Hệ thống tiền tệ: mỗi nhân vật có ví riêng theo từng loại tiền của thế giới,
+ * vật phẩm có giá và thương nhân (NPC có merchantStock) mua bán với nhân vật chính.
+ * Các hàm mua/bán là hàm thuần, dùng chung cho thẻ lệnh và giao diện cửa hàng.
+ */
+
+export type Wallet = { [currencyId: string]: number };
+
+export interface TradeRequest {
+    item: string;               // Tên vật phẩm
+    merchant?: string;          // Tên NPC thương nhân; bỏ trống khi giao dịch không qua cửa hàng
+    quantity?: number;
+    price?: number;             // Giá một đơn vị; bỏ trống thì lấy giá niêm yết
+    currency?: string;          // Id hoặc tên tiền tệ
+    description?: string;       // Mô tả cho vật phẩm chưa có trong kho của thương nhân
+}
+
+export type TradeOutcome =
+    | { ok: true; knownEntities: KnownEntities; quantity: number; total: number; currency: CurrencyDefinition }
+    | { ok: false; error: string };
+
+export const DEFAULT_CURRENCIES: CurrencyDefinition[] = [
+    { id: 'linh_thach', name: 'Linh Thạch', symbol: '💎', starting: 10 },
+    { id: 'vang', name: 'Vàng', symbol: '🪙', starting: 0 }
+];
+
+// Thương nhân thu mua với một nửa giá niêm yết
+export const SELL_PRICE_RATIO = 0.5;
+
+const toCurrencyId = (value: string) =>
+    value.trim().toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/đ/g, 'd').replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+
+/** Làm sạch danh sách tiền tệ; không có (bản lưu cũ) thì dùng mặc định, mảng rỗng nghĩa là tắt */
+export const normalizeCurrencies = (definitions?: CurrencyDefinition[] | null): CurrencyDefinition[] => {
+    if (!Array.isArray(definitions)) return DEFAULT_CURRENCIES;
+
+    const seen = new Set<string>();
+    return definitions
+        .filter(definition => definition && definition.name?.trim())
+        .map(definition => ({
+            id: toCurrencyId(definition.id || definition.name) || toCurrencyId(definition.name),
+            name: definition.name.trim(),
+            symbol: definition.symbol?.trim() || undefined,
+            starting: Math.max(0, Number(definition.starting) || 0)
+        }))
+        .filter(definition => definition.id && !seen.has(definition.id) && seen.add(definition.id));
+};
+
+/** Tìm tiền tệ theo id hoặc tên; không chỉ định thì dùng loại tiền đầu tiên */
+export const findCurrency = (definitions: CurrencyDefinition[], key?: string): CurrencyDefinition | undefined => {
+    if (key === undefined || String(key).trim() === '') return definitions[0];
+    const normalized = toCurrencyId(String(key));
+    return definitions.find(definition => definition.id === normalized || toCurrencyId(definition.name) === normalized);
+};
+
+export const createStartingWallet = (definitions: CurrencyDefinition[]): Wallet =>
+    Object.fromEntries(normalizeCurrencies(definitions).map(definition => [definition.id, definition.starting || 0]));
+
+export const getBalance = (entity: Entity | undefined, currencyId: string): number =>
+    Math.max(0, Number(entity?.wallet?.[currencyId]) || 0);
+
+/** Cộng/trừ tiền; trả về null nếu số dư không đủ */
+export const adjustBalance = (entity: Entity, currencyId: string, amount: number): Entity | null => {
+    const balance = getBalance(entity, currencyId) + Math.round(amount);
+    if (balance < 0) return null;
+    return { ...entity, wallet: { ...entity.wallet, [currencyId]: balance } };
+};
+
+export const findCharacter = (knownEntities: KnownEntities, target?: string): Entity | undefined => {
+    const name = String(target || 'pc').trim();
+    return name === 'pc'
+        ? Object.values(knownEntities).find(entity => entity.type === 'pc')
+        : knownEntities[name];
+};
+
+/** Giá niêm yết của vật phẩm, null nếu chưa định giá */
+export const getItemPrice = (item: Entity, definitions: CurrencyDefinition[]): { amount: number; currency: CurrencyDefinition } | null => {
+    const currency = findCurrency(definitions, item.priceCurrency);
+    if (typeof item.price !== 'number' || !currency) return null;
+    return { amount: item.price, currency };
+};
+
+export const formatMoney = (amount: number, currency: CurrencyDefinition): string => `${amount} ${currency.name}`;
+
+/** VD: "120 Linh Thạch, 5 Vàng" */
+export const formatWallet = (entity: Entity | undefined, definitions: CurrencyDefinition[]): string =>
+    definitions.map(definition => formatMoney(getBalance(entity, definition.id), definition)).join(', ');
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const getQuantity = (item: Entity) => item.quantities ?? item.uses ?? 1;
+
+// Hàng trong kho không có owner; số lượng undefined nghĩa là không giới hạn
+const toStockItem = (item: Entity, quantity: number, price: number, currencyId: string): Entity => {
+    const { owner, equipped, uses, ...rest } = item;
+    return { ...rest, quantities: quantity, price: item.price ?? price, priceCurrency: item.priceCurrency ?? currencyId };
+};
+
+export const buyItem = (knownEntities: KnownEntities, request: TradeRequest, definitions: CurrencyDefinition[]): TradeOutcome => {
+    const pc = findCharacter(knownEntities, 'pc');
+    if (!pc) return { ok: false, error: 'Không tìm thấy nhân vật chính' };
+    const merchant = request.merchant ? knownEntities[request.merchant] : undefined;
+    if (request.merchant && !merchant) return { ok: false, error: `Không tìm thấy thương nhân "${request.merchant}"` };
+
+    const stock = merchant?.merchantStock || [];
+    const stockItem = stock.find(item => sameName(item.name, request.item));
+    const quantity = Math.max(1, Math.floor(Number(request.quantity) || 1));
+    if (stockItem && stockItem.quantities !== undefined && stockItem.quantities < quantity) {
+        return { ok: false, error: `${merchant!.name} chỉ còn ${stockItem.quantities} ${stockItem.name}` };
+    }
+
+    // Hàng đã niêm yết luôn bán theo giá và tiền tệ của cửa hàng; price/currency của thẻ chỉ dùng cho hàng chưa niêm yết
+    const listed = typeof stockItem?.price === 'number';
+    const unitPrice = listed ? stockItem!.price : request.price;
+    if (typeof unitPrice !== 'number' || unitPrice < 0) return { ok: false, error: `"${request.item}" chưa có giá` };
+    const currencyKey = listed ? stockItem!.priceCurrency : request.currency;
+    const currency = findCurrency(definitions, currencyKey);
+    if (!currency) return { ok: false, error: `Tiền tệ "${currencyKey}" không tồn tại trong thế giới này` };
+
+    const total = Math.round(unitPrice * quantity);
+    const paidPc = adjustBalance(pc, currency.id, -total);
+    if (!paidPc) {
+        return { ok: false, error: `Không đủ tiền: cần ${formatMoney(total, currency)}, chỉ có ${formatMoney(getBalance(pc, currency.id), currency)}` };
+    }
+
+    const itemName = stockItem?.name || request.item.trim();
+    const existing = knownEntities[itemName];
+    if (existing && !(existing.type === 'item' && existing.owner === 'pc')) {
+        return { ok: false, error: `Tên "${itemName}" đã được dùng cho một thực thể khác` };
+    }
+
+    const boughtItem: Entity = existing
+        ? { ...existing, quantities: getQuantity(existing) + quantity, uses: undefined }
+        : {
+            description: request.description || '',
+            ...(stockItem ? { ...stockItem } : {}),
+            name: itemName,
+            type: 'item',
+            owner: 'pc',
+            quantities: quantity,
+            price: stockItem?.price ?? unitPrice,
+            priceCurrency: stockItem?.priceCurrency ?? currency.id,
+            referenceId: stockItem?.referenceId || ReferenceIdGenerator.generateReferenceId(itemName, 'item')
+        };
+
+    const next: KnownEntities = { ...knownEntities, [pc.name]: paidPc, [itemName]: boughtItem };
+    if (merchant) {
+        const remainingStock = stockItem
+            ? stock
+                .map(item => item === stockItem && item.quantities !== undefined ? { ...item, quantities: item.quantities - quantity } : item)
+                .filter(item => item.quantities === undefined || item.quantities > 0)
+            : stock;
+        // Thương nhân chỉ nhận tiền khi có ví riêng
+        const paidMerchant = merchant.wallet ? adjustBalance(merchant, currency.id, total)! : merchant;
+        next[merchant.name] = { ...paidMerchant, merchantStock: remainingStock };
+    }
+    return { ok: true, knownEntities: next, quantity, total, currency };
+};
+
+export const sellItem = (knownEntities: KnownEntities, request: TradeRequest, definitions: CurrencyDefinition[]): TradeOutcome => {
+    const pc = findCharacter(knownEntities, 'pc');
+    if (!pc) return { ok: false, error: 'Không tìm thấy nhân vật chính' };
+    const item = knownEntities[request.item];
+    if (!item || item.type !== 'item' || item.owner !== 'pc') return { ok: false, error: `Không có "${request.item}" trong túi đồ` };
+    if (item.equipped) return { ok: false, error: `Hãy gỡ trang bị "${item.name}" trước khi bán` };
+    const merchant = request.merchant ? knownEntities[request.merchant] : undefined;
+    if (request.merchant && !merchant) return { ok: false, error: `Không tìm thấy thương nhân "${request.merchant}"` };
+
+    const quantity = Math.max(1, Math.floor(Number(request.quantity) || 1));
+    const owned = getQuantity(item);
+    if (owned < quantity) return { ok: false, error: `Chỉ có ${owned} ${item.name}` };
+
+    // Vật phẩm đã định giá: price của thẻ chỉ có thể thấp hơn giá thu mua; chưa định giá thì phải có thương nhân trả bằng ví thật
+    const listed = typeof item.price === 'number';
+    if (!listed && request.price !== undefined && !merchant?.wallet) {
+        return { ok: false, error: `"${item.name}" chưa được định giá nên chỉ bán được cho thương nhân có ví` };
+    }
+    const currencyKey = listed ? item.priceCurrency : request.currency;
+    const currency = findCurrency(definitions, currencyKey);
+    if (!currency) return { ok: false, error: `Tiền tệ "${currencyKey}" không tồn tại trong thế giới này` };
+    const buybackPrice = listed ? Math.floor(item.price! * SELL_PRICE_RATIO) : undefined;
+    const unitPrice = buybackPrice !== undefined && request.price !== undefined ? Math.min(request.price, buybackPrice) : request.price ?? buybackPrice;
+    if (typeof unitPrice !== 'number' || unitPrice < 0) return { ok: false, error: `"${item.name}" chưa được định giá` };
+
+    const total = Math.round(unitPrice * quantity);
+    const paidMerchant = merchant?.wallet ? adjustBalance(merchant, currency.id, -total) : merchant;
+    if (merchant && !paidMerchant) return { ok: false, error: `${merchant.name} không đủ tiền để mua (cần ${formatMoney(total, currency)})` };
+
+    const next: KnownEntities = { ...knownEntities, [pc.name]: adjustBalance(pc, currency.id, total)! };
+    if (owned > quantity) {
+        next[item.name] = item.uses !== undefined && item.quantities === undefined
+            ? { ...item, uses: owned - quantity }
+            : { ...item, quantities: owned - quantity };
+    } else {
+        delete next[item.name];
+    }
+    if (merchant && paidMerchant) {
+        const stock = merchant.merchantStock || [];
+        const stocked = stock.find(stockItem => sameName(stockItem.name, item.name));
+        next[merchant.name] = {
+            ...paidMerchant,
+            merchantStock: stocked
+                ? stock.map(stockItem => stockItem === stocked && stockItem.quantities !== undefined ? { ...stockItem, quantities: stockItem.quantities + quantity } : stockItem)
+                : [...stock, toStockItem(item, quantity, unitPrice, currency.id)]
+        };
+    }
+    return { ok: true, knownEntities: next, quantity, total, currency };
+};
@@ -0,0 +1,27 @@
+import { describe, it, expect, vi } from 'vitest';
+import { summarizeHistorySegment } from './historySummarizer';
+import type { LLMTaskModel } from './modelProfiles';
+import type { LLMProvider } from './llmProvider';
+import type { GameHistoryEntry } from '../types';
+
+const entries: GameHistoryEntry[] = [
+  { role: 'user', parts: [{ text: '--- HÀNH ĐỘNG CỦA NGƯỜI CHƠI ---\n"Rời khỏi Thanh Vân Trấn"' }] },
+  { role: 'model', parts: [{ text: JSON.stringify({ story: 'Lâm Phong lên đường tới Hắc Phong Sơn.', choices: ['Nghỉ chân'] }) }] }
+];
+
+describe('historySummarizer', () => {
+  it('should send the compressed turns to the memory profile with its own sampling parameters', async () => {
+    const generate = vi.fn(async () => ({ text: '  Lâm Phong rời trấn, đi về Hắc Phong Sơn.  ', usage: null }));
+    const memoryModel: LLMTaskModel = { provider: { id: 'gemini', model: 'flash', generate } as unknown as LLMProvider, model: 'flash', temperature: 0.2, topK: 10, topP: 0.8 };
+
+    expect(await summarizeHistorySegment(memoryModel, entries, '1-5')).toBe('Lâm Phong rời trấn, đi về Hắc Phong Sơn.');
+    expect(generate).toHaveBeenCalledWith(expect.objectContaining({ task: 'memory', temperature: 0.2, topK: 10, topP: 0.8 }));
+    const request = (generate.mock.calls[0] as unknown[])[0] as { contents: string };
+    expect(request.contents).toContain('Người chơi: Rời khỏi Thanh Vân Trấn');
+    expect(request.contents).toContain('Lâm Phong lên đường tới Hắc Phong Sơn.');
+    expect(request.contents).not.toContain('Nghỉ chân');
+
+    expect(await summarizeHistorySegment({ ...memoryModel, provider: null }, entries, '1-5')).toBeNull();
+    expect(await summarizeHistorySegment(memoryModel, [], '1-5')).toBeNull();
+  });
+});
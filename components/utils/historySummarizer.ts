@@ -0,0 +1,55 @@
+import type { GameHistoryEntry } from '../types';
+import type { LLMTaskModel } from './modelProfiles';
+
+// Giới hạn độ dài mỗi lượt gửi đi để lời gọi tóm tắt luôn rẻ
+const MAX_ENTRY_CHARS = 600;
+
+const SUMMARY_INSTRUCTION = `Bạn là người ghi chép biên niên cho một game RPG. Hãy tóm tắt đoạn diễn biến được cung cấp thành một đoạn văn xuôi ngắn (tối đa 5 câu, dưới 120 từ) bằng tiếng Việt.
+- Giữ lại tên nhân vật, địa điểm, vật phẩm và các quyết định, hậu quả quan trọng
+- Không bịa thêm chi tiết, không đưa ra lựa chọn hay lời bình
+- Chỉ trả về đoạn tóm tắt`;
+
+// Lượt của AI được lưu dạng JSON { story, choices }; lấy phần truyện nếu có
+const extractEntryText = (entry: GameHistoryEntry): string => {
+    const text = entry.parts.map(part => part.text).join('\n');
+    if (entry.role === 'user') {
+        const action = text.match(/--- HÀNH ĐỘNG CỦA NGƯỜI CHƠI ---\n"([^"]+)"/);
+        return action ? `Người chơi: ${action[1]}` : '';
+    }
+    try {
+        const parsed = JSON.parse(text);
+        return typeof parsed.story === 'string' ? parsed.story : text;
+    } catch {
+        return text;
+    }
+};
+
+/**
+ * Nhờ model của hồ sơ "Tóm tắt ký ức" viết lại đoạn lịch sử vừa bị nén thành văn xuôi.
+ * Trả về null khi không có nội dung để tóm tắt hoặc model trả về rỗng.
+ */
+export const summarizeHistorySegment = async (
+    memoryModel: LLMTaskModel,
+    entries: GameHistoryEntry[],
+    turnRange: string,
+    signal?: AbortSignal
+): Promise<string | null> => {
+    if (!memoryModel.provider) return null;
+    const transcript = entries
+        .map(extractEntryText)
+        .filter(text => text.trim().length > 0)
+        .map(text => text.length > MAX_ENTRY_CHARS ? `${text.slice(0, MAX_ENTRY_CHARS)}...` : text)
+        .join('\n\n');
+    if (!transcript) return null;
+
+    const response = await memoryModel.provider.generate({
+        systemInstruction: SUMMARY_INSTRUCTION,
+        contents: `=== DIỄN BIẾN LƯỢT ${turnRange} ===\n${transcript}`,
+        temperature: memoryModel.temperature,
+        topK: memoryModel.topK,
+        topP: memoryModel.topP,
+        signal,
+        task: 'memory'
+    });
+    return response.text.trim() || null;
+};
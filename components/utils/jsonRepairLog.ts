@@ -0,0 +1,50 @@
+import type { JsonRepairKind } from './turnResponse';
+import { createObservableStore } from './observableStore';
+
+// repaired: tự sửa được; reasked: phải yêu cầu model trả lại JSON; failed: vẫn không hợp lệ sau khi hỏi lại
+export type JsonRepairOutcome = 'repaired' | 'reasked' | 'failed';
+
+export interface JsonRepairLogEntry {
+    id: number;
+    timestamp: number;
+    turnCount?: number;
+    outcome: JsonRepairOutcome;
+    repairs: JsonRepairKind[];
+    errors: string[];
+}
+
+export interface JsonRepairLogSnapshot {
+    entries: JsonRepairLogEntry[];
+    // Số lần gặp mỗi loại lỗi/kết quả trong phiên, không bị giới hạn như entries
+    counts: Partial<Record<JsonRepairKind | JsonRepairOutcome, number>>;
+}
+
+const MAX_REPAIR_ENTRIES = 100;
+const EMPTY_SNAPSHOT: JsonRepairLogSnapshot = { entries: [], counts: {} };
+
+/**
+ * Ghi lại mỗi lần phản hồi lượt chơi phải sửa JSON để người viết prompt thấy lỗi nào hay gặp
+ */
+class JsonRepairLogStore {
+    private store = createObservableStore<JsonRepairLogSnapshot>(EMPTY_SNAPSHOT);
+    private nextId = 1;
+
+    public readonly getSnapshot = this.store.getSnapshot;
+    public readonly subscribe = this.store.subscribe;
+    public readonly clear = this.store.reset;
+
+    public record(entry: Omit<JsonRepairLogEntry, 'id' | 'timestamp'>): void {
+        this.store.update(snapshot => {
+            const counts = { ...snapshot.counts };
+            [...entry.repairs, entry.outcome].forEach(key => {
+                counts[key] = (counts[key] ?? 0) + 1;
+            });
+            return {
+                entries: [...snapshot.entries, { ...entry, id: this.nextId++, timestamp: Date.now() }].slice(-MAX_REPAIR_ENTRIES),
+                counts
+            };
+        });
+    }
+}
+
+export const jsonRepairLog = new JsonRepairLogStore();
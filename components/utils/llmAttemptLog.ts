@@ -0,0 +1,27 @@
+import type { LLMAttemptRecord } from './llmRetryPolicy';
+import { createObservableStore } from './observableStore';
+
+export interface LLMAttemptLogEntry extends LLMAttemptRecord {
+    id: number;
+    timestamp: number;
+}
+
+const MAX_ATTEMPT_ENTRIES = 100;
+
+/**
+ * Lưu từng lần gọi AI (kể cả thử lại và chuyển dự phòng) để hiển thị trong bảng nhà phát triển
+ */
+class LLMAttemptLogStore {
+    private store = createObservableStore<LLMAttemptLogEntry[]>([]);
+    private nextId = 1;
+
+    public readonly getEntries = this.store.getSnapshot;
+    public readonly subscribe = this.store.subscribe;
+    public readonly clear = this.store.reset;
+
+    public record(attempt: LLMAttemptRecord): void {
+        this.store.update(entries => [...entries, { ...attempt, id: this.nextId++, timestamp: Date.now() }].slice(-MAX_ATTEMPT_ENTRIES));
+    }
+}
+
+export const llmAttemptLog = new LLMAttemptLogStore();
@@ -0,0 +1,251 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { GoogleGenAI } from '@google/genai';
+import { createLLMProvider, generateStreaming, isAbortError } from './llmProvider';
+import { createGeminiProvider } from './llmProviders/geminiProvider';
+import { createOpenAiCompatibleProvider } from './llmProviders/openAiCompatibleProvider';
+import { createMockProvider, parseMockFixture } from './llmProviders/mockProvider';
+
+// Response giả lập luồng SSE, mỗi sự kiện là một lần read()
+const sseResponse = (events: any[]) => {
+  const encoder = new TextEncoder();
+  const pending = [...events.map(event => `data: ${JSON.stringify(event)}\n\n`), 'data: [DONE]\n\n'];
+  return {
+    ok: true,
+    headers: new Headers({ 'content-type': 'text/event-stream' }),
+    body: {
+      getReader: () => ({
+        read: async () => pending.length > 0
+          ? { value: encoder.encode(pending.shift()), done: false }
+          : { value: undefined, done: true }
+      })
+    }
+  } as unknown as Response;
+};
+
+const errorResponse = (status: number, text: string) => ({ ok: false, status, text: async () => text }) as unknown as Response;
+
+const createFakeGemini = () => {
+  const models = {
+    generateContent: vi.fn(async () => ({ text: ' {"story":"x"} ', usageMetadata: { totalTokenCount: 42 } })),
+    generateContentStream: vi.fn(async () => (async function* () {
+      yield { text: 'Xin ' };
+      yield { text: 'chào', usageMetadata: { totalTokenCount: 7 } };
+    })()),
+    countTokens: vi.fn(async () => ({ totalTokens: 12 }))
+  };
+  return { ai: { models } as unknown as GoogleGenAI, models };
+};
+
+describe('createLLMProvider', () => {
+  it('should prefer the OpenAI-compatible endpoint, then Gemini, else nothing', () => {
+    const { ai } = createFakeGemini();
+
+    expect(createLLMProvider({ ai, model: 'm', openAiBaseUrl: 'http://localhost:1234/v1' })!.id).toBe('openai-compatible');
+    expect(createLLMProvider({ ai, model: 'm', openAiBaseUrl: '  ' })!.id).toBe('gemini');
+    expect(createLLMProvider({ ai: null, model: 'm' })).toBeNull();
+  });
+
+  it('should honour a forced backend for task profiles', () => {
+    const { ai } = createFakeGemini();
+    const endpoint = 'http://localhost:1234/v1';
+
+    expect(createLLMProvider({ ai, model: 'm', openAiBaseUrl: endpoint, backend: 'gemini' })!.id).toBe('gemini');
+    expect(createLLMProvider({ ai, model: 'm', openAiBaseUrl: endpoint, backend: 'openai-compatible', failover: { openAiAsFallback: true } })!.id).toBe('openai-compatible');
+    expect(createLLMProvider({ ai, model: 'm', backend: 'openai-compatible' })).toBeNull();
+  });
+});
+
+describe('GeminiProvider', () => {
+  it('should map requests onto generateContent and normalize the result', async () => {
+    const { ai, models } = createFakeGemini();
+    const provider = createGeminiProvider(ai, 'gemini-2.5-flash');
+
+    const result = await provider.generate({ contents: 'Xin chào', systemInstruction: 'GM', jsonMode: true, responseSchema: { type: 'OBJECT' }, topK: 20 });
+
+    expect(result).toEqual({ text: '{"story":"x"}', usage: { totalTokens: 42 } });
+    expect(models.generateContent).toHaveBeenCalledWith({
+      model: 'gemini-2.5-flash',
+      contents: [{ role: 'user', parts: [{ text: 'Xin chào' }] }],
+      config: { systemInstruction: 'GM', responseMimeType: 'application/json', responseSchema: { type: 'OBJECT' }, topK: 20 }
+    });
+  });
+
+  it('should stream deltas and count tokens natively', async () => {
+    const { ai } = createFakeGemini();
+    const provider = createGeminiProvider(ai, 'gemini-2.5-flash');
+
+    const chunks = [];
+    for await (const chunk of provider.stream({ contents: 'a' })) chunks.push(chunk);
+
+    expect(chunks).toEqual([{ text: 'Xin ', totalTokens: undefined }, { text: 'chào', totalTokens: 7 }]);
+    expect(await provider.countTokens({ contents: 'a' })).toBe(12);
+  });
+});
+
+describe('OpenAiCompatibleProvider', () => {
+  it('should send chat completions with system message and JSON mode', async () => {
+    const fetchImpl = vi.fn(async () => sseResponse([
+      { choices: [{ delta: { content: '{"a":' } }] },
+      { choices: [{ delta: { content: '1}' } }], usage: { total_tokens: 30 } }
+    ]));
+    const provider = createOpenAiCompatibleProvider({ baseUrl: 'http://host/v1/', apiKey: 'sk', model: 'local', fetchImpl });
+
+    const result = await provider.generate({
+      contents: [{ role: 'user', parts: [{ text: 'Hỏi' }] }, { role: 'model', parts: [{ text: 'Đáp' }] }],
+      systemInstruction: 'GM',
+      jsonMode: true,
+      temperature: 0.5,
+      topK: 10
+    });
+
+    expect(result).toEqual({ text: '{"a":1}', usage: { totalTokens: 30 } });
+    const [url, init] = fetchImpl.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('http://host/v1/chat/completions');
+    expect((init.headers as Record<string, string>)['Authorization']).toBe('Bearer sk');
+    expect(JSON.parse(init.body as string)).toEqual({
+      model: 'local',
+      messages: [{ role: 'system', content: 'GM' }, { role: 'user', content: 'Hỏi' }, { role: 'assistant', content: 'Đáp' }],
+      stream: true,
+      temperature: 0.5,
+      response_format: { type: 'json_object' }
+    });
+  });
+
+  it('should stream deltas, surface HTTP errors and estimate tokens', async () => {
+    const streaming = createOpenAiCompatibleProvider({
+      baseUrl: 'http://host', apiKey: '', model: 'local',
+      fetchImpl: async () => sseResponse([{ choices: [{ delta: { content: 'Xin ' } }] }, { choices: [{ delta: { content: 'chào' } }] }])
+    });
+    const chunks = [];
+    for await (const chunk of streaming.stream({ contents: 'a' })) chunks.push(chunk.text);
+    expect(chunks).toEqual(['Xin ', 'chào']);
+    expect(await streaming.countTokens({ contents: 'Xin chào thế giới' })).toBeGreaterThan(0);
+    expect(streaming.capabilities.nativeTokenCount).toBe(false);
+
+    const failing = createOpenAiCompatibleProvider({
+      baseUrl: 'http://host', apiKey: '', model: 'local',
+      fetchImpl: async () => errorResponse(429, 'quota')
+    });
+    await expect(failing.generate({ contents: 'a' })).rejects.toThrow('OpenAI API HTTP 429: quota');
+  });
+});
+
+describe('tool calling', () => {
+  const tools = [{ name: 'TIME_ELAPSED', description: 'Thời gian trôi', parameters: { type: 'object' as const, properties: { hours: { type: 'integer' } } } }];
+
+  it('should declare functions to Gemini and map its function calls', async () => {
+    const { ai, models } = createFakeGemini();
+    models.generateContent.mockResolvedValueOnce({ text: '{"story":"x"}', functionCalls: [{ name: 'TIME_ELAPSED', args: { hours: 2 } }] } as any);
+    const provider = createGeminiProvider(ai, 'gemini-2.5-flash');
+
+    const result = await provider.generate({ contents: 'a', jsonMode: true, responseSchema: { type: 'OBJECT' }, tools });
+
+    expect(result.toolCalls).toEqual([{ name: 'TIME_ELAPSED', args: { hours: 2 } }]);
+    expect((models.generateContent.mock.calls[0] as any[])[0].config).toEqual({
+      tools: [{ functionDeclarations: [{ name: 'TIME_ELAPSED', description: 'Thời gian trôi', parametersJsonSchema: tools[0].parameters }] }]
+    });
+  });
+
+  it('should send tools to OpenAI-compatible endpoints and assemble streamed call arguments', async () => {
+    const fetchImpl = vi.fn(async () => sseResponse([
+      { choices: [{ delta: { content: '{"story":"x"}' } }] },
+      { choices: [{ delta: { tool_calls: [{ index: 0, function: { name: 'TIME_ELAPSED', arguments: '{"ho' } }] } }] },
+      { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: 'urs":3}' } }] } }] }
+    ]));
+    const provider = createOpenAiCompatibleProvider({ baseUrl: 'http://host', apiKey: '', model: 'local', fetchImpl });
+
+    const result = await provider.generate({ contents: 'a', tools });
+
+    expect(result).toEqual({ text: '{"story":"x"}', usage: { totalTokens: 0 }, toolCalls: [{ name: 'TIME_ELAPSED', args: { hours: 3 } }] });
+    const body = JSON.parse((fetchImpl.mock.calls[0] as unknown as [string, RequestInit])[1].body as string);
+    expect(body.tools).toEqual([{ type: 'function', function: tools[0] }]);
+    expect(body.tool_choice).toBe('auto');
+  });
+});
+
+describe('generateStreaming', () => {
+  it('should report accumulated text and return the combined result', async () => {
+    const { ai } = createFakeGemini();
+    const seen: string[] = [];
+
+    const result = await generateStreaming(createGeminiProvider(ai, 'm'), { contents: 'a' }, text => seen.push(text));
+
+    expect(seen).toEqual(['Xin ', 'Xin chào']);
+    expect(result).toEqual({ text: 'Xin chào', usage: { totalTokens: 7 } });
+  });
+
+  it('should stop with an AbortError once the request is cancelled', async () => {
+    const { ai } = createFakeGemini();
+    const controller = new AbortController();
+    const seen: string[] = [];
+
+    const pending = generateStreaming(createGeminiProvider(ai, 'm'), { contents: 'a', signal: controller.signal }, text => {
+      seen.push(text);
+      controller.abort();
+    });
+
+    const error = await pending.catch(e => e);
+    expect(isAbortError(error)).toBe(true);
+    expect(seen).toEqual(['Xin ']);
+  });
+});
+
+describe('request cancellation', () => {
+  it('should pass the abort signal to both backends', async () => {
+    const controller = new AbortController();
+    const fetchImpl = vi.fn(async () => sseResponse([{ choices: [{ delta: { content: 'x' } }] }]));
+    await createOpenAiCompatibleProvider({ baseUrl: 'http://host', apiKey: '', model: 'local', fetchImpl })
+      .generate({ contents: 'a', signal: controller.signal });
+    expect((fetchImpl.mock.calls[0] as unknown as [string, RequestInit])[1].signal).toBe(controller.signal);
+
+    const { ai, models } = createFakeGemini();
+    await createGeminiProvider(ai, 'm').generate({ contents: 'a', signal: controller.signal });
+    expect((models.generateContent.mock.calls[0] as any[])[0].config.abortSignal).toBe(controller.signal);
+
+    controller.abort();
+    const error = await createGeminiProvider(ai, 'm').generate({ contents: 'a', signal: controller.signal }).catch(e => e);
+    expect(isAbortError(error)).toBe(true);
+    expect(models.generateContent).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('MockProvider', () => {
+  const fixture = {
+    responses: [
+      { match: 'chào', text: 'Chào lữ khách!' },
+      { story: 'Kịch bản', choices: ['A'], repeat: true }
+    ],
+    storyTemplates: ['Mẫu {turn}: {action}']
+  };
+
+  it('should replay matching scripted responses before falling back', async () => {
+    const provider = createMockProvider({ ...fixture, responses: [fixture.responses[0]] });
+
+    expect((await provider.generate({ contents: 'Xin chào' })).text).toBe('Chào lữ khách!');
+    expect((await provider.generate({ contents: 'Xin chào' })).text).toBe('Mẫu 2: Xin chào');
+  });
+
+  it('should shape JSON responses after the response schema', async () => {
+    const provider = createMockProvider({ ...fixture, responses: [fixture.responses[1]] });
+    const responseSchema = {
+      type: 'OBJECT',
+      properties: { cot_reasoning: { type: 'STRING' }, story: { type: 'STRING' }, choices: { type: 'ARRAY' }, mood: { type: 'STRING' } }
+    };
+
+    const parsed = JSON.parse((await provider.generate({ contents: 'x', jsonMode: true, responseSchema })).text);
+
+    expect(Object.keys(parsed)).toEqual(['cot_reasoning', 'story', 'choices', 'mood']);
+    expect(parsed).toMatchObject({ story: 'Kịch bản', choices: ['A'], mood: 'Nội dung giả lập cho mood' });
+
+    const chunks: string[] = [];
+    for await (const chunk of provider.stream({ contents: 'x', jsonMode: true })) chunks.push(chunk.text);
+    expect(JSON.parse(chunks.join(''))).toEqual({ story: 'Kịch bản', npcs_present: [], choices: ['A'] });
+  });
+
+  it('should validate uploaded fixture files', () => {
+    expect(parseMockFixture('{"responses":[{"text":"a"}]}').responses).toHaveLength(1);
+    expect(() => parseMockFixture('{"foo":1}')).toThrow('responses');
+    expect(() => parseMockFixture('{"responses":[{"text":"a"},{"match":"([a-z","text":"b"}]}')).toThrow('Phản hồi #2');
+    expect(() => parseMockFixture('{"responses":[{"match":5}]}')).toThrow('match');
+  });
+});
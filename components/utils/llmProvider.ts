@@ -0,0 +1,185 @@
+import type { GoogleGenAI } from "@google/genai";
+import type { GameHistoryEntry } from '../types';
+import { createGeminiProvider } from './llmProviders/geminiProvider';
+import { createOpenAiCompatibleProvider } from './llmProviders/openAiCompatibleProvider';
+import { createMockProvider } from './llmProviders/mockProvider';
+import type { MockLLMFixture } from './llmProviders/mockProvider';
+import { createResilientProvider } from './llmRetryPolicy';
+import type { LLMFailoverSettings, ResilientProviderOptions } from './llmRetryPolicy';
+import type { LLMBackendChoice, LLMTask } from './modelProfiles';
+
+export type LLMProviderId = 'gemini' | 'openai-compatible' | 'mock';
+
+export interface LLMProviderCapabilities {
+    streaming: boolean;
+    jsonMode: boolean;          // Ép phản hồi JSON
+    responseSchema: boolean;    // Ràng buộc JSON theo schema
+    topK: boolean;
+    nativeTokenCount: boolean;  // false nếu countTokens chỉ là ước lượng
+    toolCalling: boolean;       // Hỗ trợ khai báo hàm (function calling)
+}
+
+// Khai báo hàm cho model; parameters là JSON Schema dạng object
+export interface LLMToolDeclaration {
+    name: string;
+    description: string;
+    parameters: {
+        type: 'object';
+        properties: { [key: string]: any };
+        required?: string[];
+    };
+}
+
+export interface LLMToolCall {
+    name: string;
+    args: { [key: string]: any };
+}
+
+export interface LLMGenerateRequest {
+    contents: string | GameHistoryEntry[];
+    systemInstruction?: string;
+    model?: string;             // Mặc định dùng model của provider
+    temperature?: number;
+    topP?: number;
+    topK?: number;
+    jsonMode?: boolean;
+    responseSchema?: any;       // Bị bỏ qua nếu provider không hỗ trợ
+    tools?: LLMToolDeclaration[]; // Bị bỏ qua nếu provider không hỗ trợ gọi hàm
+    signal?: AbortSignal;       // Hủy yêu cầu đang chạy (nút Dừng)
+    task?: LLMTask;             // Chỉ dùng để thống kê sử dụng; không đặt = tác vụ khác
+}
+
+export interface LLMUsage {
+    totalTokens: number;
+    promptTokens?: number;      // Có khi backend tách riêng token đầu vào/đầu ra
+    completionTokens?: number;
+}
+
+export interface LLMGenerateResult {
+    text: string;
+    usage: LLMUsage | null;     // null khi endpoint không trả thông tin sử dụng
+    toolCalls?: LLMToolCall[];
+    model?: string;             // Model đã thực sự trả lời, do chuỗi dự phòng gắn vào
+}
+
+export interface LLMStreamChunk {
+    text: string;               // Phần nội dung mới của mảnh này
+    totalTokens?: number;
+    promptTokens?: number;
+    completionTokens?: number;
+    toolCalls?: LLMToolCall[];  // Lời gọi hàm đã hoàn chỉnh trong mảnh này
+    model?: string;
+}
+
+export interface LLMProvider {
+    readonly id: LLMProviderId;
+    readonly model: string;
+    readonly capabilities: LLMProviderCapabilities;
+    generate(request: LLMGenerateRequest): Promise<LLMGenerateResult>;
+    stream(request: LLMGenerateRequest): AsyncIterable<LLMStreamChunk>;
+    countTokens(request: LLMGenerateRequest): Promise<number>;
+}
+
+export interface CreateLLMProviderParams {
+    ai: GoogleGenAI | null;
+    model: string;
+    openAiBaseUrl?: string;
+    openAiApiKey?: string;
+    backend?: LLMBackendChoice;             // Ép một backend cho hồ sơ tác vụ; mặc định 'auto'
+    failover?: Partial<LLMFailoverSettings>;
+    mockFixture?: MockLLMFixture | null;    // Bật chế độ AI giả lập, bỏ qua mọi backend thật
+    onAttempt?: ResilientProviderOptions['onAttempt'];
+}
+
+// Lỗi ném ra khi yêu cầu bị hủy, cùng dạng với lỗi fetch bị abort
+export const createAbortError = () => new DOMException('Yêu cầu AI đã bị hủy', 'AbortError');
+
+export const isAbortError = (error: unknown): boolean =>
+    !!error && typeof error === 'object' && (error as { name?: string }).name === 'AbortError';
+
+// Gộp thông tin sử dụng của một mảnh stream; mảnh sau ghi đè số liệu của mảnh trước
+export const mergeChunkUsage = (usage: LLMUsage | null, chunk: LLMStreamChunk): LLMUsage | null => {
+    if (chunk.totalTokens === undefined) return usage;
+    return {
+        totalTokens: chunk.totalTokens,
+        ...(chunk.promptTokens !== undefined ? { promptTokens: chunk.promptTokens } : {}),
+        ...(chunk.completionTokens !== undefined ? { completionTokens: chunk.completionTokens } : {})
+    };
+};
+
+// Chuẩn hóa nội dung về dạng lịch sử hội thoại dùng chung
+export const toHistoryContents = (contents: LLMGenerateRequest['contents']): GameHistoryEntry[] =>
+    typeof contents === 'string' ? [{ role: 'user', parts: [{ text: contents }] }] : contents;
+
+/**
+ * Chọn backend theo cấu hình: AI giả lập (nếu bật), rồi endpoint OpenAI-compatible, sau đó tới Gemini.
+ * Các model dự phòng (và endpoint khi được đặt làm dự phòng) nối sau backend chính, tất cả được bọc bởi chính sách thử lại.
+ * `backend` khác 'auto' chỉ dùng đúng backend đó. Trả về null khi chưa có backend nào sẵn sàng.
+ */
+export const createLLMProvider = (params: CreateLLMProviderParams): LLMProvider | null => {
+    const { ai, model, openAiBaseUrl = '', openAiApiKey = '', backend = 'auto', failover = {}, mockFixture, onAttempt } = params;
+    const { fallbackModels = [], openAiAsFallback = false, openAiFallbackModel = '', maxAttempts } = failover;
+
+    const hasEndpoint = openAiBaseUrl.trim() !== '';
+    const endpoint = (endpointModel: string) =>
+        createOpenAiCompatibleProvider({ baseUrl: openAiBaseUrl, apiKey: openAiApiKey, model: endpointModel });
+    const fallbacks = fallbackModels.map(m => m.trim()).filter(m => m && m !== model);
+
+    const chain: LLMProvider[] = [];
+    if (mockFixture) {
+        chain.push(createMockProvider(mockFixture, model));
+    } else if (backend === 'openai-compatible' || (backend === 'auto' && hasEndpoint && !openAiAsFallback)) {
+        if (hasEndpoint) {
+            chain.push(endpoint(model), ...fallbacks.map(endpoint));
+        }
+    } else {
+        if (ai) {
+            chain.push(createGeminiProvider(ai, model), ...fallbacks.map(m => createGeminiProvider(ai, m)));
+        }
+        if (hasEndpoint && backend === 'auto') {
+            chain.push(endpoint(openAiFallbackModel.trim() || model));
+        }
+    }
+
+    if (chain.length === 0) return null;
+    return createResilientProvider(chain, { policy: maxAttempts ? { maxAttempts } : undefined, onAttempt });
+};
+
+/**
+ * Gọi stream và gom lại thành kết quả như generate; onText nhận toàn bộ văn bản đã nhận sau mỗi mảnh.
+ * Provider không hỗ trợ stream sẽ dùng generate.
+ */
+export const generateStreaming = async (
+    provider: LLMProvider,
+    request: LLMGenerateRequest,
+    onText: (text: string) => void
+): Promise<LLMGenerateResult> => {
+    if (!provider.capabilities.streaming) {
+        return provider.generate(request);
+    }
+
+    let text = '';
+    let usage: LLMUsage | null = null;
+    const toolCalls: LLMToolCall[] = [];
+    let model: string | undefined;
+    for await (const chunk of provider.stream(request)) {
+        // Một số backend vẫn trả mảnh đã đệm sau khi hủy
+        if (request.signal?.aborted) throw createAbortError();
+        if (chunk.text) {
+            text += chunk.text;
+            onText(text);
+        }
+        usage = mergeChunkUsage(usage, chunk);
+        if (chunk.toolCalls) {
+            toolCalls.push(...chunk.toolCalls);
+        }
+        model = chunk.model ?? model;
+    }
+
+    return {
+        text: text.trim(),
+        usage,
+        ...(toolCalls.length > 0 ? { toolCalls } : {}),
+        ...(model ? { model } : {})
+    };
+};
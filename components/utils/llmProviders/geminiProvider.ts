@@ -0,0 +1,95 @@
+import type { GoogleGenAI, GenerateContentParameters, GenerateContentResponseUsageMetadata, FunctionCall } from "@google/genai";
+import type { LLMGenerateRequest, LLMProvider, LLMToolCall, LLMUsage } from '../llmProvider';
+import { createAbortError, toHistoryContents } from '../llmProvider';
+
+/**
+ * Adapter cho Google Gemini (@google/genai)
+ */
+export const createGeminiProvider = (ai: GoogleGenAI, model: string): LLMProvider => {
+    const buildParams = (request: LLMGenerateRequest): GenerateContentParameters => {
+        const config: NonNullable<GenerateContentParameters['config']> = {};
+        if (request.systemInstruction) config.systemInstruction = request.systemInstruction;
+        if (request.tools?.length) {
+            // Gemini không cho dùng responseMimeType JSON cùng function calling; prompt vẫn yêu cầu JSON
+            config.tools = [{
+                functionDeclarations: request.tools.map(tool => ({
+                    name: tool.name,
+                    description: tool.description,
+                    parametersJsonSchema: tool.parameters
+                }))
+            }];
+        } else if (request.jsonMode) {
+            config.responseMimeType = 'application/json';
+            if (request.responseSchema) config.responseSchema = request.responseSchema;
+        }
+        if (request.temperature !== undefined) config.temperature = request.temperature;
+        if (request.topP !== undefined) config.topP = request.topP;
+        if (request.topK !== undefined) config.topK = request.topK;
+        if (request.signal) config.abortSignal = request.signal;
+
+        return {
+            model: request.model || model,
+            contents: toHistoryContents(request.contents),
+            ...(Object.keys(config).length > 0 ? { config } : {})
+        };
+    };
+
+    const toToolCalls = (calls: FunctionCall[] | undefined): LLMToolCall[] | undefined =>
+        calls?.length ? calls.map(call => ({ name: call.name || '', args: call.args || {} })) : undefined;
+
+    // Token suy nghĩ được tính phí như token đầu ra
+    const toUsage = (metadata: GenerateContentResponseUsageMetadata | undefined): LLMUsage | null => {
+        if (!metadata) return null;
+        const usage: LLMUsage = { totalTokens: metadata.totalTokenCount || 0 };
+        if (metadata.promptTokenCount !== undefined) usage.promptTokens = metadata.promptTokenCount;
+        if (metadata.candidatesTokenCount !== undefined || metadata.thoughtsTokenCount !== undefined) {
+            usage.completionTokens = (metadata.candidatesTokenCount || 0) + (metadata.thoughtsTokenCount || 0);
+        }
+        return usage;
+    };
+
+    return {
+        id: 'gemini',
+        model,
+        capabilities: {
+            streaming: true,
+            jsonMode: true,
+            responseSchema: true,
+            topK: true,
+            nativeTokenCount: true,
+            toolCalling: true
+        },
+
+        async generate(request) {
+            if (request.signal?.aborted) throw createAbortError();
+            const response = await ai.models.generateContent(buildParams(request));
+            // abortSignal chỉ hủy phía client, phản hồi tới muộn vẫn bị bỏ
+            if (request.signal?.aborted) throw createAbortError();
+            return {
+                text: response.text?.trim() || '',
+                usage: toUsage(response.usageMetadata),
+                toolCalls: toToolCalls(response.functionCalls)
+            };
+        },
+
+        async *stream(request) {
+            const responseStream = await ai.models.generateContentStream(buildParams(request));
+            for await (const chunk of responseStream) {
+                if (request.signal?.aborted) throw createAbortError();
+                // Chỉ lấy số liệu khi mảnh có tổng token, tránh ghi đè bằng 0
+                const usage = chunk.usageMetadata?.totalTokenCount !== undefined ? toUsage(chunk.usageMetadata) : null;
+                yield { text: chunk.text || '', ...usage, toolCalls: toToolCalls(chunk.functionCalls) };
+            }
+        },
+
+        async countTokens(request) {
+            const contents = toHistoryContents(request.contents);
+            // countTokens không nhận systemInstruction cho mọi model, nên gộp vào nội dung
+            const counted = request.systemInstruction
+                ? [{ role: 'user' as const, parts: [{ text: request.systemInstruction }] }, ...contents]
+                : contents;
+            const response = await ai.models.countTokens({ model: request.model || model, contents: counted });
+            return response.totalTokens || 0;
+        }
+    };
+};
@@ -0,0 +1,168 @@
+import type { LLMGenerateRequest, LLMProvider, LLMStreamChunk, LLMToolCall, LLMUsage } from '../llmProvider';
+import { createAbortError, toHistoryContents } from '../llmProvider';
+import { estimateTokens } from '../../TokenManager';
+import type { NPCPresent } from '../../types';
+
+export interface MockLLMScriptedResponse {
+    match?: string;             // Regex (không phân biệt hoa thường) thử với tin nhắn cuối của người chơi
+    text?: string;              // Trả nguyên văn, bỏ qua các trường bên dưới
+    story?: string;
+    tags?: string[];            // Thẻ lệnh nối vào cuối story
+    choices?: string[];
+    npcs_present?: NPCPresent[];
+    toolCalls?: LLMToolCall[];  // Chỉ trả về khi yêu cầu có khai báo hàm
+    error?: string;             // Ném lỗi với thông điệp này, dùng để thử chính sách thử lại
+    repeat?: boolean;           // Không bị tiêu thụ sau khi dùng
+}
+
+export interface MockLLMFixture {
+    responses: MockLLMScriptedResponse[];
+    // Dùng khi không còn phản hồi kịch bản nào khớp; {action} và {turn} được thay thế
+    storyTemplates?: string[];
+    tagTemplates?: string[];
+    choiceTemplates?: string[];
+}
+
+const STREAM_CHUNK_SIZE = 24;
+const PLAYER_ACTION_PATTERN = /--- HÀNH ĐỘNG CỦA NGƯỜI CHƠI ---\n"([^"]+)"/;
+
+const compileMatch = (match: unknown): RegExp => {
+    if (typeof match !== 'string') throw new Error('match phải là chuỗi');
+    return new RegExp(match, 'i');
+};
+
+/** Kiểm tra nội dung file kịch bản người chơi tải lên */
+export const parseMockFixture = (json: string): MockLLMFixture => {
+    const data = JSON.parse(json);
+    if (!data || !Array.isArray(data.responses)) {
+        throw new Error('File kịch bản phải có mảng "responses"');
+    }
+    const invalid = data.responses.findIndex((r: unknown) => !r || typeof r !== 'object');
+    if (invalid !== -1) {
+        throw new Error(`Phản hồi #${invalid + 1} trong kịch bản không hợp lệ`);
+    }
+    // Biểu thức match sai phải bị từ chối ngay khi tải lên, không để lỗi giữa lượt chơi
+    data.responses.forEach((r: MockLLMScriptedResponse, index: number) => {
+        if (r.match === undefined) return;
+        try {
+            compileMatch(r.match);
+        } catch (error) {
+            throw new Error(`Phản hồi #${index + 1}: match "${r.match}" không phải biểu thức chính quy hợp lệ (${error instanceof Error ? error.message : String(error)})`);
+        }
+    });
+    return data as MockLLMFixture;
+};
+
+const fillTemplate = (template: string, values: { action: string; turn: number }) =>
+    template.replace(/\{action\}/g, values.action).replace(/\{turn\}/g, String(values.turn));
+
+// Dựng giá trị giả cho các trường schema không thuộc phản hồi game (gợi ý tạo thế giới...)
+const buildFromSchema = (schema: any, key: string): any => {
+    const type = String(schema?.type ?? 'STRING').toUpperCase();
+    if (type === 'OBJECT') {
+        return Object.fromEntries(Object.entries(schema.properties ?? {}).map(([k, v]) => [k, buildFromSchema(v, k)]));
+    }
+    if (type === 'ARRAY') return [buildFromSchema(schema.items, key)];
+    if (type === 'NUMBER' || type === 'INTEGER') return 1;
+    if (type === 'BOOLEAN') return false;
+    return `Nội dung giả lập cho ${key}`;
+};
+
+/**
+ * Provider giả lập chạy offline: phát lại phản hồi theo kịch bản, hết kịch bản thì dựng phản hồi từ mẫu.
+ * Với jsonMode, phản hồi có cùng dạng JSON như model thật (story/choices/npcs_present, thêm trường theo schema).
+ */
+export const createMockProvider = (fixture: MockLLMFixture, model = 'mock'): LLMProvider => {
+    // Biên dịch match một lần khi tạo provider thay vì mỗi lần gọi
+    const pending = fixture.responses.map(response => ({
+        response,
+        pattern: response.match ? compileMatch(response.match) : null
+    }));
+    let callCount = 0;
+
+    const takeScripted = (lastUserText: string): MockLLMScriptedResponse | undefined => {
+        const index = pending.findIndex(({ pattern }) => !pattern || pattern.test(lastUserText));
+        if (index === -1) return undefined;
+        const { response } = pending[index];
+        if (!response.repeat) pending.splice(index, 1);
+        return response;
+    };
+
+    const pick = (templates: string[] | undefined, fallback: string) =>
+        templates && templates.length > 0 ? templates[(callCount - 1) % templates.length] : fallback;
+
+    const respond = (request: LLMGenerateRequest): { text: string; toolCalls?: LLMToolCall[] } => {
+        if (request.signal?.aborted) throw createAbortError();
+        callCount++;
+
+        const history = toHistoryContents(request.contents);
+        const lastUserText = [...history].reverse().find(entry => entry.role === 'user')?.parts.map(p => p.text).join('') ?? '';
+        const action = PLAYER_ACTION_PATTERN.exec(lastUserText)?.[1] ?? lastUserText.split('\n')[0].slice(0, 80);
+        const values = { action, turn: callCount };
+
+        const scripted = takeScripted(lastUserText);
+        if (scripted?.error) throw new Error(scripted.error);
+        const toolCalls = request.tools?.length ? scripted?.toolCalls : undefined;
+        if (scripted?.text !== undefined) return { text: scripted.text, toolCalls };
+
+        const storyText = scripted?.story ?? fillTemplate(pick(fixture.storyTemplates, 'Bạn quyết định: {action}.'), values);
+        const tags = scripted?.tags ?? (fixture.tagTemplates ?? []).map(tag => fillTemplate(tag, values));
+        const story = [storyText, ...tags].join('\n');
+        const choices = scripted?.choices ?? (fixture.choiceTemplates ?? ['Tiếp tục']).map(choice => fillTemplate(choice, values));
+        const npcs = scripted?.npcs_present ?? [];
+
+        if (!request.jsonMode) return { text: story, toolCalls };
+
+        const known: Record<string, unknown> = {
+            cot_reasoning: `BƯỚC MỘT: Phân tích hành động "${action}".`,
+            story,
+            npcs_present: npcs,
+            choices
+        };
+        const properties = request.responseSchema?.properties;
+        if (!properties) return { text: JSON.stringify({ story, npcs_present: npcs, choices }), toolCalls };
+        return {
+            text: JSON.stringify(Object.fromEntries(
+                Object.entries(properties).map(([key, schema]) => [key, key in known ? known[key] : buildFromSchema(schema, key)])
+            )),
+            toolCalls
+        };
+    };
+
+    const estimatePromptTokens = (request: LLMGenerateRequest): number => {
+        const text = toHistoryContents(request.contents).map(entry => entry.parts.map(p => p.text).join('')).join('\n');
+        return estimateTokens((request.systemInstruction ?? '') + text);
+    };
+
+    const countTokens = async (request: LLMGenerateRequest): Promise<number> => estimatePromptTokens(request);
+
+    const estimateUsage = (request: LLMGenerateRequest, text: string): LLMUsage => {
+        const promptTokens = estimatePromptTokens(request);
+        const completionTokens = estimateTokens(text);
+        return { totalTokens: promptTokens + completionTokens, promptTokens, completionTokens };
+    };
+
+    return {
+        id: 'mock',
+        model,
+        capabilities: { streaming: true, jsonMode: true, responseSchema: true, topK: true, nativeTokenCount: false, toolCalling: true },
+
+        async generate(request) {
+            const { text, toolCalls } = respond(request);
+            return { text: text.trim(), usage: estimateUsage(request, text), toolCalls };
+        },
+
+        async *stream(request): AsyncIterable<LLMStreamChunk> {
+            const { text, toolCalls } = respond(request);
+            for (let i = 0; i < text.length; i += STREAM_CHUNK_SIZE) {
+                if (request.signal?.aborted) throw createAbortError();
+                const last = i + STREAM_CHUNK_SIZE >= text.length;
+                yield { text: text.slice(i, i + STREAM_CHUNK_SIZE), ...(last ? estimateUsage(request, text) : {}) };
+            }
+            // Giống Gemini/OpenAI: lời gọi hàm tới sau phần văn bản
+            if (toolCalls?.length) yield { text: '', toolCalls };
+        },
+
+        countTokens
+    };
+};
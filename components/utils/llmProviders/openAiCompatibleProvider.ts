@@ -0,0 +1,92 @@
+import type { LLMGenerateRequest, LLMProvider } from '../llmProvider';
+import { toHistoryContents } from '../llmProvider';
+import { parseOpenAiCompatibleResponse, streamOpenAiCompatibleResponse } from '../openAiCompatibleResponse';
+import { estimateTokens } from '../../TokenManager';
+
+export interface OpenAiCompatibleProviderOptions {
+    baseUrl: string;
+    apiKey: string;
+    model: string;
+    fetchImpl?: typeof fetch;
+}
+
+// Chuyển lịch sử dạng Gemini sang messages của OpenAI
+export const toOpenAiMessages = (request: LLMGenerateRequest): { role: string; content: string }[] => {
+    const messages: { role: string; content: string }[] = [];
+    if (request.systemInstruction) {
+        messages.push({ role: 'system', content: request.systemInstruction });
+    }
+    for (const entry of toHistoryContents(request.contents)) {
+        const role = entry.role === 'model' ? 'assistant' : 'user';
+        messages.push({ role, content: entry.parts.map(p => p.text).join('') });
+    }
+    return messages;
+};
+
+/**
+ * Adapter cho các endpoint tương thích OpenAI (OpenAI, LM Studio, OpenRouter, Ollama...)
+ */
+export const createOpenAiCompatibleProvider = (options: OpenAiCompatibleProviderOptions): LLMProvider => {
+    const baseUrl = options.baseUrl.trim().replace(/\/$/, '');
+    const apiKey = options.apiKey.trim();
+    const fetchImpl = options.fetchImpl || ((input: RequestInfo | URL, init?: RequestInit) => fetch(input, init));
+
+    const request = async (params: LLMGenerateRequest): Promise<Response> => {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (apiKey) {
+            headers['Authorization'] = `Bearer ${apiKey}`;
+        }
+        const body: Record<string, any> = {
+            model: params.model || options.model,
+            messages: toOpenAiMessages(params),
+            stream: true,
+        };
+        if (params.temperature !== undefined) body.temperature = params.temperature;
+        if (params.topP !== undefined) body.top_p = params.topP;
+        if (params.jsonMode) {
+            // response_format được hầu hết endpoint hỗ trợ, số còn lại sẽ bỏ qua
+            body.response_format = { type: 'json_object' };
+        }
+        if (params.tools?.length) {
+            body.tools = params.tools.map(tool => ({ type: 'function', function: tool }));
+            body.tool_choice = 'auto';
+        }
+
+        console.debug('[OpenAI API] Calling', `${baseUrl}/chat/completions`, 'model:', body.model);
+        const response = await fetchImpl(`${baseUrl}/chat/completions`, { method: 'POST', headers, body: JSON.stringify(body), signal: params.signal });
+        if (!response.ok) {
+            const errText = await response.text();
+            throw new Error(`OpenAI API HTTP ${response.status}: ${errText}`);
+        }
+        return response;
+    };
+
+    return {
+        id: 'openai-compatible',
+        model: options.model,
+        capabilities: {
+            streaming: true,
+            jsonMode: true,
+            responseSchema: false,
+            topK: false,
+            nativeTokenCount: false,
+            toolCalling: true           // Endpoint không hỗ trợ tools sẽ báo lỗi hoặc bỏ qua
+        },
+
+        async generate(params) {
+            const data = await parseOpenAiCompatibleResponse(await request(params));
+            console.debug('[OpenAI API] Response received, length:', data.text.length, 'tokens:', data.totalTokens);
+            const { totalTokens, promptTokens, completionTokens } = data;
+            return { text: data.text, usage: { totalTokens, promptTokens, completionTokens }, toolCalls: data.toolCalls };
+        },
+
+        async *stream(params) {
+            yield* streamOpenAiCompatibleResponse(await request(params));
+        },
+
+        // Không có endpoint đếm token chuẩn nên dùng ước lượng
+        async countTokens(params) {
+            return toOpenAiMessages(params).reduce((sum, message) => sum + estimateTokens(message.content), 0);
+        }
+    };
+};
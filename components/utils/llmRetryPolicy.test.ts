@@ -0,0 +1,177 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { GoogleGenAI } from '@google/genai';
+import { classifyLLMError, computeRetryDelay, createResilientProvider, DEFAULT_RETRY_POLICY } from './llmRetryPolicy';
+import type { LLMAttemptRecord } from './llmRetryPolicy';
+import { createAbortError, createLLMProvider, generateStreaming, isAbortError } from './llmProvider';
+import type { LLMProvider, LLMStreamChunk } from './llmProvider';
+
+// Provider giả lập: mỗi lần generate lấy kết quả kế tiếp trong danh sách, Error thì ném ra
+const createScriptedProvider = (model: string, outcomes: Array<string | Error>, streamChunks?: Array<string | Error>): LLMProvider => ({
+  id: 'gemini',
+  model,
+  capabilities: { streaming: true, jsonMode: true, responseSchema: true, topK: true, nativeTokenCount: true, toolCalling: false },
+  generate: vi.fn(async () => {
+    const outcome = outcomes.shift();
+    if (outcome instanceof Error) throw outcome;
+    return { text: outcome ?? '', usage: null };
+  }),
+  async *stream(): AsyncIterable<LLMStreamChunk> {
+    for (const chunk of streamChunks ?? []) {
+      if (chunk instanceof Error) throw chunk;
+      yield { text: chunk };
+    }
+  },
+  countTokens: vi.fn(async () => 5)
+});
+
+const collectAttempts = () => {
+  const attempts: LLMAttemptRecord[] = [];
+  const sleep = vi.fn(async () => {});
+  return { attempts, sleep, options: { onAttempt: (r: LLMAttemptRecord) => attempts.push(r), sleep, random: () => 0 } };
+};
+
+describe('classifyLLMError', () => {
+  it('should sort provider errors into retry categories', () => {
+    expect(classifyLLMError(new Error('OpenAI API HTTP 503: overloaded'))).toBe('transient');
+    expect(classifyLLMError(new TypeError('Failed to fetch'))).toBe('transient');
+    expect(classifyLLMError(Object.assign(new Error('{"error":{"code":429}}'), { status: 429 }))).toBe('quota');
+    expect(classifyLLMError(new Error('got status: RESOURCE_EXHAUSTED'))).toBe('quota');
+    expect(classifyLLMError(new Error('OpenAI API HTTP 401: bad key'))).toBe('auth');
+    expect(classifyLLMError(new Error('API key not valid. Please pass a valid API key.'))).toBe('auth');
+    expect(classifyLLMError(new Error('Response was blocked due to SAFETY'))).toBe('content_blocked');
+    expect(classifyLLMError(createAbortError())).toBe('aborted');
+    expect(classifyLLMError(new Error('Unexpected token < in JSON'))).toBe('unknown');
+  });
+});
+
+describe('computeRetryDelay', () => {
+  it('should grow exponentially, cap at the maximum and subtract jitter', () => {
+    const policy = { ...DEFAULT_RETRY_POLICY, baseDelayMs: 100, maxDelayMs: 300, jitter: 0.5 };
+
+    expect([0, 1, 2, 3].map(i => computeRetryDelay(i, policy, () => 0))).toEqual([100, 200, 300, 300]);
+    expect(computeRetryDelay(1, policy, () => 1)).toBe(100);
+  });
+});
+
+describe('createResilientProvider', () => {
+  it('should retry transient errors on the same provider with backoff', async () => {
+    const { attempts, sleep, options } = collectAttempts();
+    const primary = createScriptedProvider('pro', [new Error('HTTP 503'), 'ok']);
+
+    const result = await createResilientProvider([primary], options).generate({ contents: 'a' });
+
+    expect(result.text).toBe('ok');
+    expect(sleep).toHaveBeenCalledWith(DEFAULT_RETRY_POLICY.baseDelayMs, undefined);
+    expect(attempts.map(a => [a.attempt, a.model, a.outcome, a.nextStep])).toEqual([
+      [1, 'pro', 'transient', 'retry'],
+      [2, 'pro', 'success', undefined]
+    ]);
+  });
+
+  it('should fail over along the chain and stop when the budget is spent', async () => {
+    const { attempts, options } = collectAttempts();
+    const chain = [
+      createScriptedProvider('pro', [new Error('HTTP 429: quota')]),
+      createScriptedProvider('flash', [new Error('HTTP 503'), new Error('HTTP 503')]),
+      createScriptedProvider('local', [new Error('HTTP 500')])
+    ];
+
+    const error = await createResilientProvider(chain, { ...options, policy: { maxAttempts: 3 } })
+      .generate({ contents: 'a' }).catch(e => e);
+
+    expect(error.message).toBe('HTTP 503');
+    expect(chain[2].generate).not.toHaveBeenCalled();
+    expect(attempts.map(a => [a.model, a.outcome, a.nextStep])).toEqual([
+      ['pro', 'quota', 'failover'],
+      ['flash', 'transient', 'retry'],
+      ['flash', 'transient', 'stop']
+    ]);
+  });
+
+  it('should not retry cancelled or blocked requests', async () => {
+    const { attempts, options } = collectAttempts();
+    const fallback = createScriptedProvider('flash', ['ok']);
+
+    const blocked = await createResilientProvider([createScriptedProvider('pro', [new Error('blocked: SAFETY')]), fallback], options)
+      .generate({ contents: 'a' }).catch(e => e);
+    const aborted = await createResilientProvider([createScriptedProvider('pro', [createAbortError()]), fallback], options)
+      .generate({ contents: 'a' }).catch(e => e);
+
+    expect(blocked.message).toBe('blocked: SAFETY');
+    expect(isAbortError(aborted)).toBe(true);
+    expect(fallback.generate).not.toHaveBeenCalled();
+    expect(attempts.map(a => a.nextStep)).toEqual(['stop', 'stop']);
+  });
+
+  it('should only retry a stream before any chunk arrived', async () => {
+    const { options } = collectAttempts();
+    const failingEarly = createScriptedProvider('pro', [], [new Error('HTTP 503')]);
+    const fallback = createScriptedProvider('flash', [], ['Xin ', 'chào']);
+
+    const chunks: string[] = [];
+    for await (const chunk of createResilientProvider([failingEarly, fallback], options).stream({ contents: 'a' })) chunks.push(chunk.text);
+    expect(chunks).toEqual(['Xin ', 'chào']);
+
+    const failingLate = createScriptedProvider('pro', [], ['Xin ', new Error('HTTP 503')]);
+    const seen: string[] = [];
+    const error = await (async () => {
+      for await (const chunk of createResilientProvider([failingLate, fallback], options).stream({ contents: 'a' })) seen.push(chunk.text);
+    })().catch(e => e);
+    expect(error.message).toBe('HTTP 503');
+    expect(seen).toEqual(['Xin ']);
+  });
+
+  it('should tag results with the model that answered after a failover', async () => {
+    const { options } = collectAttempts();
+    const chain = [createScriptedProvider('pro', [new Error('HTTP 429: quota')], [new Error('HTTP 429: quota')]), createScriptedProvider('flash', ['ok'], ['Xin ', 'chào'])];
+    const provider = createResilientProvider(chain, options);
+
+    expect(await provider.generate({ contents: 'a' })).toMatchObject({ text: 'ok', model: 'flash' });
+    expect(await generateStreaming(provider, { contents: 'a' }, () => {})).toMatchObject({ text: 'Xin chào', model: 'flash' });
+    expect(provider.model).toBe('pro');
+  });
+
+  it('should report the task and the streamed usage of a successful attempt', async () => {
+    const { attempts, options } = collectAttempts();
+    const provider = createScriptedProvider('pro', []);
+    provider.stream = async function* () {
+      yield { text: 'Xin ', totalTokens: 5 };
+      yield { text: 'chào', totalTokens: 12, promptTokens: 9, completionTokens: 3 };
+      yield { text: '' };
+    };
+
+    for await (const _chunk of createResilientProvider([provider], options).stream({ contents: 'a', task: 'story' })) { /* tiêu thụ */ }
+
+    expect(attempts).toHaveLength(1);
+    expect(attempts[0]).toMatchObject({ task: 'story', outcome: 'success', usage: { totalTokens: 12, promptTokens: 9, completionTokens: 3 } });
+  });
+});
+
+describe('createLLMProvider failover chain', () => {
+  it('should chain fallback models and the OpenAI-compatible endpoint after Gemini', async () => {
+    const generateContent = vi.fn(async ({ model }: { model: string }) => {
+      throw new Error(`[429 Too Many Requests] ${model}`);
+    });
+    const ai = { models: { generateContent } } as unknown as GoogleGenAI;
+    const fetchImpl = vi.fn();
+    vi.stubGlobal('fetch', fetchImpl.mockResolvedValue({ ok: false, status: 503, text: async () => 'down' }));
+    const attempts: LLMAttemptRecord[] = [];
+
+    try {
+      const provider = createLLMProvider({
+        ai, model: 'gemini-2.5-pro', openAiBaseUrl: 'http://localhost:1234',
+        failover: { fallbackModels: ['gemini-2.5-flash'], openAiAsFallback: true, openAiFallbackModel: 'local', maxAttempts: 3 },
+        onAttempt: record => attempts.push(record)
+      })!;
+      await provider.generate({ contents: 'a' }).catch(() => {});
+    } finally {
+      vi.unstubAllGlobals();
+    }
+
+    expect(attempts.map(a => [a.providerId, a.model, a.outcome])).toEqual([
+      ['gemini', 'gemini-2.5-pro', 'quota'],
+      ['gemini', 'gemini-2.5-flash', 'quota'],
+      ['openai-compatible', 'local', 'transient']
+    ]);
+  });
+});
@@ -0,0 +1,234 @@
+import { createAbortError, isAbortError, mergeChunkUsage } from './llmProvider';
+import type { LLMGenerateRequest, LLMGenerateResult, LLMProvider, LLMProviderId, LLMStreamChunk, LLMUsage } from './llmProvider';
+import type { LLMTask } from './modelProfiles';
+
+export type LLMErrorCategory = 'transient' | 'auth' | 'quota' | 'content_blocked' | 'aborted' | 'unknown';
+
+export interface RetryPolicy {
+    maxAttempts: number;            // Tổng số lần gọi cho một yêu cầu, tính cả các provider dự phòng
+    maxAttemptsPerProvider: number; // Số lần gọi tối đa trên cùng một provider khi gặp lỗi tạm thời
+    baseDelayMs: number;
+    maxDelayMs: number;
+    jitter: number;                 // 0..1, phần thời gian chờ được rút ngẫu nhiên
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxAttempts: 4,
+    maxAttemptsPerProvider: 2,
+    baseDelayMs: 1000,
+    maxDelayMs: 8000,
+    jitter: 0.5
+};
+
+/** Cấu hình dự phòng người chơi chỉnh trong Thiết Lập Nguồn AI */
+export interface LLMFailoverSettings {
+    fallbackModels: string[];       // Thử lần lượt sau model chính, cùng backend
+    openAiAsFallback: boolean;      // Endpoint OpenAI-compatible là mắt xích cuối thay vì backend chính
+    openAiFallbackModel: string;
+    maxAttempts: number;
+}
+
+export const DEFAULT_FAILOVER_SETTINGS: LLMFailoverSettings = {
+    fallbackModels: [],
+    openAiAsFallback: false,
+    openAiFallbackModel: '',
+    maxAttempts: DEFAULT_RETRY_POLICY.maxAttempts
+};
+
+export type LLMAttemptNextStep = 'retry' | 'failover' | 'stop';
+
+export interface LLMAttemptRecord {
+    requestId: number;
+    attempt: number;                // Thứ tự trong yêu cầu, bắt đầu từ 1
+    providerId: LLMProviderId;
+    model: string;
+    outcome: 'success' | LLMErrorCategory;
+    error?: string;
+    durationMs: number;
+    nextStep?: LLMAttemptNextStep;  // Chỉ có khi lần gọi thất bại
+    delayMs?: number;               // Thời gian chờ trước lần thử lại
+    task?: LLMTask;
+    usage?: LLMUsage | null;        // Chỉ có khi thành công; null nếu backend không báo
+}
+
+export interface ResilientProviderOptions {
+    policy?: Partial<RetryPolicy>;
+    onAttempt?: (record: LLMAttemptRecord) => void;
+    sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+    random?: () => number;
+}
+
+const AUTH_PATTERN = /API[_ ]?key not valid|invalid api key|PERMISSION_DENIED|UNAUTHENTICATED|unauthorized/i;
+const QUOTA_PATTERN = /RESOURCE_EXHAUSTED|quota|rate[_ ]?limit|too many requests/i;
+const CONTENT_BLOCKED_PATTERN = /SAFETY|PROHIBITED_CONTENT|BLOCKLIST|content[_ ]filter|blocked/i;
+const TRANSIENT_PATTERN = /UNAVAILABLE|DEADLINE_EXCEEDED|overloaded|timed? ?out|network|failed to fetch|fetch failed|ECONNRESET|ECONNREFUSED/i;
+const TRANSIENT_STATUSES = [408, 500, 502, 503, 504];
+
+// Mã HTTP lấy từ thuộc tính status (SDK Gemini) hoặc từ thông điệp lỗi ("HTTP 429", "[503 ...]", "code":429)
+const getErrorStatus = (error: any, message: string): number | undefined => {
+    if (typeof error?.status === 'number') return error.status;
+    const match = /HTTP (\d{3})|\[(\d{3})\b|"code":\s*(\d{3})/.exec(message);
+    return match ? Number(match[1] ?? match[2] ?? match[3]) : undefined;
+};
+
+/** Phân loại lỗi từ provider để quyết định thử lại, chuyển dự phòng hay dừng */
+export const classifyLLMError = (error: unknown): LLMErrorCategory => {
+    if (isAbortError(error)) return 'aborted';
+
+    const message = error instanceof Error ? error.message : String(error);
+    const status = getErrorStatus(error, message);
+
+    if (status === 401 || status === 403 || AUTH_PATTERN.test(message)) return 'auth';
+    if (status === 429 || QUOTA_PATTERN.test(message)) return 'quota';
+    if (CONTENT_BLOCKED_PATTERN.test(message)) return 'content_blocked';
+    if ((status !== undefined && TRANSIENT_STATUSES.includes(status)) || TRANSIENT_PATTERN.test(message) || error instanceof TypeError) {
+        return 'transient';
+    }
+    return 'unknown';
+};
+
+/** Thời gian chờ tăng theo cấp số nhân, trừ đi một phần ngẫu nhiên để các lần thử không dồn cùng lúc */
+export const computeRetryDelay = (retryIndex: number, policy: RetryPolicy, random: () => number = Math.random): number => {
+    const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** retryIndex);
+    return Math.round(exponential * (1 - policy.jitter * random()));
+};
+
+const waitFor = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+        reject(createAbortError());
+        return;
+    }
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+let nextRequestId = 1;
+
+/**
+ * Bọc chuỗi provider (provider chính đứng đầu) bằng chính sách thử lại:
+ * lỗi tạm thời được thử lại trên cùng provider với backoff, lỗi quota/xác thực/không rõ chuyển sang provider kế tiếp,
+ * lỗi do bị hủy hoặc nội dung bị chặn dừng ngay. Stream chỉ được thử lại khi chưa nhận mảnh nào.
+ */
+export const createResilientProvider = (chain: LLMProvider[], options: ResilientProviderOptions = {}): LLMProvider => {
+    if (chain.length === 0) throw new Error('Chuỗi provider dự phòng không được rỗng');
+
+    const policy: RetryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.policy };
+    const sleep = options.sleep ?? waitFor;
+    const random = options.random ?? Math.random;
+    const primary = chain[0];
+    const servingModel = (provider: LLMProvider, request: LLMGenerateRequest) => request.model || provider.model;
+
+    // Theo dõi một yêu cầu qua các lần thử; handleFailure trả về false khi phải ném lỗi ra ngoài
+    const createAttemptTracker = (request: LLMGenerateRequest) => {
+        const requestId = nextRequestId++;
+        let attempt = 0;
+        let providerIndex = 0;
+        let providerAttempt = 0;
+        let startedAt = 0;
+
+        const begin = (): LLMProvider => {
+            attempt++;
+            providerAttempt++;
+            startedAt = Date.now();
+            return chain[providerIndex];
+        };
+
+        const report = (provider: LLMProvider, record: Pick<LLMAttemptRecord, 'outcome' | 'error' | 'nextStep' | 'delayMs' | 'usage'>) => {
+            options.onAttempt?.({
+                requestId, attempt, providerId: provider.id, model: servingModel(provider, request),
+                durationMs: Date.now() - startedAt, task: request.task, ...record
+            });
+        };
+
+        const succeed = (provider: LLMProvider, usage: LLMUsage | null) => report(provider, { outcome: 'success', usage });
+
+        const handleFailure = async (provider: LLMProvider, error: unknown, canRetry: boolean): Promise<boolean> => {
+            const category = classifyLLMError(error);
+            const message = error instanceof Error ? error.message : String(error);
+            const budgetLeft = attempt < policy.maxAttempts;
+
+            let nextStep: LLMAttemptNextStep = 'stop';
+            if (canRetry && budgetLeft && category !== 'aborted' && category !== 'content_blocked') {
+                if (category === 'transient' && providerAttempt < policy.maxAttemptsPerProvider) {
+                    nextStep = 'retry';
+                } else if (providerIndex < chain.length - 1) {
+                    nextStep = 'failover';
+                }
+            }
+
+            const delayMs = nextStep === 'retry' ? computeRetryDelay(providerAttempt - 1, policy, random) : undefined;
+            report(provider, { outcome: category, error: message, nextStep, delayMs });
+
+            if (nextStep === 'stop') return false;
+            if (nextStep === 'failover') {
+                providerIndex++;
+                providerAttempt = 0;
+            } else {
+                await sleep(delayMs!, request.signal);
+            }
+            return true;
+        };
+
+        return { begin, succeed, handleFailure };
+    };
+
+    return {
+        id: primary.id,
+        model: primary.model,
+        capabilities: primary.capabilities,
+
+        async generate(request: LLMGenerateRequest): Promise<LLMGenerateResult> {
+            const tracker = createAttemptTracker(request);
+            while (true) {
+                const provider = tracker.begin();
+                try {
+                    const result = await provider.generate(request);
+                    tracker.succeed(provider, result.usage);
+                    return { ...result, model: servingModel(provider, request) };
+                } catch (error) {
+                    if (!(await tracker.handleFailure(provider, error, true))) throw error;
+                }
+            }
+        },
+
+        async *stream(request: LLMGenerateRequest): AsyncIterable<LLMStreamChunk> {
+            const tracker = createAttemptTracker(request);
+            while (true) {
+                const provider = tracker.begin();
+                let yielded = false;
+                let usage: LLMUsage | null = null;
+                try {
+                    const model = servingModel(provider, request);
+                    if (provider.capabilities.streaming) {
+                        for await (const chunk of provider.stream(request)) {
+                            yielded = true;
+                            usage = mergeChunkUsage(usage, chunk);
+                            yield { ...chunk, model };
+                        }
+                    } else {
+                        const result = await provider.generate(request);
+                        yielded = true;
+                        usage = result.usage;
+                        yield { text: result.text, ...result.usage, toolCalls: result.toolCalls, model };
+                    }
+                    tracker.succeed(provider, usage);
+                    return;
+                } catch (error) {
+                    // Đã hiển thị một phần nội dung thì không thể thử lại một cách trong suốt
+                    if (!(await tracker.handleFailure(provider, error, !yielded))) throw error;
+                }
+            }
+        },
+
+        countTokens(request: LLMGenerateRequest): Promise<number> {
+            return primary.countTokens(request);
+        }
+    };
+};
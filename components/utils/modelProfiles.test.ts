@@ -0,0 +1,32 @@
+import { describe, it, expect, vi } from 'vitest';
+import { DEFAULT_MODEL_PROFILES, parseModelProfiles, resolveTaskModels } from './modelProfiles';
+import type { LLMTaskModel } from './modelProfiles';
+import type { LLMProvider } from './llmProvider';
+
+const provider = (model: string) => ({ id: 'mock', model }) as unknown as LLMProvider;
+const main: LLMTaskModel = { provider: provider('pro'), model: 'pro', temperature: 0.9, topK: 40, topP: 0.95 };
+
+describe('modelProfiles', () => {
+  it('should fill in missing tasks and fields from saved settings', () => {
+    expect(parseModelProfiles(null)).toEqual(DEFAULT_MODEL_PROFILES);
+    expect(parseModelProfiles('{"suggestion":{"useDefault":false,"model":"flash"}}').suggestion)
+      .toEqual({ useDefault: false, backend: 'auto', model: 'flash', temperature: 0.9, topK: 40, topP: 0.95 });
+  });
+
+  it('should resolve each task to its own provider and sampling parameters', () => {
+    const createProvider = vi.fn((_profile, model: string) => model === 'missing' ? null : provider(model));
+    const profiles = parseModelProfiles(JSON.stringify({
+      suggestion: { useDefault: false, backend: 'gemini', model: 'flash', temperature: 0.3 },
+      memory: { useDefault: false, backend: 'openai-compatible', model: 'missing', topK: 5 }
+    }));
+
+    const models = resolveTaskModels(main, profiles, createProvider);
+
+    expect(models.story).toBe(main);
+    expect(models.suggestion).toEqual({ provider: provider('flash'), model: 'flash', temperature: 0.3, topK: 40, topP: 0.95 });
+    expect(createProvider).toHaveBeenCalledWith(expect.objectContaining({ backend: 'gemini' }), 'flash');
+    // Backend chưa cấu hình: vẫn dùng provider chính với tham số của hồ sơ
+    expect(models.memory).toMatchObject({ provider: main.provider, topK: 5 });
+    expect(resolveTaskModels(main, DEFAULT_MODEL_PROFILES, createProvider).suggestion).toBe(main);
+  });
+});
@@ -0,0 +1,78 @@
+import type { LLMProvider } from './llmProvider';
+
+// story: lượt truyện chính (dùng cấu hình model chính); các tác vụ còn lại có hồ sơ riêng
+export type LLMTask = 'story' | 'suggestion' | 'memory';
+export type LLMProfileTask = Exclude<LLMTask, 'story'>;
+
+// auto: cùng thứ tự backend như cấu hình chính (endpoint trước nếu được đặt làm chính)
+export type LLMBackendChoice = 'auto' | 'gemini' | 'openai-compatible';
+
+export interface ModelProfile {
+    useDefault: boolean;        // true: dùng model, tham số và backend của lượt truyện
+    backend: LLMBackendChoice;
+    model: string;              // Rỗng = model chính
+    temperature: number;
+    topK: number;
+    topP: number;
+}
+
+export type ModelProfiles = Record<LLMProfileTask, ModelProfile>;
+
+// Provider và tham số lấy mẫu đã phân giải cho một tác vụ
+export interface LLMTaskModel {
+    provider: LLMProvider | null;
+    model: string;
+    temperature: number;
+    topK: number;
+    topP: number;
+}
+
+export const LLM_TASK_LABELS: Record<LLMTask, string> = {
+    story: 'Lượt truyện',
+    suggestion: 'Gợi ý (hành động, tạo thế giới)',
+    memory: 'Tóm tắt ký ức (lịch sử đã nén)'
+};
+
+const DEFAULT_PROFILE: ModelProfile = { useDefault: true, backend: 'auto', model: '', temperature: 0.9, topK: 40, topP: 0.95 };
+
+export const DEFAULT_MODEL_PROFILES: ModelProfiles = {
+    suggestion: DEFAULT_PROFILE,
+    memory: DEFAULT_PROFILE
+};
+
+/** Đọc hồ sơ đã lưu, bổ sung giá trị mặc định cho tác vụ hoặc trường còn thiếu */
+export const parseModelProfiles = (saved: string | null): ModelProfiles => {
+    const parsed = saved ? JSON.parse(saved) : {};
+    return {
+        suggestion: { ...DEFAULT_PROFILE, ...parsed.suggestion },
+        memory: { ...DEFAULT_PROFILE, ...parsed.memory }
+    };
+};
+
+/**
+ * Phân giải model cho từng tác vụ. createProvider trả về null khi backend của hồ sơ chưa được cấu hình,
+ * lúc đó tác vụ vẫn dùng provider chính với tham số của hồ sơ.
+ */
+export const resolveTaskModels = (
+    main: LLMTaskModel,
+    profiles: ModelProfiles,
+    createProvider: (profile: ModelProfile, model: string) => LLMProvider | null
+): Record<LLMTask, LLMTaskModel> => {
+    const resolve = (profile: ModelProfile): LLMTaskModel => {
+        if (profile.useDefault) return main;
+        const model = profile.model.trim() || main.model;
+        return {
+            provider: createProvider(profile, model) ?? main.provider,
+            model,
+            temperature: profile.temperature,
+            topK: profile.topK,
+            topP: profile.topP
+        };
+    };
+
+    return {
+        story: main,
+        suggestion: resolve(profiles.suggestion),
+        memory: resolve(profiles.memory)
+    };
+};
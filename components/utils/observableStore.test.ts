@@ -0,0 +1,23 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createObservableStore } from './observableStore';
+
+describe('observableStore', () => {
+  it('should notify subscribers on update and reset until they unsubscribe', () => {
+    const store = createObservableStore<number[]>([]);
+    const listener = vi.fn();
+    const unsubscribe = store.subscribe(listener);
+
+    store.update(values => [...values, 1]);
+    const snapshot = store.getSnapshot();
+    expect(snapshot).toEqual([1]);
+    expect(store.getSnapshot()).toBe(snapshot);
+
+    store.reset();
+    expect(store.getSnapshot()).toEqual([]);
+    expect(listener).toHaveBeenCalledTimes(2);
+
+    unsubscribe();
+    store.update(values => [...values, 2]);
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+});
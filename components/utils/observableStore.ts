@@ -0,0 +1,32 @@
+/**
+ * Kho dữ liệu nhỏ có thể đăng ký theo dõi, dùng với useSyncExternalStore.
+ * Các hàm đã gắn sẵn nên có thể truyền thẳng cho React mà không cần bọc lại.
+ */
+export interface ObservableStore<T> {
+    getSnapshot: () => T;
+    update: (updater: (current: T) => T) => void;
+    reset: () => void;
+    // Trả về hàm hủy đăng ký
+    subscribe: (listener: () => void) => () => void;
+}
+
+export const createObservableStore = <T>(initial: T): ObservableStore<T> => {
+    let snapshot = initial;
+    const listeners = new Set<() => void>();
+    const set = (next: T) => {
+        snapshot = next;
+        listeners.forEach(listener => listener());
+    };
+
+    return {
+        getSnapshot: () => snapshot,
+        update: (updater) => set(updater(snapshot)),
+        reset: () => set(initial),
+        subscribe: (listener) => {
+            listeners.add(listener);
+            return () => {
+                listeners.delete(listener);
+            };
+        }
+    };
+};
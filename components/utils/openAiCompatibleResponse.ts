@@ -1,8 +1,25 @@
+import type { LLMToolCall } from './llmProvider';
+
 export interface OpenAiCompatibleResponseResult {
     text: string;
     totalTokens: number;
+    promptTokens?: number;
+    completionTokens?: number;
+    toolCalls?: LLMToolCall[];
+}
+
+// Một mảnh phản hồi: text là phần nội dung mới, totalTokens có khi endpoint gửi usage
+export interface OpenAiCompatibleStreamChunk {
+    text: string;
+    totalTokens?: number;
+    promptTokens?: number;
+    completionTokens?: number;
+    toolCalls?: LLMToolCall[];  // Chỉ có ở mảnh cuối, khi đã ghép đủ tham số
 }
 
+// Tham số của lời gọi hàm được stream thành nhiều đoạn chuỗi theo index
+type PendingToolCalls = Map<number, { name: string; arguments: string }>;
+
 const extractTextFromPayload = (payload: any): string => {
     const firstChoice = payload?.choices?.[0];
     const content = firstChoice?.delta?.content ?? firstChoice?.message?.content ?? firstChoice?.text ?? '';
@@ -17,13 +34,44 @@ const parsePayload = (payloadText: string): any | null => {
     }
 };
 
-const consumeStreamChunk = (
-    chunkText: string,
-    currentText: string,
-    currentTokens: number
-): OpenAiCompatibleResponseResult => {
-    let nextText = currentText;
-    let nextTokens = currentTokens;
+const extractUsageFromPayload = (payload: any): Pick<OpenAiCompatibleStreamChunk, 'totalTokens' | 'promptTokens' | 'completionTokens'> => {
+    const usage = payload?.usage;
+    if (typeof usage?.total_tokens !== 'number') return {};
+    return {
+        totalTokens: usage.total_tokens,
+        ...(typeof usage.prompt_tokens === 'number' ? { promptTokens: usage.prompt_tokens } : {}),
+        ...(typeof usage.completion_tokens === 'number' ? { completionTokens: usage.completion_tokens } : {})
+    };
+};
+
+const parseToolArguments = (argumentsText: string): { [key: string]: any } => {
+    const parsed = parsePayload(argumentsText || '{}');
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+};
+
+const collectToolCallDeltas = (payload: any, pending: PendingToolCalls): void => {
+    const firstChoice = payload?.choices?.[0];
+    const deltas = firstChoice?.delta?.tool_calls ?? firstChoice?.message?.tool_calls;
+    if (!Array.isArray(deltas)) return;
+
+    deltas.forEach((delta: any, position: number) => {
+        const index = typeof delta?.index === 'number' ? delta.index : position;
+        const entry = pending.get(index) ?? { name: '', arguments: '' };
+        if (delta?.function?.name) entry.name += delta.function.name;
+        if (typeof delta?.function?.arguments === 'string') entry.arguments += delta.function.arguments;
+        pending.set(index, entry);
+    });
+};
+
+const finishToolCalls = (pending: PendingToolCalls): LLMToolCall[] | undefined =>
+    pending.size > 0
+        ? [...pending.entries()]
+            .sort(([a], [b]) => a - b)
+            .map(([, call]) => ({ name: call.name, args: parseToolArguments(call.arguments) }))
+        : undefined;
+
+const consumeStreamChunk = (chunkText: string, pendingToolCalls: PendingToolCalls): OpenAiCompatibleStreamChunk[] => {
+    const results: OpenAiCompatibleStreamChunk[] = [];
 
     const lines = chunkText
         .split('\n')
@@ -41,38 +89,40 @@ const consumeStreamChunk = (
             continue;
         }
 
+        collectToolCallDeltas(payload, pendingToolCalls);
         const chunkContent = extractTextFromPayload(payload);
-        if (chunkContent) {
-            nextText += chunkContent;
-        }
-
-        if (typeof payload?.usage?.total_tokens === 'number') {
-            nextTokens = payload.usage.total_tokens;
+        const usage = extractUsageFromPayload(payload);
+        if (chunkContent || usage.totalTokens !== undefined) {
+            results.push({ text: chunkContent, ...usage });
         }
     }
 
-    return {
-        text: nextText,
-        totalTokens: nextTokens
-    };
+    return results;
 };
 
-export const parseOpenAiCompatibleResponse = async (response: Response): Promise<OpenAiCompatibleResponseResult> => {
+/**
+ * Đọc phản hồi từng phần (SSE); endpoint không stream sẽ trả về một mảnh duy nhất
+ */
+export async function* streamOpenAiCompatibleResponse(response: Response): AsyncGenerator<OpenAiCompatibleStreamChunk> {
     const contentType = response.headers.get('content-type') || '';
 
     if (!contentType.includes('text/event-stream') || !response.body) {
         const data = await response.json();
-        return {
-            text: extractTextFromPayload(data).trim(),
-            totalTokens: typeof data?.usage?.total_tokens === 'number' ? data.usage.total_tokens : 0
+        const pending: PendingToolCalls = new Map();
+        collectToolCallDeltas(data, pending);
+        yield {
+            text: extractTextFromPayload(data),
+            totalTokens: 0,
+            ...extractUsageFromPayload(data),
+            toolCalls: finishToolCalls(pending)
         };
+        return;
     }
 
     const reader = response.body.getReader();
     const decoder = new TextDecoder();
     let buffer = '';
-    let aggregatedText = '';
-    let totalTokens = 0;
+    const pendingToolCalls: PendingToolCalls = new Map();
 
     while (true) {
         const { value, done } = await reader.read();
@@ -82,9 +132,7 @@ export const parseOpenAiCompatibleResponse = async (response: Response): Promise
         buffer = chunks.pop() || '';
 
         for (const chunk of chunks) {
-            const parsed = consumeStreamChunk(chunk, aggregatedText, totalTokens);
-            aggregatedText = parsed.text;
-            totalTokens = parsed.totalTokens;
+            yield* consumeStreamChunk(chunk, pendingToolCalls);
         }
 
         if (done) {
@@ -93,13 +141,33 @@ export const parseOpenAiCompatibleResponse = async (response: Response): Promise
     }
 
     if (buffer.trim()) {
-        const parsed = consumeStreamChunk(buffer, aggregatedText, totalTokens);
-        aggregatedText = parsed.text;
-        totalTokens = parsed.totalTokens;
+        yield* consumeStreamChunk(buffer, pendingToolCalls);
+    }
+
+    const toolCalls = finishToolCalls(pendingToolCalls);
+    if (toolCalls) {
+        yield { text: '', toolCalls };
+    }
+}
+
+export const parseOpenAiCompatibleResponse = async (response: Response): Promise<OpenAiCompatibleResponseResult> => {
+    let aggregatedText = '';
+    let usage: Pick<OpenAiCompatibleResponseResult, 'totalTokens' | 'promptTokens' | 'completionTokens'> = { totalTokens: 0 };
+    let toolCalls: LLMToolCall[] | undefined;
+
+    for await (const chunk of streamOpenAiCompatibleResponse(response)) {
+        aggregatedText += chunk.text;
+        if (chunk.totalTokens !== undefined) {
+            usage = { totalTokens: chunk.totalTokens, promptTokens: chunk.promptTokens, completionTokens: chunk.completionTokens };
+        }
+        if (chunk.toolCalls) {
+            toolCalls = chunk.toolCalls;
+        }
     }
 
     return {
         text: aggregatedText.trim(),
-        totalTokens
+        ...usage,
+        ...(toolCalls ? { toolCalls } : {})
     };
-};
\ No newline at end of file
+};
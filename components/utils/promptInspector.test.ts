@@ -0,0 +1,52 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { buildPromptSections, promptInspector } from './promptInspector';
+import { approximateBpeCounter, tokenCounter } from './tokenCounter';
+
+describe('promptInspector', () => {
+  beforeEach(() => {
+    tokenCounter.resetCalibration();
+    tokenCounter.setCounter(approximateBpeCounter);
+    promptInspector.clear();
+  });
+
+  it('should split the final prompt at section marks and attach subsections', () => {
+    const critical = '=== TRI THỨC QUAN TRỌNG ===\nTổ đội: Lâm\n';
+    const action = '\n--- HÀNH ĐỘNG CỦA NGƯỜI CHƠI ---\n"đi tới chợ"\n';
+    const prompt = critical + '\n' + action;
+
+    const sections = buildPromptSections(
+      prompt,
+      [
+        { id: 'critical', start: 0 },
+        { id: 'retrieval', start: critical.length },
+        { id: 'action', start: critical.length + 1 }
+      ],
+      [
+        { parent: 'critical', id: 'party', text: 'Tổ đội: Lâm' },
+        { parent: 'critical', id: 'coreInstructions', text: '' }
+      ]
+    );
+
+    // Mục chỉ có khoảng trắng bị bỏ
+    expect(sections.map(section => section.id)).toEqual(['critical', 'action']);
+    expect(sections.map(section => section.text).join('')).toBe(critical + action);
+    expect(sections[0].tokens).toBe(tokenCounter.count(critical));
+    expect(sections[0].children).toEqual([
+      { id: 'party', text: 'Tổ đội: Lâm', tokens: tokenCounter.count('Tổ đội: Lâm'), children: [] }
+    ]);
+  });
+
+  it('should keep only the most recent turns', () => {
+    for (let turn = 1; turn <= 25; turn++) {
+      promptInspector.record({
+        turnCount: turn, action: `lượt ${turn}`, prompt: '', totalTokens: 0, budget: 1000,
+        truncated: false, sections: [], entities: [], rules: []
+      });
+    }
+
+    const entries = promptInspector.getEntries();
+    expect(entries).toHaveLength(20);
+    expect(entries[0].turnCount).toBe(6);
+    expect(new Set(entries.map(entry => entry.id)).size).toBe(20);
+  });
+});
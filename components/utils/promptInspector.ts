@@ -0,0 +1,114 @@
+import { tokenCounter } from './tokenCounter';
+import { createObservableStore } from './observableStore';
+
+export type PromptSectionId =
+    | 'format' | 'ruleChanges' | 'critical' | 'retrieval' | 'important' | 'contextual' | 'rules'
+    | 'statusEvents' | 'checks' | 'action' | 'choices' | 'cot' | 'nsfw' | 'closing'
+    // Phần con nằm bên trong các mục trên
+    | 'coreInstructions' | 'party' | 'attributes' | 'wallet' | 'quests' | 'history' | 'chronicle';
+
+export const PROMPT_SECTION_LABELS: Record<PromptSectionId, string> = {
+    format: 'Định dạng phản hồi',
+    ruleChanges: 'Thay đổi luật',
+    critical: 'Ngữ cảnh then chốt',
+    retrieval: 'Ký ức truy xuất (RAG)',
+    important: 'Thông tin liên quan',
+    contextual: 'Bối cảnh thế giới',
+    rules: 'Luật được kích hoạt',
+    statusEvents: 'Diễn biến trạng thái',
+    checks: 'Kết quả kiểm tra',
+    action: 'Hành động người chơi',
+    choices: 'Hướng dẫn lựa chọn',
+    cot: 'Khối COT',
+    nsfw: 'NSFW',
+    closing: 'Yêu cầu xử lý & quy tắc',
+    coreInstructions: 'Quy tắc cốt lõi',
+    party: 'Tổ đội',
+    attributes: 'Chỉ số nhân vật',
+    wallet: 'Tài sản',
+    quests: 'Nhiệm vụ',
+    history: 'Lịch sử gần đây',
+    chronicle: 'Biên niên sử'
+};
+
+export interface PromptSection {
+    id: PromptSectionId;
+    text: string;
+    tokens: number;
+    children: PromptSection[];  // Phần con đã đếm riêng, văn bản của chúng nằm trong text
+}
+
+// Vị trí bắt đầu của một mục trong prompt cuối, theo thứ tự ghép
+export interface PromptSectionMark {
+    id: PromptSectionId;
+    start: number;
+}
+
+export interface PromptSubsection {
+    parent: PromptSectionId;
+    id: PromptSectionId;
+    text: string;
+}
+
+export interface PromptEntityTrace {
+    name: string;
+    type: string;
+    score: number;
+    reasons: string[];
+}
+
+export interface PromptRuleTrace {
+    title: string;
+    reason: string;
+    keywords: string[];
+}
+
+export interface PromptInspection {
+    id: number;
+    timestamp: number;
+    turnCount: number;
+    action: string;
+    prompt: string;
+    totalTokens: number;
+    budget: number;             // Ngân sách prompt của model lúc dựng
+    truncated: boolean;         // Prompt đã bị cắt khẩn cấp, các mục có thể không khớp phần cuối
+    sections: PromptSection[];
+    entities: PromptEntityTrace[];
+    rules: PromptRuleTrace[];
+}
+
+const MAX_INSPECTIONS = 20;
+
+/** Cắt prompt theo các mốc đã đánh dấu; mục rỗng bị bỏ, phần con được gắn vào mục cha */
+export const buildPromptSections = (prompt: string, marks: PromptSectionMark[], subsections: PromptSubsection[] = []): PromptSection[] =>
+    marks
+        .map((mark, index) => {
+            const text = prompt.substring(mark.start, marks[index + 1]?.start ?? prompt.length);
+            return {
+                id: mark.id,
+                text,
+                tokens: tokenCounter.count(text),
+                children: subsections
+                    .filter(sub => sub.parent === mark.id && sub.text.trim())
+                    .map(sub => ({ id: sub.id, text: sub.text, tokens: tokenCounter.count(sub.text), children: [] }))
+            };
+        })
+        .filter(section => section.text.trim());
+
+/**
+ * Lưu prompt của các lượt gần đây cùng bảng chia token để người chơi xem lại
+ */
+class PromptInspectorStore {
+    private store = createObservableStore<PromptInspection[]>([]);
+    private nextId = 1;
+
+    public readonly getEntries = this.store.getSnapshot;
+    public readonly subscribe = this.store.subscribe;
+    public readonly clear = this.store.reset;
+
+    public record(inspection: Omit<PromptInspection, 'id' | 'timestamp'>): void {
+        this.store.update(entries => [...entries, { ...inspection, id: this.nextId++, timestamp: Date.now() }].slice(-MAX_INSPECTIONS));
+    }
+}
+
+export const promptInspector = new PromptInspectorStore();
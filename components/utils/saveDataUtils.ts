@@ -0,0 +1,21 @@
+import type { SaveData } from '../types';
+import { SaveDataMigration } from './SaveDataMigration';
+
+/**
+ * Kiểm tra cấu trúc tối thiểu của một bản lưu (từ tệp JSON hoặc IndexedDB)
+ */
+export const isValidSaveData = (loadedJson: any): boolean => {
+    return !!(loadedJson && loadedJson.worldData && loadedJson.knownEntities && loadedJson.gameHistory);
+};
+
+/**
+ * Đưa bản lưu về schema hiện tại qua pipeline migration.
+ * Dùng chung cho mọi đường tải (tệp, slot lưu); `notice` là tóm tắt thay đổi để báo cho người chơi.
+ */
+export const migrateLoadedSave = (loadedJson: any, fallbackSystemInstruction: string): { data: SaveData; notice: string | null } => {
+    const { data, report } = SaveDataMigration.migrate(loadedJson, { fallbackSystemInstruction });
+    if (report.steps.length > 0 || report.warnings.length > 0) {
+        console.log(`🔄 ${SaveDataMigration.formatReport(report)}`);
+    }
+    return { data, notice: SaveDataMigration.summarizeReport(report) };
+};
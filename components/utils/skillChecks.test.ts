@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import type { KnownEntities } from '../types';
+import { createDiceState, formatCheckForLog, formatCheckResultsForPrompt, getMasteryBonus, parsePlayerCheck, performCheck, resolveDC, rollDie } from './skillChecks';
+import { DEFAULT_ATTRIBUTES } from './characterAttributes';
+
+const knownEntities: KnownEntities = {
+  'Lâm Phong': { name: 'Lâm Phong', type: 'pc', description: '', stats: { str: 15 }, learnedSkills: ['Thanh Phong Kiếm'] },
+  'Thanh Phong Kiếm': { name: 'Thanh Phong Kiếm', type: 'skill', description: '', mastery: 'Đại Thành' }
+};
+
+describe('skillChecks', () => {
+  it('should replay the same rolls from the same seed', () => {
+    const rollAll = (seed: number) => {
+      let state = createDiceState(seed);
+      return Array.from({ length: 20 }, () => {
+        const roll = rollDie(20, state);
+        state = roll.state;
+        return roll.value;
+      });
+    };
+
+    const rolls = rollAll(42);
+    expect(rollAll(42)).toEqual(rolls);
+    expect(rollAll(43)).not.toEqual(rolls);
+    expect(rolls.every(value => value >= 1 && value <= 20)).toBe(true);
+  });
+
+  it('should add attribute and mastery modifiers and compare against the DC', () => {
+    const context = { knownEntities, attributes: DEFAULT_ATTRIBUTES, difficulty: 'hard' };
+    const state = createDiceState(7);
+    const { result, diceState } = performCheck({ target: 'Sức Mạnh', source: 'player' }, context, state);
+
+    expect(diceState.position).toBe(1);
+    expect(result).toMatchObject({ ownerName: 'Lâm Phong', targetName: 'Sức Mạnh', targetKind: 'attribute', modifier: 2, dc: 16 });
+    expect(result.total).toBe(result.roll + 2);
+    expect(result.outcome).toBe(result.roll === 20 ? 'critical_success' : result.roll === 1 ? 'critical_failure' : result.total >= 16 ? 'success' : 'failure');
+
+    const skill = performCheck({ target: 'thanh phong kiem', dc: 'khó', source: 'ai' }, context, diceState).result;
+    expect(skill).toMatchObject({ targetName: 'Thanh Phong Kiếm', targetKind: 'skill', modifier: 5, dc: 16 });
+    expect(performCheck({ target: 'Bơi Lội', source: 'ai' }, context, diceState).result).toMatchObject({ targetKind: 'none', modifier: 0 });
+    expect(getMasteryBonus('Sơ Cấp')).toBe(2);
+    expect(resolveDC(undefined)).toBe(13);
+  });
+
+  it('should parse player commands and format results for the log and the prompt', () => {
+    expect(parsePlayerCheck('/check Sức Mạnh 15: phá cánh cửa')).toEqual({
+      request: { target: 'Sức Mạnh', dc: 15, reason: 'phá cánh cửa', source: 'player' },
+      action: 'phá cánh cửa'
+    });
+    expect(parsePlayerCheck('/kiemtra Thân Pháp rất khó')?.request).toMatchObject({ target: 'Thân Pháp', dc: 'rat kho' });
+    expect(parsePlayerCheck('kiểm tra cánh cửa')).toBeNull();
+
+    const result = { ownerName: 'Lâm Phong', targetName: 'Sức Mạnh', targetKind: 'attribute' as const, roll: 3, modifier: -1, total: 2, dc: 10, outcome: 'failure' as const, reason: 'phá cửa', source: 'player' as const };
+    expect(formatCheckForLog(result)).toBe('🎲 **Kiểm tra Sức Mạnh** của Lâm Phong (DC 10): d20 = 3 - 1 = 2 → Thất bại — phá cửa');
+    expect(formatCheckResultsForPrompt([result])).toContain('• Lâm Phong kiểm tra Sức Mạnh khi phá cửa: d20 3 - 1 = 2 so với DC 10 → THẤT BẠI');
+    expect(formatCheckResultsForPrompt([])).toBe('');
+  });
+
+  it('should keep a skill name that ends in a difficulty word when the player knows that skill', () => {
+    const context = {
+      knownEntities: { ...knownEntities, 'Lâm Phong': { ...knownEntities['Lâm Phong'], learnedSkills: ['Thanh Phong Kiếm', 'Vô Thường', 'Bộ Pháp Dễ'] } },
+      attributes: DEFAULT_ATTRIBUTES
+    };
+
+    expect(parsePlayerCheck('/check Vô Thường', context)?.request).toMatchObject({ target: 'Vô Thường', dc: undefined });
+    expect(parsePlayerCheck('/check vô thường khó: né đòn', context)?.request).toMatchObject({ target: 'vô thường', dc: 'kho', reason: 'né đòn' });
+    expect(parsePlayerCheck('/check Bộ Pháp Dễ rất khó', context)?.request).toMatchObject({ target: 'Bộ Pháp Dễ', dc: 'rat kho' });
+    expect(parsePlayerCheck('/check Thân Pháp rất  khó', context)?.request).toMatchObject({ target: 'Thân Pháp', dc: 'rat kho' });
+  });
+});
@@ -0,0 +1,231 @@
+import type { AttributeDefinition, Entity, KnownEntities, RealmTier, Status } from '../types';
+import { computeAttributes, findAttribute } from './characterAttributes';
+
+/**
+ * Kiểm tra kỹ năng do engine tung xúc xắc: d20 + điểm cộng (từ chỉ số hoặc độ thành thạo kỹ năng) so với DC.
+ * Bộ sinh số ngẫu nhiên có seed và được lưu cùng bản lưu nên kết quả có thể tái hiện.
+ */
+
+export interface DiceState {
+    seed: number;
+    position: number;           // Số lần đã tung
+}
+
+export type CheckOutcome = 'critical_success' | 'success' | 'failure' | 'critical_failure';
+
+export interface CheckRequest {
+    owner?: string;             // 'pc' hoặc tên NPC; mặc định là PC
+    target: string;             // Tên/id chỉ số hoặc tên kỹ năng
+    dc?: number | string;       // Số hoặc mức độ (dễ, thường, khó, rất khó); trống thì theo độ khó của thế giới
+    reason?: string;
+    source: 'player' | 'ai';
+}
+
+export interface CheckResult {
+    ownerName: string;
+    targetName: string;
+    targetKind: 'attribute' | 'skill' | 'none';
+    roll: number;
+    modifier: number;
+    total: number;
+    dc: number;
+    outcome: CheckOutcome;
+    reason?: string;
+    source: CheckRequest['source'];
+}
+
+export interface CheckContext {
+    knownEntities: KnownEntities;
+    attributes?: AttributeDefinition[];
+    realmTiers?: RealmTier[];
+    statuses?: Status[];
+    difficulty?: string;
+}
+
+// DC mặc định theo độ khó của thế giới (FormData.difficulty)
+const DIFFICULTY_DC: { [difficulty: string]: number } = { easy: 10, normal: 13, hard: 16 };
+
+const NAMED_DC: { [name: string]: number } = {
+    'rat de': 5, 'very easy': 5,
+    'de': 10, 'easy': 10,
+    'thuong': 13, 'trung binh': 13, 'normal': 13, 'medium': 13,
+    'kho': 16, 'hard': 16,
+    'rat kho': 20, 'very hard': 20,
+    'bat kha thi': 25, 'impossible': 25
+};
+
+// Từ khóa độ thành thạo (đã bỏ dấu) → điểm cộng; xét bậc cao trước để "đại thành" không khớp nhầm bậc thấp
+const MASTERY_BONUSES: [string[], number][] = [
+    [['huyen dieu', 'than thong'], 8],
+    [['vien man', 'dinh phong'], 6],
+    [['dai thanh', 'xuat than'], 5],
+    [['cao cap', 'tinh thong'], 4],
+    [['trung cap', 'tieu thanh', 'thanh thao'], 3],
+    [['so cap', 'nhap mon'], 2],
+    [['moi hoc'], 1]
+];
+
+const OUTCOME_LABELS: { [outcome in CheckOutcome]: string } = {
+    critical_success: 'Thành công tuyệt đối',
+    success: 'Thành công',
+    failure: 'Thất bại',
+    critical_failure: 'Thất bại thảm hại'
+};
+
+const normalizeKey = (value: string) =>
+    value.trim().toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/đ/g, 'd').replace(/\s+/g, ' ');
+
+export const createDiceState = (seed: number = Math.floor(Math.random() * 0xffffffff)): DiceState => ({
+    seed: seed >>> 0,
+    position: 0
+});
+
+/** Số ngẫu nhiên [0, 1) thứ position của seed (mulberry32), không phụ thuộc các lần tung trước */
+export const randomAt = (seed: number, position: number): number => {
+    let t = (seed + Math.imul(position + 1, 0x6D2B79F5)) | 0;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+export const rollDie = (sides: number, state: DiceState): { value: number; state: DiceState } => ({
+    value: Math.floor(randomAt(state.seed, state.position) * sides) + 1,
+    state: { ...state, position: state.position + 1 }
+});
+
+export const getMasteryBonus = (mastery?: string): number => {
+    if (!mastery) return 0;
+    const key = normalizeKey(mastery);
+    return MASTERY_BONUSES.find(([keywords]) => keywords.some(keyword => key.includes(keyword)))?.[1] ?? 0;
+};
+
+/** Điểm cộng từ chỉ số theo kiểu d20: 10 là +0, mỗi 2 điểm thêm +1 */
+export const getAttributeModifier = (value: number): number => Math.floor((value - 10) / 2);
+
+export const resolveDC = (dc: number | string | undefined, difficulty?: string): number => {
+    const numeric = Number(dc);
+    if (dc !== undefined && String(dc).trim() !== '' && Number.isFinite(numeric)) return Math.max(1, Math.round(numeric));
+    const named = dc !== undefined ? NAMED_DC[normalizeKey(String(dc))] : undefined;
+    return named ?? DIFFICULTY_DC[difficulty || 'normal'] ?? DIFFICULTY_DC.normal;
+};
+
+const findOwner = (owner: string | undefined, knownEntities: KnownEntities): Entity | undefined => {
+    const name = String(owner || 'pc').trim();
+    return name === 'pc'
+        ? Object.values(knownEntities).find(entity => entity.type === 'pc')
+        : knownEntities[name];
+};
+
+// Kỹ năng phải thuộc về nhân vật (learnedSkills của PC hoặc skills của NPC)
+const findSkill = (owner: Entity, target: string, knownEntities: KnownEntities): Entity | undefined => {
+    const key = normalizeKey(target);
+    const skillNames = [...(owner.learnedSkills || []), ...(owner.skills || [])];
+    const name = skillNames.find(skillName => normalizeKey(skillName) === key);
+    if (!name) return undefined;
+    return knownEntities[name] || { name, type: 'skill', description: '' };
+};
+
+/** Tìm điểm cộng rồi tung d20; trả về kết quả cùng trạng thái xúc xắc mới */
+export const performCheck = (
+    request: CheckRequest,
+    context: CheckContext,
+    diceState: DiceState
+): { result: CheckResult; diceState: DiceState } => {
+    const owner = findOwner(request.owner, context.knownEntities);
+    let targetName = request.target.trim();
+    let targetKind: CheckResult['targetKind'] = 'none';
+    let modifier = 0;
+
+    const definition = owner && context.attributes ? findAttribute(context.attributes, request.target) : undefined;
+    const skill = owner && !definition ? findSkill(owner, request.target, context.knownEntities) : undefined;
+    if (owner && definition) {
+        const attribute = computeAttributes(owner, [definition], context)[0];
+        targetName = attribute.name;
+        targetKind = 'attribute';
+        // Tài nguyên (HP, MP...) không có điểm cộng kiểu thuộc tính
+        modifier = attribute.kind === 'stat' ? getAttributeModifier(attribute.value) : 0;
+    } else if (skill) {
+        targetName = skill.name;
+        targetKind = 'skill';
+        modifier = getMasteryBonus(skill.mastery);
+    }
+
+    const { value: roll, state } = rollDie(20, diceState);
+    const dc = resolveDC(request.dc, context.difficulty);
+    const total = roll + modifier;
+    const outcome: CheckOutcome = roll === 20 ? 'critical_success'
+        : roll === 1 ? 'critical_failure'
+        : total >= dc ? 'success' : 'failure';
+
+    return {
+        result: {
+            ownerName: owner?.name || String(request.owner || 'pc'),
+            targetName,
+            targetKind,
+            roll,
+            modifier,
+            total,
+            dc,
+            outcome,
+            reason: request.reason?.trim() || undefined,
+            source: request.source
+        },
+        diceState: state
+    };
+};
+
+// Tên đầy đủ đã là chỉ số hoặc kỹ năng của PC (VD: "Vô Thường") thì không tách đuôi thành mức độ
+const isKnownCheckTarget = (target: string, context: CheckContext): boolean => {
+    const owner = findOwner('pc', context.knownEntities);
+    if (!owner) return false;
+    return !!(context.attributes && findAttribute(context.attributes, target)) || !!findSkill(owner, target, context.knownEntities);
+};
+
+/**
+ * Lệnh kiểm tra của người chơi: "/check Sức Mạnh 15: phá cửa" hoặc "/kiemtra Kiếm Pháp khó: chém đá".
+ * DC có thể bỏ trống; phần sau dấu hai chấm là hành động gửi cho AI.
+ * Có context thì tên chỉ số/kỹ năng kết thúc bằng từ chỉ mức độ được giữ nguyên.
+ */
+export const parsePlayerCheck = (input: string, context?: CheckContext): { request: CheckRequest; action: string } | null => {
+    const match = input.trim().match(/^\/(?:check|kiemtra|roll)\s+([^:]+?)(?::\s*([\s\S]*))?$/i);
+    if (!match) return null;
+
+    let target = match[1].trim();
+    let dc: number | string | undefined;
+    const numericDc = target.match(/\s+(\d+)$/);
+    if (numericDc) {
+        dc = Number(numericDc[1]);
+        target = target.slice(0, numericDc.index).trim();
+    } else if (!context || !isKnownCheckTarget(target, context)) {
+        const namedDc = Object.keys(NAMED_DC).sort((a, b) => b.length - a.length).find(name => normalizeKey(target).endsWith(` ${name}`));
+        if (namedDc) {
+            dc = namedDc;
+            // Cắt theo số từ vì chuỗi đã bỏ dấu có thể khác độ dài chuỗi gốc
+            target = target.split(/\s+/).slice(0, -namedDc.split(' ').length).join(' ');
+        }
+    }
+    if (!target) return null;
+
+    const reason = match[2]?.trim() || undefined;
+    return {
+        request: { target, dc, reason, source: 'player' },
+        action: reason || `Thử vận dụng ${target}`
+    };
+};
+
+const formatModifier = (modifier: number) => modifier >= 0 ? `+ ${modifier}` : `- ${Math.abs(modifier)}`;
+
+/** VD: "🎲 **Kiểm tra Sức Mạnh** của Lâm Phong (DC 15): d20 = 14 + 3 = 17 → Thành công" */
+export const formatCheckForLog = (result: CheckResult): string => {
+    const reason = result.reason ? ` — ${result.reason}` : '';
+    return `🎲 **Kiểm tra ${result.targetName}** của ${result.ownerName} (DC ${result.dc}): d20 = ${result.roll} ${formatModifier(result.modifier)} = ${result.total} → ${OUTCOME_LABELS[result.outcome]}${reason}`;
+};
+
+export const formatCheckResultsForPrompt = (results: CheckResult[]): string => {
+    if (results.length === 0) return '';
+    const lines = results.map(result => {
+        const reason = result.reason ? ` khi ${result.reason}` : '';
+        return `• ${result.ownerName} kiểm tra ${result.targetName}${reason}: d20 ${result.roll} ${formatModifier(result.modifier)} = ${result.total} so với DC ${result.dc} → ${OUTCOME_LABELS[result.outcome].toUpperCase()}`;
+    });
+    return `\n--- KẾT QUẢ KIỂM TRA ---\n${lines.join('\n')}\nEngine đã tung xúc xắc: hãy kể lại hành động theo ĐÚNG kết quả trên, không được tự đổi thành công/thất bại.\n`;
+};
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import type { Status } from '../types';
+import { formatStatusEventsForPrompt, formatStatusRemaining, parseStatusDuration, tickStatuses } from './statusDurations';
+
+const createStatus = (overrides: Partial<Status> = {}): Status => ({
+  name: 'Trúng Độc', description: 'Nọc rắn', type: 'debuff', source: 'Rắn', duration: '3 lượt', owner: 'pc',
+  ...overrides
+});
+
+describe('statusDurations', () => {
+  it('should parse turn and game-time durations and ignore permanent ones', () => {
+    expect(parseStatusDuration('3 lượt')).toEqual({ unit: 'turns', remaining: 3, total: 3 });
+    expect(parseStatusDuration('2 turns')).toEqual({ unit: 'turns', remaining: 2, total: 2 });
+    expect(parseStatusDuration('Khoảng 2 giờ')).toEqual({ unit: 'minutes', remaining: 120, total: 120 });
+    expect(parseStatusDuration('1,5 ngày')).toEqual({ unit: 'minutes', remaining: 2160, total: 2160 });
+    expect(parseStatusDuration('Vĩnh viễn')).toBeUndefined();
+    expect(parseStatusDuration('Cho đến khi chữa trị')).toBeUndefined();
+    expect(parseStatusDuration('Một lúc')).toBeUndefined();
+  });
+
+  it('should use the world calendar week length', () => {
+    const calendar = { months: [{ name: 'Tháng Một', days: 30 }], weekdays: ['A', 'B', 'C', 'D', 'E'], eras: [] };
+    expect(parseStatusDuration('1 tuần', calendar)?.remaining).toBe(5 * 24 * 60);
+  });
+
+  it('should tick turn statuses, skip the ones applied this turn and report tick effects', () => {
+    const statuses = [
+      createStatus({ remaining: { unit: 'turns', remaining: 2, total: 3 }, tickEffect: 'Mất 5 HP', appliedTurn: 4 }),
+      createStatus({ name: 'Choáng', remaining: { unit: 'turns', remaining: 1, total: 1 }, appliedTurn: 5 }),
+      createStatus({ name: 'Mệt Mỏi', remaining: { unit: 'minutes', remaining: 60, total: 60 } })
+    ];
+
+    const { statuses: next, events } = tickStatuses(statuses, { turns: 1 }, 5);
+
+    expect(next.map(s => [s.name, s.remaining?.remaining])).toEqual([['Trúng Độc', 1], ['Choáng', 1], ['Mệt Mỏi', 60]]);
+    expect(events).toEqual([{ kind: 'tick', name: 'Trúng Độc', owner: 'pc', effect: 'Mất 5 HP', remaining: { unit: 'turns', remaining: 1, total: 3 } }]);
+  });
+
+  it('should expire game-time statuses and keep the array when nothing changes', () => {
+    const statuses = [
+      createStatus({ name: 'Mệt Mỏi', owner: 'Thục Nhi', remaining: { unit: 'minutes', remaining: 60, total: 60 } }),
+      createStatus({ name: 'Gãy Xương', duration: 'Vĩnh viễn' })
+    ];
+
+    const { statuses: next, events } = tickStatuses(statuses, { minutes: 90 });
+
+    expect(next.map(s => s.name)).toEqual(['Gãy Xương']);
+    expect(events).toEqual([{ kind: 'expired', name: 'Mệt Mỏi', owner: 'Thục Nhi' }]);
+    expect(tickStatuses(next, { minutes: 90 }).statuses).toBe(next);
+    expect(formatStatusEventsForPrompt(events)).toContain('Hết hiệu lực: "Mệt Mỏi" (Thục Nhi)');
+    expect(formatStatusRemaining({ unit: 'minutes', remaining: 1530, total: 2000 })).toBe('1 ngày 1 giờ 30 phút');
+  });
+});
@@ -0,0 +1,129 @@
+import type { Status, StatusDuration, StatusStacking, WorldCalendar } from '../types';
+import { DEFAULT_CALENDAR, getDaysInYear } from './worldCalendar';
+
+/**
+ * Thời hạn có cấu trúc của trạng thái: đọc từ chuỗi duration của AI ("3 lượt", "2 giờ"),
+ * trừ dần theo lượt và theo TIME_ELAPSED, tự hết hạn khi về 0.
+ */
+
+export interface StatusTickEvent {
+    kind: 'expired' | 'tick';
+    name: string;
+    owner: string;
+    effect?: string;
+    remaining?: StatusDuration;
+}
+
+export interface StatusTypeRule {
+    stacking: StatusStacking;
+    maxStacks: number;
+    maxPerOwner: number;      // Số trạng thái tối đa cùng loại trên một chủ thể
+}
+
+// Quy tắc mặc định theo loại; thẻ có thể ghi đè bằng stacking/maxStacks
+export const STATUS_TYPE_RULES: Record<Status['type'], StatusTypeRule> = {
+    buff: { stacking: 'refresh', maxStacks: 1, maxPerOwner: 4 },
+    debuff: { stacking: 'refresh', maxStacks: 1, maxPerOwner: 4 },
+    injury: { stacking: 'stack', maxStacks: 3, maxPerOwner: 4 },
+    neutral: { stacking: 'refresh', maxStacks: 1, maxPerOwner: 3 }
+};
+
+const STACKING_MODES: StatusStacking[] = ['refresh', 'stack', 'extend'];
+
+export const parseStacking = (value: unknown): StatusStacking | undefined =>
+    STACKING_MODES.find(mode => mode === String(value ?? '').trim().toLowerCase());
+
+const MINUTES_PER_DAY = 24 * 60;
+const NO_EXPIRY_PATTERN = /vĩnh viễn|permanent|đến khi|until|mãi mãi/;
+const DURATION_PATTERN = /(\d+(?:[.,]\d+)?)\s*(lượt|turns?|phút|minutes?|mins?|giờ|tiếng|hours?|ngày|days?|tuần|weeks?|tháng|months?|năm|years?)/;
+
+/** Đọc chuỗi thời gian của AI; không nhận ra hoặc vĩnh viễn thì trả về undefined (không tự hết hạn) */
+export const parseStatusDuration = (text: unknown, calendar: WorldCalendar = DEFAULT_CALENDAR): StatusDuration | undefined => {
+    if (typeof text !== 'string' && typeof text !== 'number') return undefined;
+    const normalized = String(text).toLowerCase().trim();
+    if (!normalized || NO_EXPIRY_PATTERN.test(normalized)) return undefined;
+
+    const match = normalized.match(DURATION_PATTERN);
+    if (!match) return undefined;
+    const value = parseFloat(match[1].replace(',', '.'));
+    const unit = match[2];
+
+    if (/^(lượt|turn)/.test(unit)) {
+        const turns = Math.max(1, Math.round(value));
+        return { unit: 'turns', remaining: turns, total: turns };
+    }
+
+    const daysInYear = getDaysInYear(calendar);
+    const minutesPerUnit =
+        /^(phút|min)/.test(unit) ? 1 :
+        /^(giờ|tiếng|hour)/.test(unit) ? 60 :
+        /^(ngày|day)/.test(unit) ? MINUTES_PER_DAY :
+        /^(tuần|week)/.test(unit) ? (calendar.weekdays.length || 7) * MINUTES_PER_DAY :
+        /^(tháng|month)/.test(unit) ? Math.round(daysInYear / calendar.months.length) * MINUTES_PER_DAY :
+        daysInYear * MINUTES_PER_DAY;
+    const minutes = Math.max(1, Math.round(value * minutesPerUnit));
+    return { unit: 'minutes', remaining: minutes, total: minutes };
+};
+
+/**
+ * Trừ thời gian của các trạng thái. Trạng thái vừa áp dụng trong lượt hiện tại không bị trừ lượt
+ * và chưa báo tác động mỗi lượt. Trả về chính mảng đầu vào nếu không có gì thay đổi.
+ */
+export const tickStatuses = (
+    statuses: Status[],
+    tick: { turns?: number; minutes?: number },
+    turnCount?: number
+): { statuses: Status[]; events: StatusTickEvent[] } => {
+    const events: StatusTickEvent[] = [];
+    let changed = false;
+
+    const next = statuses.flatMap(status => {
+        const isNew = tick.turns !== undefined && turnCount !== undefined && status.appliedTurn === turnCount;
+        const amount = status.remaining?.unit === 'turns' ? tick.turns : tick.minutes;
+        const remaining = status.remaining && amount && !isNew
+            ? { ...status.remaining, remaining: status.remaining.remaining - amount }
+            : status.remaining;
+
+        if (remaining && remaining.remaining <= 0) {
+            changed = true;
+            events.push({ kind: 'expired', name: status.name, owner: status.owner });
+            return [];
+        }
+        if (tick.turns && status.tickEffect && !isNew) {
+            events.push({ kind: 'tick', name: status.name, owner: status.owner, effect: status.tickEffect, remaining });
+        }
+        if (remaining === status.remaining) return [status];
+        changed = true;
+        return [{ ...status, remaining }];
+    });
+
+    return { statuses: changed ? next : statuses, events };
+};
+
+/** VD: "3 lượt", "1 ngày 2 giờ", "45 phút" */
+export const formatStatusRemaining = (duration: StatusDuration): string => {
+    if (duration.unit === 'turns') return `${duration.remaining} lượt`;
+    const days = Math.floor(duration.remaining / MINUTES_PER_DAY);
+    const hours = Math.floor((duration.remaining % MINUTES_PER_DAY) / 60);
+    const minutes = duration.remaining % 60;
+    const parts = [days && `${days} ngày`, hours && `${hours} giờ`, minutes && `${minutes} phút`].filter(Boolean);
+    return parts.length > 0 ? parts.join(' ') : '0 phút';
+};
+
+/** Tên trạng thái kèm số tầng và thời gian còn lại, dùng trong prompt */
+export const formatStatusLabel = (status: Status): string => {
+    const stacks = status.stacks && status.stacks > 1 ? ` x${status.stacks}` : '';
+    const remaining = status.remaining ? ` (còn ${formatStatusRemaining(status.remaining)})` : '';
+    return `${status.name}${stacks}${remaining}`;
+};
+
+const formatOwner = (owner: string) => owner === 'pc' ? 'nhân vật chính' : owner;
+
+/** Báo cho AI các trạng thái đã hết hạn và tác động mỗi lượt kể từ lượt trước */
+export const formatStatusEventsForPrompt = (events: StatusTickEvent[]): string => {
+    if (events.length === 0) return '';
+    const lines = events.map(event => event.kind === 'expired'
+        ? `• Hết hiệu lực: "${event.name}" (${formatOwner(event.owner)}) - hệ thống đã tự gỡ, không cần STATUS_CURED`
+        : `• Tác động mỗi lượt: "${event.name}" (${formatOwner(event.owner)}): ${event.effect}${event.remaining ? ` - còn ${formatStatusRemaining(event.remaining)}` : ''}`);
+    return `\n--- DIỄN BIẾN TRẠNG THÁI ---\n${lines.join('\n')}\nHãy thể hiện các diễn biến này trong câu chuyện.\n`;
+};
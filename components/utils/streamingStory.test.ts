@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { extractStreamingStory, hideCommandTags } from './streamingStory';
+
+describe('streamingStory', () => {
+  it('should decode the partial story field of a streaming JSON response', () => {
+    expect(extractStreamingStory('{"cot_reasoning": "...", "sto')).toBe('');
+    expect(extractStreamingStory('{"story": "Lâm Phong bước vào \\"Tửu lầu\\".\\nTrời')).toBe('Lâm Phong bước vào "Tửu lầu".\nTrời');
+    expect(extractStreamingStory('{"story": "Xong.", "choices": ["A"')).toBe('Xong.');
+    // Escape bị cắt giữa chừng không được hiển thị
+    expect(extractStreamingStory('{"story": "Mưa\\')).toBe('Mưa');
+    expect(extractStreamingStory('{"story": "\\u00e1\\u00')).toBe('á');
+  });
+
+  it('should hide complete and unfinished command tags', () => {
+    expect(hideCommandTags('Nhận kiếm. [ITEM_AQUIRED: name="Kiếm", quantities=1] Tiếp tục')).toBe('Nhận kiếm.  Tiếp tục');
+    expect(hideCommandTags('Đi tiếp. [TIME_ELAPSED: hou')).toBe('Đi tiếp.');
+    expect(hideCommandTags('Đi tiếp. [')).toBe('Đi tiếp.');
+  });
+
+  it('should pass plain text responses through', () => {
+    expect(extractStreamingStory('  Gió thổi.\n1. Đi')).toBe('Gió thổi.\n1. Đi');
+  });
+});
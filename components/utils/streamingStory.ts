@@ -0,0 +1,60 @@
+import { extractCommandTags } from './commandTagProcessor';
+
+const JSON_ESCAPES: { [key: string]: string } = {
+    '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t'
+};
+
+// Giải mã chuỗi JSON có thể chưa kết thúc; escape bị cắt dở ở cuối được bỏ qua
+const decodePartialJsonString = (text: string, start: number): string => {
+    let result = '';
+    for (let i = start; i < text.length; i++) {
+        const char = text[i];
+        if (char === '"') break;
+        if (char !== '\\') {
+            result += char;
+            continue;
+        }
+
+        const next = text[i + 1];
+        if (next === undefined) break;
+        if (next === 'u') {
+            const hex = text.substring(i + 2, i + 6);
+            if (!/^[0-9a-fA-F]{4}$/.test(hex)) break;
+            result += String.fromCharCode(parseInt(hex, 16));
+            i += 5;
+        } else {
+            result += JSON_ESCAPES[next] ?? next;
+            i += 1;
+        }
+    }
+    return result;
+};
+
+/**
+ * Ẩn thẻ lệnh khỏi văn bản đang stream, kể cả thẻ chưa đóng ở cuối.
+ * Thẻ chỉ được áp dụng khi stream hoàn tất.
+ */
+export const hideCommandTags = (text: string): string => {
+    const openTag = text.search(/\[[A-Z_]*(?::[^\]]*)?$/);
+    const complete = openTag === -1 ? text : text.substring(0, openTag);
+    const { tags } = extractCommandTags(complete);
+    return tags
+        .reduce((visible, tag) => visible.replace(tag.raw, ''), complete)
+        .replace(/[ \t]+\n/g, '\n')
+        .trim();
+};
+
+/**
+ * Lấy phần story đã nhận được từ phản hồi đang stream.
+ * Phản hồi JSON chỉ hiển thị trường "story"; phản hồi văn bản thường hiển thị nguyên văn.
+ */
+export const extractStreamingStory = (rawText: string): string => {
+    const trimmed = rawText.trimStart();
+    if (!trimmed.startsWith('{') && !trimmed.startsWith('```')) {
+        return hideCommandTags(trimmed);
+    }
+
+    const storyKey = /"story"\s*:\s*"/.exec(trimmed);
+    if (!storyKey) return '';
+    return hideCommandTags(decodePartialJsonString(trimmed, storyKey.index + storyKey[0].length));
+};
@@ -0,0 +1,49 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { approximateBpeCounter, findContextWindow, getPromptBudget, MAX_PROMPT_TOKENS, tokenCounter } from './tokenCounter';
+import { TokenManager } from '../TokenManager';
+
+describe('tokenCounter', () => {
+  beforeEach(() => {
+    tokenCounter.resetCalibration();
+    tokenCounter.setCounter(approximateBpeCounter);
+    tokenCounter.setActiveModel('gemini-2.5-flash');
+  });
+
+  it('should count Vietnamese syllables, numbers and punctuation separately', () => {
+    expect(approximateBpeCounter.count('')).toBe(0);
+    expect(approximateBpeCounter.count('Hello world')).toBe(2);
+    // Chữ có dấu tốn hơn chữ không dấu cùng độ dài
+    expect(approximateBpeCounter.count('người Việt')).toBe(3);
+    expect(approximateBpeCounter.count('nguoi Viet')).toBe(2);
+    expect(approximateBpeCounter.count('{"hp": 1200}')).toBe(6);
+    // Dạng tổ hợp (NFD) được chuẩn hóa trước khi đếm
+    expect(approximateBpeCounter.count('người'.normalize('NFD'))).toBe(approximateBpeCounter.count('người'));
+  });
+
+  it('should derive prompt budgets from per-model context windows', () => {
+    expect(findContextWindow('gemini-2.5-flash-lite').contextWindow).toBe(1_048_576);
+    expect(getPromptBudget('gemini-2.5-pro')).toBe(MAX_PROMPT_TOKENS);
+    expect(getPromptBudget('llama-3-8b-instruct')).toBe(8_192 - 2_048);
+    expect(getPromptBudget('my-local-model')).toBe(MAX_PROMPT_TOKENS);
+
+    tokenCounter.setActiveModel('llama-3-8b-instruct');
+    expect(TokenManager.getConfig().maxTokensPerTurn).toBe(6_144);
+    expect(TokenManager.calculateAllocation().critical).toBeLessThan(6_144 * 0.5);
+  });
+
+  it('should calibrate counts per model against provider-reported usage', () => {
+    const text = 'Bạn bước vào làng nhỏ ven sông.';
+    const raw = tokenCounter.countRaw(text);
+
+    tokenCounter.calibrate('gemini-2.5-flash', raw, raw * 2);
+    expect(tokenCounter.count(text)).toBe(raw * 2);
+    expect(tokenCounter.count(text, 'gemini-2.5-pro')).toBe(raw);
+
+    // Trung bình trượt: mẫu mới chỉ kéo hệ số một phần
+    tokenCounter.calibrate('gemini-2.5-flash', raw, raw);
+    expect(tokenCounter.getCalibration()).toEqual({ factor: 1.8, samples: 2 });
+
+    tokenCounter.setCounter({ id: 'fixed', count: () => 10 });
+    expect(TokenManager.estimate('bất kỳ')).toBe(Math.ceil(10 * 1.8 * 1.1));
+  });
+});
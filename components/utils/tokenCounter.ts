@@ -0,0 +1,174 @@
+/**
+ * Bộ đếm token dùng cho ngân sách prompt: mặc định là bộ xấp xỉ BPE chạy offline,
+ * hiệu chỉnh theo số token đầu vào mà provider báo về, và cửa sổ ngữ cảnh theo từng model.
+ */
+
+export interface TokenCounter {
+    readonly id: string;
+    count(text: string): number;
+}
+
+export interface ModelContextWindow {
+    model: string;              // Khớp khi tên model chứa chuỗi này; chuỗi dài nhất được ưu tiên
+    contextWindow: number;
+    maxOutputTokens: number;
+}
+
+export interface TokenCalibration {
+    factor: number;             // token thực tế / token ước lượng
+    samples: number;
+}
+
+// Tách giống bộ tiền xử lý của BPE: khoảng trắng đứng trước dính vào từ/số/ký hiệu theo sau
+const PRE_TOKEN_PATTERN = /\s*[\p{L}\p{M}]+|\s*\p{N}+|\s*[^\s\p{L}\p{M}\p{N}]+|\s+/gu;
+// Chữ không thuộc bảng Latin (Hán, Nhật, Hàn, Thái...): thường mỗi ký tự một token
+const NON_LATIN_LETTER = /[^\p{Script=Latin}\p{M}]/u;
+
+const countWordTokens = (word: string): number => {
+    let nonLatin = 0;
+    let accented = 0;
+    for (const char of word) {
+        if (NON_LATIN_LETTER.test(char)) nonLatin++;
+        else if (char.charCodeAt(0) > 0x7f) accented++;
+    }
+    if (nonLatin > 0) return nonLatin + Math.ceil((word.length - nonLatin) / 4);
+    // Từ thông dụng thường là một token; chữ có dấu tiếng Việt ít được gộp sẵn nên tốn thêm
+    return Math.max(1, Math.ceil((word.length + 2 * accented) / 6));
+};
+
+/**
+ * Xấp xỉ BPE offline: đếm theo từng mảnh đã tách thay vì nhân số ký tự với một hệ số cố định
+ */
+export const approximateBpeCounter: TokenCounter = {
+    id: 'approx-bpe',
+    count(text: string): number {
+        if (!text) return 0;
+        let tokens = 0;
+        for (const [piece] of text.normalize('NFC').matchAll(PRE_TOKEN_PATTERN)) {
+            const body = piece.trimStart();
+            const leading = piece.slice(0, piece.length - body.length);
+            if (leading.includes('\n')) tokens++;
+            else if (leading.length > 1) tokens += Math.ceil((leading.length - 1) / 4); // Thụt lề
+
+            if (!body) continue;
+            if (/^\p{N}/u.test(body)) tokens += Math.ceil(body.length / 3);
+            else if (/^[\p{L}\p{M}]/u.test(body)) tokens += countWordTokens(body);
+            else tokens += Math.ceil(body.length / 2);
+        }
+        return tokens;
+    }
+};
+
+export const MODEL_CONTEXT_WINDOWS: ModelContextWindow[] = [
+    { model: 'gemini-2.5', contextWindow: 1_048_576, maxOutputTokens: 65_536 },
+    { model: 'gemini-2.0', contextWindow: 1_048_576, maxOutputTokens: 8_192 },
+    { model: 'gemini-1.5', contextWindow: 1_048_576, maxOutputTokens: 8_192 },
+    { model: 'gpt-4o', contextWindow: 128_000, maxOutputTokens: 16_384 },
+    { model: 'gpt-4.1', contextWindow: 1_047_576, maxOutputTokens: 32_768 },
+    { model: 'deepseek', contextWindow: 128_000, maxOutputTokens: 8_192 },
+    { model: 'qwen', contextWindow: 32_768, maxOutputTokens: 8_192 },
+    { model: 'mistral', contextWindow: 32_768, maxOutputTokens: 8_192 },
+    { model: 'llama', contextWindow: 8_192, maxOutputTokens: 2_048 }
+];
+
+// Model lạ (thường là endpoint OpenAI-compatible tự host)
+const DEFAULT_CONTEXT_WINDOW: ModelContextWindow = { model: '', contextWindow: 128_000, maxOutputTokens: 8_192 };
+// Trần chi phí: model có cửa sổ 1M token vẫn không nhận prompt quá mức này
+export const MAX_PROMPT_TOKENS = 100_000;
+// Phần cửa sổ giữ lại cho phản hồi, không cần giữ hết maxOutputTokens của model
+const MAX_RESERVED_OUTPUT_TOKENS = 16_384;
+const CALIBRATION_STORAGE_KEY = 'token_counter_calibration';
+const CALIBRATION_WEIGHT = 0.2;
+const MIN_CALIBRATION_FACTOR = 0.25;
+const MAX_CALIBRATION_FACTOR = 4;
+
+export const findContextWindow = (model: string, table: ModelContextWindow[] = MODEL_CONTEXT_WINDOWS): ModelContextWindow =>
+    table
+        .filter(entry => model.toLowerCase().includes(entry.model))
+        .sort((a, b) => b.model.length - a.model.length)[0] ?? DEFAULT_CONTEXT_WINDOW;
+
+/** Ngân sách prompt của model: cửa sổ ngữ cảnh trừ phần dành cho phản hồi, không vượt MAX_PROMPT_TOKENS */
+export const getPromptBudget = (model: string): number => {
+    const window = findContextWindow(model);
+    const reserved = Math.min(window.maxOutputTokens, MAX_RESERVED_OUTPUT_TOKENS);
+    return Math.min(MAX_PROMPT_TOKENS, window.contextWindow - reserved);
+};
+
+const loadCalibrations = (): { [model: string]: TokenCalibration } => {
+    try {
+        const saved = typeof localStorage !== 'undefined' ? localStorage.getItem(CALIBRATION_STORAGE_KEY) : null;
+        return saved ? JSON.parse(saved) : {};
+    } catch {
+        return {};
+    }
+};
+
+/**
+ * Bộ đếm dùng chung của ứng dụng. Có thể thay bằng tokenizer khác qua setCounter;
+ * hệ số hiệu chỉnh được lưu theo model qua các phiên.
+ */
+class TokenCounterService {
+    private counter: TokenCounter = approximateBpeCounter;
+    private calibrations = loadCalibrations();
+    private activeModel = 'gemini-2.5-flash';
+
+    public setCounter(counter: TokenCounter): void {
+        this.counter = counter;
+    }
+
+    public getCounter(): TokenCounter {
+        return this.counter;
+    }
+
+    // Model của lượt truyện; quyết định ngân sách và hệ số hiệu chỉnh mặc định
+    public setActiveModel(model: string): void {
+        this.activeModel = model;
+    }
+
+    public getActiveModel(): string {
+        return this.activeModel;
+    }
+
+    /** Số token chưa hiệu chỉnh, dùng làm mẫu khi so với số liệu provider báo về */
+    public countRaw(text: string): number {
+        return this.counter.count(text);
+    }
+
+    public count(text: string, model: string = this.activeModel): number {
+        const raw = this.counter.count(text);
+        return raw === 0 ? 0 : Math.ceil(raw * (this.calibrations[model]?.factor ?? 1));
+    }
+
+    public getPromptBudget(model: string = this.activeModel): number {
+        return getPromptBudget(model);
+    }
+
+    public getCalibration(model: string = this.activeModel): TokenCalibration | undefined {
+        return this.calibrations[model];
+    }
+
+    /** Cập nhật hệ số theo trung bình trượt của tỉ lệ token thực tế / ước lượng */
+    public calibrate(model: string, estimatedRawTokens: number, actualTokens: number): void {
+        if (estimatedRawTokens <= 0 || actualTokens <= 0) return;
+        const ratio = Math.min(MAX_CALIBRATION_FACTOR, Math.max(MIN_CALIBRATION_FACTOR, actualTokens / estimatedRawTokens));
+        const current = this.calibrations[model];
+        const factor = current ? current.factor * (1 - CALIBRATION_WEIGHT) + ratio * CALIBRATION_WEIGHT : ratio;
+        this.calibrations = { ...this.calibrations, [model]: { factor, samples: (current?.samples ?? 0) + 1 } };
+        try {
+            localStorage.setItem(CALIBRATION_STORAGE_KEY, JSON.stringify(this.calibrations));
+        } catch (error) {
+            console.warn('⚠️ Could not persist token calibration:', error);
+        }
+    }
+
+    public resetCalibration(): void {
+        this.calibrations = {};
+        try {
+            localStorage.removeItem(CALIBRATION_STORAGE_KEY);
+        } catch {
+            // Bỏ qua khi không có localStorage
+        }
+    }
+}
+
+export const tokenCounter = new TokenCounterService();
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { parseTurnResponse, repairJson, validateTurnResponse } from './turnResponse';
+
+describe('turnResponse', () => {
+  describe('repairJson', () => {
+    it('should leave valid JSON untouched', () => {
+      expect(repairJson('{"story":"a","choices":[]}')).toEqual({ value: { story: 'a', choices: [] }, repairs: [] });
+    });
+
+    it('should strip code fences and surrounding prose', () => {
+      const result = repairJson('Đây là kết quả:\n```json\n{"story":"a","choices":["B"]}\n```\nChúc vui!');
+
+      expect(result.value).toEqual({ story: 'a', choices: ['B'] });
+      expect(result.repairs).toEqual(['code_fence']);
+      expect(repairJson('Kết quả: {"story":"a","choices":[]} Hết.')).toEqual({
+        value: { story: 'a', choices: [] },
+        repairs: ['surrounding_prose']
+      });
+    });
+
+    it('should escape stray quotes, control characters and bad escapes, and drop trailing commas', () => {
+      const result = repairJson('{"story":"Hắn nói "chào" rồi\nđi \\d","choices":["A",],}');
+
+      expect(result.value).toEqual({ story: 'Hắn nói "chào" rồi\nđi \\d', choices: ['A'] });
+      expect(result.repairs.sort()).toEqual(['control_character', 'invalid_escape', 'trailing_comma', 'unescaped_quote']);
+    });
+
+    it('should close truncated strings, arrays and objects', () => {
+      expect(repairJson('{"story":"Trời mưa","choices":["Chạy","Trú').value)
+        .toEqual({ story: 'Trời mưa', choices: ['Chạy', 'Trú'] });
+      expect(repairJson('{"story":"Trời mưa","npcs_present":[{"name":"A"}],"cho')).toEqual({
+        value: { story: 'Trời mưa', npcs_present: [{ name: 'A' }] },
+        repairs: ['truncated']
+      });
+    });
+  });
+
+  describe('validateTurnResponse', () => {
+    it('should require story and choices and normalize the rest', () => {
+      expect(validateTurnResponse({ choices: 'x' }).errors).toEqual([
+        'Trường "story" phải là chuỗi không rỗng',
+        'Trường "choices" phải là mảng các chuỗi'
+      ]);
+      expect(validateTurnResponse({ story: 's', choices: [{ text: 'A' }, 2], npcs_present: [{ name: 'N', inner_thoughts: '' }, 'x'] }).response)
+        .toEqual({ story: 's', choices: ['A', '2'], npcs_present: [{ name: 'N', inner_thoughts: '' }], cot_reasoning: undefined });
+    });
+  });
+
+  describe('parseTurnResponse', () => {
+    it('should separate plain text from broken JSON', () => {
+      expect(parseTurnResponse('Bạn bước vào làng.\n1. Đi tiếp')).toMatchObject({ response: null, hasJson: false });
+
+      const broken = parseTurnResponse('{"story": 42}');
+      expect(broken).toMatchObject({ response: null, hasJson: true });
+      expect(broken.errors).toContain('Trường "story" phải là chuỗi không rỗng');
+    });
+  });
+});
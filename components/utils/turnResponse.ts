@@ -0,0 +1,253 @@
+import type { NPCPresent } from '../types';
+
+export interface TurnResponse {
+    story: string;
+    choices: string[];
+    npcs_present: NPCPresent[];
+    cot_reasoning?: string;
+}
+
+export type JsonRepairKind =
+    | 'code_fence'          // Bọc trong ```json ... ```
+    | 'surrounding_prose'   // Có văn bản trước/sau đối tượng JSON
+    | 'trailing_comma'
+    | 'invalid_escape'      // Dấu \ không thuộc escape hợp lệ
+    | 'unescaped_quote'     // Dấu " bên trong chuỗi chưa được escape
+    | 'control_character'   // Xuống dòng/tab thô bên trong chuỗi
+    | 'truncated';          // Phản hồi bị cắt giữa chừng
+
+export interface JsonRepairResult {
+    value: unknown;
+    repairs: JsonRepairKind[];
+    error?: string;         // Có khi vẫn không phân tích được sau khi sửa
+}
+
+export interface TurnResponseParseResult {
+    response: TurnResponse | null;
+    repairs: JsonRepairKind[];
+    errors: string[];       // Lỗi cú pháp hoặc schema khi response là null
+    hasJson: boolean;       // false: phản hồi là văn bản thường
+}
+
+const VALID_ESCAPES = '"\\/bfnrt';
+const CONTROL_ESCAPES: { [char: string]: string } = { '\n': '\\n', '\r': '\\r', '\t': '\\t' };
+
+/** Chuẩn hóa lựa chọn về chuỗi; chấp nhận số và đối tượng có text/label/choice/content */
+export const normalizeChoices = (rawChoices: unknown): string[] => {
+    if (!Array.isArray(rawChoices)) {
+        return [];
+    }
+
+    return rawChoices
+        .map(choice => {
+            if (typeof choice === 'string') {
+                return choice.trim();
+            }
+
+            if (typeof choice === 'number' || typeof choice === 'boolean') {
+                return String(choice).trim();
+            }
+
+            if (choice && typeof choice === 'object') {
+                const choiceObject = choice as Record<string, unknown>;
+                const candidate = choiceObject.text ?? choiceObject.label ?? choiceObject.choice ?? choiceObject.content;
+                return typeof candidate === 'string' ? candidate.trim() : '';
+            }
+
+            return '';
+        })
+        .filter(choice => choice.length > 0);
+};
+
+const tryParse = (text: string): { ok: true; value: unknown } | { ok: false; error: string } => {
+    try {
+        return { ok: true, value: JSON.parse(text) };
+    } catch (error: any) {
+        return { ok: false, error: error?.message ?? String(error) };
+    }
+};
+
+// Vị trí kết thúc của đối tượng JSON bắt đầu tại start, -1 nếu chưa đóng
+const findObjectEnd = (text: string, start: number): number => {
+    let depth = 0;
+    let inString = false;
+    for (let i = start; i < text.length; i++) {
+        const char = text[i];
+        if (inString) {
+            if (char === '\\') i++;
+            else if (char === '"') inString = false;
+        } else if (char === '"') {
+            inString = true;
+        } else if (char === '{' || char === '[') {
+            depth++;
+        } else if (char === '}' || char === ']') {
+            depth--;
+            if (depth === 0) return i;
+        }
+    }
+    return -1;
+};
+
+// Sửa lỗi bên trong chuỗi và dấu phẩy thừa trong một lượt quét, rồi đóng các chuỗi/ngoặc còn mở
+const repairStructure = (text: string, repairs: Set<JsonRepairKind>): string => {
+    let out = '';
+    let inString = false;
+    const closers: string[] = [];
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+
+        if (inString) {
+            if (char === '\\') {
+                const next = text[i + 1];
+                if (next === undefined) break;
+                if (VALID_ESCAPES.includes(next)) {
+                    out += char + next;
+                    i++;
+                } else if (next === 'u' && /^[0-9a-fA-F]{4}$/.test(text.substring(i + 2, i + 6))) {
+                    out += text.substring(i, i + 6);
+                    i += 5;
+                } else {
+                    out += '\\\\';
+                    repairs.add('invalid_escape');
+                }
+            } else if (char === '"') {
+                // Chỉ là dấu đóng chuỗi khi theo sau là ký tự cấu trúc JSON
+                const following = /^\s*(.)/.exec(text.substring(i + 1))?.[1];
+                if (following === undefined || ',}]:'.includes(following)) {
+                    inString = false;
+                    out += char;
+                } else {
+                    out += '\\"';
+                    repairs.add('unescaped_quote');
+                }
+            } else if (CONTROL_ESCAPES[char]) {
+                out += CONTROL_ESCAPES[char];
+                repairs.add('control_character');
+            } else {
+                out += char;
+            }
+            continue;
+        }
+
+        if (char === '"') {
+            inString = true;
+        } else if (char === '{' || char === '[') {
+            closers.push(char === '{' ? '}' : ']');
+        } else if (char === '}' || char === ']') {
+            if (/,\s*$/.test(out)) {
+                out = out.replace(/,\s*$/, '');
+                repairs.add('trailing_comma');
+            }
+            closers.pop();
+        }
+        out += char;
+    }
+
+    if (!inString && closers.length === 0) return out;
+
+    repairs.add('truncated');
+    if (inString) out += '"';
+    out = out.trimEnd();
+    // Bỏ phần dở dang: khóa chưa có giá trị, dấu hai chấm hoặc dấu phẩy cuối
+    if (closers[closers.length - 1] === '}') {
+        out = out.replace(/([{,])\s*"(?:[^"\\]|\\.)*"\s*:?$/, '$1');
+    }
+    out = out.replace(/[,:]\s*$/, '');
+    return out + closers.reverse().join('');
+};
+
+/**
+ * Phân tích JSON từ phản hồi của model, tự sửa các lỗi thường gặp.
+ * Danh sách repairs cho biết những lỗi đã được sửa (rỗng nếu phản hồi vốn hợp lệ).
+ */
+export const repairJson = (rawText: string): JsonRepairResult => {
+    const repairs = new Set<JsonRepairKind>();
+    let text = rawText.trim();
+
+    const direct = tryParse(text);
+    if (direct.ok) return { value: direct.value, repairs: [] };
+
+    const fence = text.startsWith('{') ? null : /```(?:json)?\s*([\s\S]*?)(?:```|$)/i.exec(text);
+    if (fence) {
+        text = fence[1].trim();
+        repairs.add('code_fence');
+    }
+
+    const start = text.indexOf('{');
+    if (start > 0) {
+        text = text.substring(start);
+        repairs.add('surrounding_prose');
+    }
+    const end = start === -1 ? -1 : findObjectEnd(text, 0);
+    if (end !== -1 && text.substring(end + 1).trim()) {
+        text = text.substring(0, end + 1);
+        repairs.add('surrounding_prose');
+    }
+
+    let parsed = tryParse(text);
+    if (!parsed.ok && start !== -1) {
+        parsed = tryParse(repairStructure(text, repairs));
+    }
+
+    return parsed.ok
+        ? { value: parsed.value, repairs: [...repairs] }
+        : { value: null, repairs: [...repairs], error: parsed.error };
+};
+
+/** Kiểm tra đối tượng theo schema phản hồi lượt chơi (story + choices, npcs_present tùy chọn) */
+export const validateTurnResponse = (value: unknown): { response: TurnResponse | null; errors: string[] } => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return { response: null, errors: ['Phản hồi phải là một đối tượng JSON'] };
+    }
+
+    const data = value as Record<string, unknown>;
+    const errors: string[] = [];
+    if (typeof data.story !== 'string' || !data.story.trim()) {
+        errors.push('Trường "story" phải là chuỗi không rỗng');
+    }
+    if (!Array.isArray(data.choices)) {
+        errors.push('Trường "choices" phải là mảng các chuỗi');
+    }
+    if (errors.length > 0) return { response: null, errors };
+
+    // NPC sai dạng bị bỏ qua thay vì làm hỏng cả lượt
+    const npcs = Array.isArray(data.npcs_present)
+        ? data.npcs_present.filter((npc): npc is NPCPresent => !!npc && typeof npc === 'object' && typeof (npc as NPCPresent).name === 'string')
+        : [];
+
+    return {
+        response: {
+            story: data.story as string,
+            choices: normalizeChoices(data.choices),
+            npcs_present: npcs,
+            cot_reasoning: typeof data.cot_reasoning === 'string' ? data.cot_reasoning : undefined
+        },
+        errors: []
+    };
+};
+
+/** Sửa và kiểm tra phản hồi lượt chơi. Văn bản không có dấu hiệu JSON được trả về với hasJson = false */
+export const parseTurnResponse = (rawText: string): TurnResponseParseResult => {
+    const text = rawText.trim();
+    const hasJson = text.startsWith('{') || text.startsWith('```') || /\{\s*"[a-z_]+"\s*:/.test(text);
+    if (!hasJson) {
+        return { response: null, repairs: [], errors: ['Phản hồi không chứa JSON'], hasJson };
+    }
+
+    const repaired = repairJson(text);
+    if (repaired.error) {
+        return { response: null, repairs: repaired.repairs, errors: [`JSON không hợp lệ: ${repaired.error}`], hasJson };
+    }
+
+    const { response, errors } = validateTurnResponse(repaired.value);
+    return { response, repairs: repaired.repairs, errors, hasJson };
+};
+
+/** Yêu cầu model trả lại đúng nội dung trước đó dưới dạng JSON hợp lệ */
+export const buildJsonFixPrompt = (errors: string[]): string => `Phản hồi trước của bạn không đúng định dạng JSON được yêu cầu.
+Lỗi phát hiện:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Hãy trả lại CHÍNH nội dung đó dưới dạng MỘT đối tượng JSON hợp lệ với các trường "story" (chuỗi, giữ nguyên các thẻ lệnh) và "choices" (mảng chuỗi), kèm "npcs_present" nếu có.
+Không viết thêm gì bên ngoài JSON, không dùng markdown.`;
@@ -0,0 +1,92 @@
+import type { LLMProviderId } from './llmProvider';
+import type { LLMAttemptRecord } from './llmRetryPolicy';
+import type { LLMTask } from './modelProfiles';
+import { createObservableStore } from './observableStore';
+
+// other: yêu cầu không gắn tác vụ (tạo ý tưởng, ngoại hình nhân vật...)
+export type UsageTask = LLMTask | 'other';
+
+export interface UsageLedgerEntry {
+    id: number;
+    timestamp: number;
+    providerId: LLMProviderId;
+    model: string;
+    task: UsageTask;
+    saveName: string | null;        // Thế giới đang chơi; null nếu gọi ngoài màn chơi
+    promptTokens?: number;          // Không có khi backend chỉ báo tổng
+    completionTokens?: number;
+    totalTokens: number;            // 0 với lần gọi thất bại
+    latencyMs: number;
+    outcome: LLMAttemptRecord['outcome'];
+}
+
+const STORAGE_KEY = 'llm_usage_ledger';
+const MAX_LEDGER_ENTRIES = 3000;
+
+const loadEntries = (): UsageLedgerEntry[] => {
+    try {
+        const saved = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+        const parsed = saved ? JSON.parse(saved) : [];
+        return Array.isArray(parsed) ? parsed : [];
+    } catch {
+        return [];
+    }
+};
+
+/** Chuyển một lần gọi AI (kể cả thử lại thất bại) thành dòng sổ sử dụng */
+export const toUsageLedgerEntry = (
+    record: LLMAttemptRecord,
+    saveName: string | null,
+    id: number,
+    timestamp: number
+): UsageLedgerEntry => ({
+    id,
+    timestamp,
+    providerId: record.providerId,
+    model: record.model,
+    task: record.task ?? 'other',
+    saveName,
+    ...(record.usage?.promptTokens !== undefined ? { promptTokens: record.usage.promptTokens } : {}),
+    ...(record.usage?.completionTokens !== undefined ? { completionTokens: record.usage.completionTokens } : {}),
+    totalTokens: record.usage?.totalTokens ?? 0,
+    latencyMs: record.durationMs,
+    outcome: record.outcome
+});
+
+/**
+ * Sổ sử dụng token qua mọi phiên chơi, lưu trong localStorage để ước tính chi phí API key
+ */
+class UsageLedgerStore {
+    private store = createObservableStore<UsageLedgerEntry[]>(loadEntries());
+    private nextId = this.store.getSnapshot().reduce((max, entry) => Math.max(max, entry.id), 0) + 1;
+    private activeSave: string | null = null;
+
+    public readonly getEntries = this.store.getSnapshot;
+    public readonly subscribe = this.store.subscribe;
+
+    // Gọi khi vào/thoát màn chơi để gắn các yêu cầu sau đó với thế giới đang chơi
+    public setActiveSave(saveName: string | null): void {
+        this.activeSave = saveName;
+    }
+
+    public record(attempt: LLMAttemptRecord): void {
+        const entry = toUsageLedgerEntry(attempt, this.activeSave, this.nextId++, Date.now());
+        this.store.update(entries => [...entries, entry].slice(-MAX_LEDGER_ENTRIES));
+        this.persist();
+    }
+
+    public clear(): void {
+        this.store.update(() => []);
+        this.persist();
+    }
+
+    private persist(): void {
+        try {
+            localStorage.setItem(STORAGE_KEY, JSON.stringify(this.store.getSnapshot()));
+        } catch (error) {
+            console.warn('⚠️ Could not persist usage ledger:', error);
+        }
+    }
+}
+
+export const usageLedger = new UsageLedgerStore();
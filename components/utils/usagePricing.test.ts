@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_PRICE_TABLE, estimateCost, findModelPrice, NO_SAVE_LABEL, parsePriceTable, summarizeUsage } from './usagePricing';
+import { toUsageLedgerEntry } from './usageLedger';
+import type { UsageLedgerEntry } from './usageLedger';
+
+const DAY = 24 * 60 * 60 * 1000;
+const START = new Date(2025, 0, 10, 12).getTime();
+
+const entry = (overrides: Partial<UsageLedgerEntry>): UsageLedgerEntry => ({
+  id: 1, timestamp: START, providerId: 'gemini', model: 'gemini-2.5-flash', task: 'story', saveName: 'Tiên Hiệp — Lâm',
+  promptTokens: 1_000_000, completionTokens: 100_000, totalTokens: 1_100_000, latencyMs: 1000, outcome: 'success',
+  ...overrides
+});
+
+describe('usagePricing', () => {
+  it('should match prices by exact name or longest prefix and validate saved tables', () => {
+    expect(findModelPrice('gemini-2.5-flash-lite-preview', DEFAULT_PRICE_TABLE)?.model).toBe('gemini-2.5-flash-lite');
+    expect(findModelPrice('gemini-2.5-flash', DEFAULT_PRICE_TABLE)?.model).toBe('gemini-2.5-flash');
+    expect(findModelPrice('llama-3', DEFAULT_PRICE_TABLE)).toBeNull();
+
+    expect(parsePriceTable(null)).toBe(DEFAULT_PRICE_TABLE);
+    expect(parsePriceTable('[{"model":" local ","inputPerMillion":"2","outputPerMillion":-1},{"model":""}]'))
+      .toEqual([{ model: 'local', inputPerMillion: 2, outputPerMillion: 0 }]);
+  });
+
+  it('should estimate cost from prompt and completion tokens', () => {
+    expect(estimateCost(entry({}), DEFAULT_PRICE_TABLE)).toBeCloseTo(0.3 + 0.25);
+    // Chỉ biết tổng: tính hết theo giá đầu vào
+    expect(estimateCost(entry({ promptTokens: undefined, completionTokens: undefined }), DEFAULT_PRICE_TABLE)).toBeCloseTo(0.33);
+    expect(estimateCost(entry({ providerId: 'mock' }), DEFAULT_PRICE_TABLE)).toBe(0);
+    expect(estimateCost(entry({ model: 'llama-3' }), DEFAULT_PRICE_TABLE)).toBeNull();
+  });
+
+  it('should summarize the ledger per day and per save', () => {
+    const entries = [
+      entry({ id: 1 }),
+      entry({ id: 2, timestamp: START + DAY, outcome: 'quota', totalTokens: 0, promptTokens: undefined, completionTokens: undefined, latencyMs: 200 }),
+      entry({ id: 3, timestamp: START + DAY, model: 'llama-3', saveName: null, latencyMs: 400 })
+    ];
+
+    const days = summarizeUsage(entries, DEFAULT_PRICE_TABLE, 'day');
+    expect(days.map(row => [row.key, row.requests, row.failures, row.unpricedTokens, row.averageLatencyMs])).toEqual([
+      ['2025-01-10', 1, 0, 0, 1000],
+      ['2025-01-11', 2, 1, 1_100_000, 300]
+    ]);
+    expect(days[0].cost).toBeCloseTo(0.55);
+
+    expect(summarizeUsage(entries, DEFAULT_PRICE_TABLE, 'save').map(row => [row.key, row.requests])).toEqual([
+      ['Tiên Hiệp — Lâm', 2],
+      [NO_SAVE_LABEL, 1]
+    ]);
+  });
+
+  it('should turn attempt records into ledger entries', () => {
+    expect(toUsageLedgerEntry(
+      { requestId: 1, attempt: 1, providerId: 'openai-compatible', model: 'local', outcome: 'success', durationMs: 50, usage: { totalTokens: 30 } },
+      null, 7, START
+    )).toEqual({
+      id: 7, timestamp: START, providerId: 'openai-compatible', model: 'local', task: 'other', saveName: null,
+      totalTokens: 30, latencyMs: 50, outcome: 'success'
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import type { UsageLedgerEntry } from './usageLedger';
+
+// Giá USD cho mỗi 1 triệu token; model khớp chính xác hoặc theo tiền tố dài nhất
+export interface ModelPrice {
+    model: string;
+    inputPerMillion: number;
+    outputPerMillion: number;
+}
+
+export type UsageGroupBy = 'day' | 'save' | 'model' | 'task';
+
+export interface UsageSummaryRow {
+    key: string;
+    requests: number;
+    failures: number;
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+    cost: number;
+    unpricedTokens: number;     // Token của model chưa có trong bảng giá, không tính vào cost
+    averageLatencyMs: number;
+}
+
+// Giá tham khảo, người chơi sửa lại theo bảng giá hiện hành của nhà cung cấp
+export const DEFAULT_PRICE_TABLE: ModelPrice[] = [
+    { model: 'gemini-2.5-pro', inputPerMillion: 1.25, outputPerMillion: 10 },
+    { model: 'gemini-2.5-flash', inputPerMillion: 0.3, outputPerMillion: 2.5 },
+    { model: 'gemini-2.5-flash-lite', inputPerMillion: 0.1, outputPerMillion: 0.4 },
+    { model: 'gemini-2.0-flash', inputPerMillion: 0.1, outputPerMillion: 0.4 }
+];
+
+export const NO_SAVE_LABEL = '(Ngoài màn chơi)';
+
+/** Đọc bảng giá đã lưu, bỏ các dòng thiếu model hoặc giá không hợp lệ */
+export const parsePriceTable = (saved: string | null): ModelPrice[] => {
+    if (!saved) return DEFAULT_PRICE_TABLE;
+    const parsed = JSON.parse(saved);
+    if (!Array.isArray(parsed)) return DEFAULT_PRICE_TABLE;
+    return parsed
+        .filter((price: any) => typeof price?.model === 'string' && price.model.trim())
+        .map((price: any) => ({
+            model: price.model.trim(),
+            inputPerMillion: Math.max(0, Number(price.inputPerMillion) || 0),
+            outputPerMillion: Math.max(0, Number(price.outputPerMillion) || 0)
+        }));
+};
+
+export const findModelPrice = (model: string, table: ModelPrice[]): ModelPrice | null =>
+    table
+        .filter(price => price.model && model.startsWith(price.model))
+        .sort((a, b) => b.model.length - a.model.length)[0] ?? null;
+
+/**
+ * Chi phí ước tính của một lần gọi (USD), null nếu model chưa có giá. AI giả lập luôn miễn phí.
+ * Khi backend chỉ báo tổng token, phần chưa tách được tính theo giá đầu vào.
+ */
+export const estimateCost = (entry: UsageLedgerEntry, table: ModelPrice[]): number | null => {
+    if (entry.providerId === 'mock' || entry.totalTokens === 0) return 0;
+    const price = findModelPrice(entry.model, table);
+    if (!price) return null;
+    const completionTokens = entry.completionTokens ?? 0;
+    const promptTokens = entry.promptTokens ?? Math.max(0, entry.totalTokens - completionTokens);
+    return (promptTokens * price.inputPerMillion + completionTokens * price.outputPerMillion) / 1_000_000;
+};
+
+// Ngày theo giờ máy người chơi, dạng YYYY-MM-DD
+export const toDayKey = (timestamp: number): string => {
+    const date = new Date(timestamp);
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const GROUP_KEYS: Record<UsageGroupBy, (entry: UsageLedgerEntry) => string> = {
+    day: entry => toDayKey(entry.timestamp),
+    save: entry => entry.saveName ?? NO_SAVE_LABEL,
+    model: entry => entry.model,
+    task: entry => entry.task
+};
+
+/** Gom sổ sử dụng theo ngày (tăng dần) hoặc theo lưu/model/tác vụ (chi phí, rồi token giảm dần) */
+export const summarizeUsage = (entries: UsageLedgerEntry[], table: ModelPrice[], groupBy: UsageGroupBy): UsageSummaryRow[] => {
+    const rows = new Map<string, UsageSummaryRow & { latencyTotal: number }>();
+
+    entries.forEach(entry => {
+        const key = GROUP_KEYS[groupBy](entry);
+        const row = rows.get(key) ?? {
+            key, requests: 0, failures: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0,
+            cost: 0, unpricedTokens: 0, averageLatencyMs: 0, latencyTotal: 0
+        };
+        const cost = estimateCost(entry, table);
+
+        row.requests++;
+        if (entry.outcome !== 'success') row.failures++;
+        row.promptTokens += entry.promptTokens ?? 0;
+        row.completionTokens += entry.completionTokens ?? 0;
+        row.totalTokens += entry.totalTokens;
+        if (cost === null) row.unpricedTokens += entry.totalTokens;
+        else row.cost += cost;
+        row.latencyTotal += entry.latencyMs;
+        row.averageLatencyMs = Math.round(row.latencyTotal / row.requests);
+        rows.set(key, row);
+    });
+
+    const result: UsageSummaryRow[] = [...rows.values()].map(({ latencyTotal, ...row }) => row);
+    return groupBy === 'day'
+        ? result.sort((a, b) => a.key.localeCompare(b.key))
+        : result.sort((a, b) => b.cost - a.cost || b.totalTokens - a.totalTokens);
+};
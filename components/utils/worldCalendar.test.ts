@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import {
+  advanceGameTime, CALENDAR_PRESETS, DEFAULT_CALENDAR, describeGameTime, formatCalendarDate,
+  formatCalendarForPrompt, normalizeCalendar
+} from './worldCalendar';
+
+const none = { years: 0, months: 0, days: 0, hours: 0, minutes: 0 };
+const fantasy = CALENDAR_PRESETS.find(preset => preset.id === 'fantasy')!.calendar;
+
+describe('worldCalendar', () => {
+  it('should keep the old 30-day month arithmetic for the default calendar', () => {
+    expect(advanceGameTime({ year: 1, month: 12, day: 30, hour: 23, minute: 50 }, { ...none, minutes: 15 }))
+      .toEqual({ year: 2, month: 1, day: 1, hour: 0, minute: 5 });
+    expect(advanceGameTime({ year: 1, month: 1, day: 1, hour: 8 }, { ...none, days: 45, months: 2, years: 1 }))
+      .toEqual({ year: 2, month: 4, day: 16, hour: 8, minute: 0 });
+  });
+
+  it('should roll days over variable month lengths and clamp days when adding months', () => {
+    // Tháng Băng Giá (tháng 12) chỉ có 29 ngày
+    expect(advanceGameTime({ year: 3, month: 12, day: 29, hour: 8 }, { ...none, days: 1 }, fantasy))
+      .toMatchObject({ year: 4, month: 1, day: 1 });
+    expect(advanceGameTime({ year: 3, month: 11, day: 30, hour: 8 }, { ...none, months: 1 }, fantasy))
+      .toMatchObject({ year: 3, month: 12, day: 29 });
+    // Tua nhanh nhiều năm bằng số ngày
+    expect(advanceGameTime({ year: 3, month: 2, day: 10, hour: 8 }, { ...none, days: 365 * 10 }, fantasy))
+      .toMatchObject({ year: 13, month: 2, day: 10 });
+  });
+
+  it('should describe weekday, season and era', () => {
+    expect(describeGameTime({ year: 1, month: 1, day: 1, hour: 0 }, fantasy).weekday).toBe('Ngày Mặt Trời');
+    expect(describeGameTime({ year: 1, month: 1, day: 8, hour: 0 }, fantasy).weekday).toBe('Ngày Mặt Trời');
+    // 365 ngày/năm: năm 2 bắt đầu lệch 1 ngày trong tuần
+    expect(describeGameTime({ year: 2, month: 1, day: 1, hour: 0 }, fantasy).weekday).toBe('Ngày Mặt Trăng');
+
+    const withEras = { ...fantasy, eras: [{ name: 'Kỷ Nguyên Thứ Nhất', startYear: 1 }, { name: 'Kỷ Nguyên Thứ Hai', startYear: 500 }] };
+    expect(formatCalendarDate({ year: 512, month: 3, day: 5, hour: 0 }, withEras))
+      .toBe('Ngày Lửa, Ngày 5 Tháng Hoa Nở, Năm 13 Kỷ Nguyên Thứ Hai (Mùa Xuân)');
+    expect(formatCalendarDate({ year: 1000, month: 1, day: 1, hour: 0 }, DEFAULT_CALENDAR)).toBe('Ngày 1 Tháng 1, Năm 1000 (Mùa Xuân)');
+  });
+
+  it('should normalize edited calendars and only describe custom ones in the prompt', () => {
+    expect(normalizeCalendar(undefined)).toBe(DEFAULT_CALENDAR);
+    expect(normalizeCalendar({ months: [{ name: ' ', days: 30 }] })).toBe(DEFAULT_CALENDAR);
+    expect(normalizeCalendar({
+      months: [{ name: ' Tháng Một ', days: 0 }],
+      weekdays: ['A', ' ', 'B '],
+      eras: [{ name: 'Sau', startYear: 10 }, { name: '', startYear: 1 }, { name: 'Trước', startYear: 1 }]
+    })).toEqual({
+      months: [{ name: 'Tháng Một', days: 1 }],
+      weekdays: ['A', 'B'],
+      eras: [{ name: 'Trước', startYear: 1 }, { name: 'Sau', startYear: 10 }]
+    });
+
+    expect(formatCalendarForPrompt(DEFAULT_CALENDAR)).toBe('');
+    expect(formatCalendarForPrompt(fantasy)).toContain('12 tháng/năm, 365 ngày/năm');
+  });
+});
@@ -0,0 +1,213 @@
+import type { CalendarEra, WorldCalendar } from '../types';
+
+/**
+ * Lịch của thế giới: cộng thời gian theo độ dài tháng thật, tính thứ, mùa và kỷ nguyên
+ * để hiển thị và đưa vào prompt.
+ */
+
+export interface CalendarTime {
+    year: number;
+    month: number;
+    day: number;
+    hour: number;
+    minute?: number;
+}
+
+export interface TimeElapsed {
+    years: number;
+    months: number;
+    days: number;
+    hours: number;
+    minutes: number;
+}
+
+export interface CalendarDateInfo {
+    monthName: string;
+    weekday?: string;
+    season?: string;
+    era?: { name: string; year: number };
+}
+
+export interface CalendarPreset {
+    id: string;
+    label: string;
+    calendar: WorldCalendar;
+}
+
+const SEASONS = ['Xuân', 'Hạ', 'Thu', 'Đông'];
+
+// Tương đương cách tính cũ: 12 tháng, mỗi tháng 30 ngày
+export const DEFAULT_CALENDAR: WorldCalendar = {
+    months: Array.from({ length: 12 }, (_, index) => ({ name: `Tháng ${index + 1}`, days: 30, season: SEASONS[Math.floor(index / 3)] })),
+    weekdays: [],
+    eras: []
+};
+
+const LUNAR_MONTH_NAMES = [
+    'Tháng Giêng', 'Tháng Hai', 'Tháng Ba', 'Tháng Tư', 'Tháng Năm', 'Tháng Sáu',
+    'Tháng Bảy', 'Tháng Tám', 'Tháng Chín', 'Tháng Mười', 'Tháng Một', 'Tháng Chạp'
+];
+
+export const CALENDAR_PRESETS: CalendarPreset[] = [
+    { id: 'default', label: 'Mặc định (12 tháng × 30 ngày)', calendar: DEFAULT_CALENDAR },
+    {
+        id: 'lunar',
+        label: 'Âm lịch tu tiên',
+        calendar: {
+            months: LUNAR_MONTH_NAMES.map((name, index) => ({ name, days: index % 2 === 0 ? 30 : 29, season: SEASONS[Math.floor(index / 3)] })),
+            weekdays: [],
+            eras: [{ name: 'Thiên Nguyên', startYear: 1 }]
+        }
+    },
+    {
+        id: 'fantasy',
+        label: 'Lịch kỳ ảo phương Tây',
+        calendar: {
+            months: [
+                { name: 'Tháng Tuyết Tan', days: 31, season: 'Xuân' },
+                { name: 'Tháng Gieo Hạt', days: 30, season: 'Xuân' },
+                { name: 'Tháng Hoa Nở', days: 31, season: 'Xuân' },
+                { name: 'Tháng Mặt Trời', days: 30, season: 'Hạ' },
+                { name: 'Tháng Lửa Hạ', days: 31, season: 'Hạ' },
+                { name: 'Tháng Mùa Gặt', days: 31, season: 'Hạ' },
+                { name: 'Tháng Lá Rụng', days: 30, season: 'Thu' },
+                { name: 'Tháng Sương Mù', days: 31, season: 'Thu' },
+                { name: 'Tháng Săn Bắn', days: 30, season: 'Thu' },
+                { name: 'Tháng Gió Bấc', days: 31, season: 'Đông' },
+                { name: 'Tháng Đêm Dài', days: 30, season: 'Đông' },
+                { name: 'Tháng Băng Giá', days: 29, season: 'Đông' }
+            ],
+            weekdays: ['Ngày Mặt Trời', 'Ngày Mặt Trăng', 'Ngày Lửa', 'Ngày Nước', 'Ngày Gió', 'Ngày Đất', 'Ngày Tinh Tú'],
+            eras: [{ name: 'Kỷ Nguyên Thứ Ba', startYear: 1 }]
+        }
+    }
+];
+
+/** Làm sạch lịch do người chơi nhập hoặc từ bản lưu; không có tháng hợp lệ thì dùng lịch mặc định */
+export const normalizeCalendar = (calendar?: Partial<WorldCalendar> | null): WorldCalendar => {
+    const months = (calendar?.months || [])
+        .filter(month => month && month.name?.trim())
+        .map(month => ({
+            ...month,
+            name: month.name.trim(),
+            days: Math.max(1, Math.floor(Number(month.days)) || 1)
+        }));
+    if (months.length === 0) return DEFAULT_CALENDAR;
+
+    return {
+        months,
+        weekdays: (calendar?.weekdays || []).map(day => day.trim()).filter(Boolean),
+        eras: (calendar?.eras || [])
+            .filter(era => era && era.name?.trim() && Number.isFinite(era.startYear))
+            .map(era => ({ name: era.name.trim(), startYear: era.startYear }))
+            .sort((a, b) => a.startYear - b.startYear)
+    };
+};
+
+// Tháng ngoài phạm vi (bản lưu đổi lịch giữa chừng) được kẹp về tháng gần nhất
+const getMonth = (calendar: WorldCalendar, month: number) =>
+    calendar.months[Math.min(calendar.months.length, Math.max(1, month)) - 1];
+
+export const getDaysInMonth = (calendar: WorldCalendar, month: number): number => getMonth(calendar, month).days;
+
+export const getDaysInYear = (calendar: WorldCalendar): number =>
+    calendar.months.reduce((total, month) => total + month.days, 0);
+
+/**
+ * Cộng thời gian trôi qua (thẻ TIME_ELAPSED). Năm và tháng được cộng trước, ngày bị kẹp nếu tháng mới ngắn hơn,
+ * sau đó số ngày dư tràn sang các tháng tiếp theo theo độ dài thật của từng tháng.
+ */
+export const advanceGameTime = (
+    current: CalendarTime,
+    elapsed: TimeElapsed,
+    calendar: WorldCalendar = DEFAULT_CALENDAR
+): { year: number; month: number; day: number; hour: number; minute: number } => {
+    const monthCount = calendar.months.length;
+
+    let minute = (current.minute || 0) + elapsed.minutes;
+    let hour = current.hour + elapsed.hours + Math.floor(minute / 60);
+    minute = minute % 60;
+    const extraDays = elapsed.days + Math.floor(hour / 24);
+    hour = hour % 24;
+
+    const monthIndex = current.month - 1 + elapsed.months;
+    let year = current.year + elapsed.years + Math.floor(monthIndex / monthCount);
+    let month = (monthIndex % monthCount) + 1;
+    let day = Math.min(current.day, getDaysInMonth(calendar, month)) + extraDays;
+
+    // Bỏ qua cả năm trước để không phải lặp từng tháng khi tua nhanh nhiều năm
+    const daysInYear = getDaysInYear(calendar);
+    const wholeYears = Math.floor((day - 1) / daysInYear);
+    year += wholeYears;
+    day -= wholeYears * daysInYear;
+
+    while (day > getDaysInMonth(calendar, month)) {
+        day -= getDaysInMonth(calendar, month);
+        month++;
+        if (month > monthCount) {
+            month = 1;
+            year++;
+        }
+    }
+
+    return { year, month, day, hour, minute };
+};
+
+/** Số ngày kể từ Ngày 1 Tháng đầu Năm 1, dùng để tính thứ */
+export const getDayNumber = (time: CalendarTime, calendar: WorldCalendar): number => {
+    const month = Math.min(calendar.months.length, Math.max(1, time.month));
+    const daysBeforeMonth = calendar.months.slice(0, month - 1).reduce((total, entry) => total + entry.days, 0);
+    return (time.year - 1) * getDaysInYear(calendar) + daysBeforeMonth + time.day - 1;
+};
+
+/** Số phút trôi qua giữa hai thời điểm theo lịch */
+export const getElapsedMinutes = (from: CalendarTime, to: CalendarTime, calendar: WorldCalendar): number =>
+    (getDayNumber(to, calendar) - getDayNumber(from, calendar)) * 24 * 60
+    + (to.hour - from.hour) * 60 + ((to.minute || 0) - (from.minute || 0));
+
+export const findEra = (year: number, calendar: WorldCalendar): CalendarEra | undefined =>
+    [...calendar.eras].reverse().find(era => era.startYear <= year);
+
+export const describeGameTime = (time: CalendarTime, calendar: WorldCalendar): CalendarDateInfo => {
+    const month = getMonth(calendar, time.month);
+    const weekdayCount = calendar.weekdays.length;
+    const era = findEra(time.year, calendar);
+    const dayNumber = getDayNumber(time, calendar);
+
+    return {
+        monthName: month.name,
+        weekday: weekdayCount > 0 ? calendar.weekdays[((dayNumber % weekdayCount) + weekdayCount) % weekdayCount] : undefined,
+        season: month.season || undefined,
+        era: era ? { name: era.name, year: time.year - era.startYear + 1 } : undefined
+    };
+};
+
+/** VD: "Ngày Lửa, Ngày 5 Tháng Hoa Nở, Năm 12 Kỷ Nguyên Thứ Ba (Mùa Xuân)" */
+export const formatCalendarDate = (time: CalendarTime, calendar: WorldCalendar): string => {
+    const info = describeGameTime(time, calendar);
+    const yearText = info.era ? `Năm ${info.era.year} ${info.era.name}` : `Năm ${time.year}`;
+    const date = `Ngày ${time.day} ${info.monthName}, ${yearText}`;
+    return `${info.weekday ? `${info.weekday}, ` : ''}${date}${info.season ? ` (Mùa ${info.season})` : ''}`;
+};
+
+export const getTimeOfDay = (hour: number): string =>
+    hour >= 6 && hour < 12 ? 'Sáng' :
+    hour >= 12 && hour < 18 ? 'Chiều' :
+    hour >= 18 && hour < 22 ? 'Tối' : 'Đêm';
+
+export const isDefaultCalendar = (calendar: WorldCalendar): boolean =>
+    JSON.stringify(calendar) === JSON.stringify(DEFAULT_CALENDAR);
+
+/** Mô tả ngắn cấu trúc lịch cho AI; lịch mặc định không cần mô tả */
+export const formatCalendarForPrompt = (calendar: WorldCalendar): string => {
+    if (isDefaultCalendar(calendar)) return '';
+    const months = calendar.months.map(month => `${month.name} (${month.days} ngày)`).join(', ');
+    const lines = [`Lịch thế giới: ${calendar.months.length} tháng/năm, ${getDaysInYear(calendar)} ngày/năm — ${months}.`];
+    if (calendar.weekdays.length > 0) {
+        lines.push(`Tuần ${calendar.weekdays.length} ngày: ${calendar.weekdays.join(', ')}.`);
+    }
+    if (calendar.eras.length > 0) {
+        lines.push(`Kỷ nguyên: ${calendar.eras.map(era => `${era.name} (từ năm ${era.startYear})`).join(', ')}.`);
+    }
+    return lines.join('\n');
+};
@@ -0,0 +1,16 @@
+import type { CommandTagState } from '../../components/utils/commandTagProcessor';
+
+// Trạng thái mẫu dùng chung cho các test thẻ lệnh; chỉ có nhân vật chính
+export const createCommandTagState = (overrides: Partial<CommandTagState> = {}): CommandTagState => ({
+  gameTime: { year: 1, month: 1, day: 1, hour: 8, minute: 0 },
+  chronicle: { memoir: [], chapter: [], turn: [] },
+  memories: [],
+  statuses: [],
+  knownEntities: {
+    'Lâm Phong': { name: 'Lâm Phong', type: 'pc', description: 'Thiếu niên', currentExp: 0, realm: 'Luyện Khí' }
+  },
+  quests: [],
+  party: [],
+  locationDiscoveryOrder: [],
+  ...overrides
+});